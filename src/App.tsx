@@ -12,9 +12,11 @@ import FitGuard from "./pages/FitGuard";
 import RescueGuard from "./pages/RescueGuard";
 import FundGuard from "./pages/FundGuard";
 import HealthJournal from "./pages/HealthJournal";
+import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 import Navbar from "./components/Navbar";
 import { ThemeProvider } from "@/components/ThemeProvider";
+import { AuthProvider } from "@/components/AuthProvider";
 
 const queryClient = new QueryClient();
 
@@ -25,19 +27,22 @@ const App = () => (
         <Toaster />
         <Sonner />
         <BrowserRouter>
-          <Navbar />
-          <Routes>
-            <Route path="/" element={<Dashboard />} />
-            <Route path="/chatbot" element={<Chatbot />} />
-            <Route path="/medguard" element={<MedGuard />} />
-            <Route path="/predictguard" element={<PredictGuard />} />
-            <Route path="/mindguard" element={<MindGuard />} />
-            <Route path="/fitguard" element={<FitGuard />} />
-            <Route path="/rescueguard" element={<RescueGuard />} />
-            <Route path="/fundguard" element={<FundGuard />} />
-            <Route path="/health-journal" element={<HealthJournal />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+          <AuthProvider>
+            <Navbar />
+            <Routes>
+              <Route path="/" element={<Dashboard />} />
+              <Route path="/chatbot" element={<Chatbot />} />
+              <Route path="/medguard" element={<MedGuard />} />
+              <Route path="/predictguard" element={<PredictGuard />} />
+              <Route path="/mindguard" element={<MindGuard />} />
+              <Route path="/fitguard" element={<FitGuard />} />
+              <Route path="/rescueguard" element={<RescueGuard />} />
+              <Route path="/fundguard" element={<FundGuard />} />
+              <Route path="/health-journal" element={<HealthJournal />} />
+              <Route path="/auth" element={<Auth />} />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </AuthProvider>
         </BrowserRouter>
       </TooltipProvider>
     </ThemeProvider>
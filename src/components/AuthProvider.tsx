@@ -0,0 +1,58 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { getStorageScope } from "@/lib/storageScope";
+import { getScopeKey, subscribeToScope, switchUser } from "@/lib/activeScope";
+import { AuthContext, AuthState } from "@/hooks/use-auth";
+
+type AuthProviderProps = {
+  children: React.ReactNode;
+};
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  const [session, setSession] = useState<Session | null>(null);
+  // Changes after switching users or profiles so every page remounts and reloads its data
+  const scopeKey = useSyncExternalStore(subscribeToScope, getScopeKey);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+
+      const userId = nextSession?.user.id ?? null;
+      if (userId !== getStorageScope()) {
+        // Run outside the auth callback; awaiting Supabase calls in it can deadlock
+        setTimeout(() => {
+          switchUser(userId);
+        }, 0);
+      }
+    });
+
+    supabase.auth.getSession().then(({ data }) => setSession(data.session));
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const value: AuthState = {
+    session,
+    user: session?.user ?? null,
+    signInWithEmail: async (email: string) => {
+      const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: { emailRedirectTo: `${window.location.origin}/health-journal` },
+      });
+      if (error) throw error;
+    },
+    signOut: async () => {
+      const { error } = await supabase.auth.signOut();
+      if (error) throw error;
+    },
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      <div key={scopeKey} className="contents">
+        {children}
+      </div>
+    </AuthContext.Provider>
+  );
+}
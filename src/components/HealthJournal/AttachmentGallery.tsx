@@ -3,9 +3,13 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Image, FileText, Microscope, Pill, Download, ZoomIn, X } from "lucide-react";
+import { Image, FileText, Microscope, Pill, Download, ZoomIn, X, Loader2 } from "lucide-react";
 import { Attachment, AttachmentType } from "@/lib/healthJournalTypes";
+import { getAttachmentBlob, isImageAttachment } from "@/lib/healthJournalAttachments";
+import { useAttachmentUrl } from "@/hooks/use-attachment-url";
 import { format } from "date-fns";
+import { toast } from "sonner";
+import AttachmentThumbnail from "./AttachmentThumbnail";
 
 interface AttachmentGalleryProps {
   attachments: Attachment[];
@@ -54,13 +58,21 @@ const AttachmentGallery = ({ attachments, compact = false }: AttachmentGalleryPr
     }
   };
 
-  const handleDownload = (attachment: Attachment) => {
+  const handleDownload = async (attachment: Attachment) => {
+    const blob = await getAttachmentBlob(attachment.id);
+    if (!blob) {
+      toast.error("Attachment file not found");
+      return;
+    }
+
+    const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
-    link.href = attachment.dataUrl;
+    link.href = url;
     link.download = attachment.fileName;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(url);
   };
 
   const formatFileSize = (bytes: number): string => {
@@ -83,17 +95,11 @@ const AttachmentGallery = ({ attachments, compact = false }: AttachmentGalleryPr
               className="h-8 w-8 rounded border-2 border-background overflow-hidden cursor-pointer hover:scale-110 transition-transform"
               onClick={() => setSelectedAttachment(attachment)}
             >
-              {attachment.dataUrl.startsWith('data:image') ? (
-                <img 
-                  src={attachment.dataUrl} 
-                  alt={attachment.fileName}
-                  className="h-full w-full object-cover"
-                />
-              ) : (
-                <div className="h-full w-full bg-muted flex items-center justify-center">
-                  <FileText className="h-4 w-4 text-muted-foreground" />
-                </div>
-              )}
+              <AttachmentThumbnail
+                attachment={attachment}
+                className="h-full w-full"
+                iconClassName="h-4 w-4"
+              />
             </div>
           ))}
         </div>
@@ -122,20 +128,12 @@ const AttachmentGallery = ({ attachments, compact = false }: AttachmentGalleryPr
           >
             {/* Thumbnail */}
             <div className="aspect-square bg-muted relative">
-              {attachment.dataUrl.startsWith('data:image') ? (
-                <img 
-                  src={attachment.dataUrl} 
-                  alt={attachment.fileName}
-                  className="h-full w-full object-cover"
-                />
-              ) : (
-                <div className="h-full w-full flex flex-col items-center justify-center p-4">
-                  <FileText className="h-12 w-12 text-muted-foreground mb-2" />
-                  <p className="text-xs text-center text-muted-foreground truncate w-full">
-                    {attachment.fileName}
-                  </p>
-                </div>
-              )}
+              <AttachmentThumbnail
+                attachment={attachment}
+                className="h-full w-full"
+                iconClassName="h-12 w-12"
+                showFileName
+              />
               
               {/* Hover Overlay */}
               <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
@@ -179,6 +177,10 @@ interface AttachmentViewDialogProps {
 }
 
 const AttachmentViewDialog = ({ attachment, onClose, onDownload }: AttachmentViewDialogProps) => {
+  // Full-size files are only read from the blob store once the dialog opens
+  const isImage = isImageAttachment(attachment);
+  const fullUrl = useAttachmentUrl(attachment.id, "full", isImage);
+
   const getTypeIcon = (type: AttachmentType) => {
     switch (type) {
       case "image":
@@ -249,12 +251,18 @@ const AttachmentViewDialog = ({ attachment, onClose, onDownload }: AttachmentVie
         <div className="space-y-4">
           {/* File Preview */}
           <div className="bg-muted rounded-lg overflow-hidden">
-            {attachment.dataUrl.startsWith('data:image') ? (
-              <img 
-                src={attachment.dataUrl} 
-                alt={attachment.fileName}
-                className="w-full h-auto max-h-[60vh] object-contain"
-              />
+            {isImage ? (
+              fullUrl ? (
+                <img 
+                  src={fullUrl} 
+                  alt={attachment.fileName}
+                  className="w-full h-auto max-h-[60vh] object-contain"
+                />
+              ) : (
+                <div className="p-12 flex justify-center">
+                  <Loader2 className="h-8 w-8 text-muted-foreground animate-spin" />
+                </div>
+              )
             ) : (
               <div className="p-12 text-center">
                 <FileText className="h-24 w-24 mx-auto text-muted-foreground mb-4" />
@@ -0,0 +1,41 @@
+import { FileText } from "lucide-react";
+import { Attachment } from "@/lib/healthJournalTypes";
+import { isImageAttachment } from "@/lib/healthJournalAttachments";
+import { useAttachmentUrl } from "@/hooks/use-attachment-url";
+import { cn } from "@/lib/utils";
+
+interface AttachmentThumbnailProps {
+  attachment: Attachment;
+  className?: string;
+  iconClassName?: string;
+  showFileName?: boolean;
+}
+
+const AttachmentThumbnail = ({ attachment, className, iconClassName, showFileName = false }: AttachmentThumbnailProps) => {
+  const showImage = isImageAttachment(attachment) && attachment.hasThumbnail !== false;
+  const thumbnailUrl = useAttachmentUrl(attachment.id, "thumbnail", showImage);
+
+  if (showImage && thumbnailUrl) {
+    return (
+      <img
+        src={thumbnailUrl}
+        alt={attachment.fileName}
+        loading="lazy"
+        className={cn("object-cover", className)}
+      />
+    );
+  }
+
+  return (
+    <div className={cn("bg-muted flex flex-col items-center justify-center", className)}>
+      <FileText className={cn("text-muted-foreground", iconClassName)} />
+      {showFileName && (
+        <p className="text-xs text-center text-muted-foreground truncate w-full px-4 mt-2">
+          {attachment.fileName}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentThumbnail;
@@ -8,7 +8,9 @@ import { Card } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Upload, X, Image, FileText, Microscope, Pill, AlertCircle } from "lucide-react";
 import { Attachment, AttachmentType } from "@/lib/healthJournalTypes";
+import { hasStoredThumbnail, saveAttachmentBlob } from "@/lib/healthJournalAttachments";
 import { toast } from "sonner";
+import AttachmentThumbnail from "./AttachmentThumbnail";
 
 interface AttachmentUploaderProps {
   attachments: Attachment[];
@@ -99,15 +101,17 @@ const AttachmentUploader = ({
           continue;
         }
 
-        // Convert to base64
-        const dataUrl = await readFileAsDataURL(file);
+        // Store the file as a blob, referenced from the entry by id
+        const id = `attachment-${Date.now()}-${i}`;
+        const stored = await saveAttachmentBlob(id, file);
 
         const attachment: Attachment = {
-          id: `attachment-${Date.now()}-${i}`,
+          id,
           type: selectedType,
           fileName: file.name,
           fileSize: file.size,
-          dataUrl,
+          mimeType: file.type,
+          hasThumbnail: hasStoredThumbnail(stored),
           uploadedAt: Date.now()
         };
 
@@ -129,15 +133,6 @@ const AttachmentUploader = ({
     }
   };
 
-  const readFileAsDataURL = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
-  };
-
   const handleRemoveAttachment = (attachmentId: string) => {
     onAttachmentsChange(attachments.filter(a => a.id !== attachmentId));
     toast.success("Attachment removed");
@@ -231,17 +226,11 @@ const AttachmentUploader = ({
               <Card key={attachment.id} className="p-3">
                 <div className="flex items-center gap-3">
                   {/* Preview Thumbnail */}
-                  {attachment.dataUrl.startsWith('data:image') ? (
-                    <img 
-                      src={attachment.dataUrl} 
-                      alt={attachment.fileName}
-                      className="h-12 w-12 object-cover rounded border"
-                    />
-                  ) : (
-                    <div className="h-12 w-12 bg-muted rounded border flex items-center justify-center">
-                      <FileText className="h-6 w-6 text-muted-foreground" />
-                    </div>
-                  )}
+                  <AttachmentThumbnail
+                    attachment={attachment}
+                    className="h-12 w-12 rounded border"
+                    iconClassName="h-6 w-6"
+                  />
 
                   {/* File Info */}
                   <div className="flex-1 min-w-0">
@@ -0,0 +1,41 @@
+import { BODY_MAP_HEIGHT, BODY_MAP_WIDTH, BODY_SIDE_LABELS, BodySide, getPainColor, getRegionsForSide } from "@/lib/bodyMap";
+
+interface BodyMapFigureProps {
+  side: BodySide;
+  intensities: Record<string, number>; // Region id to the intensity to shade it with
+  selectedRegion?: string | null;
+  onRegionClick?: (region: string) => void;
+  className?: string;
+}
+
+const BodyMapFigure = ({ side, intensities, selectedRegion, onRegionClick, className }: BodyMapFigureProps) => (
+  <svg
+    viewBox={`0 0 ${BODY_MAP_WIDTH} ${BODY_MAP_HEIGHT}`}
+    className={className}
+    role="img"
+    aria-label={`Body map, ${BODY_SIDE_LABELS[side].toLowerCase()} view`}
+  >
+    {getRegionsForSide(side).map(({ region, shape }) => {
+      const props = {
+        fill: getPainColor(intensities[region.id] ?? 0),
+        stroke: selectedRegion === region.id ? "#1d4ed8" : "#9ca3af",
+        strokeWidth: selectedRegion === region.id ? 1.5 : 0.5,
+        className: onRegionClick ? "cursor-pointer hover:opacity-80 transition-opacity" : undefined,
+        onClick: onRegionClick ? () => onRegionClick(region.id) : undefined,
+      };
+      const intensity = intensities[region.id];
+      const title = <title>{intensity ? `${region.label}: ${Math.round(intensity * 10) / 10}/10` : region.label}</title>;
+      return shape.kind === "ellipse" ? (
+        <ellipse key={region.id} cx={shape.cx} cy={shape.cy} rx={shape.rx} ry={shape.ry} {...props}>
+          {title}
+        </ellipse>
+      ) : (
+        <rect key={region.id} x={shape.x} y={shape.y} width={shape.width} height={shape.height} rx={3} {...props}>
+          {title}
+        </rect>
+      );
+    })}
+  </svg>
+);
+
+export default BodyMapFigure;
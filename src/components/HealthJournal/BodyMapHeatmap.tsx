@@ -0,0 +1,98 @@
+import { useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { format, subDays } from "date-fns";
+import { PersonStanding } from "lucide-react";
+import { JournalEntry } from "@/lib/healthJournalTypes";
+import { BODY_SIDE_LABELS, BodySide, getPainColor, getRegionLabel, summarizePainRegions } from "@/lib/bodyMap";
+import BodyMapFigure from "./BodyMapFigure";
+
+interface BodyMapHeatmapProps {
+  entries: JournalEntry[];
+}
+
+const RANGES = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "all", label: "All time" },
+];
+
+const SIDES: BodySide[] = ["front", "back"];
+const LEGEND_STEPS = [1, 4, 7, 10];
+
+const BodyMapHeatmap = ({ entries }: BodyMapHeatmapProps) => {
+  const [range, setRange] = useState("30");
+
+  const summaries = useMemo(() => {
+    const since = range === "all" ? "" : format(subDays(new Date(), parseInt(range, 10) - 1), "yyyy-MM-dd");
+    return summarizePainRegions(entries.filter(entry => entry.date >= since));
+  }, [entries, range]);
+
+  if (!entries.some(entry => entry.painRegions?.length)) return null;
+
+  const intensities = Object.fromEntries(summaries.map(summary => [summary.region, summary.averageIntensity]));
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <PersonStanding className="h-5 w-5 text-red-500" />
+          Pain Map
+        </h3>
+        <Select value={range} onValueChange={setRange}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGES.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {summaries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No pain marked in this period.</p>
+      ) : (
+        <div className="flex flex-col md:flex-row gap-6">
+          <div className="flex justify-center gap-4">
+            {SIDES.map(side => (
+              <div key={side} className="flex flex-col items-center gap-1">
+                <BodyMapFigure side={side} intensities={intensities} className="h-64 w-auto" />
+                <span className="text-xs text-muted-foreground">{BODY_SIDE_LABELS[side]}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex-1 space-y-3">
+            <p className="text-sm text-muted-foreground">Regions are shaded by average intensity on the days they were marked.</p>
+            {summaries.slice(0, 6).map(summary => (
+              <div key={summary.region} className="flex items-center justify-between gap-2 text-sm">
+                <span className="flex items-center gap-2">
+                  <span className="h-3 w-3 rounded-full" style={{ backgroundColor: getPainColor(summary.averageIntensity) }} />
+                  <span className="font-medium">{getRegionLabel(summary.region)}</span>
+                </span>
+                <span className="text-muted-foreground">
+                  {summary.days} {summary.days === 1 ? "day" : "days"} · avg {summary.averageIntensity.toFixed(1)} · max{" "}
+                  {summary.maxIntensity}
+                </span>
+              </div>
+            ))}
+            <div className="flex items-center gap-2 pt-2 text-xs text-muted-foreground">
+              Mild
+              {LEGEND_STEPS.map(step => (
+                <span key={step} className="h-2 w-6 rounded" style={{ backgroundColor: getPainColor(step) }} />
+              ))}
+              Severe
+            </div>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default BodyMapHeatmap;
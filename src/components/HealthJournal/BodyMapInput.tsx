@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { X } from "lucide-react";
+import { PainRegion } from "@/lib/healthJournalTypes";
+import {
+  BODY_SIDE_LABELS,
+  BodySide,
+  DEFAULT_PAIN_INTENSITY,
+  MAX_PAIN_INTENSITY,
+  MIN_PAIN_INTENSITY,
+  formatPainRegion,
+  getPainColor,
+  getRegionLabel,
+} from "@/lib/bodyMap";
+import BodyMapFigure from "./BodyMapFigure";
+
+interface BodyMapInputProps {
+  regions: PainRegion[];
+  onRegionsChange: (regions: PainRegion[]) => void;
+}
+
+const SIDES: BodySide[] = ["front", "back"];
+
+const BodyMapInput = ({ regions, onRegionsChange }: BodyMapInputProps) => {
+  const [side, setSide] = useState<BodySide>("front");
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const intensities = Object.fromEntries(regions.map(pain => [pain.region, pain.intensity]));
+  const selectedPain = regions.find(pain => pain.region === selected);
+
+  // Tapping an unmarked region marks it; tapping a marked one selects it for adjusting
+  const handleRegionClick = (region: string) => {
+    if (!regions.some(pain => pain.region === region)) {
+      onRegionsChange([...regions, { region, intensity: DEFAULT_PAIN_INTENSITY }]);
+    }
+    setSelected(region);
+  };
+
+  const setIntensity = (region: string, intensity: number) =>
+    onRegionsChange(regions.map(pain => pain.region === region ? { ...pain, intensity } : pain));
+
+  const removeRegion = (region: string) => {
+    onRegionsChange(regions.filter(pain => pain.region !== region));
+    if (selected === region) setSelected(null);
+  };
+
+  return (
+    <div>
+      <Label className="mb-3 block">Where does it hurt?</Label>
+      <div className="flex flex-col md:flex-row gap-4">
+        <div className="flex flex-col items-center gap-2">
+          <div className="flex gap-1">
+            {SIDES.map(s => (
+              <Button
+                key={s}
+                type="button"
+                size="sm"
+                variant={side === s ? "default" : "outline"}
+                onClick={() => setSide(s)}
+              >
+                {BODY_SIDE_LABELS[s]}
+              </Button>
+            ))}
+          </div>
+          <BodyMapFigure
+            side={side}
+            intensities={intensities}
+            selectedRegion={selected}
+            onRegionClick={handleRegionClick}
+            className="h-64 w-auto"
+          />
+        </div>
+
+        <div className="flex-1 space-y-3">
+          {regions.length === 0 && (
+            <p className="text-sm text-muted-foreground">Tap the body map to mark where you feel pain.</p>
+          )}
+          {selectedPain && (
+            <div className="p-3 border rounded-lg space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">{getRegionLabel(selectedPain.region)}</span>
+                <span className="text-muted-foreground">
+                  {selectedPain.intensity}/{MAX_PAIN_INTENSITY}
+                </span>
+              </div>
+              <Slider
+                min={MIN_PAIN_INTENSITY}
+                max={MAX_PAIN_INTENSITY}
+                step={1}
+                value={[selectedPain.intensity]}
+                onValueChange={([intensity]) => setIntensity(selectedPain.region, intensity)}
+                aria-label={`${getRegionLabel(selectedPain.region)} pain intensity`}
+              />
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {regions.map(pain => (
+              <Badge
+                key={pain.region}
+                variant="outline"
+                className="cursor-pointer"
+                style={{ borderColor: getPainColor(pain.intensity) }}
+                onClick={() => setSelected(pain.region)}
+              >
+                <span className="h-2 w-2 rounded-full mr-1" style={{ backgroundColor: getPainColor(pain.intensity) }} />
+                {formatPainRegion(pain)}
+                <X
+                  className="h-3 w-3 ml-1 cursor-pointer"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    removeRegion(pain.region);
+                  }}
+                />
+              </Badge>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BodyMapInput;
@@ -4,12 +4,26 @@ import { JournalEntry, MOOD_LABELS } from "@/lib/healthJournalTypes";
 import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
 import { format } from "date-fns";
 import { TrendingUp, Moon, Brain } from "lucide-react";
+import { getPeakSeverity, summarizeSymptoms } from "@/lib/healthSymptoms";
+import { rollUpByDay } from "@/lib/journalDays";
+import VitalsChart from "./VitalsChart";
+import LabResultsChart from "./LabResultsChart";
+import CycleChart from "./CycleChart";
+import MedicationAdherenceCard from "./MedicationAdherenceCard";
+import TrackersChart from "./TrackersChart";
+import NutritionChart from "./NutritionChart";
+import IntakeChart from "./IntakeChart";
+import BodyMapHeatmap from "./BodyMapHeatmap";
+import SleepHealthChart from "./SleepHealthChart";
 
 interface ChartsViewProps {
   entries: JournalEntry[];
 }
 
-const ChartsView = ({ entries }: ChartsViewProps) => {
+const ChartsView = ({ entries: checkIns }: ChartsViewProps) => {
+  // Charts show one point per day, combining that day's check-ins
+  const entries = rollUpByDay(checkIns);
+
   if (entries.length === 0) {
     return (
       <Card className="p-12 text-center">
@@ -20,7 +34,7 @@ const ChartsView = ({ entries }: ChartsViewProps) => {
 
   // Prepare mood data
   const moodData = entries
-    .slice(0, 30) // Last 30 entries
+    .slice(0, 30) // Last 30 days
     .reverse()
     .map(entry => ({
       date: format(new Date(entry.date), 'MMM dd'),
@@ -43,18 +57,17 @@ const ChartsView = ({ entries }: ChartsViewProps) => {
   const avgSleep = entries.reduce((sum, e) => sum + e.sleepHours, 0) / entries.length;
   const avgStress = entries.reduce((sum, e) => sum + e.stressLevel, 0) / entries.length;
 
-  // Most common symptoms
-  const symptomFrequency: Record<string, number> = {};
-  entries.forEach(entry => {
-    entry.symptoms.forEach(symptom => {
-      symptomFrequency[symptom] = (symptomFrequency[symptom] || 0) + 1;
-    });
-  });
+  // Symptoms with the heaviest burden (frequency weighted by severity)
+  const topSymptoms = summarizeSymptoms(entries).slice(0, 5);
 
-  const topSymptoms = Object.entries(symptomFrequency)
-    .sort(([, a], [, b]) => b - a)
-    .slice(0, 5)
-    .map(([symptom, count]) => ({ symptom, count }));
+  // Peak symptom severity per entry
+  const severityData = entries
+    .slice(0, 30)
+    .reverse()
+    .map(entry => ({
+      date: format(new Date(entry.date), 'MMM dd'),
+      severity: getPeakSeverity(entry)
+    }));
 
   return (
     <div className="space-y-6">
@@ -145,14 +158,67 @@ const ChartsView = ({ entries }: ChartsViewProps) => {
         </ResponsiveContainer>
       </Card>
 
+      {/* Sleep Debt & Circadian Regularity */}
+      <SleepHealthChart entries={checkIns} />
+
+      {/* Symptom Severity Chart */}
+      {topSymptoms.length > 0 && (
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-4">Symptom Severity</h3>
+          <ResponsiveContainer width="100%" height={250}>
+            <LineChart data={severityData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" />
+              <YAxis domain={[0, 10]} />
+              <Tooltip />
+              <Line
+                type="monotone"
+                dataKey="severity"
+                stroke="#ef4444"
+                strokeWidth={2}
+                name="Peak Severity"
+                dot={{ fill: '#ef4444' }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </Card>
+      )}
+
+      {/* Pain Body Map */}
+      <BodyMapHeatmap entries={checkIns} />
+
+      {/* Nutrition */}
+      <NutritionChart entries={entries} />
+
+      {/* Water, Caffeine and Alcohol */}
+      <IntakeChart />
+
+      {/* Menstrual Cycle */}
+      <CycleChart entries={entries} />
+
+      {/* Vital Signs */}
+      <VitalsChart entries={checkIns} />
+
+      {/* Lab Results */}
+      <LabResultsChart entries={checkIns} />
+
+      {/* Medication Adherence */}
+      <MedicationAdherenceCard entries={checkIns} />
+
+      {/* Custom Trackers */}
+      <TrackersChart entries={entries} />
+
       {/* Top Symptoms */}
       {topSymptoms.length > 0 && (
         <Card className="p-6">
           <h3 className="text-lg font-semibold mb-4">Most Frequent Symptoms</h3>
           <div className="space-y-3">
-            {topSymptoms.map(({ symptom, count }) => (
-              <div key={symptom} className="flex items-center justify-between">
-                <span className="font-medium">{symptom}</span>
+            {topSymptoms.map(({ name, count, averageSeverity }) => (
+              <div key={name} className="flex items-center justify-between">
+                <span className="font-medium">
+                  {name}
+                  <span className="text-sm text-muted-foreground font-normal"> avg {averageSeverity.toFixed(1)}/10</span>
+                </span>
                 <div className="flex items-center gap-3">
                   <div className="w-32 bg-muted rounded-full h-2 overflow-hidden">
                     <div 
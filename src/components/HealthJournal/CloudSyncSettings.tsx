@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Cloud, CloudOff, Info, Loader2, RefreshCw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { SyncStatus, syncJournal } from "@/lib/journalSync";
+import { getPendingChangeCount } from "@/lib/syncOutbox";
+import { useSyncStatus } from "@/hooks/use-journal-sync";
+import { useVault } from "@/hooks/use-vault";
+import { toast } from "sonner";
+
+interface CloudSyncSettingsProps {
+  onSynced: () => void;
+}
+
+const STATUS_LABELS: Record<SyncStatus, string> = {
+  idle: "Not synced yet",
+  syncing: "Syncing…",
+  synced: "Up to date",
+  offline: "Offline – changes will sync when you reconnect",
+  "signed-out": "Sign in to sync across devices",
+  vault: "Sync is off while vault mode is on",
+  error: "Sync failed",
+};
+
+const CloudSyncSettings = ({ onSynced }: CloudSyncSettingsProps) => {
+  const { status, lastSyncedAt, error } = useSyncStatus();
+  const { enabled: vaultEnabled } = useVault();
+  const [pendingChanges, setPendingChanges] = useState(0);
+
+  useEffect(() => {
+    getPendingChangeCount()
+      .then(setPendingChanges)
+      .catch((err) => console.error("Failed to count pending changes:", err));
+  }, [status]);
+
+  const handleSync = async () => {
+    const result = await syncJournal();
+    if (result.pulled > 0) onSynced();
+
+    if (result.status === "synced") {
+      toast.success(`Synced: ${result.pushed} sent, ${result.pulled} received`);
+    } else if (result.status === "error") {
+      toast.error(result.error || "Sync failed");
+    } else {
+      toast.info(STATUS_LABELS[result.status]);
+    }
+  };
+
+  const isOnline = status !== "offline" && status !== "error";
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        {isOnline ? <Cloud className="h-5 w-5 text-primary" /> : <CloudOff className="h-5 w-5 text-muted-foreground" />}
+        Cloud Sync
+        {pendingChanges > 0 && <Badge variant="secondary">{pendingChanges} pending</Badge>}
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Keep your journal in sync across devices. Changes are saved locally first and uploaded when you are online.
+      </p>
+      {vaultEnabled && (
+        <Alert className="mb-4">
+          <Info className="h-4 w-4" />
+          <AlertDescription className="text-sm">
+            Vault mode is on. Its encryption key never leaves this device, so other devices could not read a synced
+            journal. Disable the vault to sync; nothing is uploaded while it is on.
+          </AlertDescription>
+        </Alert>
+      )}
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm">
+          <p className="font-medium">{STATUS_LABELS[status]}</p>
+          {status === "error" && error && <p className="text-xs text-destructive">{error}</p>}
+          {lastSyncedAt && (
+            <p className="text-xs text-muted-foreground">
+              Last synced {formatDistanceToNow(lastSyncedAt, { addSuffix: true })}
+            </p>
+          )}
+        </div>
+        <Button onClick={handleSync} variant="outline" disabled={status === "syncing" || vaultEnabled}>
+          {status === "syncing" ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4 mr-2" />
+          )}
+          Sync Now
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export default CloudSyncSettings;
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { GitMerge, Loader2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import { MOOD_EMOJIS, MOOD_LABELS, MenstrualFlow, MoodLevel } from "@/lib/healthJournalTypes";
+import { FLOW_LABELS } from "@/lib/healthCycle";
+import { ConflictResolution, EntryConflict, resolveConflict } from "@/lib/journalConflicts";
+import { FieldDifference, MergeSide, ScalarField } from "@/lib/journalMerge";
+import { formatCheckInTime } from "@/lib/journalDays";
+import { toast } from "sonner";
+
+interface ConflictReviewProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conflicts: EntryConflict[];
+  onResolved: () => void;
+}
+
+const FIELD_LABELS: Record<ScalarField, string> = {
+  date: "Date",
+  time: "Check-in Time",
+  mood: "Mood",
+  moodNote: "Mood Note",
+  sleepHours: "Sleep Hours",
+  sleepQuality: "Sleep Quality",
+  bedtime: "Bedtime",
+  wakeTime: "Wake Time",
+  stressLevel: "Stress Level",
+  menstrualFlow: "Period Flow",
+  notes: "Notes",
+};
+
+const formatValue = (field: ScalarField, value: FieldDifference["local"]): string => {
+  if (value === undefined || value === null || value === "") return "—";
+  switch (field) {
+    case "date":
+      return format(parseISO(String(value)), "MMM d, yyyy");
+    case "mood":
+      return `${MOOD_EMOJIS[value as MoodLevel]} ${MOOD_LABELS[value as MoodLevel]}`;
+    case "sleepHours":
+      return `${value}h`;
+    case "sleepQuality":
+    case "stressLevel":
+      return `${value}/5`;
+    case "menstrualFlow":
+      return FLOW_LABELS[value as MenstrualFlow];
+    default:
+      return String(value);
+  }
+};
+
+const ConflictCard = ({ conflict, onResolved }: { conflict: EntryConflict; onResolved: () => void }) => {
+  const [choices, setChoices] = useState<Partial<Record<ScalarField, MergeSide>>>(() =>
+    Object.fromEntries(conflict.differences.map(diff => [diff.field, diff.chosen]))
+  );
+  const [resolving, setResolving] = useState<ConflictResolution | null>(null);
+
+  const handleResolve = async (resolution: ConflictResolution) => {
+    setResolving(resolution);
+    try {
+      if (await resolveConflict(conflict, resolution, choices)) {
+        toast.success("Conflict resolved");
+      } else {
+        toast.info("This entry was edited after the conflict was found. It has been checked again.");
+      }
+      onResolved();
+    } catch (error) {
+      console.error("Failed to resolve conflict:", error);
+      toast.error("Failed to resolve conflict");
+      setResolving(null);
+    }
+  };
+
+  const renderOption = (diff: FieldDifference, side: MergeSide) => (
+    <button
+      type="button"
+      onClick={() => setChoices({ ...choices, [diff.field]: side })}
+      className={cn(
+        "w-full text-left p-2 rounded-md border text-sm transition-colors",
+        choices[diff.field] === side ? "border-primary bg-primary/10" : "border-transparent hover:bg-muted"
+      )}
+    >
+      {formatValue(diff.field, diff[side])}
+    </button>
+  );
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h4 className="font-semibold">
+            {format(parseISO(conflict.local.date), "EEEE, MMM d, yyyy")}
+            {conflict.local.time && <span className="font-normal text-muted-foreground"> · {formatCheckInTime(conflict.local)}</span>}
+          </h4>
+          <p className="text-xs text-muted-foreground">
+            Detected {format(conflict.detectedAt, "MMM d, h:mm a")}
+          </p>
+        </div>
+        <Badge variant="outline">{conflict.source === "sync" ? "Other device" : conflict.source}</Badge>
+      </div>
+
+      <div className="grid grid-cols-[auto_1fr_1fr] gap-2 items-center">
+        <span />
+        <span className="text-xs font-medium text-muted-foreground">Mine</span>
+        <span className="text-xs font-medium text-muted-foreground">Theirs</span>
+        {conflict.differences.map(diff => (
+          <div key={diff.field} className="contents">
+            <span className="text-sm font-medium pr-2">{FIELD_LABELS[diff.field]}</span>
+            {renderOption(diff, "local")}
+            {renderOption(diff, "incoming")}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Symptoms, diet, activities and attachments from both versions are combined when merging.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={() => handleResolve("mine")} disabled={!!resolving}>
+          {resolving === "mine" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Keep Mine
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => handleResolve("theirs")} disabled={!!resolving}>
+          {resolving === "theirs" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Keep Theirs
+        </Button>
+        <Button size="sm" onClick={() => handleResolve("merge")} disabled={!!resolving}>
+          {resolving === "merge" ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <GitMerge className="h-4 w-4 mr-2" />
+          )}
+          Merge Selected
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+const ConflictReview = ({ open, onOpenChange, conflicts, onResolved }: ConflictReviewProps) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Review Conflicts</DialogTitle>
+          <DialogDescription>
+            These entries were changed in two places. The most recent values are applied for now;
+            choose which version to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflicts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No conflicts left to review.</p>
+        ) : (
+          <div className="space-y-4">
+            {conflicts.map(conflict => (
+              <ConflictCard key={`${conflict.id}-${conflict.detectedAt}`} conflict={conflict} onResolved={onResolved} />
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ConflictReview;
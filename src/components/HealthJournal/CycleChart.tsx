@@ -0,0 +1,113 @@
+import { useMemo } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from "recharts";
+import { format, parseISO } from "date-fns";
+import { Droplet } from "lucide-react";
+import { JournalEntry } from "@/lib/healthJournalTypes";
+import {
+  CYCLE_PHASE_LABELS,
+  CyclePhase,
+  findCycleSymptomPatterns,
+  getCycleDayStats,
+  getCycleStatus,
+  getCycles,
+} from "@/lib/healthCycle";
+
+interface CycleChartProps {
+  entries: JournalEntry[];
+}
+
+const PHASE_COLORS: Record<CyclePhase, string> = {
+  menstrual: "#f43f5e",
+  follicular: "#8b5cf6",
+  ovulation: "#f59e0b",
+  luteal: "#3b82f6",
+};
+
+const CycleChart = ({ entries }: CycleChartProps) => {
+  const cycles = useMemo(() => getCycles(entries), [entries]);
+  const status = useMemo(() => getCycleStatus(entries), [entries]);
+  const stats = useMemo(() => getCycleDayStats(entries), [entries]);
+  const patterns = useMemo(() => findCycleSymptomPatterns(entries).slice(0, 3), [entries]);
+
+  if (cycles.length === 0) return null;
+
+  const data = stats.map(stat => ({
+    day: stat.cycleDay,
+    severity: Math.round(stat.averageSeverity * 10) / 10,
+    phase: stat.phase,
+  }));
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Droplet className="h-5 w-5 text-rose-500" />
+          Menstrual Cycle
+        </h3>
+        {status && (
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="secondary">
+              Day {status.cycleDay} · {CYCLE_PHASE_LABELS[status.phase]}
+            </Badge>
+            <Badge variant={status.daysLate > 0 ? "destructive" : "outline"}>
+              {status.daysLate > 0
+                ? `${status.daysLate} days late`
+                : `Next period ~${format(parseISO(status.nextPeriod), "MMM d")}`}
+            </Badge>
+          </div>
+        )}
+      </div>
+
+      <p className="text-sm text-muted-foreground mb-4">
+        {cycles.length} {cycles.length === 1 ? "cycle" : "cycles"} logged
+        {status && ` · average length ${status.cycleLength} days`}. Bars show the average peak symptom severity on each cycle day.
+      </p>
+
+      <ResponsiveContainer width="100%" height={250}>
+        <BarChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="day" />
+          <YAxis domain={[0, 10]} />
+          <Tooltip
+            labelFormatter={(day) => `Cycle day ${day}`}
+            formatter={(value: number, _name, item) => [
+              `${value}/10 (${CYCLE_PHASE_LABELS[item.payload.phase as CyclePhase]})`,
+              "Avg severity",
+            ]}
+          />
+          <Bar dataKey="severity" name="Avg severity">
+            {data.map(point => (
+              <Cell key={point.day} fill={PHASE_COLORS[point.phase]} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+
+      <div className="flex flex-wrap gap-3 mt-3 text-xs text-muted-foreground">
+        {(Object.keys(PHASE_COLORS) as CyclePhase[]).map(phase => (
+          <span key={phase} className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: PHASE_COLORS[phase] }} />
+            {CYCLE_PHASE_LABELS[phase]}
+          </span>
+        ))}
+      </div>
+
+      {patterns.length > 0 && (
+        <div className="mt-6 pt-4 border-t space-y-2">
+          <h4 className="text-sm font-semibold">Cycle-linked symptoms</h4>
+          {patterns.map(pattern => (
+            <p key={pattern.symptom} className="text-sm text-muted-foreground">
+              <span className="font-medium text-foreground">{pattern.symptom}</span> around cycle day{" "}
+              {pattern.cycleDay} ({CYCLE_PHASE_LABELS[pattern.phase].toLowerCase()} phase) in {pattern.cycles} of{" "}
+              {pattern.observedCycles} cycles
+            </p>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default CycleChart;
@@ -1,7 +1,6 @@
 import { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -9,6 +8,10 @@ import { FileText, Loader2, Info, Download } from "lucide-react";
 import { generateDoctorReport, generateQuickSummary } from "@/lib/doctorReportPDF";
 import { JournalEntry, HealthInsights } from "@/lib/healthJournalTypes";
 import { analyzeHealthPatterns } from "@/lib/healthJournalAI";
+import { getPatientInfo } from "@/lib/journalProfiles";
+import { useProfiles } from "@/hooks/use-profiles";
+import { useVitalTargets } from "@/hooks/use-vital-targets";
+import { useMedications } from "@/hooks/use-medications";
 import { toast } from "sonner";
 
 interface DoctorReportGeneratorProps {
@@ -18,9 +21,10 @@ interface DoctorReportGeneratorProps {
 const DoctorReportGenerator = ({ entries }: DoctorReportGeneratorProps) => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [includePatientInfo, setIncludePatientInfo] = useState(false);
-  const [patientName, setPatientName] = useState("");
-  const [patientAge, setPatientAge] = useState("");
-  const [patientGender, setPatientGender] = useState("");
+  const { activeProfile } = useProfiles();
+  const vitalTargets = useVitalTargets();
+  const medications = useMedications();
+  const patientInfo = activeProfile ? getPatientInfo(activeProfile) : undefined;
   const [dateRange, setDateRange] = useState<"all" | "30" | "90">("30");
 
   const handleGenerateReport = async () => {
@@ -63,15 +67,13 @@ const DoctorReportGenerator = ({ entries }: DoctorReportGeneratorProps) => {
       await generateDoctorReport({
         entries: filteredEntries,
         insights,
-        patientInfo: includePatientInfo ? {
-          name: patientName || undefined,
-          age: patientAge || undefined,
-          gender: patientGender || undefined
-        } : undefined,
+        patientInfo: includePatientInfo ? patientInfo : undefined,
         dateRange: dateRange !== "all" ? {
           start: filteredEntries[filteredEntries.length - 1].date,
           end: filteredEntries[0].date
-        } : undefined
+        } : undefined,
+        vitalTargets,
+        medications
       });
 
       toast.success(`Doctor report generated with ${filteredEntries.length} entries!`);
@@ -155,46 +157,15 @@ const DoctorReportGenerator = ({ entries }: DoctorReportGeneratorProps) => {
           </Label>
         </div>
 
-        {/* Patient Info Fields */}
-        {includePatientInfo && (
-          <div className="space-y-3 pl-6 animate-slide-up">
-            <div>
-              <Label htmlFor="patient-name">Patient Name</Label>
-              <Input
-                id="patient-name"
-                value={patientName}
-                onChange={(e) => setPatientName(e.target.value)}
-                placeholder="Full name"
-                className="mt-1"
-              />
-            </div>
-
-            <div className="grid grid-cols-2 gap-3">
-              <div>
-                <Label htmlFor="patient-age">Age</Label>
-                <Input
-                  id="patient-age"
-                  value={patientAge}
-                  onChange={(e) => setPatientAge(e.target.value)}
-                  placeholder="e.g., 35"
-                  className="mt-1"
-                />
-              </div>
-              <div>
-                <Label htmlFor="patient-gender">Gender</Label>
-                <Select value={patientGender} onValueChange={setPatientGender}>
-                  <SelectTrigger id="patient-gender" className="mt-1">
-                    <SelectValue placeholder="Select" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="Male">Male</SelectItem>
-                    <SelectItem value="Female">Female</SelectItem>
-                    <SelectItem value="Other">Other</SelectItem>
-                    <SelectItem value="Prefer not to say">Prefer not to say</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-            </div>
+        {/* Patient Info from the active profile */}
+        {includePatientInfo && patientInfo && (
+          <div className="pl-6 text-sm space-y-1 animate-slide-up">
+            <p><span className="text-muted-foreground">Name:</span> {patientInfo.name}</p>
+            <p><span className="text-muted-foreground">Age:</span> {patientInfo.age ?? "Not set"}</p>
+            <p><span className="text-muted-foreground">Sex:</span> {patientInfo.sex ?? "Not set"}</p>
+            <p className="text-xs text-muted-foreground">
+              Edit these details under Manage Profiles in the navigation bar.
+            </p>
           </div>
         )}
 
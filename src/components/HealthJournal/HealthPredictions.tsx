@@ -14,13 +14,19 @@ import {
   ChevronDown,
   ChevronUp,
   Zap,
-  CheckCircle2
+  Pill,
+  Utensils,
+  CheckCircle2,
+  Target,
+  Moon
 } from "lucide-react";
 import { JournalEntry } from "@/lib/healthJournalTypes";
 import { HealthPrediction, RiskLevel } from "@/lib/healthPredictionTypes";
 import { generateHealthPredictions, getStoredPredictions } from "@/lib/healthPredictionEngine";
+import { PredictionAccuracy, getPredictionAccuracy, getPredictionHistory } from "@/lib/predictionFeedback";
 import { toast } from "sonner";
 import { format } from "date-fns";
+import { getEntryDates } from "@/lib/journalDays";
 
 interface HealthPredictionsProps {
   entries: JournalEntry[];
@@ -30,21 +36,31 @@ const HealthPredictions = ({ entries }: HealthPredictionsProps) => {
   const [predictions, setPredictions] = useState<HealthPrediction[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [expandedPrediction, setExpandedPrediction] = useState<string | null>(null);
+  const [accuracy, setAccuracy] = useState<PredictionAccuracy | null>(null);
+  // Several check-ins on one day count as one day of data
+  const loggedDays = getEntryDates(entries).length;
+
+  const loadAccuracy = async () => {
+    const history = await getPredictionHistory();
+    setAccuracy(getPredictionAccuracy(history, format(new Date(), 'yyyy-MM-dd')));
+  };
 
   useEffect(() => {
+    loadAccuracy();
     // Load stored predictions on mount
-    const stored = getStoredPredictions();
-    if (stored.length > 0) {
-      setPredictions(stored);
-    } else if (entries.length >= 7) {
-      // Generate if none exist
-      generatePredictions();
-    }
+    getStoredPredictions().then(stored => {
+      if (stored.length > 0) {
+        setPredictions(stored);
+      } else if (loggedDays >= 7) {
+        // Generate if none exist
+        generatePredictions();
+      }
+    });
   }, []);
 
   const generatePredictions = async () => {
-    if (entries.length < 7) {
-      toast.error("Need at least 7 journal entries to generate predictions");
+    if (loggedDays < 7) {
+      toast.error("Need at least 7 days of journal entries to generate predictions");
       return;
     }
 
@@ -52,6 +68,7 @@ const HealthPredictions = ({ entries }: HealthPredictionsProps) => {
     try {
       const newPredictions = await generateHealthPredictions(entries);
       setPredictions(newPredictions);
+      loadAccuracy();
       
       if (newPredictions.length === 0) {
         toast.info("No significant patterns detected yet. Keep logging!");
@@ -96,6 +113,12 @@ const HealthPredictions = ({ entries }: HealthPredictionsProps) => {
         return <TrendingUp className="h-4 w-4" />;
       case 'cyclic':
         return <Calendar className="h-4 w-4" />;
+      case 'medication':
+        return <Pill className="h-4 w-4" />;
+      case 'diet':
+        return <Utensils className="h-4 w-4" />;
+      case 'sleep':
+        return <Moon className="h-4 w-4" />;
       default:
         return <Zap className="h-4 w-4" />;
     }
@@ -107,7 +130,7 @@ const HealthPredictions = ({ entries }: HealthPredictionsProps) => {
     return `In ${days} days`;
   };
 
-  if (entries.length < 7) {
+  if (loggedDays < 7) {
     return (
       <Card className="p-12 text-center">
         <TrendingUp className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
@@ -116,8 +139,8 @@ const HealthPredictions = ({ entries }: HealthPredictionsProps) => {
           Log at least 7 days of health data to unlock AI-powered predictions and health alerts.
         </p>
         <div className="inline-flex items-center gap-2 px-4 py-2 bg-muted rounded-lg">
-          <span className="text-2xl font-bold text-primary">{entries.length}</span>
-          <span className="text-muted-foreground">/ 7 entries</span>
+          <span className="text-2xl font-bold text-primary">{loggedDays}</span>
+          <span className="text-muted-foreground">/ 7 days</span>
         </div>
       </Card>
     );
@@ -130,7 +153,7 @@ const HealthPredictions = ({ entries }: HealthPredictionsProps) => {
           <TrendingUp className="h-12 w-12 mx-auto text-primary mb-3" />
           <h3 className="text-lg font-semibold mb-2">Ready for Predictions</h3>
           <p className="text-muted-foreground mb-4">
-            Generate health predictions based on your {entries.length} journal entries and weather patterns.
+            Generate health predictions based on {loggedDays} days of journal entries and weather patterns.
           </p>
         </div>
         <Button onClick={generatePredictions} className="w-full" size="lg">
@@ -174,6 +197,33 @@ const HealthPredictions = ({ entries }: HealthPredictionsProps) => {
         </AlertDescription>
       </Alert>
 
+      {/* Accuracy */}
+      {accuracy && (accuracy.rated > 0 || accuracy.awaitingFeedback > 0) && (
+        <Card className="p-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <Target className="h-5 w-5 text-primary" />
+              <div>
+                <p className="font-medium">
+                  Your prediction accuracy: {accuracy.accuracy === null ? '–' : `${Math.round(accuracy.accuracy * 100)}%`}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {accuracy.confirmed} of {accuracy.rated} rated predictions came true
+                  {accuracy.awaitingFeedback > 0 && ` · ${accuracy.awaitingFeedback} awaiting your feedback in the journal`}
+                </p>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {accuracy.bySymptom.slice(0, 4).map(symptom => (
+                <Badge key={symptom.symptom} variant="outline">
+                  {symptom.symptom}: {symptom.confirmed}/{symptom.rated}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        </Card>
+      )}
+
       {/* Predictions List */}
       {isLoading ? (
         <Card className="p-12 text-center">
@@ -7,6 +7,8 @@ import { TrendingUp, TrendingDown, Minus, Brain, Lightbulb, BarChart3, AlertCirc
 import { JournalEntry, HealthInsights } from "@/lib/healthJournalTypes";
 import { analyzeHealthPatterns } from "@/lib/healthJournalAI";
 import { getRecentEntries } from "@/lib/healthJournalStorage";
+import PredictionBacktest from "./PredictionBacktest";
+import LaggedCorrelationMatrix from "./LaggedCorrelationMatrix";
 
 interface InsightsDashboardProps {
   entries: JournalEntry[];
@@ -28,7 +30,7 @@ const InsightsDashboard = ({ entries }: InsightsDashboardProps) => {
     setError(null);
 
     try {
-      const recentEntries = getRecentEntries(30);
+      const recentEntries = await getRecentEntries(30);
       const analysis = await analyzeHealthPatterns(recentEntries);
       setInsights(analysis);
     } catch (err) {
@@ -247,6 +249,12 @@ const InsightsDashboard = ({ entries }: InsightsDashboardProps) => {
         </Card>
       )}
 
+      {/* Lagged Factor Links */}
+      <LaggedCorrelationMatrix entries={entries} />
+
+      {/* Prediction Accuracy */}
+      <PredictionBacktest entries={entries} />
+
       {/* No Patterns Found */}
       {insights.patterns.length === 0 && insights.correlations.length === 0 && (
         <Alert>
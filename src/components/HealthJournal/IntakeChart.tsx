@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
+import { format, parseISO, subDays } from "date-fns";
+import { GlassWater } from "lucide-react";
+import { INTAKE_DEFINITIONS, INTAKE_KINDS, IntakeKind, isOffGoal, toDisplayAmount } from "@/lib/healthIntake";
+import { useIntake } from "@/hooks/use-intake";
+
+const CHART_DAYS = 30;
+
+const IntakeChart = () => {
+  const log = useIntake();
+  const [kind, setKind] = useState<IntakeKind>("water");
+
+  if (!log || Object.keys(log.days).length === 0) return null;
+
+  const definition = INTAKE_DEFINITIONS[kind];
+  const setting = log.settings[kind];
+  // Uncounted days within the window show as gaps rather than zero
+  const since = format(subDays(new Date(), CHART_DAYS - 1), "yyyy-MM-dd");
+  const counted = Object.keys(log.days)
+    .filter(date => date >= since && log.days[date][kind] !== undefined)
+    .sort();
+  const data = counted.map(date => ({
+    date: format(parseISO(date), "MMM d"),
+    value: toDisplayAmount(kind, log.days[date][kind] ?? 0, setting.unit),
+  }));
+  const offGoalDays = counted.filter(date => isOffGoal(kind, log.days[date][kind] ?? 0, setting)).length;
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <GlassWater className="h-5 w-5 text-sky-500" />
+          Daily Intake
+        </h3>
+        <div className="flex items-center gap-2">
+          {counted.length > 0 && (
+            <Badge variant="outline">
+              {offGoalDays} of {counted.length} days {definition.goalType === "min" ? "under target" : "over limit"}
+            </Badge>
+          )}
+          <Select value={kind} onValueChange={(value) => setKind(value as IntakeKind)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INTAKE_KINDS.map(k => (
+                <SelectItem key={k} value={k}>
+                  {INTAKE_DEFINITIONS[k].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {data.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No {definition.label.toLowerCase()} counted in the last {CHART_DAYS} days.
+        </p>
+      ) : (
+        <ResponsiveContainer width="100%" height={250}>
+          <BarChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="date" />
+            <YAxis />
+            <Tooltip formatter={(value: number) => [`${value} ${setting.unit}`, definition.label]} />
+            <ReferenceLine
+              y={toDisplayAmount(kind, setting.goal, setting.unit)}
+              stroke={definition.goalType === "min" ? "#22c55e" : "#ef4444"}
+              strokeDasharray="4 4"
+              label={definition.goalType === "min" ? "Target" : "Limit"}
+            />
+            <Bar dataKey="value" fill={definition.color} name={definition.label} />
+          </BarChart>
+        </ResponsiveContainer>
+      )}
+    </Card>
+  );
+};
+
+export default IntakeChart;
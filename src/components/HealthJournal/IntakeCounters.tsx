@@ -0,0 +1,96 @@
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Beer, Coffee, GlassWater, Minus, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { useIntake } from "@/hooks/use-intake";
+import {
+  INTAKE_DEFINITIONS,
+  INTAKE_KINDS,
+  IntakeKind,
+  addIntake,
+  formatIntake,
+  isOffGoal,
+  todayKey,
+} from "@/lib/healthIntake";
+
+const ICONS: Record<IntakeKind, typeof GlassWater> = {
+  water: GlassWater,
+  caffeine: Coffee,
+  alcohol: Beer,
+};
+
+const IntakeCounters = () => {
+  const log = useIntake();
+  if (!log) return null;
+
+  const today = log.days[todayKey()];
+
+  const handleAdd = async (kind: IntakeKind, amount: number) => {
+    try {
+      await addIntake(kind, amount);
+    } catch (error) {
+      console.error("Failed to update intake counter:", error);
+      toast.error("Failed to update counter");
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-4">Today's Intake</h3>
+      <div className="grid gap-4 sm:grid-cols-3">
+        {INTAKE_KINDS.map(kind => {
+          const definition = INTAKE_DEFINITIONS[kind];
+          const setting = log.settings[kind];
+          const amount = today?.[kind] ?? 0;
+          const Icon = ICONS[kind];
+          // Limits only turn red once passed; water shows progress towards its target
+          const overLimit = definition.goalType === "max" && isOffGoal(kind, amount, setting);
+          return (
+            <div key={kind} className="p-4 border rounded-lg space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-2 font-medium">
+                  <Icon className="h-4 w-4" style={{ color: definition.color }} />
+                  {definition.label}
+                </span>
+                <span className={`text-sm ${overLimit ? "text-red-600 font-medium" : "text-muted-foreground"}`}>
+                  {formatIntake(kind, amount, log.settings)} / {formatIntake(kind, setting.goal, log.settings)}
+                </span>
+              </div>
+              <Progress
+                value={Math.min(100, (amount / setting.goal) * 100)}
+                className={overLimit ? "[&>div]:bg-red-500" : undefined}
+              />
+              <div className="flex items-center justify-between gap-2">
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="outline"
+                  onClick={() => handleAdd(kind, -setting.step)}
+                  disabled={amount === 0}
+                  aria-label={`Remove ${formatIntake(kind, setting.step, log.settings)} ${definition.label.toLowerCase()}`}
+                >
+                  <Minus className="h-4 w-4" />
+                </Button>
+                <span className="text-xs text-muted-foreground">
+                  {definition.goalType === "min" ? "Daily target" : "Daily limit"}
+                </span>
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={() => handleAdd(kind, setting.step)}
+                  aria-label={`Add ${formatIntake(kind, setting.step, log.settings)} ${definition.label.toLowerCase()}`}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  {formatIntake(kind, setting.step, log.settings)}
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
+
+export default IntakeCounters;
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GlassWater, RotateCcw, Save } from "lucide-react";
+import { toast } from "sonner";
+import {
+  DEFAULT_INTAKE_SETTINGS,
+  INTAKE_DEFINITIONS,
+  INTAKE_KINDS,
+  IntakeKind,
+  IntakeSettings,
+  fromDisplayAmount,
+  saveIntakeSettings,
+  toDisplayAmount,
+} from "@/lib/healthIntake";
+import { useIntake } from "@/hooks/use-intake";
+
+// Amounts as typed, in the chosen unit
+interface GoalDraft {
+  unit: string;
+  step: string;
+  goal: string;
+}
+
+type GoalDrafts = Record<IntakeKind, GoalDraft>;
+
+const toDrafts = (settings: IntakeSettings): GoalDrafts =>
+  Object.fromEntries(
+    INTAKE_KINDS.map(kind => {
+      const { unit, step, goal } = settings[kind];
+      return [kind, {
+        unit,
+        step: String(toDisplayAmount(kind, step, unit)),
+        goal: String(toDisplayAmount(kind, goal, unit)),
+      }];
+    })
+  ) as GoalDrafts;
+
+const IntakeGoalsSettings = () => {
+  const log = useIntake();
+  const [drafts, setDrafts] = useState<GoalDrafts>(toDrafts(DEFAULT_INTAKE_SETTINGS));
+
+  useEffect(() => {
+    if (log) setDrafts(toDrafts(log.settings));
+  }, [log]);
+
+  const updateDraft = (kind: IntakeKind, field: keyof GoalDraft, value: string) => {
+    setDrafts({ ...drafts, [kind]: { ...drafts[kind], [field]: value } });
+  };
+
+  const handleSave = async () => {
+    const settings = Object.fromEntries(
+      INTAKE_KINDS.map(kind => {
+        const { unit, step, goal } = drafts[kind];
+        return [kind, {
+          unit,
+          step: fromDisplayAmount(kind, parseFloat(step), unit),
+          goal: fromDisplayAmount(kind, parseFloat(goal), unit),
+        }];
+      })
+    ) as IntakeSettings;
+
+    try {
+      await saveIntakeSettings(settings);
+      toast.success("Intake goals saved!");
+    } catch (error) {
+      console.error("Failed to save intake goals:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save intake goals");
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
+        <GlassWater className="h-5 w-5 text-sky-500" />
+        Intake Goals
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Set the unit, how much each tap of a counter adds, and your daily target for water or limit for
+        caffeine and alcohol. Days off goal are used when looking for symptom triggers.
+      </p>
+
+      <div className="space-y-3">
+        {INTAKE_KINDS.map(kind => {
+          const definition = INTAKE_DEFINITIONS[kind];
+          return (
+            <div key={kind} className="grid grid-cols-3 sm:grid-cols-[8rem_1fr_1fr_1fr] gap-2 items-center">
+              <Label className="col-span-3 sm:col-span-1">{definition.label}</Label>
+              <Select value={drafts[kind].unit} onValueChange={(unit) => updateDraft(kind, "unit", unit)}>
+                <SelectTrigger aria-label={`${definition.label} unit`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(definition.units).map(unit => (
+                    <SelectItem key={unit} value={unit}>
+                      {unit}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                placeholder="Per tap"
+                value={drafts[kind].step}
+                onChange={(e) => updateDraft(kind, "step", e.target.value)}
+                aria-label={`${definition.label} amount per tap`}
+              />
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                placeholder={definition.goalType === "min" ? "Daily target" : "Daily limit"}
+                value={drafts[kind].goal}
+                onChange={(e) => updateDraft(kind, "goal", e.target.value)}
+                aria-label={`${definition.label} ${definition.goalType === "min" ? "daily target" : "daily limit"}`}
+              />
+            </div>
+          );
+        })}
+        <p className="text-xs text-muted-foreground">Columns: unit, amount per tap, daily target or limit.</p>
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <Button onClick={handleSave}>
+          <Save className="h-4 w-4 mr-2" />
+          Save Goals
+        </Button>
+        <Button variant="outline" onClick={() => setDrafts(toDrafts(DEFAULT_INTAKE_SETTINGS))}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset to Defaults
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export default IntakeGoalsSettings;
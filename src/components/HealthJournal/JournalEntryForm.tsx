@@ -5,20 +5,40 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { Save, X } from "lucide-react";
+import { Droplet, Save, X } from "lucide-react";
 import { toast } from "sonner";
+import { format } from "date-fns";
 import { 
   JournalEntry, 
   MoodLevel, 
   MOOD_EMOJIS, 
   MOOD_LABELS,
-  COMMON_SYMPTOMS,
   COMMON_FOODS,
   COMMON_ACTIVITIES,
-  Attachment
+  Attachment,
+  VitalReading,
+  LabResult,
+  MedicationDose,
+  Meal,
+  PainRegion,
+  TrackerValue,
+  MenstrualFlow,
+  SymptomRecord
 } from "@/lib/healthJournalTypes";
 import { saveJournalEntry } from "@/lib/healthJournalStorage";
+import { deleteAttachmentBlobs } from "@/lib/healthJournalAttachments";
+import { CHECK_IN_PRESETS, TIME_OF_DAY_LABELS } from "@/lib/journalDays";
+import { FLOW_LABELS, FLOW_LEVELS } from "@/lib/healthCycle";
+import { getTimedSleepHours } from "@/lib/healthSleep";
 import AttachmentUploader from "./AttachmentUploader";
+import SymptomEditor from "./SymptomEditor";
+import BodyMapInput from "./BodyMapInput";
+import VitalsInput from "./VitalsInput";
+import LabResultsInput from "./LabResultsInput";
+import MedicationLog from "./MedicationLog";
+import TrackerInputs from "./TrackerInputs";
+import MealLog from "./MealLog";
+import PredictionFeedback from "./PredictionFeedback";
 
 interface JournalEntryFormProps {
   entry?: JournalEntry | null;
@@ -30,20 +50,57 @@ const JournalEntryForm = ({ entry, onSave, onCancel }: JournalEntryFormProps) =>
   const today = new Date().toISOString().split('T')[0];
   
   const [date, setDate] = useState(entry?.date || today);
+  // New check-ins default to now; older whole-day entries stay without a time
+  const [time, setTime] = useState(entry ? entry.time || "" : format(new Date(), "HH:mm"));
   const [mood, setMood] = useState<MoodLevel>(entry?.mood || 3);
   const [moodNote, setMoodNote] = useState(entry?.moodNote || "");
-  const [symptoms, setSymptoms] = useState<string[]>(entry?.symptoms || []);
-  const [customSymptom, setCustomSymptom] = useState("");
+  const [symptoms, setSymptoms] = useState<SymptomRecord[]>(entry?.symptoms || []);
+  const [painRegions, setPainRegions] = useState<PainRegion[]>(entry?.painRegions || []);
   const [diet, setDiet] = useState<string[]>(entry?.diet || []);
   const [customFood, setCustomFood] = useState("");
   const [sleepHours, setSleepHours] = useState(entry?.sleepHours || 7);
   const [sleepQuality, setSleepQuality] = useState<1 | 2 | 3 | 4 | 5>(entry?.sleepQuality || 3);
+  const [bedtime, setBedtime] = useState(entry?.bedtime || "");
+  const [wakeTime, setWakeTime] = useState(entry?.wakeTime || "");
   const [activities, setActivities] = useState<string[]>(entry?.activities || []);
   const [customActivity, setCustomActivity] = useState("");
   const [stressLevel, setStressLevel] = useState<1 | 2 | 3 | 4 | 5>(entry?.stressLevel || 3);
   const [notes, setNotes] = useState(entry?.notes || "");
+  const [vitals, setVitals] = useState<VitalReading[]>(entry?.vitals || []);
+  const [labResults, setLabResults] = useState<LabResult[]>(entry?.labResults || []);
+  const [menstrualFlow, setMenstrualFlow] = useState<MenstrualFlow | undefined>(entry?.menstrualFlow);
+  const [medicationDoses, setMedicationDoses] = useState<MedicationDose[]>(entry?.medicationDoses || []);
+  const [meals, setMeals] = useState<Meal[]>(entry?.meals || []);
+  const [trackerValues, setTrackerValues] = useState<Record<string, TrackerValue>>(entry?.trackerValues || {});
+  const [tags, setTags] = useState<string[]>(entry?.tags || []);
   const [attachments, setAttachments] = useState<Attachment[]>(entry?.attachments || []);
 
+  // Files uploaded in this session that never made it into a saved entry, or
+  // were removed from it, are deleted from the blob store
+  const discardAttachmentFiles = (keep: Attachment[], candidates: Attachment[]) => {
+    const keepIds = new Set(keep.map(a => a.id));
+    const discarded = candidates.filter(a => !keepIds.has(a.id)).map(a => a.id);
+    deleteAttachmentBlobs(discarded).catch(error =>
+      console.warn("Failed to clean up attachment files:", error)
+    );
+  };
+
+  // Saved attachments removed while editing go to the trash instead of
+  // being deleted, so they can still be restored
+  const trashAttachments = (saved: JournalEntry | undefined, keep: Attachment[]): Attachment[] | undefined => {
+    const keepIds = new Set(keep.map(a => a.id));
+    const removed = (saved?.attachments || [])
+      .filter(a => !keepIds.has(a.id))
+      .map(a => ({ ...a, deletedAt: Date.now() }));
+    const trashed = [...(saved?.trashedAttachments || []), ...removed];
+    return trashed.length > 0 ? trashed : undefined;
+  };
+
+  const handleCancel = () => {
+    discardAttachmentFiles(entry?.attachments || [], attachments);
+    onCancel();
+  };
+
   const toggleItem = (item: string, list: string[], setter: (list: string[]) => void) => {
     if (list.includes(item)) {
       setter(list.filter(i => i !== item));
@@ -60,7 +117,14 @@ const JournalEntryForm = ({ entry, onSave, onCancel }: JournalEntryFormProps) =>
     }
   };
 
-  const handleSubmit = () => {
+  // With both times set, hours of sleep follow from them
+  const handleSleepTimesChange = (bed: string, wake: string) => {
+    setBedtime(bed);
+    setWakeTime(wake);
+    if (bed && wake) setSleepHours(Math.round(getTimedSleepHours(bed, wake) * 4) / 4);
+  };
+
+  const handleSubmit = async () => {
     if (!date) {
       toast.error("Please select a date");
       return;
@@ -69,45 +133,100 @@ const JournalEntryForm = ({ entry, onSave, onCancel }: JournalEntryFormProps) =>
     const journalEntry: JournalEntry = {
       id: entry?.id || `entry-${Date.now()}`,
       date,
+      time: time || undefined,
       mood,
       moodNote,
       symptoms,
+      painRegions: painRegions.length > 0 ? painRegions : undefined,
       diet,
       sleepHours,
       sleepQuality,
+      bedtime: bedtime || undefined,
+      wakeTime: wakeTime || undefined,
       activities,
       stressLevel,
       notes,
+      vitals: vitals.length > 0 ? vitals : undefined,
+      // Results keep their values when the report they came from is removed
+      labResults: labResults.length > 0
+        ? labResults.map(result => attachments.some(a => a.id === result.attachmentId)
+          ? result
+          : { ...result, attachmentId: undefined })
+        : undefined,
+      medicationDoses: medicationDoses.length > 0 ? medicationDoses : undefined,
+      menstrualFlow,
+      meals: meals.some(meal => meal.items.length > 0)
+        ? meals.filter(meal => meal.items.length > 0).sort((a, b) => a.time.localeCompare(b.time))
+        : undefined,
+      trackerValues: Object.keys(trackerValues).length > 0 ? trackerValues : undefined,
+      tags: tags.length > 0 ? tags : undefined,
       attachments: attachments.length > 0 ? attachments : undefined,
+      trashedAttachments: trashAttachments(entry, attachments),
       createdAt: entry?.createdAt || Date.now()
     };
 
-    saveJournalEntry(journalEntry);
-    toast.success(entry ? "Journal entry updated!" : "Journal entry saved!");
-    onSave();
+    try {
+      await saveJournalEntry(journalEntry);
+      toast.success(entry ? "Journal entry updated!" : "Journal entry saved!");
+      onSave();
+    } catch (error) {
+      console.error("Failed to save journal entry:", error);
+      toast.error("Failed to save journal entry");
+    }
   };
 
   return (
     <Card className="p-6 shadow-card animate-scale-in">
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold">{entry ? "Edit Entry" : "New Journal Entry"}</h2>
-        <Button variant="ghost" size="icon" onClick={onCancel}>
+        <Button variant="ghost" size="icon" onClick={handleCancel}>
           <X className="h-5 w-5" />
         </Button>
       </div>
 
       <div className="space-y-6">
-        {/* Date */}
-        <div>
-          <Label htmlFor="date">Date</Label>
-          <Input
-            id="date"
-            type="date"
-            value={date}
-            onChange={(e) => setDate(e.target.value)}
-            max={today}
-            className="mt-1"
-          />
+        {/* Date & Check-in Time */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="date">Date</Label>
+            <Input
+              id="date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              max={today}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="time">Check-in Time</Label>
+            <Input
+              id="time"
+              type="time"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              className="mt-1"
+            />
+            <div className="flex flex-wrap gap-2 mt-2">
+              {CHECK_IN_PRESETS.map((preset) => (
+                <Badge
+                  key={preset.timeOfDay}
+                  variant={time === preset.time ? "default" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => setTime(preset.time)}
+                >
+                  {TIME_OF_DAY_LABELS[preset.timeOfDay]}
+                </Badge>
+              ))}
+              <Badge
+                variant="outline"
+                className="cursor-pointer"
+                onClick={() => setTime(format(new Date(), "HH:mm"))}
+              >
+                Now
+              </Badge>
+            </div>
+          </div>
         </div>
 
         {/* Mood */}
@@ -139,48 +258,13 @@ const JournalEntryForm = ({ entry, onSave, onCancel }: JournalEntryFormProps) =>
         </div>
 
         {/* Symptoms */}
-        <div>
-          <Label className="mb-3 block">Symptoms (if any)</Label>
-          <div className="flex flex-wrap gap-2 mb-3">
-            {COMMON_SYMPTOMS.map((symptom) => (
-              <Badge
-                key={symptom}
-                variant={symptoms.includes(symptom) ? "default" : "outline"}
-                className="cursor-pointer hover:scale-105 transition-transform"
-                onClick={() => toggleItem(symptom, symptoms, setSymptoms)}
-              >
-                {symptom}
-              </Badge>
-            ))}
-          </div>
-          <div className="flex gap-2">
-            <Input
-              placeholder="Add custom symptom..."
-              value={customSymptom}
-              onChange={(e) => setCustomSymptom(e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && addCustomItem(customSymptom, symptoms, setSymptoms, () => setCustomSymptom(""))}
-            />
-            <Button
-              onClick={() => addCustomItem(customSymptom, symptoms, setSymptoms, () => setCustomSymptom(""))}
-              variant="outline"
-            >
-              Add
-            </Button>
-          </div>
-          {symptoms.length > 0 && (
-            <div className="mt-2 flex flex-wrap gap-2">
-              {symptoms.map((symptom) => (
-                <Badge key={symptom} className="bg-orange-100 text-orange-700 dark:bg-orange-950/20">
-                  {symptom}
-                  <X
-                    className="h-3 w-3 ml-1 cursor-pointer"
-                    onClick={() => setSymptoms(symptoms.filter(s => s !== symptom))}
-                  />
-                </Badge>
-              ))}
-            </div>
-          )}
-        </div>
+        <SymptomEditor symptoms={symptoms} onSymptomsChange={setSymptoms} />
+
+        {/* Predictions for this day */}
+        <PredictionFeedback date={date} loggedSymptoms={symptoms.map(s => s.name)} />
+
+        {/* Pain Body Map */}
+        <BodyMapInput regions={painRegions} onRegionsChange={setPainRegions} />
 
         {/* Diet */}
         <div>
@@ -226,8 +310,33 @@ const JournalEntryForm = ({ entry, onSave, onCancel }: JournalEntryFormProps) =>
           )}
         </div>
 
+        {/* Meals */}
+        <MealLog meals={meals} onMealsChange={setMeals} />
+
         {/* Sleep */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="grid grid-cols-2 gap-2 md:col-span-2">
+            <div>
+              <Label htmlFor="bedtime">Bedtime</Label>
+              <Input
+                id="bedtime"
+                type="time"
+                value={bedtime}
+                onChange={(e) => handleSleepTimesChange(e.target.value, wakeTime)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="wakeTime">Wake Time</Label>
+              <Input
+                id="wakeTime"
+                type="time"
+                value={wakeTime}
+                onChange={(e) => handleSleepTimesChange(bedtime, e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
           <div>
             <Label htmlFor="sleepHours">Hours of Sleep</Label>
             <Input
@@ -281,6 +390,39 @@ const JournalEntryForm = ({ entry, onSave, onCancel }: JournalEntryFormProps) =>
           </div>
         </div>
 
+        {/* Period */}
+        <div>
+          <Label className="mb-2 flex items-center gap-2">
+            <Droplet className="h-4 w-4 text-rose-500" />
+            Period
+          </Label>
+          <div className="flex flex-wrap gap-2">
+            <Badge
+              variant={!menstrualFlow ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => setMenstrualFlow(undefined)}
+            >
+              None
+            </Badge>
+            {FLOW_LEVELS.map((flow) => (
+              <Badge
+                key={flow}
+                variant={menstrualFlow === flow ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => setMenstrualFlow(flow)}
+              >
+                {FLOW_LABELS[flow]}
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        {/* Vital Signs */}
+        <VitalsInput date={date} vitals={vitals} onVitalsChange={setVitals} />
+
+        {/* Medications */}
+        <MedicationLog date={date} doses={medicationDoses} onDosesChange={setMedicationDoses} />
+
         {/* Activities */}
         <div>
           <Label className="mb-3 block">Activities</Label>
@@ -325,6 +467,14 @@ const JournalEntryForm = ({ entry, onSave, onCancel }: JournalEntryFormProps) =>
           )}
         </div>
 
+        {/* Custom Trackers and Tags */}
+        <TrackerInputs
+          values={trackerValues}
+          tags={tags}
+          onValuesChange={setTrackerValues}
+          onTagsChange={setTags}
+        />
+
         {/* Additional Notes */}
         <div>
           <Label htmlFor="notes">Additional Notes</Label>
@@ -344,9 +494,17 @@ const JournalEntryForm = ({ entry, onSave, onCancel }: JournalEntryFormProps) =>
           onAttachmentsChange={setAttachments}
         />
 
+        {/* Lab Results */}
+        <LabResultsInput
+          date={date}
+          attachments={attachments}
+          results={labResults}
+          onResultsChange={setLabResults}
+        />
+
         {/* Submit Buttons */}
         <div className="flex gap-3 pt-4">
-          <Button onClick={onCancel} variant="outline" className="flex-1">
+          <Button onClick={handleCancel} variant="outline" className="flex-1">
             Cancel
           </Button>
           <Button onClick={handleSubmit} className="flex-1 bg-gradient-to-r from-purple-500 to-pink-500">
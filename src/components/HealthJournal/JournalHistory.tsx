@@ -1,11 +1,23 @@
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Edit, Trash2, Calendar, Paperclip } from "lucide-react";
-import { JournalEntry, MOOD_EMOJIS, MOOD_LABELS } from "@/lib/healthJournalTypes";
-import { deleteJournalEntry } from "@/lib/healthJournalStorage";
+import { Edit, Trash2, Calendar, Paperclip, FileText } from "lucide-react";
+import { JournalEntry, MOOD_EMOJIS, MOOD_LABELS, TRASH_RETENTION_DAYS } from "@/lib/healthJournalTypes";
+import { restoreJournalEntry, trashJournalEntry } from "@/lib/healthJournalStorage";
 import { toast } from "sonner";
 import { format } from "date-fns";
+import { VITAL_DEFINITIONS, formatReading, getVitalStatus } from "@/lib/healthVitals";
+import { formatDose } from "@/lib/healthMedications";
+import { formatSymptom, getSeverityBand } from "@/lib/healthSymptoms";
+import { formatCheckInTime, getEntryDates } from "@/lib/journalDays";
+import { FLOW_LABELS } from "@/lib/healthCycle";
+import { formatPainRegion, getPainColor } from "@/lib/bodyMap";
+import { MEAL_TYPE_LABELS, formatMealItem, formatNutrient, getDailyNutrients, hasMeals } from "@/lib/healthNutrition";
+import { getEntryTags, getEntryTrackerValues, formatTrackerValue } from "@/lib/healthTrackers";
+import { formatLabResult, formatReferenceRange, getLabStatus } from "@/lib/healthLabs";
+import { getAttachmentBlob } from "@/lib/healthJournalAttachments";
+import { useVitalTargets } from "@/hooks/use-vital-targets";
+import { useTrackers } from "@/hooks/use-trackers";
 import AttachmentGallery from "./AttachmentGallery";
 
 interface JournalHistoryProps {
@@ -15,11 +27,43 @@ interface JournalHistoryProps {
 }
 
 const JournalHistory = ({ entries, onEdit, onDelete }: JournalHistoryProps) => {
-  const handleDelete = (id: string) => {
-    if (confirm("Are you sure you want to delete this entry?")) {
-      deleteJournalEntry(id);
-      toast.success("Entry deleted");
+  const vitalTargets = useVitalTargets();
+  const { trackers, tags } = useTrackers();
+
+  // Open the report a lab value was read from in a new tab
+  const openLabSource = async (attachmentId: string) => {
+    const blob = await getAttachmentBlob(attachmentId);
+    if (!blob) {
+      toast.error("Attachment file not found");
+      return;
+    }
+    const url = URL.createObjectURL(blob);
+    window.open(url, "_blank", "noopener");
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  const handleUndo = async (id: string) => {
+    try {
+      await restoreJournalEntry(id);
+      toast.success("Entry restored");
+      onDelete();
+    } catch (error) {
+      console.error("Failed to restore journal entry:", error);
+      toast.error("Failed to restore entry");
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await trashJournalEntry(id);
+      toast.success("Entry moved to trash", {
+        description: `Trashed entries are deleted after ${TRASH_RETENTION_DAYS} days`,
+        action: { label: "Undo", onClick: () => handleUndo(id) },
+      });
       onDelete();
+    } catch (error) {
+      console.error("Failed to delete journal entry:", error);
+      toast.error("Failed to delete entry");
     }
   };
 
@@ -39,7 +83,9 @@ const JournalHistory = ({ entries, onEdit, onDelete }: JournalHistoryProps) => {
     <div className="space-y-4">
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-2xl font-bold">Your Journal History</h2>
-        <Badge variant="secondary">{entries.length} entries</Badge>
+        <Badge variant="secondary">
+          {entries.length} entries · {getEntryDates(entries).length} days
+        </Badge>
       </div>
 
       {entries.map((entry) => (
@@ -52,7 +98,7 @@ const JournalHistory = ({ entries, onEdit, onDelete }: JournalHistoryProps) => {
                   {format(new Date(entry.date), 'EEEE, MMMM d, yyyy')}
                 </h3>
                 <p className="text-sm text-muted-foreground">
-                  Feeling {MOOD_LABELS[entry.mood]}
+                  {entry.time && `${formatCheckInTime(entry)} · `}Feeling {MOOD_LABELS[entry.mood]}
                 </p>
               </div>
             </div>
@@ -85,6 +131,7 @@ const JournalHistory = ({ entries, onEdit, onDelete }: JournalHistoryProps) => {
               <span className="font-medium">Sleep:</span>
               <span className="text-muted-foreground">
                 {entry.sleepHours}h ({entry.sleepQuality}⭐)
+                {entry.bedtime && entry.wakeTime && ` · ${entry.bedtime}–${entry.wakeTime}`}
               </span>
             </div>
 
@@ -95,6 +142,16 @@ const JournalHistory = ({ entries, onEdit, onDelete }: JournalHistoryProps) => {
                 Level {entry.stressLevel}
               </Badge>
             </div>
+
+            {/* Period */}
+            {entry.menstrualFlow && (
+              <div className="flex items-center gap-2 text-sm">
+                <span className="font-medium">Period:</span>
+                <Badge variant="secondary" className="text-xs bg-rose-50 text-rose-700 dark:bg-rose-950/20">
+                  {FLOW_LABELS[entry.menstrualFlow]}
+                </Badge>
+              </div>
+            )}
           </div>
 
           {/* Symptoms */}
@@ -103,8 +160,28 @@ const JournalHistory = ({ entries, onEdit, onDelete }: JournalHistoryProps) => {
               <span className="text-sm font-medium mb-2 block">Symptoms:</span>
               <div className="flex flex-wrap gap-1">
                 {entry.symptoms.map((symptom) => (
-                  <Badge key={symptom} variant="secondary" className="bg-orange-50 text-orange-700 dark:bg-orange-950/20 text-xs">
-                    {symptom}
+                  <Badge
+                    key={symptom.name}
+                    variant="secondary"
+                    className={`text-xs ${getSeverityBand(symptom.severity) === "severe" ? "bg-red-50 text-red-700 dark:bg-red-950/20" : "bg-orange-50 text-orange-700 dark:bg-orange-950/20"}`}
+                    title={symptom.notes}
+                  >
+                    {formatSymptom(symptom)}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Pain Locations */}
+          {entry.painRegions && entry.painRegions.length > 0 && (
+            <div className="mb-3">
+              <span className="text-sm font-medium mb-2 block">Pain:</span>
+              <div className="flex flex-wrap gap-1">
+                {entry.painRegions.map((pain) => (
+                  <Badge key={pain.region} variant="outline" className="text-xs">
+                    <span className="h-2 w-2 rounded-full mr-1" style={{ backgroundColor: getPainColor(pain.intensity) }} />
+                    {formatPainRegion(pain)}
                   </Badge>
                 ))}
               </div>
@@ -125,6 +202,26 @@ const JournalHistory = ({ entries, onEdit, onDelete }: JournalHistoryProps) => {
             </div>
           )}
 
+          {/* Meals */}
+          {hasMeals(entry) && (
+            <div className="mb-3">
+              <span className="text-sm font-medium mb-2 block">
+                Meals:
+                <span className="ml-2 text-xs font-normal text-muted-foreground">
+                  {formatNutrient("calories", getDailyNutrients(entry).calories)}
+                </span>
+              </span>
+              <div className="space-y-1">
+                {entry.meals!.filter(meal => meal.items.length > 0).map((meal) => (
+                  <p key={meal.id} className="text-sm text-muted-foreground">
+                    <span className="font-medium text-foreground">{MEAL_TYPE_LABELS[meal.type]}</span> {meal.time} ·{" "}
+                    {meal.items.map(formatMealItem).join(", ")}
+                  </p>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Activities */}
           {entry.activities.length > 0 && (
             <div className="mb-3">
@@ -139,6 +236,103 @@ const JournalHistory = ({ entries, onEdit, onDelete }: JournalHistoryProps) => {
             </div>
           )}
 
+          {/* Vital Signs */}
+          {entry.vitals && entry.vitals.length > 0 && (
+            <div className="mb-3">
+              <span className="text-sm font-medium mb-2 block">Vitals:</span>
+              <div className="flex flex-wrap gap-1">
+                {entry.vitals.map((reading) => {
+                  const status = getVitalStatus(reading, vitalTargets);
+                  return (
+                    <Badge
+                      key={reading.id}
+                      variant="secondary"
+                      className={`text-xs ${status === "normal" ? "bg-slate-50 text-slate-700 dark:bg-slate-950/20" : "bg-red-50 text-red-700 dark:bg-red-950/20"}`}
+                    >
+                      {VITAL_DEFINITIONS[reading.type].shortLabel} {formatReading(reading)}
+                      {status !== "normal" && <span className="ml-1 font-semibold uppercase">{status}</span>}
+                    </Badge>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Lab Results */}
+          {entry.labResults && entry.labResults.length > 0 && (
+            <div className="mb-3">
+              <span className="text-sm font-medium mb-2 block">Lab Results:</span>
+              <div className="flex flex-wrap gap-1">
+                {entry.labResults.map((result) => {
+                  const status = getLabStatus(result);
+                  const range = formatReferenceRange(result);
+                  const source = entry.attachments?.find(a => a.id === result.attachmentId);
+                  return (
+                    <Badge
+                      key={result.id}
+                      variant="secondary"
+                      className={`text-xs ${status === "normal" ? "bg-slate-50 text-slate-700 dark:bg-slate-950/20" : "bg-red-50 text-red-700 dark:bg-red-950/20"}`}
+                    >
+                      {formatLabResult(result)}
+                      {range && <span className="ml-1 opacity-70">({range})</span>}
+                      {status !== "normal" && <span className="ml-1 font-semibold uppercase">{status}</span>}
+                      {result.collectedOn !== entry.date && (
+                        <span className="ml-1 opacity-70">{format(new Date(`${result.collectedOn}T00:00`), "MMM d")}</span>
+                      )}
+                      {source && (
+                        <button
+                          type="button"
+                          className="ml-1"
+                          title={`Open ${source.fileName}`}
+                          onClick={() => openLabSource(source.id)}
+                        >
+                          <FileText className="h-3 w-3" />
+                        </button>
+                      )}
+                    </Badge>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Medications */}
+          {entry.medicationDoses && entry.medicationDoses.length > 0 && (
+            <div className="mb-3">
+              <span className="text-sm font-medium mb-2 block">Medications:</span>
+              <div className="flex flex-wrap gap-1">
+                {entry.medicationDoses.map((dose) => (
+                  <Badge
+                    key={dose.id}
+                    variant="secondary"
+                    className={`text-xs ${dose.status === "taken" ? "bg-teal-50 text-teal-700 dark:bg-teal-950/20" : "bg-red-50 text-red-700 dark:bg-red-950/20"}`}
+                  >
+                    {formatDose(dose)} {dose.status === "taken" ? format(new Date(dose.time), "HH:mm") : "skipped"}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Custom Trackers and Tags */}
+          {(getEntryTrackerValues(entry, trackers).length > 0 || getEntryTags(entry, tags).length > 0) && (
+            <div className="mb-3">
+              <span className="text-sm font-medium mb-2 block">Trackers:</span>
+              <div className="flex flex-wrap gap-1">
+                {getEntryTrackerValues(entry, trackers).map(({ tracker, value }) => (
+                  <Badge key={tracker.id} variant="secondary" className="text-xs bg-indigo-50 text-indigo-700 dark:bg-indigo-950/20">
+                    {tracker.name}: {formatTrackerValue(tracker, value)}
+                  </Badge>
+                ))}
+                {getEntryTags(entry, tags).map(tag => (
+                  <Badge key={tag.id} variant="outline" className="text-xs">
+                    #{tag.name}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Notes */}
           {entry.notes && (
             <div className="mt-4 p-3 bg-muted/50 rounded-lg">
@@ -0,0 +1,238 @@
+import { useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, SlidersHorizontal, Paperclip, X } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { JournalEntry, MOOD_EMOJIS, MOOD_LABELS, MoodLevel } from "@/lib/healthJournalTypes";
+import {
+  HighlightSegment,
+  SEARCH_FIELD_LABELS,
+  SearchFilters,
+  buildSearchIndex,
+  searchJournal,
+} from "@/lib/journalSearch";
+import { formatCheckInTime } from "@/lib/journalDays";
+
+interface JournalSearchProps {
+  entries: JournalEntry[];
+  onOpen: (entry: JournalEntry) => void;
+}
+
+type AttachmentFilter = "any" | "with" | "without";
+
+const MAX_SLEEP_HOURS = 24;
+const MAX_RESULTS = 50;
+
+const DEFAULT_FILTERS = {
+  moodRange: [1, 5] as [number, number],
+  stressRange: [1, 5] as [number, number],
+  sleepRange: [0, MAX_SLEEP_HOURS] as [number, number],
+  startDate: "",
+  endDate: "",
+  attachments: "any" as AttachmentFilter,
+};
+
+const Highlighted = ({ segments }: { segments: HighlightSegment[] }) => (
+  <>
+    {segments.map((segment, i) =>
+      segment.match ? (
+        <mark key={i} className="bg-yellow-200 dark:bg-yellow-800/60 text-foreground rounded px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={i}>{segment.text}</span>
+      )
+    )}
+  </>
+);
+
+const JournalSearch = ({ entries, onOpen }: JournalSearchProps) => {
+  const [query, setQuery] = useState("");
+  const [showFilters, setShowFilters] = useState(false);
+  const [filters, setFilters] = useState(DEFAULT_FILTERS);
+
+  const index = useMemo(() => buildSearchIndex(entries), [entries]);
+
+  const filtersActive = JSON.stringify(filters) !== JSON.stringify(DEFAULT_FILTERS);
+
+  const results = useMemo(() => {
+    if (!query.trim() && !filtersActive) return [];
+
+    const searchFilters: SearchFilters = {
+      moodRange: filters.moodRange,
+      stressRange: filters.stressRange,
+      sleepRange: filters.sleepRange,
+      startDate: filters.startDate || undefined,
+      endDate: filters.endDate || undefined,
+      hasAttachments: filters.attachments === "any" ? undefined : filters.attachments === "with",
+    };
+    return searchJournal(index, query, searchFilters);
+  }, [index, query, filters, filtersActive]);
+
+  const updateFilters = (changes: Partial<typeof DEFAULT_FILTERS>) => setFilters({ ...filters, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4 space-y-4">
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search notes, symptoms, diet, activities, attachments..."
+              className="pl-9"
+            />
+          </div>
+          <Button
+            variant={showFilters || filtersActive ? "secondary" : "outline"}
+            onClick={() => setShowFilters(!showFilters)}
+          >
+            <SlidersHorizontal className="h-4 w-4 mr-2" />
+            Filters
+          </Button>
+        </div>
+
+        {showFilters && (
+          <div className="grid gap-4 sm:grid-cols-2 pt-2 border-t animate-slide-up">
+            <div className="space-y-3">
+              <Label>
+                Mood: {MOOD_EMOJIS[filters.moodRange[0] as MoodLevel]} to {MOOD_EMOJIS[filters.moodRange[1] as MoodLevel]}
+              </Label>
+              <Slider
+                value={filters.moodRange}
+                onValueChange={(value) => updateFilters({ moodRange: value as [number, number] })}
+                min={1}
+                max={5}
+                step={1}
+              />
+            </div>
+            <div className="space-y-3">
+              <Label>Stress level: {filters.stressRange[0]} to {filters.stressRange[1]}</Label>
+              <Slider
+                value={filters.stressRange}
+                onValueChange={(value) => updateFilters({ stressRange: value as [number, number] })}
+                min={1}
+                max={5}
+                step={1}
+              />
+            </div>
+            <div className="space-y-3">
+              <Label>Sleep: {filters.sleepRange[0]}h to {filters.sleepRange[1]}h</Label>
+              <Slider
+                value={filters.sleepRange}
+                onValueChange={(value) => updateFilters({ sleepRange: value as [number, number] })}
+                min={0}
+                max={MAX_SLEEP_HOURS}
+                step={0.5}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="search-attachments">Attachments</Label>
+              <Select
+                value={filters.attachments}
+                onValueChange={(value) => updateFilters({ attachments: value as AttachmentFilter })}
+              >
+                <SelectTrigger id="search-attachments">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any</SelectItem>
+                  <SelectItem value="with">With attachments</SelectItem>
+                  <SelectItem value="without">Without attachments</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="search-from">From</Label>
+              <Input
+                id="search-from"
+                type="date"
+                value={filters.startDate}
+                onChange={(e) => updateFilters({ startDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="search-to">To</Label>
+              <Input
+                id="search-to"
+                type="date"
+                value={filters.endDate}
+                onChange={(e) => updateFilters({ endDate: e.target.value })}
+              />
+            </div>
+            {filtersActive && (
+              <Button variant="ghost" size="sm" className="sm:col-span-2" onClick={() => setFilters(DEFAULT_FILTERS)}>
+                <X className="h-4 w-4 mr-2" />
+                Clear Filters
+              </Button>
+            )}
+          </div>
+        )}
+      </Card>
+
+      {(query.trim() || filtersActive) && (
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">Results</h3>
+          <Badge variant="secondary">{results.length} {results.length === 1 ? "entry" : "entries"}</Badge>
+        </div>
+      )}
+
+      {(query.trim() || filtersActive) && results.length === 0 && (
+        <Card className="p-8 text-center text-muted-foreground">No entries match your search</Card>
+      )}
+
+      {results.slice(0, MAX_RESULTS).map(({ entry, matches }) => (
+        <Card
+          key={entry.id}
+          className="p-4 cursor-pointer hover:shadow-lg transition-shadow"
+          onClick={() => onOpen(entry)}
+        >
+          <div className="flex items-center justify-between gap-3 mb-2">
+            <div className="flex items-center gap-3">
+              <span className="text-2xl">{MOOD_EMOJIS[entry.mood]}</span>
+              <div>
+                <p className="font-medium">
+                  {format(parseISO(entry.date), "EEEE, MMMM d, yyyy")}
+                  {entry.time && <span className="font-normal text-muted-foreground"> · {formatCheckInTime(entry)}</span>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {MOOD_LABELS[entry.mood]} · Stress {entry.stressLevel}/5 · {entry.sleepHours}h sleep
+                </p>
+              </div>
+            </div>
+            {(entry.attachments?.length ?? 0) > 0 && (
+              <Badge variant="outline" className="shrink-0">
+                <Paperclip className="h-3 w-3 mr-1" />
+                {entry.attachments!.length}
+              </Badge>
+            )}
+          </div>
+          {matches.length > 0 && (
+            <div className="space-y-1 text-sm">
+              {matches.map(match => (
+                <p key={match.field} className="line-clamp-2">
+                  <span className="text-muted-foreground">{SEARCH_FIELD_LABELS[match.field]}: </span>
+                  <Highlighted segments={match.segments} />
+                </p>
+              ))}
+            </div>
+          )}
+        </Card>
+      ))}
+
+      {results.length > MAX_RESULTS && (
+        <p className="text-sm text-muted-foreground text-center">
+          Showing the best {MAX_RESULTS} of {results.length} matches. Refine your search to see more.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default JournalSearch;
@@ -0,0 +1,120 @@
+import { useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea } from "recharts";
+import { format, parseISO } from "date-fns";
+import { FlaskConical } from "lucide-react";
+import { JournalEntry } from "@/lib/healthJournalTypes";
+import { formatReferenceRange, getLabStatus, isAbnormal, summarizeAnalytes } from "@/lib/healthLabs";
+
+interface LabResultsChartProps {
+  entries: JournalEntry[];
+}
+
+const LabResultsChart = ({ entries }: LabResultsChartProps) => {
+  const analytes = useMemo(() => summarizeAnalytes(entries), [entries]);
+  const [selected, setSelected] = useState<string | null>(null);
+
+  if (analytes.length === 0) return null;
+
+  const analyte = analytes.find(summary => summary.key === selected) ?? analytes[0];
+  const { latest } = analyte;
+  const range = formatReferenceRange(latest);
+
+  const data = analyte.results.map(result => ({
+    time: parseISO(result.collectedOn).getTime(),
+    value: result.value,
+    abnormal: isAbnormal(result),
+  }));
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5 text-green-600" />
+          <h3 className="text-lg font-semibold">Lab Results</h3>
+          {analyte.abnormalCount > 0 && (
+            <Badge variant="destructive">{analyte.abnormalCount} out of range</Badge>
+          )}
+        </div>
+        <Select value={analyte.key} onValueChange={setSelected}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {analytes.map(summary => (
+              <SelectItem key={summary.key} value={summary.key}>
+                {summary.testName}
+                {isAbnormal(summary.latest) ? " ⚠" : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm mb-4">
+        <span>
+          Latest: <span className="font-semibold">{latest.value} {latest.unit}</span>{" "}
+          <span className="text-muted-foreground">on {format(parseISO(latest.collectedOn), "MMM d, yyyy")}</span>
+        </span>
+        {range && <span className="text-muted-foreground">Reference {range} {latest.unit}</span>}
+        {getLabStatus(latest) !== "normal" && (
+          <Badge variant="destructive" className="uppercase">{getLabStatus(latest)}</Badge>
+        )}
+      </div>
+
+      {data.length > 1 ? (
+        <ResponsiveContainer width="100%" height={250}>
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(time) => format(new Date(time), "MMM yyyy")}
+            />
+            <YAxis domain={["auto", "auto"]} unit={analyte.unit ? ` ${analyte.unit}` : undefined} width={90} />
+            <Tooltip
+              labelFormatter={(time) => format(new Date(time as number), "MMM d, yyyy")}
+              formatter={(value: number) => [`${value} ${analyte.unit}`, analyte.testName]}
+            />
+            {(latest.referenceLow !== undefined || latest.referenceHigh !== undefined) && (
+              <ReferenceArea
+                y1={latest.referenceLow}
+                y2={latest.referenceHigh}
+                fill="#22c55e"
+                fillOpacity={0.1}
+                ifOverflow="extendDomain"
+              />
+            )}
+            <Line
+              type="monotone"
+              dataKey="value"
+              stroke="#16a34a"
+              strokeWidth={2}
+              name={analyte.testName}
+              dot={({ cx, cy, payload }) => (
+                <circle
+                  key={`${cx}-${cy}`}
+                  cx={cx}
+                  cy={cy}
+                  r={4}
+                  fill={payload.abnormal ? "#dc2626" : "#16a34a"}
+                />
+              )}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      ) : (
+        <p className="text-sm text-muted-foreground">Add another {analyte.testName} result to see its trend.</p>
+      )}
+      <p className="text-xs text-muted-foreground mt-2">
+        The shaded band is the latest reference range; red points were outside the range printed on their report.
+      </p>
+    </Card>
+  );
+};
+
+export default LabResultsChart;
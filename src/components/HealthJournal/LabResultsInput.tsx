@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileSearch, FlaskConical, Loader2, Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { Attachment, LabResult } from "@/lib/healthJournalTypes";
+import { getAttachmentBlob } from "@/lib/healthJournalAttachments";
+import { extractPdfText } from "@/lib/pdfText";
+import {
+  LabStatus,
+  createLabResult,
+  formatLabResult,
+  formatReferenceRange,
+  getLabStatus,
+  parseLabReport,
+} from "@/lib/healthLabs";
+
+interface LabResultsInputProps {
+  date: string; // Entry date; the default collection date
+  attachments: Attachment[];
+  results: LabResult[];
+  onResultsChange: (results: LabResult[]) => void;
+}
+
+const LAB_STATUS_STYLES: Record<LabStatus, string> = {
+  low: "bg-blue-100 text-blue-700 dark:bg-blue-950/20",
+  normal: "bg-green-100 text-green-700 dark:bg-green-950/20",
+  high: "bg-red-100 text-red-700 dark:bg-red-950/20",
+};
+
+const NO_SOURCE = "none";
+
+const parseOptional = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+// Values read from a report, waiting to be checked before they are added
+interface PendingImport {
+  attachment: Attachment;
+  results: LabResult[];
+  selected: Set<string>;
+  collectedOn: string;
+}
+
+const LabResultsInput = ({ date, attachments, results, onResultsChange }: LabResultsInputProps) => {
+  const [testName, setTestName] = useState("");
+  const [value, setValue] = useState("");
+  const [unit, setUnit] = useState("");
+  const [referenceLow, setReferenceLow] = useState("");
+  const [referenceHigh, setReferenceHigh] = useState("");
+  const [collectedOn, setCollectedOn] = useState(date);
+  const [source, setSource] = useState(NO_SOURCE);
+  const [readingId, setReadingId] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+
+  const pdfs = attachments.filter(attachment => attachment.mimeType === "application/pdf");
+  const fileName = (id?: string) => attachments.find(attachment => attachment.id === id)?.fileName;
+
+  const handleAdd = () => {
+    const parsed = parseFloat(value);
+    if (!testName.trim() || Number.isNaN(parsed)) {
+      toast.error("Please enter a test name and a numeric result");
+      return;
+    }
+
+    const low = parseOptional(referenceLow);
+    const high = parseOptional(referenceHigh);
+    if (low !== undefined && high !== undefined && low > high) {
+      toast.error("The reference range minimum must not exceed the maximum");
+      return;
+    }
+
+    const result = createLabResult({
+      testName: testName.trim(),
+      value: parsed,
+      unit: unit.trim(),
+      referenceLow: low,
+      referenceHigh: high,
+      collectedOn: collectedOn || date,
+      attachmentId: source === NO_SOURCE ? undefined : source,
+    });
+    onResultsChange([...results, result]);
+    setTestName("");
+    setValue("");
+    setReferenceLow("");
+    setReferenceHigh("");
+  };
+
+  const handleRead = async (attachment: Attachment) => {
+    setReadingId(attachment.id);
+    try {
+      const blob = await getAttachmentBlob(attachment.id);
+      if (!blob) {
+        toast.error("Attachment file not found");
+        return;
+      }
+
+      const report = parseLabReport(await extractPdfText(blob), date, attachment.id);
+      if (report.results.length === 0) {
+        toast.error(`No lab values found in ${attachment.fileName}. Scanned reports can't be read; please enter the values by hand.`);
+        return;
+      }
+
+      setPending({
+        attachment,
+        results: report.results,
+        selected: new Set(report.results.map(result => result.id)),
+        collectedOn: report.collectedOn ?? date,
+      });
+    } catch (error) {
+      console.error("Failed to read lab report:", error);
+      toast.error(`Could not read ${attachment.fileName}`);
+    } finally {
+      setReadingId(null);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    if (!pending) return;
+    const selected = new Set(pending.selected);
+    if (selected.has(id)) selected.delete(id);
+    else selected.add(id);
+    setPending({ ...pending, selected });
+  };
+
+  const handleImport = () => {
+    if (!pending) return;
+    const imported = pending.results
+      .filter(result => pending.selected.has(result.id))
+      .map(result => ({ ...result, collectedOn: pending.collectedOn || date }));
+    onResultsChange([...results, ...imported]);
+    toast.success(`Added ${imported.length} lab ${imported.length === 1 ? "result" : "results"}`);
+    setPending(null);
+  };
+
+  return (
+    <div>
+      <Label className="mb-3 flex items-center gap-2">
+        <FlaskConical className="h-4 w-4 text-green-600" />
+        Lab Results
+      </Label>
+
+      {pdfs.length > 0 && !pending && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {pdfs.map(attachment => (
+            <Button
+              key={attachment.id}
+              type="button"
+              size="sm"
+              variant="outline"
+              disabled={readingId !== null}
+              onClick={() => handleRead(attachment)}
+            >
+              {readingId === attachment.id ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <FileSearch className="h-4 w-4 mr-1" />
+              )}
+              Read values from {attachment.fileName}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {pending && (
+        <div className="p-3 border rounded-lg space-y-3 mb-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm font-medium">
+              Found {pending.results.length} values in {pending.attachment.fileName}. Check them against the report.
+            </p>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="lab-import-date" className="text-xs text-muted-foreground">Collected</Label>
+              <Input
+                id="lab-import-date"
+                type="date"
+                className="w-40"
+                value={pending.collectedOn}
+                onChange={(e) => setPending({ ...pending, collectedOn: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            {pending.results.map(result => (
+              <label key={result.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox checked={pending.selected.has(result.id)} onCheckedChange={() => toggleSelected(result.id)} />
+                <span>{formatLabResult(result)}</span>
+                {formatReferenceRange(result) && (
+                  <span className="text-muted-foreground">({formatReferenceRange(result)})</span>
+                )}
+                {getLabStatus(result) !== "normal" && (
+                  <Badge className={LAB_STATUS_STYLES[getLabStatus(result)]}>{getLabStatus(result)}</Badge>
+                )}
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" size="sm" onClick={handleImport} disabled={pending.selected.size === 0}>
+              Add {pending.selected.size} {pending.selected.size === 1 ? "result" : "results"}
+            </Button>
+            <Button type="button" size="sm" variant="outline" onClick={() => setPending(null)}>
+              Discard
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end">
+        <Input
+          className="col-span-2"
+          placeholder="Test, e.g. Ferritin"
+          value={testName}
+          onChange={(e) => setTestName(e.target.value)}
+          aria-label="Test name"
+        />
+        <Input
+          type="number"
+          inputMode="decimal"
+          step="any"
+          placeholder="Result"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          aria-label="Result"
+        />
+        <Input placeholder="Unit" value={unit} onChange={(e) => setUnit(e.target.value)} aria-label="Unit" />
+        <div className="col-span-2 flex gap-1 items-center">
+          <Input
+            type="number"
+            inputMode="decimal"
+            step="any"
+            placeholder="Ref. min"
+            value={referenceLow}
+            onChange={(e) => setReferenceLow(e.target.value)}
+            aria-label="Reference range minimum"
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="number"
+            inputMode="decimal"
+            step="any"
+            placeholder="Ref. max"
+            value={referenceHigh}
+            onChange={(e) => setReferenceHigh(e.target.value)}
+            aria-label="Reference range maximum"
+          />
+        </div>
+        <Input
+          type="date"
+          value={collectedOn}
+          onChange={(e) => setCollectedOn(e.target.value)}
+          aria-label="Collection date"
+        />
+        {attachments.length > 0 ? (
+          <Select value={source} onValueChange={setSource}>
+            <SelectTrigger aria-label="Source report">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_SOURCE}>No source file</SelectItem>
+              {attachments.map(attachment => (
+                <SelectItem key={attachment.id} value={attachment.id}>{attachment.fileName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <div />
+        )}
+        <Button type="button" onClick={handleAdd} variant="outline" className="col-span-2 md:col-span-4">
+          <Plus className="h-4 w-4 mr-1" />
+          Add Result
+        </Button>
+      </div>
+
+      {results.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {results.map(result => {
+            const status = getLabStatus(result);
+            const range = formatReferenceRange(result);
+            return (
+              <Badge key={result.id} className={LAB_STATUS_STYLES[status]}>
+                {formatLabResult(result)}
+                {range && <span className="ml-1 opacity-70">({range})</span>}
+                {status !== "normal" && <span className="ml-1 font-semibold uppercase">{status}</span>}
+                {fileName(result.attachmentId) && (
+                  <span className="ml-1 opacity-70">· {fileName(result.attachmentId)}</span>
+                )}
+                <X
+                  className="h-3 w-3 ml-1 cursor-pointer"
+                  onClick={() => onResultsChange(results.filter(r => r.id !== result.id))}
+                />
+              </Badge>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LabResultsInput;
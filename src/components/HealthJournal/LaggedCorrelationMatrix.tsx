@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Grid3x3 } from "lucide-react";
+import { JournalEntry } from "@/lib/healthJournalTypes";
+import {
+  ASSOCIATION_LAGS,
+  FACTOR_CATEGORY_LABELS,
+  FALSE_DISCOVERY_RATE,
+  LAG_LABELS,
+  LaggedAssociation,
+  describeAssociation,
+} from "@/lib/healthStatistics";
+import { useLaggedAssociations } from "@/hooks/use-associations";
+
+interface LaggedCorrelationMatrixProps {
+  entries: JournalEntry[];
+}
+
+const MAX_FACTORS = 15;
+const MAX_SYMPTOMS = 8;
+
+// Red where the symptom is more common after the factor, blue where less
+const cellColor = (association: LaggedAssociation): string => {
+  const alpha = Math.min(Math.abs(association.riskDifference), 1) * 0.8 + 0.1;
+  return association.riskDifference >= 0 ? `rgba(239, 68, 68, ${alpha})` : `rgba(59, 130, 246, ${alpha})`;
+};
+
+const LaggedCorrelationMatrix = ({ entries }: LaggedCorrelationMatrixProps) => {
+  const [lag, setLag] = useState(1);
+  const associations = useLaggedAssociations(entries);
+
+  const atLag = associations.filter(association => association.lag === lag);
+  if (associations.length === 0) return null;
+
+  // Factors and symptoms with the strongest evidence first
+  const factors = Array.from(new Set(atLag.map(association => association.factor))).slice(0, MAX_FACTORS);
+  const symptoms = Array.from(new Set(atLag.map(association => association.symptom))).slice(0, MAX_SYMPTOMS);
+  const find = (factor: string, symptom: string) =>
+    atLag.find(association => association.factor === factor && association.symptom === symptom);
+  const significant = atLag.filter(association => association.significant);
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Grid3x3 className="h-5 w-5 text-primary" />
+          Factor and Symptom Links
+        </h3>
+        <Select value={String(lag)} onValueChange={(value) => setLag(Number(value))}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ASSOCIATION_LAGS.map(l => (
+              <SelectItem key={l} value={String(l)}>{LAG_LABELS[l]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        How much more (red) or less (blue) often each symptom was logged after a factor, computed on this device.
+        Bold cells hold up after correcting for the number of comparisons ({Math.round(FALSE_DISCOVERY_RATE * 100)}%
+        false discovery rate). Hover a cell for the day counts.
+      </p>
+
+      {factors.length === 0 || symptoms.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Not enough logged days at this lag yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="text-xs border-separate border-spacing-1">
+            <thead>
+              <tr>
+                <th />
+                {symptoms.map(symptom => (
+                  <th key={symptom} className="font-medium px-1 text-center">{symptom}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {factors.map(factor => (
+                <tr key={factor}>
+                  <th className="font-medium text-left pr-2 whitespace-nowrap">
+                    {factor}
+                    <span className="ml-1 text-muted-foreground font-normal">
+                      {FACTOR_CATEGORY_LABELS[atLag.find(a => a.factor === factor)?.category ?? "diet"]}
+                    </span>
+                  </th>
+                  {symptoms.map(symptom => {
+                    const association = find(factor, symptom);
+                    return association ? (
+                      <td
+                        key={symptom}
+                        className={`w-16 h-8 text-center rounded ${association.significant ? "font-bold ring-2 ring-foreground/60" : ""}`}
+                        style={{ backgroundColor: cellColor(association) }}
+                        title={`${describeAssociation(association)}. Adjusted p = ${association.qValue.toFixed(3)}`}
+                      >
+                        {association.riskDifference > 0 ? "+" : ""}{Math.round(association.riskDifference * 100)}%
+                      </td>
+                    ) : (
+                      <td key={symptom} className="w-16 h-8 text-center text-muted-foreground">–</td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {significant.length > 0 && (
+        <div className="mt-4 space-y-1">
+          {significant.slice(0, 5).map(association => (
+            <p key={`${association.factor}-${association.symptom}`} className="text-sm">
+              <Badge variant="outline" className="mr-2">
+                RR {association.riskRatio.toFixed(1)}
+              </Badge>
+              {describeAssociation(association)}
+            </p>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default LaggedCorrelationMatrix;
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, Utensils, X } from "lucide-react";
+import { format } from "date-fns";
+import { Meal, MealType } from "@/lib/healthJournalTypes";
+import { searchFoods } from "@/lib/foodDatabase";
+import {
+  MEAL_TYPES,
+  MEAL_TYPE_LABELS,
+  NUTRIENT_DEFINITIONS,
+  NUTRIENT_KEYS,
+  createCustomMealItem,
+  createMeal,
+  createMealItem,
+  formatNutrient,
+  getMealNutrients,
+  setItemQuantity,
+} from "@/lib/healthNutrition";
+
+interface MealLogProps {
+  meals: Meal[];
+  onMealsChange: (meals: Meal[]) => void;
+}
+
+// Guess the meal from the time it is logged
+const mealTypeForNow = (): MealType => {
+  const hour = new Date().getHours();
+  if (hour < 11) return "breakfast";
+  if (hour < 15) return "lunch";
+  if (hour >= 17 && hour < 22) return "dinner";
+  return "snack";
+};
+
+const MealCard = ({ meal, onChange, onRemove }: { meal: Meal; onChange: (meal: Meal) => void; onRemove: () => void }) => {
+  const [query, setQuery] = useState("");
+  const matches = searchFoods(query, 6);
+  const totals = getMealNutrients(meal);
+
+  const addItem = (item: Meal["items"][number]) => {
+    onChange({ ...meal, items: [...meal.items, item] });
+    setQuery("");
+  };
+
+  const addCustom = () => {
+    if (query.trim()) addItem(createCustomMealItem(query));
+  };
+
+  return (
+    <div className="p-3 border rounded-lg space-y-3">
+      <div className="flex items-center gap-2">
+        <Select value={meal.type} onValueChange={(type) => onChange({ ...meal, type: type as MealType })}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MEAL_TYPES.map(type => (
+              <SelectItem key={type} value={type}>
+                {MEAL_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="time"
+          className="w-28"
+          value={meal.time}
+          onChange={(e) => e.target.value && onChange({ ...meal, time: e.target.value })}
+        />
+        <Button type="button" variant="ghost" size="icon" className="ml-auto" onClick={onRemove}>
+          <Trash2 className="h-4 w-4 text-destructive" />
+          <span className="sr-only">Remove meal</span>
+        </Button>
+      </div>
+
+      {meal.items.map(item => (
+        <div key={item.id} className="flex items-center gap-2 text-sm">
+          <Input
+            type="number"
+            min="0.25"
+            step="0.25"
+            className="w-20"
+            value={item.quantity}
+            onChange={(e) => {
+              const quantity = parseFloat(e.target.value);
+              if (quantity > 0) {
+                onChange({ ...meal, items: meal.items.map(i => i.id === item.id ? setItemQuantity(i, quantity) : i) });
+              }
+            }}
+          />
+          <span className="flex-1 min-w-0 truncate">
+            {item.name} <span className="text-muted-foreground">× {item.portion}</span>
+          </span>
+          {item.nutrients && (
+            <span className="text-xs text-muted-foreground">{formatNutrient("calories", item.nutrients.calories)}</span>
+          )}
+          <X
+            className="h-4 w-4 cursor-pointer text-muted-foreground"
+            onClick={() => onChange({ ...meal, items: meal.items.filter(i => i.id !== item.id) })}
+          />
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Search foods, e.g. coffee"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              if (matches[0]) addItem(createMealItem(matches[0]));
+              else addCustom();
+            }
+          }}
+        />
+        <Button type="button" variant="outline" onClick={addCustom} disabled={!query.trim()}>
+          Add
+        </Button>
+      </div>
+      {matches.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {matches.map(food => (
+            <Badge
+              key={food.id}
+              variant="outline"
+              className="cursor-pointer hover:scale-105 transition-transform"
+              onClick={() => addItem(createMealItem(food))}
+            >
+              {food.name} · {food.portion}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {meal.items.some(item => item.nutrients) && (
+        <p className="text-xs text-muted-foreground">
+          {NUTRIENT_KEYS.filter(key => totals[key] > 0)
+            .map(key => `${NUTRIENT_DEFINITIONS[key].label} ${formatNutrient(key, totals[key])}`)
+            .join(" · ")}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const MealLog = ({ meals, onMealsChange }: MealLogProps) => {
+  const addMeal = () => onMealsChange([...meals, createMeal(mealTypeForNow(), format(new Date(), "HH:mm"))]);
+
+  return (
+    <div>
+      <Label className="mb-3 flex items-center gap-2">
+        <Utensils className="h-4 w-4 text-green-600" />
+        Meals
+      </Label>
+      <div className="space-y-3">
+        {meals.map(meal => (
+          <MealCard
+            key={meal.id}
+            meal={meal}
+            onChange={(updated) => onMealsChange(meals.map(m => m.id === meal.id ? updated : m))}
+            onRemove={() => onMealsChange(meals.filter(m => m.id !== meal.id))}
+          />
+        ))}
+        <Button type="button" variant="outline" className="w-full" onClick={addMeal}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Meal
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default MealLog;
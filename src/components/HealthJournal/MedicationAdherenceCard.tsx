@@ -0,0 +1,66 @@
+import { useMemo } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Pill } from "lucide-react";
+import { JournalEntry } from "@/lib/healthJournalTypes";
+import { calculateAdherence } from "@/lib/healthMedications";
+import { describeAssociation, getSignificantLinks } from "@/lib/healthStatistics";
+import { useMedications } from "@/hooks/use-medications";
+import { useLaggedAssociations } from "@/hooks/use-associations";
+
+interface MedicationAdherenceCardProps {
+  entries: JournalEntry[];
+}
+
+const MedicationAdherenceCard = ({ entries }: MedicationAdherenceCardProps) => {
+  const medications = useMedications();
+  const adherence = useMemo(() => calculateAdherence(entries, medications), [entries, medications]);
+  const associations = useLaggedAssociations(entries);
+  const links = getSignificantLinks(associations, "medication").slice(0, 3);
+
+  if (medications.length === 0) return null;
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Pill className="h-5 w-5 text-teal-500" />
+        Medication Adherence
+      </h3>
+      <div className="space-y-4">
+        {adherence.map(({ medication, taken, skipped, expected, percentage }) => (
+          <div key={medication.id} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">
+                {medication.name}
+                {medication.strength && <span className="text-muted-foreground font-normal"> {medication.strength}</span>}
+              </span>
+              {percentage !== null ? (
+                <Badge variant={percentage >= 80 ? "secondary" : "destructive"}>{percentage}%</Badge>
+              ) : (
+                <Badge variant="outline">As needed</Badge>
+              )}
+            </div>
+            {percentage !== null && <Progress value={percentage} className="h-2" />}
+            <p className="text-xs text-muted-foreground">
+              {taken} taken{expected > 0 ? ` of ${expected} scheduled` : ""} · {skipped} skipped
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {links.length > 0 && (
+        <div className="mt-6 pt-4 border-t space-y-2">
+          <h4 className="text-sm font-semibold">Links with symptoms</h4>
+          {links.map(link => (
+            <p key={`${link.factor}-${link.symptom}-${link.lag}`} className="text-sm text-muted-foreground">
+              {describeAssociation(link)}
+            </p>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default MedicationAdherenceCard;
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, Pill, Plus, X } from "lucide-react";
+import { format } from "date-fns";
+import { DoseStatus, Medication, MedicationDose } from "@/lib/healthJournalTypes";
+import { formatDose } from "@/lib/healthMedications";
+import { useMedications } from "@/hooks/use-medications";
+
+interface MedicationLogProps {
+  date: string; // Entry date; doses are timestamped on this day
+  doses: MedicationDose[];
+  onDosesChange: (doses: MedicationDose[]) => void;
+}
+
+const createDose = (medication: Medication, status: DoseStatus, date: string, time: string, scheduled?: boolean): MedicationDose => ({
+  id: `dose-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  medicationId: medication.id,
+  name: medication.name,
+  strength: medication.strength,
+  status,
+  time: new Date(`${date}T${time}`).getTime(),
+  scheduledTime: scheduled ? time : undefined,
+});
+
+const MedicationLog = ({ date, doses, onDosesChange }: MedicationLogProps) => {
+  const medications = useMedications();
+  const [extraMedicationId, setExtraMedicationId] = useState("");
+  const [extraTime, setExtraTime] = useState(() => format(new Date(), "HH:mm"));
+
+  const sortDoses = (list: MedicationDose[]) => [...list].sort((a, b) => a.time - b.time);
+
+  // Clicking the current status again clears the slot
+  const setSlotStatus = (medication: Medication, slot: string, status: DoseStatus) => {
+    const existing = doses.find(dose => dose.medicationId === medication.id && dose.scheduledTime === slot);
+    const others = doses.filter(dose => dose !== existing);
+    if (existing?.status === status) {
+      onDosesChange(others);
+    } else {
+      onDosesChange(sortDoses([...others, existing ? { ...existing, status } : createDose(medication, status, date, slot, true)]));
+    }
+  };
+
+  const addExtraDose = () => {
+    const medication = medications.find(m => m.id === extraMedicationId);
+    if (!medication || !extraTime) return;
+    onDosesChange(sortDoses([...doses, createDose(medication, "taken", date, extraTime)]));
+  };
+
+  const extraDoses = doses.filter(dose =>
+    !dose.scheduledTime || !medications.some(m => m.id === dose.medicationId && m.scheduleTimes.includes(dose.scheduledTime!))
+  );
+
+  if (medications.length === 0 && doses.length === 0) {
+    return (
+      <div>
+        <Label className="mb-2 flex items-center gap-2">
+          <Pill className="h-4 w-4 text-teal-500" />
+          Medications
+        </Label>
+        <p className="text-sm text-muted-foreground">Add your medications in Settings to log doses here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <Label className="mb-3 flex items-center gap-2">
+        <Pill className="h-4 w-4 text-teal-500" />
+        Medications
+      </Label>
+
+      <div className="space-y-2">
+        {medications.filter(m => m.scheduleTimes.length > 0).map(medication => (
+          <div key={medication.id} className="flex flex-wrap items-center gap-2 p-2 border rounded-lg">
+            <span className="text-sm font-medium flex-1 min-w-[8rem]">
+              {medication.name}
+              {medication.strength && <span className="text-muted-foreground font-normal"> {medication.strength}</span>}
+            </span>
+            {medication.scheduleTimes.map(slot => {
+              const dose = doses.find(d => d.medicationId === medication.id && d.scheduledTime === slot);
+              return (
+                <div key={slot} className="flex items-center gap-1">
+                  <span className="text-xs text-muted-foreground w-10">{slot}</span>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={dose?.status === "taken" ? "default" : "outline"}
+                    onClick={() => setSlotStatus(medication, slot, "taken")}
+                  >
+                    <Check className="h-3 w-3 mr-1" />
+                    Taken
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={dose?.status === "skipped" ? "destructive" : "outline"}
+                    onClick={() => setSlotStatus(medication, slot, "skipped")}
+                  >
+                    Skipped
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      {medications.length > 0 && (
+        <div className="flex gap-2 mt-3">
+          <Select value={extraMedicationId} onValueChange={setExtraMedicationId}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Log another dose..." />
+            </SelectTrigger>
+            <SelectContent>
+              {medications.map(medication => (
+                <SelectItem key={medication.id} value={medication.id}>
+                  {[medication.name, medication.strength].filter(Boolean).join(" ")}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="time"
+            value={extraTime}
+            onChange={(e) => setExtraTime(e.target.value)}
+            className="w-32"
+            aria-label="Dose time"
+          />
+          <Button type="button" variant="outline" onClick={addExtraDose} disabled={!extraMedicationId}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {extraDoses.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {extraDoses.map(dose => (
+            <Badge
+              key={dose.id}
+              variant="secondary"
+              className={dose.status === "taken" ? "bg-teal-50 text-teal-700 dark:bg-teal-950/20" : "bg-red-50 text-red-700 dark:bg-red-950/20"}
+            >
+              {formatDose(dose)} {dose.status} {format(new Date(dose.time), "HH:mm")}
+              <X
+                className="h-3 w-3 ml-1 cursor-pointer"
+                onClick={() => onDosesChange(doses.filter(d => d.id !== dose.id))}
+              />
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MedicationLog;
@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Pencil, Pill, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Medication } from "@/lib/healthJournalTypes";
+import { addMedication, deleteMedication, updateMedication } from "@/lib/healthMedications";
+import { useMedications } from "@/hooks/use-medications";
+
+const describeSchedule = (medication: Medication): string =>
+  medication.scheduleTimes.length > 0 ? `Daily at ${medication.scheduleTimes.join(", ")}` : "As needed";
+
+const MedicationManager = () => {
+  const medications = useMedications();
+  const [editingId, setEditingId] = useState<string | "new" | null>(null);
+  const [name, setName] = useState("");
+  const [strength, setStrength] = useState("");
+  const [scheduleTimes, setScheduleTimes] = useState<string[]>([]);
+  const [newTime, setNewTime] = useState("08:00");
+  const [medicationToDelete, setMedicationToDelete] = useState<Medication | null>(null);
+
+  const startEditing = (medication: Medication | null) => {
+    setEditingId(medication?.id ?? "new");
+    setName(medication?.name ?? "");
+    setStrength(medication?.strength ?? "");
+    setScheduleTimes(medication?.scheduleTimes ?? []);
+  };
+
+  const addTime = () => {
+    if (newTime && !scheduleTimes.includes(newTime)) {
+      setScheduleTimes([...scheduleTimes, newTime].sort());
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const details = { name, strength, scheduleTimes };
+
+    try {
+      if (editingId === "new") {
+        await addMedication(details);
+        toast.success(`${name.trim()} added`);
+      } else if (editingId) {
+        await updateMedication(editingId, details);
+        toast.success("Medication updated");
+      }
+      setEditingId(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save medication");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!medicationToDelete) return;
+    try {
+      await deleteMedication(medicationToDelete.id);
+      toast.success(`${medicationToDelete.name} removed`);
+    } catch (error) {
+      console.error("Failed to remove medication:", error);
+      toast.error("Failed to remove medication");
+    } finally {
+      setMedicationToDelete(null);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
+        <Pill className="h-5 w-5 text-teal-500" />
+        Medications
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Medications you take regularly or as needed. Log doses in each journal entry to track adherence.
+      </p>
+
+      {editingId ? (
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="medication-name">Name</Label>
+              <Input
+                id="medication-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Ibuprofen"
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="medication-strength">Strength</Label>
+              <Input
+                id="medication-strength"
+                value={strength}
+                onChange={(e) => setStrength(e.target.value)}
+                placeholder="e.g., 400 mg"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="medication-time">Schedule</Label>
+            <div className="flex gap-2">
+              <Input id="medication-time" type="time" value={newTime} onChange={(e) => setNewTime(e.target.value)} />
+              <Button type="button" variant="outline" onClick={addTime}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Time
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {scheduleTimes.length === 0 && (
+                <span className="text-sm text-muted-foreground">No set times: taken as needed</span>
+              )}
+              {scheduleTimes.map(time => (
+                <Badge key={time} variant="secondary">
+                  {time}
+                  <X
+                    className="h-3 w-3 ml-1 cursor-pointer"
+                    onClick={() => setScheduleTimes(scheduleTimes.filter(t => t !== time))}
+                  />
+                </Badge>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setEditingId(null)}>
+              Cancel
+            </Button>
+            <Button type="submit">Save</Button>
+          </div>
+        </form>
+      ) : (
+        <div className="space-y-3">
+          {medications.map(medication => (
+            <div key={medication.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+              <div className="min-w-0">
+                <p className="font-medium truncate">
+                  {medication.name}
+                  {medication.strength && (
+                    <span className="text-muted-foreground font-normal"> {medication.strength}</span>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground">{describeSchedule(medication)}</p>
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="icon" onClick={() => startEditing(medication)}>
+                  <Pencil className="h-4 w-4" />
+                  <span className="sr-only">Edit {medication.name}</span>
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => setMedicationToDelete(medication)}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                  <span className="sr-only">Remove {medication.name}</span>
+                </Button>
+              </div>
+            </div>
+          ))}
+          <Button variant="outline" className="w-full" onClick={() => startEditing(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Medication
+          </Button>
+        </div>
+      )}
+
+      <AlertDialog open={!!medicationToDelete} onOpenChange={(open) => !open && setMedicationToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {medicationToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It will no longer appear when logging entries. Doses already logged stay in your journal.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default MedicationManager;
@@ -0,0 +1,90 @@
+import { useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
+import { format, parseISO } from "date-fns";
+import { Utensils } from "lucide-react";
+import { JournalEntry } from "@/lib/healthJournalTypes";
+import {
+  NUTRIENT_DEFINITIONS,
+  NUTRIENT_KEYS,
+  NutrientKey,
+  formatNutrient,
+  getDailyNutrients,
+  hasMeals,
+} from "@/lib/healthNutrition";
+import { describeAssociation, getSignificantLinks } from "@/lib/healthStatistics";
+import { useLaggedAssociations } from "@/hooks/use-associations";
+
+interface NutritionChartProps {
+  entries: JournalEntry[]; // One summary per day
+}
+
+const NutritionChart = ({ entries }: NutritionChartProps) => {
+  const [nutrient, setNutrient] = useState<NutrientKey>("calories");
+  const days = useMemo(() => entries.filter(hasMeals), [entries]);
+  const associations = useLaggedAssociations(entries);
+  const links = getSignificantLinks(associations, "diet", "nutrition").slice(0, 5);
+
+  if (days.length === 0) return null;
+
+  const definition = NUTRIENT_DEFINITIONS[nutrient];
+  const data = [...days].reverse().slice(-30).map(entry => ({
+    date: format(parseISO(entry.date), "MMM d"),
+    value: getDailyNutrients(entry)[nutrient],
+  }));
+  const average = data.reduce((sum, point) => sum + point.value, 0) / data.length;
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Utensils className="h-5 w-5 text-green-600" />
+          Nutrition
+        </h3>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">Avg {formatNutrient(nutrient, average)}/day</Badge>
+          <Select value={nutrient} onValueChange={(value) => setNutrient(value as NutrientKey)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {NUTRIENT_KEYS.map(key => (
+                <SelectItem key={key} value={key}>
+                  {NUTRIENT_DEFINITIONS[key].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <ResponsiveContainer width="100%" height={250}>
+        <BarChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="date" />
+          <YAxis />
+          <Tooltip formatter={(value: number) => [formatNutrient(nutrient, value), definition.label]} />
+          {definition.highAt !== undefined && (
+            <ReferenceLine y={definition.highAt} stroke="#ef4444" strokeDasharray="4 4" label="High" />
+          )}
+          <Bar dataKey="value" fill={definition.color} name={definition.label} />
+        </BarChart>
+      </ResponsiveContainer>
+
+      {links.length > 0 && (
+        <div className="mt-6 pt-4 border-t space-y-2">
+          <h4 className="text-sm font-semibold">Links with symptoms</h4>
+          {links.map(link => (
+            <p key={`${link.factor}-${link.symptom}-${link.lag}`} className="text-sm text-muted-foreground">
+              {describeAssociation(link)}
+            </p>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default NutritionChart;
@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface PassphraseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  submitLabel: string;
+  requireConfirmation?: boolean; // Ask twice when choosing a new passphrase
+  minLength?: number;
+  onSubmit: (passphrase: string) => Promise<void>;
+}
+
+const PassphraseDialog = ({
+  open,
+  onOpenChange,
+  title,
+  description,
+  submitLabel,
+  requireConfirmation = false,
+  minLength = 1,
+  onSubmit,
+}: PassphraseDialogProps) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setPassphrase("");
+      setConfirmation("");
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (passphrase.length < minLength) {
+      toast.error(`Passphrase must be at least ${minLength} characters`);
+      return;
+    }
+    if (requireConfirmation && passphrase !== confirmation) {
+      toast.error("Passphrases do not match");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(passphrase);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSubmitting && onOpenChange(next)}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="passphrase">Passphrase</Label>
+            <Input
+              id="passphrase"
+              type="password"
+              autoComplete={requireConfirmation ? "new-password" : "current-password"}
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoFocus
+            />
+          </div>
+
+          {requireConfirmation && (
+            <div className="space-y-2">
+              <Label htmlFor="passphrase-confirm">Confirm Passphrase</Label>
+              <Input
+                id="passphrase-confirm"
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !passphrase}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PassphraseDialog;
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { FlaskConical, History, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { JournalEntry } from "@/lib/healthJournalTypes";
+import { getPredictionSettings } from "@/lib/healthPredictionEngine";
+import { getIntakeLog } from "@/lib/healthIntake";
+import { getTrackerList } from "@/lib/healthTrackers";
+import { BacktestResult, backtestPredictions } from "@/lib/predictionBacktest";
+import { PlantedPattern, SAMPLE_PATTERNS, generateSyntheticJournal } from "@/lib/syntheticJournal";
+
+interface PredictionBacktestProps {
+  entries: JournalEntry[];
+}
+
+type BacktestSource = "journal" | "sample";
+
+const SAMPLE_DAYS = 180;
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const percent = (value: number | null) => (value === null ? "–" : `${Math.round(value * 100)}%`);
+
+const describePattern = (pattern: PlantedPattern): string => {
+  switch (pattern.kind) {
+    case "weekly":
+      return `${pattern.symptom} on ${WEEKDAYS[pattern.dayOfWeek]}s`;
+    case "monthly":
+      return `${pattern.symptom} around day ${pattern.dayOfMonth} of the month`;
+    case "skippedDose":
+      return `${pattern.symptom} the day after skipping ${pattern.medication}`;
+    case "random":
+      return `${pattern.symptom} at random (no pattern)`;
+  }
+};
+
+const PredictionBacktest = ({ entries }: PredictionBacktestProps) => {
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [source, setSource] = useState<BacktestSource>("journal");
+  const [running, setRunning] = useState<BacktestSource | null>(null);
+
+  const runBacktest = async (from: BacktestSource) => {
+    setRunning(from);
+    try {
+      const settings = await getPredictionSettings();
+      // Let the spinner paint before the replay blocks the main thread
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const backtest = from === "journal"
+        ? backtestPredictions(entries, { settings, intakeLog: await getIntakeLog(), trackerList: await getTrackerList() })
+        : backtestPredictions(generateSyntheticJournal({ days: SAMPLE_DAYS, patterns: SAMPLE_PATTERNS }), { settings });
+
+      if (backtest.forecasts === 0) {
+        toast.info("Not enough history to backtest yet. Keep logging!");
+        return;
+      }
+      setResult(backtest);
+      setSource(from);
+    } catch (error) {
+      console.error("Backtest failed:", error);
+      toast.error("Failed to run the backtest");
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const calibrationData = result?.calibration.map(bin => ({
+    range: `${Math.round(bin.from * 100)}–${Math.round(bin.to * 100)}%`,
+    predicted: Math.round(bin.meanConfidence * 100),
+    observed: Math.round(bin.observedRate * 100),
+    forecasts: bin.forecasts,
+  })) ?? [];
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          Prediction Accuracy
+        </h3>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => runBacktest("journal")} disabled={running !== null}>
+            {running === "journal" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Test on My Journal
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => runBacktest("sample")} disabled={running !== null}>
+            {running === "sample" ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FlaskConical className="h-4 w-4 mr-2" />
+            )}
+            Test on Sample Journal
+          </Button>
+        </div>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Replays the journal day by day, predicting each day from only the days before it, and checks the predictions
+        against what was logged. Weather is left out, as past forecasts aren't kept.
+      </p>
+
+      {result && (
+        <div className="space-y-4">
+          {source === "sample" && (
+            <div className="text-sm">
+              <p className="font-medium mb-1">{SAMPLE_DAYS} generated days with these planted patterns:</p>
+              <ul className="list-disc list-inside text-muted-foreground">
+                {SAMPLE_PATTERNS.map(pattern => <li key={pattern.symptom}>{describePattern(pattern)}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <p className="text-xs text-muted-foreground">Precision</p>
+              <p className="text-2xl font-bold">{percent(result.precision)}</p>
+              <p className="text-xs text-muted-foreground">{result.hits} of {result.predicted} predictions came true</p>
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <p className="text-xs text-muted-foreground">Recall</p>
+              <p className="text-2xl font-bold">{percent(result.recall)}</p>
+              <p className="text-xs text-muted-foreground">{result.hits} of {result.occurrences} symptom days foreseen</p>
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <p className="text-xs text-muted-foreground">Brier score</p>
+              <p className="text-2xl font-bold">{result.brierScore === null ? "–" : result.brierScore.toFixed(3)}</p>
+              <p className="text-xs text-muted-foreground">0 is perfect; lower is better</p>
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <p className="text-xs text-muted-foreground">Days checked</p>
+              <p className="text-2xl font-bold">{result.scoredDays}</p>
+              <p className="text-xs text-muted-foreground">{result.forecasts} symptom days scored</p>
+            </div>
+          </div>
+
+          {calibrationData.length > 1 && (
+            <div>
+              <h4 className="text-sm font-medium mb-2">Calibration</h4>
+              <p className="text-xs text-muted-foreground mb-2">
+                How often symptoms actually appeared at each confidence level. Well-calibrated predictions follow the
+                predicted line.
+              </p>
+              <ResponsiveContainer width="100%" height={220}>
+                <LineChart data={calibrationData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="range" tick={{ fontSize: 11 }} />
+                  <YAxis domain={[0, 100]} unit="%" />
+                  <Tooltip formatter={(value: number, name: string) => [`${value}%`, name]} />
+                  <Legend />
+                  <Line type="monotone" dataKey="predicted" name="Predicted" stroke="#94a3b8" strokeDasharray="5 5" />
+                  <Line type="monotone" dataKey="observed" name="Observed" stroke="#8b5cf6" strokeWidth={2} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {result.bySymptom.length > 0 && (
+            <div className="space-y-1">
+              <h4 className="text-sm font-medium mb-2">By Symptom</h4>
+              {result.bySymptom.map(symptom => (
+                <div key={symptom.symptom} className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{symptom.symptom}</span>
+                  <div className="flex gap-2">
+                    <Badge variant="outline">{symptom.occurrences} logged</Badge>
+                    <Badge variant="outline">{symptom.predicted} predicted</Badge>
+                    <Badge variant="secondary">{symptom.hits} correct</Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default PredictionBacktest;
@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Check, TrendingUp, X } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { HealthPrediction, PredictionOutcome } from "@/lib/healthPredictionTypes";
+import { getPredictionsForDate, recordPredictionOutcome } from "@/lib/predictionFeedback";
+
+interface PredictionFeedbackProps {
+  date: string;
+  loggedSymptoms: string[]; // Symptoms in the entry being edited
+}
+
+// Asks whether the predictions for the entry's day came true. Answers are
+// saved straight away, separately from the entry.
+const PredictionFeedback = ({ date, loggedSymptoms }: PredictionFeedbackProps) => {
+  const [predictions, setPredictions] = useState<HealthPrediction[]>([]);
+  const isPast = date <= format(new Date(), "yyyy-MM-dd");
+
+  useEffect(() => {
+    if (!isPast) {
+      setPredictions([]);
+      return;
+    }
+    getPredictionsForDate(date).then(setPredictions);
+  }, [date, isPast]);
+
+  const handleOutcome = async (prediction: HealthPrediction, outcome: PredictionOutcome) => {
+    // Tapping the chosen answer again clears it
+    const next = prediction.outcome === outcome ? undefined : outcome;
+    try {
+      await recordPredictionOutcome(prediction.id, next);
+      setPredictions(predictions.map(p => (p.id === prediction.id ? { ...p, outcome: next } : p)));
+    } catch (error) {
+      console.error("Failed to save prediction feedback:", error);
+      toast.error("Failed to save your answer");
+    }
+  };
+
+  if (predictions.length === 0) return null;
+
+  return (
+    <div className="p-4 border rounded-lg bg-primary/5">
+      <Label className="mb-1 flex items-center gap-2">
+        <TrendingUp className="h-4 w-4 text-primary" />
+        Did these predictions come true?
+      </Label>
+      <p className="text-xs text-muted-foreground mb-3">
+        Your answers help tune future predictions.
+      </p>
+      <div className="space-y-2">
+        {predictions.map(prediction => {
+          const symptom = prediction.symptom ?? prediction.type;
+          const logged = loggedSymptoms.includes(symptom);
+          return (
+            <div key={prediction.id} className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="font-medium">{symptom}</span>
+                <span className="text-muted-foreground">{Math.round(prediction.confidence * 100)}% confidence</span>
+                {logged && <Badge variant="secondary">Logged in this entry</Badge>}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={prediction.outcome === "happened" ? "default" : "outline"}
+                  onClick={() => handleOutcome(prediction, "happened")}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  It happened
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={prediction.outcome === "didNotHappen" ? "default" : "outline"}
+                  onClick={() => handleOutcome(prediction, "didNotHappen")}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  It didn't
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PredictionFeedback;
@@ -1,29 +1,42 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
-import { PredictionSettings as Settings } from "@/lib/healthPredictionTypes";
+import { PredictionSettings as Settings, DEFAULT_PREDICTION_SETTINGS } from "@/lib/healthPredictionTypes";
 import { getPredictionSettings, savePredictionSettings } from "@/lib/healthPredictionEngine";
+import { PREDICTION_DETECTORS, isDetectorEnabled } from "@/lib/predictionDetectors";
 import { getCityCoordinates } from "@/lib/weatherApi";
 import { toast } from "sonner";
-import { Settings as SettingsIcon, MapPin, Bell, Cloud, TrendingUp, Save } from "lucide-react";
+import { Settings as SettingsIcon, MapPin, Bell, Cloud, TrendingUp, Save, Radar } from "lucide-react";
 
 interface PredictionSettingsProps {
   onSettingsChange?: () => void;
 }
 
 const PredictionSettings = ({ onSettingsChange }: PredictionSettingsProps) => {
-  const [settings, setSettings] = useState<Settings>(getPredictionSettings());
-  const [cityInput, setCityInput] = useState(settings.location?.city || "");
+  const [settings, setSettings] = useState<Settings>(DEFAULT_PREDICTION_SETTINGS);
+  const [cityInput, setCityInput] = useState("");
   const [isLoadingLocation, setIsLoadingLocation] = useState(false);
 
-  const handleSave = () => {
-    savePredictionSettings(settings);
-    toast.success("Prediction settings saved!");
-    onSettingsChange?.();
+  useEffect(() => {
+    getPredictionSettings().then(stored => {
+      setSettings(stored);
+      setCityInput(stored.location?.city || "");
+    });
+  }, []);
+
+  const handleSave = async () => {
+    try {
+      await savePredictionSettings(settings);
+      toast.success("Prediction settings saved!");
+      onSettingsChange?.();
+    } catch (error) {
+      console.error("Failed to save prediction settings:", error);
+      toast.error("Failed to save prediction settings");
+    }
   };
 
   const handleCityLookup = async () => {
@@ -236,6 +249,32 @@ const PredictionSettings = ({ onSettingsChange }: PredictionSettingsProps) => {
                 <span>7 days</span>
               </div>
             </div>
+
+            {/* Detectors */}
+            <div className="space-y-3">
+              <Label className="flex items-center gap-2">
+                <Radar className="h-4 w-4" />
+                Detectors
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                Choose which kinds of evidence predictions are based on
+              </p>
+              {PREDICTION_DETECTORS.map(detector => (
+                <div key={detector.id} className="flex items-center justify-between gap-3 pl-6">
+                  <div>
+                    <Label htmlFor={`detector-${detector.id}`} className="font-medium">{detector.label}</Label>
+                    <p className="text-xs text-muted-foreground">{detector.description}</p>
+                  </div>
+                  <Switch
+                    id={`detector-${detector.id}`}
+                    checked={isDetectorEnabled(settings, detector.id)}
+                    onCheckedChange={(enabled) =>
+                      setSettings({ ...settings, detectors: { ...settings.detectors, [detector.id]: enabled } })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
           </>
         )}
 
@@ -250,7 +289,8 @@ const PredictionSettings = ({ onSettingsChange }: PredictionSettingsProps) => {
           <p className="font-medium mb-2">How Predictions Work:</p>
           <ul className="space-y-1 list-disc list-inside">
             <li>Analyzes patterns in your journal entries</li>
-            <li>Detects day-of-week and monthly cycles</li>
+            <li>Detects weekly, monthly and menstrual cycle patterns</li>
+            <li>Links symptoms to skipped doses, food and drink</li>
             <li>Correlates symptoms with weather changes</li>
             <li>Provides preventive recommendations</li>
           </ul>
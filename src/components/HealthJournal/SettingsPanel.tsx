@@ -6,8 +6,14 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Download, Upload, Bell, FileJson, FileSpreadsheet, Flame, Info, FileText } from "lucide-react";
-import { exportToJSON, exportToCSV, importFromJSON } from "@/lib/healthJournalExport";
+import { Download, Upload, Bell, FileJson, FileSpreadsheet, Flame, Info, FileText, ShieldAlert, Trash2, Lock } from "lucide-react";
+import {
+  exportToJSON,
+  exportToCSV,
+  exportEncryptedBackup,
+  importFromJSON,
+  isEncryptedBackup
+} from "@/lib/healthJournalExport";
 import { 
   getReminderSettings, 
   saveReminderSettings, 
@@ -15,9 +21,20 @@ import {
   getStreak 
 } from "@/lib/healthJournalReminders";
 import { JournalEntry } from "@/lib/healthJournalTypes";
-import { saveJournalEntry } from "@/lib/healthJournalStorage";
+import { getTrackerList } from "@/lib/healthTrackers";
+import { saveIncomingEntries } from "@/lib/journalConflicts";
+import { QuarantinedRecord, getQuarantinedRecords, clearQuarantine } from "@/lib/schemaMigrations";
+import { MIN_PASSPHRASE_LENGTH } from "@/lib/vaultSetup";
+import { useVault } from "@/hooks/use-vault";
 import { toast } from "sonner";
 import DoctorReportGenerator from "./DoctorReportGenerator";
+import PassphraseDialog from "./PassphraseDialog";
+import VaultSettings from "./VaultSettings";
+import CloudSyncSettings from "./CloudSyncSettings";
+import VitalTargetsSettings from "./VitalTargetsSettings";
+import MedicationManager from "./MedicationManager";
+import TrackerManager from "./TrackerManager";
+import IntakeGoalsSettings from "./IntakeGoalsSettings";
 
 interface SettingsPanelProps {
   entries: JournalEntry[];
@@ -28,6 +45,10 @@ const SettingsPanel = ({ entries, onImport }: SettingsPanelProps) => {
   const [reminderEnabled, setReminderEnabled] = useState(false);
   const [reminderTime, setReminderTime] = useState("20:00");
   const [notificationsGranted, setNotificationsGranted] = useState(false);
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
+  const [showBackupDialog, setShowBackupDialog] = useState(false);
+  const [pendingImport, setPendingImport] = useState<File | null>(null);
+  const { enabled: vaultEnabled } = useVault();
   const streak = getStreak(entries);
 
   useEffect(() => {
@@ -35,43 +56,105 @@ const SettingsPanel = ({ entries, onImport }: SettingsPanelProps) => {
     setReminderEnabled(settings.enabled);
     setReminderTime(settings.time);
     setNotificationsGranted(settings.notificationsGranted);
+    loadQuarantine();
   }, []);
 
-  const handleExportJSON = () => {
+  const loadQuarantine = async () => {
+    try {
+      setQuarantined(await getQuarantinedRecords());
+    } catch (error) {
+      console.error("Failed to load quarantined records:", error);
+    }
+  };
+
+  const handleDownloadQuarantine = () => {
+    const dataBlob = new Blob([JSON.stringify(quarantined, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(dataBlob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'health-journal-quarantine.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClearQuarantine = async () => {
+    if (!confirm("Permanently discard all quarantined records?")) return;
+    await clearQuarantine();
+    setQuarantined([]);
+    toast.success("Quarantined records discarded");
+  };
+
+  const handleExportJSON = async () => {
     if (entries.length === 0) {
       toast.error("No entries to export");
       return;
     }
-    exportToJSON(entries);
-    toast.success(`Exported ${entries.length} entries as JSON`);
+    try {
+      await exportToJSON(entries);
+      toast.success(`Exported ${entries.length} entries as JSON`);
+    } catch (error) {
+      console.error("Export error:", error);
+      toast.error("Failed to export entries");
+    }
   };
 
-  const handleExportCSV = () => {
+  const handleExportCSV = async () => {
     if (entries.length === 0) {
       toast.error("No entries to export");
       return;
     }
-    exportToCSV(entries);
+    exportToCSV(entries, await getTrackerList());
     toast.success(`Exported ${entries.length} entries as CSV`);
   };
 
+  const handleEncryptedExport = async (passphrase: string) => {
+    await exportEncryptedBackup(entries, passphrase);
+    toast.success(`Exported ${entries.length} entries as an encrypted backup`);
+  };
+
+  const handleEncryptedExportClick = () => {
+    if (entries.length === 0) {
+      toast.error("No entries to export");
+      return;
+    }
+    setShowBackupDialog(true);
+  };
+
+  const importFile = async (file: File, passphrase?: string) => {
+    const { entries: importedEntries, quarantined } = await importFromJSON(file, passphrase);
+
+    // Entries that already exist are merged with the local copy
+    const { conflicts } = await saveIncomingEntries(importedEntries, `import:${file.name}`);
+
+    toast.success(`Imported ${importedEntries.length} entries successfully!`);
+    if (conflicts > 0) {
+      toast.warning(`${conflicts} ${conflicts === 1 ? 'entry differs' : 'entries differ'} from your copy – review the conflicts`);
+    }
+    if (quarantined > 0) {
+      toast.warning(`${quarantined} invalid ${quarantined === 1 ? 'entry was' : 'entries were'} quarantined`);
+      loadQuarantine();
+    }
+    onImport();
+  };
+
   const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     try {
-      const importedEntries = await importFromJSON(file);
-      
-      // Save all imported entries
-      importedEntries.forEach(entry => saveJournalEntry(entry));
-      
-      toast.success(`Imported ${importedEntries.length} entries successfully!`);
-      onImport();
-      
-      // Reset file input
-      e.target.value = '';
+      if (await isEncryptedBackup(file)) {
+        // Ask for the backup passphrase before importing
+        setPendingImport(file);
+      } else {
+        await importFile(file);
+      }
     } catch (error) {
       toast.error(error instanceof Error ? error.message : "Failed to import file");
+    } finally {
+      // Reset file input
+      e.target.value = '';
     }
   };
 
@@ -149,6 +232,10 @@ const SettingsPanel = ({ entries, onImport }: SettingsPanelProps) => {
             <FileSpreadsheet className="h-4 w-4 mr-2" />
             Export as CSV
           </Button>
+          <Button onClick={handleEncryptedExportClick} variant="outline" className="flex-1">
+            <Lock className="h-4 w-4 mr-2" />
+            Encrypted Backup
+          </Button>
         </div>
         <p className="text-xs text-muted-foreground mt-3">
           {entries.length} entries available to export
@@ -162,7 +249,7 @@ const SettingsPanel = ({ entries, onImport }: SettingsPanelProps) => {
           Import Data
         </h3>
         <p className="text-sm text-muted-foreground mb-4">
-          Restore journal entries from a previously exported JSON file.
+          Restore journal entries from a previously exported JSON file or encrypted backup.
         </p>
         <div className="flex items-center gap-3">
           <Input
@@ -180,6 +267,59 @@ const SettingsPanel = ({ entries, onImport }: SettingsPanelProps) => {
         </Alert>
       </Card>
 
+      {/* Medications */}
+      <MedicationManager />
+
+      {/* Custom Trackers and Tags */}
+      <TrackerManager />
+
+      {/* Intake Goals */}
+      <IntakeGoalsSettings />
+
+      {/* Vital Sign Targets */}
+      <VitalTargetsSettings />
+
+      {/* Cloud Sync */}
+      <CloudSyncSettings onSynced={onImport} />
+
+      {/* Vault Encryption */}
+      <VaultSettings />
+
+      {/* Quarantined Records */}
+      {quarantined.length > 0 && (
+        <Card className="p-6 border-orange-200">
+          <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-orange-500" />
+            Quarantined Records
+            <Badge variant="secondary">{quarantined.length}</Badge>
+          </h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            These records could not be upgraded or failed validation, so they were set aside instead of being deleted.
+          </p>
+          <div className="space-y-2 mb-4 max-h-48 overflow-auto">
+            {quarantined.slice(0, 20).map((item) => (
+              <div key={item.id} className="p-3 bg-muted/50 rounded-lg text-sm">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-medium">{item.source}</span>
+                  <Badge variant="outline" className="text-xs">{item.kind}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">{item.errors.join('; ')}</p>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <Button onClick={handleDownloadQuarantine} variant="outline" className="flex-1">
+              <FileJson className="h-4 w-4 mr-2" />
+              Download
+            </Button>
+            <Button onClick={handleClearQuarantine} variant="outline" className="flex-1 text-destructive hover:text-destructive">
+              <Trash2 className="h-4 w-4 mr-2" />
+              Discard All
+            </Button>
+          </div>
+        </Card>
+      )}
+
       {/* Daily Reminders */}
       <Card className="p-6">
         <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
@@ -233,9 +373,32 @@ const SettingsPanel = ({ entries, onImport }: SettingsPanelProps) => {
         <Info className="h-4 w-4 text-primary" />
         <AlertDescription className="text-sm">
           <strong>Privacy:</strong> All journal data is stored locally in your browser. 
-          Your entries are private and never sent to external servers (except when using AI analysis).
+          Your entries are private and only leave this device when you sign in to cloud sync or use AI analysis.
         </AlertDescription>
       </Alert>
+
+      <PassphraseDialog
+        open={showBackupDialog}
+        onOpenChange={setShowBackupDialog}
+        title="Encrypted Backup"
+        description={
+          vaultEnabled
+            ? "Enter your vault passphrase. The backup can only be restored with it."
+            : "Choose a passphrase for this backup. It can only be restored with this passphrase."
+        }
+        submitLabel="Export"
+        requireConfirmation={!vaultEnabled}
+        minLength={vaultEnabled ? 1 : MIN_PASSPHRASE_LENGTH}
+        onSubmit={handleEncryptedExport}
+      />
+      <PassphraseDialog
+        open={pendingImport !== null}
+        onOpenChange={(open) => !open && setPendingImport(null)}
+        title="Restore Encrypted Backup"
+        description="Enter the passphrase this backup was created with."
+        submitLabel="Import"
+        onSubmit={(passphrase) => importFile(pendingImport!, passphrase)}
+      />
     </div>
   );
 };
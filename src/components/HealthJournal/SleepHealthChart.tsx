@@ -0,0 +1,131 @@
+import { useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
+import { format, parseISO } from "date-fns";
+import { BedDouble } from "lucide-react";
+import { JournalEntry } from "@/lib/healthJournalTypes";
+import {
+  DEBT_WINDOW_NIGHTS,
+  SLEEP_DEBT_THRESHOLD_HOURS,
+  SLEEP_NEED_HOURS,
+  SleepNight,
+  analyzeSleep,
+  formatMidpoint,
+} from "@/lib/healthSleep";
+
+interface SleepHealthChartProps {
+  entries: JournalEntry[];
+}
+
+type SleepMetric = "debt" | "socialJetLag" | "regularity";
+
+const CHART_DAYS = 30;
+
+const METRICS: Record<SleepMetric, { label: string; unit: string; color: string; description: string }> = {
+  debt: {
+    label: "Sleep debt",
+    unit: "h",
+    color: "#6366f1",
+    description: `Hours short of ${SLEEP_NEED_HOURS}h a night over the last ${DEBT_WINDOW_NIGHTS} nights.`,
+  },
+  socialJetLag: {
+    label: "Social jet lag",
+    unit: "h",
+    color: "#f59e0b",
+    description: "Hours between your weekend and weekday sleep midpoints over the last 4 weeks.",
+  },
+  regularity: {
+    label: "Regularity",
+    unit: "",
+    color: "#14b8a6",
+    description: "How alike your sleep and wake times are from day to day; 100 is the same schedule every day.",
+  },
+};
+
+const SleepHealthChart = ({ entries }: SleepHealthChartProps) => {
+  const [metric, setMetric] = useState<SleepMetric>("debt");
+  const nights = useMemo(() => analyzeSleep(entries), [entries]);
+
+  if (nights.length === 0) return null;
+
+  const definition = METRICS[metric];
+  const recent = nights.slice(-CHART_DAYS);
+  const latest: SleepNight = nights[nights.length - 1];
+  const data = recent.map(night => ({
+    date: format(parseISO(night.date), "MMM d"),
+    value: night[metric] !== undefined ? Number((night[metric] ?? 0).toFixed(1)) : null,
+  }));
+  const hasTimes = recent.some(night => night.midpoint !== undefined);
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <BedDouble className="h-5 w-5 text-indigo-500" />
+          Sleep Health
+        </h3>
+        <Select value={metric} onValueChange={(value) => setMetric(value as SleepMetric)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(METRICS) as SleepMetric[]).map(m => (
+              <SelectItem key={m} value={m}>{METRICS[m].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex flex-wrap gap-2 mb-2">
+        <Badge variant={latest.debt >= SLEEP_DEBT_THRESHOLD_HOURS ? "destructive" : "outline"}>
+          {latest.debt.toFixed(1)}h debt
+        </Badge>
+        {latest.socialJetLag !== undefined && (
+          <Badge variant="outline">{latest.socialJetLag.toFixed(1)}h social jet lag</Badge>
+        )}
+        {latest.regularity !== undefined && (
+          <Badge variant="outline">Regularity {Math.round(latest.regularity)}</Badge>
+        )}
+        {latest.midpoint !== undefined && (
+          <Badge variant="outline">Midpoint {formatMidpoint(latest.midpoint)}</Badge>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">{definition.description}</p>
+
+      {metric !== "debt" && !hasTimes ? (
+        <p className="text-sm text-muted-foreground">
+          Log bedtime and wake time with your sleep to see {definition.label.toLowerCase()}.
+        </p>
+      ) : (
+        <ResponsiveContainer width="100%" height={250}>
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="date" />
+            <YAxis domain={metric === "regularity" ? [-100, 100] : [0, "auto"]} />
+            <Tooltip formatter={(value: number) => [`${value}${definition.unit}`, definition.label]} />
+            {metric === "debt" && (
+              <ReferenceLine
+                y={SLEEP_DEBT_THRESHOLD_HOURS}
+                stroke="#ef4444"
+                strokeDasharray="4 4"
+                label="Raises risk"
+              />
+            )}
+            <Line
+              type="monotone"
+              dataKey="value"
+              stroke={definition.color}
+              strokeWidth={2}
+              name={definition.label}
+              connectNulls
+              dot={{ fill: definition.color }}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </Card>
+  );
+};
+
+export default SleepHealthChart;
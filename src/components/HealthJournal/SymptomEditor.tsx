@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { X } from "lucide-react";
+import { COMMON_SYMPTOMS, SymptomRecord } from "@/lib/healthJournalTypes";
+import {
+  MAX_SEVERITY,
+  MIN_SEVERITY,
+  SEVERITY_BAND_LABELS,
+  SeverityBand,
+  createSymptom,
+  getSeverityBand
+} from "@/lib/healthSymptoms";
+
+interface SymptomEditorProps {
+  symptoms: SymptomRecord[];
+  onSymptomsChange: (symptoms: SymptomRecord[]) => void;
+}
+
+const SEVERITY_BAND_STYLES: Record<SeverityBand, string> = {
+  mild: "bg-yellow-100 text-yellow-700 dark:bg-yellow-950/20",
+  moderate: "bg-orange-100 text-orange-700 dark:bg-orange-950/20",
+  severe: "bg-red-100 text-red-700 dark:bg-red-950/20",
+};
+
+const SymptomEditor = ({ symptoms, onSymptomsChange }: SymptomEditorProps) => {
+  const [customSymptom, setCustomSymptom] = useState("");
+
+  const isSelected = (name: string) => symptoms.some(s => s.name === name);
+
+  const toggleSymptom = (name: string) => {
+    onSymptomsChange(isSelected(name)
+      ? symptoms.filter(s => s.name !== name)
+      : [...symptoms, createSymptom(name)]);
+  };
+
+  const addCustomSymptom = () => {
+    const trimmed = customSymptom.trim();
+    if (trimmed && !isSelected(trimmed)) {
+      onSymptomsChange([...symptoms, createSymptom(trimmed)]);
+      setCustomSymptom("");
+    }
+  };
+
+  const updateSymptom = (name: string, changes: Partial<SymptomRecord>) => {
+    onSymptomsChange(symptoms.map(s => s.name === name ? { ...s, ...changes } : s));
+  };
+
+  const handleDurationChange = (name: string, value: string) => {
+    const minutes = parseInt(value, 10);
+    updateSymptom(name, { durationMinutes: Number.isNaN(minutes) || minutes < 0 ? undefined : minutes });
+  };
+
+  return (
+    <div>
+      <Label className="mb-3 block">Symptoms (if any)</Label>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {COMMON_SYMPTOMS.map((symptom) => (
+          <Badge
+            key={symptom}
+            variant={isSelected(symptom) ? "default" : "outline"}
+            className="cursor-pointer hover:scale-105 transition-transform"
+            onClick={() => toggleSymptom(symptom)}
+          >
+            {symptom}
+          </Badge>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Input
+          placeholder="Add custom symptom..."
+          value={customSymptom}
+          onChange={(e) => setCustomSymptom(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addCustomSymptom()}
+        />
+        <Button onClick={addCustomSymptom} variant="outline">
+          Add
+        </Button>
+      </div>
+
+      {symptoms.length > 0 && (
+        <div className="mt-3 space-y-3">
+          {symptoms.map((symptom) => {
+            const band = getSeverityBand(symptom.severity);
+            return (
+              <div key={symptom.name} className="p-3 border rounded-lg space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{symptom.name}</span>
+                  <div className="flex items-center gap-2">
+                    <Badge className={SEVERITY_BAND_STYLES[band]}>
+                      {SEVERITY_BAND_LABELS[band]} · {symptom.severity}/{MAX_SEVERITY}
+                    </Badge>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => toggleSymptom(symptom.name)}
+                      aria-label={`Remove ${symptom.name}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <Slider
+                  min={MIN_SEVERITY}
+                  max={MAX_SEVERITY}
+                  step={1}
+                  value={[symptom.severity]}
+                  onValueChange={([severity]) => updateSymptom(symptom.name, { severity })}
+                  aria-label={`${symptom.name} severity`}
+                />
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                  <Input
+                    type="time"
+                    value={symptom.onset || ""}
+                    onChange={(e) => updateSymptom(symptom.name, { onset: e.target.value || undefined })}
+                    aria-label="Onset time"
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Duration (min)"
+                    value={symptom.durationMinutes ?? ""}
+                    onChange={(e) => handleDurationChange(symptom.name, e.target.value)}
+                  />
+                  <Input
+                    placeholder="Location (e.g. left temple)"
+                    value={symptom.location || ""}
+                    onChange={(e) => updateSymptom(symptom.name, { location: e.target.value || undefined })}
+                  />
+                </div>
+                <Input
+                  placeholder="Notes"
+                  value={symptom.notes || ""}
+                  onChange={(e) => updateSymptom(symptom.name, { notes: e.target.value || undefined })}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SymptomEditor;
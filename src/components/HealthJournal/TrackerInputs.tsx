@@ -0,0 +1,143 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SlidersHorizontal, Tag } from "lucide-react";
+import { Tracker, TrackerValue } from "@/lib/healthJournalTypes";
+import { SCALE_MAX, SCALE_MIN } from "@/lib/healthTrackers";
+import { useTrackers } from "@/hooks/use-trackers";
+
+interface TrackerInputsProps {
+  values: Record<string, TrackerValue>;
+  tags: string[];
+  onValuesChange: (values: Record<string, TrackerValue>) => void;
+  onTagsChange: (tags: string[]) => void;
+}
+
+const SCALE_STEPS = Array.from({ length: SCALE_MAX - SCALE_MIN + 1 }, (_, i) => SCALE_MIN + i);
+
+const TrackerInputs = ({ values, tags, onValuesChange, onTagsChange }: TrackerInputsProps) => {
+  const { trackers, tags: allTags } = useTrackers();
+
+  // Archived trackers and tags only show up on entries that already use them
+  const shownTrackers = trackers.filter(tracker => !tracker.archived || values[tracker.id] !== undefined);
+  const shownTags = allTags.filter(tag => !tag.archived || tags.includes(tag.id));
+
+  if (shownTrackers.length === 0 && shownTags.length === 0) return null;
+
+  const setValue = (tracker: Tracker, value: TrackerValue | undefined) => {
+    const { [tracker.id]: _previous, ...rest } = values;
+    onValuesChange(value === undefined ? rest : { ...rest, [tracker.id]: value });
+  };
+
+  const renderInput = (tracker: Tracker) => {
+    const value = values[tracker.id];
+    switch (tracker.type) {
+      case "boolean":
+        return (
+          <Switch
+            id={`tracker-${tracker.id}`}
+            checked={value === true}
+            onCheckedChange={(checked) => setValue(tracker, checked || undefined)}
+          />
+        );
+      case "number":
+        return (
+          <div className="flex items-center gap-2">
+            <Input
+              id={`tracker-${tracker.id}`}
+              type="number"
+              className="w-28"
+              value={typeof value === "number" ? value : ""}
+              onChange={(e) => setValue(tracker, e.target.value === "" ? undefined : parseFloat(e.target.value))}
+            />
+            {tracker.unit && <span className="text-sm text-muted-foreground">{tracker.unit}</span>}
+          </div>
+        );
+      case "scale":
+        // Clicking the current value again clears it
+        return (
+          <div className="flex gap-1">
+            {SCALE_STEPS.map(step => (
+              <Button
+                key={step}
+                type="button"
+                size="sm"
+                variant={value === step ? "default" : "outline"}
+                onClick={() => setValue(tracker, value === step ? undefined : step)}
+              >
+                {step}
+              </Button>
+            ))}
+          </div>
+        );
+      case "choice":
+        return (
+          <Select
+            value={typeof value === "string" ? value : "none"}
+            onValueChange={(option) => setValue(tracker, option === "none" ? undefined : option)}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Not logged</SelectItem>
+              {(tracker.options || []).map(option => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {shownTrackers.length > 0 && (
+        <div>
+          <Label className="mb-3 flex items-center gap-2">
+            <SlidersHorizontal className="h-4 w-4 text-indigo-500" />
+            My Trackers
+          </Label>
+          <div className="space-y-3">
+            {shownTrackers.map(tracker => (
+              <div key={tracker.id} className="flex items-center justify-between gap-3">
+                <Label htmlFor={`tracker-${tracker.id}`} className="font-normal">
+                  {tracker.name}
+                </Label>
+                {renderInput(tracker)}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {shownTags.length > 0 && (
+        <div>
+          <Label className="mb-3 flex items-center gap-2">
+            <Tag className="h-4 w-4 text-indigo-500" />
+            Tags
+          </Label>
+          <div className="flex flex-wrap gap-2">
+            {shownTags.map(tag => (
+              <Badge
+                key={tag.id}
+                variant={tags.includes(tag.id) ? "default" : "outline"}
+                className="cursor-pointer hover:scale-105 transition-transform"
+                onClick={() => onTagsChange(tags.includes(tag.id) ? tags.filter(id => id !== tag.id) : [...tags, tag.id])}
+              >
+                #{tag.name}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrackerInputs;
@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Archive, ArchiveRestore, ArrowDown, ArrowUp, Pencil, Plus, SlidersHorizontal, Tag, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { JournalTag, Tracker, TrackerType } from "@/lib/healthJournalTypes";
+import {
+  TRACKER_TYPES,
+  TRACKER_TYPE_LABELS,
+  addTag,
+  addTracker,
+  deleteTag,
+  deleteTracker,
+  moveTag,
+  moveTracker,
+  renameTag,
+  setTagArchived,
+  setTrackerArchived,
+  updateTracker,
+} from "@/lib/healthTrackers";
+import { useTrackers } from "@/hooks/use-trackers";
+
+const describeTracker = (tracker: Tracker): string => {
+  if (tracker.type === "number" && tracker.unit) return `Number (${tracker.unit})`;
+  if (tracker.type === "choice") return `Choice: ${(tracker.options || []).join(", ")}`;
+  return TRACKER_TYPE_LABELS[tracker.type];
+};
+
+type PendingDelete = { kind: "tracker"; item: Tracker } | { kind: "tag"; item: JournalTag };
+
+const TrackerManager = () => {
+  const { trackers, tags } = useTrackers();
+  const [editingId, setEditingId] = useState<string | "new" | null>(null);
+  const [name, setName] = useState("");
+  const [type, setType] = useState<TrackerType>("boolean");
+  const [unit, setUnit] = useState("");
+  const [options, setOptions] = useState<string[]>([]);
+  const [newOption, setNewOption] = useState("");
+  const [newTag, setNewTag] = useState("");
+  const [editingTagId, setEditingTagId] = useState<string | null>(null);
+  const [tagName, setTagName] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+
+  const run = async (action: () => Promise<unknown>, failure: string, success?: string) => {
+    try {
+      await action();
+      if (success) toast.success(success);
+      return true;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast.error(error instanceof Error ? error.message : failure);
+      return false;
+    }
+  };
+
+  const startEditing = (tracker: Tracker | null) => {
+    setEditingId(tracker?.id ?? "new");
+    setName(tracker?.name ?? "");
+    setType(tracker?.type ?? "boolean");
+    setUnit(tracker?.unit ?? "");
+    setOptions(tracker?.options ?? []);
+    setNewOption("");
+  };
+
+  const addOption = () => {
+    const option = newOption.trim();
+    if (option && !options.includes(option)) setOptions([...options, option]);
+    setNewOption("");
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = editingId;
+    const details = { name, type, unit, options };
+    if (!id) return;
+    const saved = id === "new"
+      ? await run(() => addTracker(details), "Failed to save tracker", `${name.trim()} added`)
+      : await run(() => updateTracker(id, details), "Failed to save tracker", "Tracker updated");
+    if (saved) setEditingId(null);
+  };
+
+  const handleAddTag = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await run(() => addTag(newTag), "Failed to add tag")) setNewTag("");
+  };
+
+  const handleRenameTag = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingTagId && await run(() => renameTag(editingTagId, tagName), "Failed to rename tag")) {
+      setEditingTagId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    const { kind, item } = pendingDelete;
+    await run(
+      () => kind === "tracker" ? deleteTracker(item.id) : deleteTag(item.id),
+      `Failed to remove ${kind}`,
+      `${item.name} removed`
+    );
+    setPendingDelete(null);
+  };
+
+  const orderButtons = (index: number, count: number, move: (offset: -1 | 1) => Promise<void>, label: string) => (
+    <>
+      <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => run(() => move(-1), "Failed to reorder")}>
+        <ArrowUp className="h-4 w-4" />
+        <span className="sr-only">Move {label} up</span>
+      </Button>
+      <Button variant="ghost" size="icon" disabled={index === count - 1} onClick={() => run(() => move(1), "Failed to reorder")}>
+        <ArrowDown className="h-4 w-4" />
+        <span className="sr-only">Move {label} down</span>
+      </Button>
+    </>
+  );
+
+  const archiveButton = (archived: boolean | undefined, toggle: () => Promise<void>, label: string) => (
+    <Button variant="ghost" size="icon" onClick={() => run(toggle, "Failed to update")}>
+      {archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+      <span className="sr-only">{archived ? "Restore" : "Archive"} {label}</span>
+    </Button>
+  );
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
+        <SlidersHorizontal className="h-5 w-5 text-indigo-500" />
+        Trackers & Tags
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Track anything else that matters to you and tag entries. Archived ones are hidden when logging but keep their history.
+      </p>
+
+      {editingId ? (
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="tracker-name">Name</Label>
+              <Input
+                id="tracker-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Screen time"
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as TrackerType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRACKER_TYPES.map(trackerType => (
+                    <SelectItem key={trackerType} value={trackerType}>
+                      {TRACKER_TYPE_LABELS[trackerType]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {type === "number" && (
+            <div className="space-y-2">
+              <Label htmlFor="tracker-unit">Unit</Label>
+              <Input id="tracker-unit" value={unit} onChange={(e) => setUnit(e.target.value)} placeholder="e.g., hours" />
+            </div>
+          )}
+          {type === "choice" && (
+            <div className="space-y-2">
+              <Label htmlFor="tracker-option">Options</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="tracker-option"
+                  value={newOption}
+                  onChange={(e) => setNewOption(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      addOption();
+                    }
+                  }}
+                  placeholder="e.g., Home"
+                />
+                <Button type="button" variant="outline" onClick={addOption}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {options.map(option => (
+                  <Badge key={option} variant="secondary">
+                    {option}
+                    <X className="h-3 w-3 ml-1 cursor-pointer" onClick={() => setOptions(options.filter(o => o !== option))} />
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setEditingId(null)}>
+              Cancel
+            </Button>
+            <Button type="submit">Save</Button>
+          </div>
+        </form>
+      ) : (
+        <div className="space-y-3">
+          {trackers.map((tracker, index) => (
+            <div key={tracker.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+              <div className="min-w-0">
+                <p className={`font-medium truncate ${tracker.archived ? "text-muted-foreground" : ""}`}>
+                  {tracker.name}
+                  {tracker.archived && <Badge variant="outline" className="ml-2">Archived</Badge>}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">{describeTracker(tracker)}</p>
+              </div>
+              <div className="flex">
+                {orderButtons(index, trackers.length, (offset) => moveTracker(tracker.id, offset), tracker.name)}
+                <Button variant="ghost" size="icon" onClick={() => startEditing(tracker)}>
+                  <Pencil className="h-4 w-4" />
+                  <span className="sr-only">Edit {tracker.name}</span>
+                </Button>
+                {archiveButton(tracker.archived, () => setTrackerArchived(tracker.id, !tracker.archived), tracker.name)}
+                <Button variant="ghost" size="icon" onClick={() => setPendingDelete({ kind: "tracker", item: tracker })}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                  <span className="sr-only">Remove {tracker.name}</span>
+                </Button>
+              </div>
+            </div>
+          ))}
+          <Button variant="outline" className="w-full" onClick={() => startEditing(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Tracker
+          </Button>
+        </div>
+      )}
+
+      <div className="mt-6 pt-4 border-t space-y-3">
+        <h4 className="text-sm font-semibold flex items-center gap-2">
+          <Tag className="h-4 w-4" />
+          Tags
+        </h4>
+        {tags.map((tag, index) => (
+          <div key={tag.id} className="flex items-center justify-between gap-2">
+            {editingTagId === tag.id ? (
+              <form onSubmit={handleRenameTag} className="flex flex-1 gap-2">
+                <Input value={tagName} onChange={(e) => setTagName(e.target.value)} autoFocus />
+                <Button type="submit" size="sm">Save</Button>
+                <Button type="button" size="sm" variant="outline" onClick={() => setEditingTagId(null)}>
+                  Cancel
+                </Button>
+              </form>
+            ) : (
+              <>
+                <Badge variant={tag.archived ? "outline" : "secondary"}>
+                  #{tag.name}
+                  {tag.archived && " (archived)"}
+                </Badge>
+                <div className="flex">
+                  {orderButtons(index, tags.length, (offset) => moveTag(tag.id, offset), tag.name)}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      setEditingTagId(tag.id);
+                      setTagName(tag.name);
+                    }}
+                  >
+                    <Pencil className="h-4 w-4" />
+                    <span className="sr-only">Rename {tag.name}</span>
+                  </Button>
+                  {archiveButton(tag.archived, () => setTagArchived(tag.id, !tag.archived), tag.name)}
+                  <Button variant="ghost" size="icon" onClick={() => setPendingDelete({ kind: "tag", item: tag })}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                    <span className="sr-only">Remove {tag.name}</span>
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+        <form onSubmit={handleAddTag} className="flex gap-2">
+          <Input value={newTag} onChange={(e) => setNewTag(e.target.value)} placeholder="New tag, e.g., travel" />
+          <Button type="submit" variant="outline" disabled={!newTag.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </form>
+      </div>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {pendingDelete?.item.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It will no longer appear anywhere in the journal. To hide it while keeping its history, archive it instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default TrackerManager;
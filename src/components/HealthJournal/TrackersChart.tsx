@@ -0,0 +1,113 @@
+import { useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { format, parseISO } from "date-fns";
+import { SlidersHorizontal } from "lucide-react";
+import { JournalEntry, Tracker } from "@/lib/healthJournalTypes";
+import { SCALE_MAX, SCALE_MIN } from "@/lib/healthTrackers";
+import { describeAssociation, getSignificantLinks } from "@/lib/healthStatistics";
+import { useTrackers } from "@/hooks/use-trackers";
+import { useLaggedAssociations } from "@/hooks/use-associations";
+
+interface TrackersChartProps {
+  entries: JournalEntry[]; // One summary per day
+}
+
+// Yes/no and choice trackers are counted, number and scale trackers plotted
+const getChartData = (tracker: Tracker, entries: JournalEntry[]) => {
+  const logged = [...entries]
+    .reverse()
+    .filter(entry => entry.trackerValues?.[tracker.id] !== undefined);
+
+  if (tracker.type === "number" || tracker.type === "scale") {
+    return logged.map(entry => ({
+      label: format(parseISO(entry.date), "MMM d"),
+      value: entry.trackerValues![tracker.id] as number,
+    }));
+  }
+
+  const counts = new Map<string, number>();
+  logged.forEach(entry => {
+    const value = entry.trackerValues![tracker.id];
+    const label = tracker.type === "boolean" ? (value ? "Yes" : "No") : String(value);
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  });
+  return Array.from(counts.entries()).map(([label, value]) => ({ label, value }));
+};
+
+const TrackersChart = ({ entries }: TrackersChartProps) => {
+  const { trackers, tags } = useTrackers();
+  const [selectedId, setSelectedId] = useState("");
+  const tracker = trackers.find(t => t.id === selectedId) ?? trackers[0];
+
+  const data = useMemo(() => (tracker ? getChartData(tracker, entries) : []), [tracker, entries]);
+  const associations = useLaggedAssociations(entries);
+  const links = getSignificantLinks(associations, "tracker").slice(0, 5);
+
+  if (trackers.length === 0 && tags.length === 0) return null;
+
+  const isSeries = tracker?.type === "number" || tracker?.type === "scale";
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5 text-indigo-500" />
+          My Trackers
+        </h3>
+        {trackers.length > 0 && (
+          <Select value={tracker?.id} onValueChange={setSelectedId}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {trackers.map(t => (
+                <SelectItem key={t.id} value={t.id}>
+                  {t.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {tracker && (data.length > 0 ? (
+        <ResponsiveContainer width="100%" height={250}>
+          {isSeries ? (
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" />
+              <YAxis domain={tracker.type === "scale" ? [SCALE_MIN, SCALE_MAX] : ["auto", "auto"]} />
+              <Tooltip formatter={(value: number) => [[value, tracker.unit].filter(Boolean).join(" "), tracker.name]} />
+              <Line type="monotone" dataKey="value" stroke="#6366f1" strokeWidth={2} name={tracker.name} />
+            </LineChart>
+          ) : (
+            <BarChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" />
+              <YAxis allowDecimals={false} />
+              <Tooltip formatter={(value: number) => [value, "Days"]} />
+              <Bar dataKey="value" fill="#6366f1" name="Days" />
+            </BarChart>
+          )}
+        </ResponsiveContainer>
+      ) : (
+        <p className="text-sm text-muted-foreground">No values logged for {tracker.name} yet.</p>
+      ))}
+
+      {links.length > 0 && (
+        <div className="mt-6 pt-4 border-t space-y-2">
+          <h4 className="text-sm font-semibold">Links with symptoms</h4>
+          {links.map(link => (
+            <p key={`${link.factor}-${link.symptom}-${link.lag}`} className="text-sm text-muted-foreground">
+              {describeAssociation(link)}
+            </p>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default TrackersChart;
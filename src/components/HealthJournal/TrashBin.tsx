@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Paperclip, RotateCcw, Trash2 } from "lucide-react";
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { JournalEntry, MOOD_EMOJIS, TRASH_RETENTION_DAYS } from "@/lib/healthJournalTypes";
+import {
+  TrashedAttachment,
+  deleteJournalEntry,
+  emptyTrash,
+  getTrashedAttachments,
+  getTrashedEntries,
+  purgeAttachment,
+  restoreAttachment,
+  restoreJournalEntry,
+} from "@/lib/healthJournalStorage";
+import { toast } from "sonner";
+
+interface TrashBinProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+const daysLeft = (deletedAt: number = Date.now()): number =>
+  Math.max(0, TRASH_RETENTION_DAYS - differenceInCalendarDays(new Date(), new Date(deletedAt)));
+
+const TrashBin = ({ open, onOpenChange, onChanged }: TrashBinProps) => {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [attachments, setAttachments] = useState<TrashedAttachment[]>([]);
+
+  const loadTrash = async () => {
+    try {
+      setEntries(await getTrashedEntries());
+      setAttachments(await getTrashedAttachments());
+    } catch (error) {
+      console.error("Failed to load trash:", error);
+      toast.error("Could not load the trash");
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadTrash();
+  }, [open]);
+
+  // Run a trash action, then refresh both the trash and the journal
+  const runAction = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      await action();
+      toast.success(success);
+      await loadTrash();
+      onChanged();
+    } catch (error) {
+      console.error("Trash action failed:", error);
+      toast.error("Something went wrong. Please try again.");
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    if (confirm("Permanently delete everything in the trash? This cannot be undone.")) {
+      runAction(emptyTrash, "Trash emptied");
+    }
+  };
+
+  const isEmpty = entries.length === 0 && attachments.length === 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Trash2 className="h-5 w-5 text-primary" />
+            Trash
+          </DialogTitle>
+          <DialogDescription>
+            Deleted entries and removed attachments are kept for {TRASH_RETENTION_DAYS} days before they are
+            permanently deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isEmpty ? (
+          <p className="text-sm text-muted-foreground text-center py-8">The trash is empty</p>
+        ) : (
+          <div className="space-y-4">
+            {entries.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Entries</h4>
+                {entries.map(entry => (
+                  <Card key={entry.id} className="p-3 flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className="text-2xl">{MOOD_EMOJIS[entry.mood]}</span>
+                      <div className="min-w-0">
+                        <p className="font-medium">
+                          {format(parseISO(entry.date), "EEEE, MMMM d, yyyy")}
+                          {entry.time && <span className="font-normal text-muted-foreground"> · {entry.time}</span>}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Deleted forever in {daysLeft(entry.deletedAt)} days
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => runAction(() => restoreJournalEntry(entry.id), "Entry restored")}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => runAction(() => deleteJournalEntry(entry.id), "Entry permanently deleted")}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+            )}
+
+            {attachments.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Attachments</h4>
+                {attachments.map(({ entry, attachment }) => (
+                  <Card key={attachment.id} className="p-3 flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <Paperclip className="h-5 w-5 text-muted-foreground shrink-0" />
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{attachment.fileName}</p>
+                        <p className="text-xs text-muted-foreground">
+                          From {format(parseISO(entry.date), "MMM d, yyyy")} · Deleted forever in{" "}
+                          {daysLeft(attachment.deletedAt)} days
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => runAction(() => restoreAttachment(entry.id, attachment.id), "Attachment restored")}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => runAction(() => purgeAttachment(entry.id, attachment.id), "Attachment permanently deleted")}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between pt-2 border-t">
+              <Badge variant="secondary">{entries.length + attachments.length} items</Badge>
+              <Button variant="outline" className="text-destructive hover:text-destructive" onClick={handleEmptyTrash}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Empty Trash
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TrashBin;
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { KeyRound, Lock, ShieldCheck, ShieldOff, Info } from "lucide-react";
+import { lockVault, setAutoLockMinutes } from "@/lib/healthJournalVault";
+import { MIN_PASSPHRASE_LENGTH, disableVault, enableVault } from "@/lib/vaultSetup";
+import { useVault } from "@/hooks/use-vault";
+import { toast } from "sonner";
+import PassphraseDialog from "./PassphraseDialog";
+
+const AUTO_LOCK_OPTIONS = [
+  { value: "5", label: "After 5 minutes" },
+  { value: "15", label: "After 15 minutes" },
+  { value: "30", label: "After 30 minutes" },
+  { value: "60", label: "After 1 hour" },
+  { value: "0", label: "Never" },
+];
+
+const VaultSettings = () => {
+  const { enabled, autoLockMinutes } = useVault();
+  const [dialog, setDialog] = useState<"enable" | "disable" | null>(null);
+
+  const handleEnable = async (passphrase: string) => {
+    await enableVault(passphrase);
+    toast.success("Vault enabled. Your journal is now encrypted.");
+  };
+
+  const handleDisable = async (passphrase: string) => {
+    await disableVault(passphrase);
+    toast.info("Vault disabled. Your journal is stored unencrypted.");
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <KeyRound className="h-5 w-5 text-primary" />
+        Vault Encryption
+        {enabled && <Badge variant="secondary">On</Badge>}
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Encrypt journal entries, attachments, weather history and prediction settings with a passphrase.
+        Data can only be read after unlocking the journal. Each profile has its own vault.
+      </p>
+
+      {enabled ? (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="auto-lock">Auto-lock</Label>
+            <Select
+              value={String(autoLockMinutes)}
+              onValueChange={(value) => setAutoLockMinutes(Number(value))}
+            >
+              <SelectTrigger id="auto-lock" className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AUTO_LOCK_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <Button onClick={lockVault} variant="outline" className="flex-1">
+              <Lock className="h-4 w-4 mr-2" />
+              Lock Now
+            </Button>
+            <Button
+              onClick={() => setDialog("disable")}
+              variant="outline"
+              className="flex-1 text-destructive hover:text-destructive"
+            >
+              <ShieldOff className="h-4 w-4 mr-2" />
+              Disable Vault
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <Button onClick={() => setDialog("enable")} variant="outline" className="w-full">
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Enable Vault
+          </Button>
+          <Alert className="mt-4 border-orange-200 bg-orange-50 dark:bg-orange-950/20">
+            <Info className="h-4 w-4 text-orange-600" />
+            <AlertDescription className="text-sm text-orange-800 dark:text-orange-200">
+              There is no way to recover a forgotten passphrase. Keep an unencrypted or encrypted backup first.
+            </AlertDescription>
+          </Alert>
+        </>
+      )}
+
+      <PassphraseDialog
+        open={dialog === "enable"}
+        onOpenChange={(open) => setDialog(open ? "enable" : null)}
+        title="Enable Vault"
+        description="Choose a passphrase to encrypt your journal. You will need it every time the journal is locked."
+        submitLabel="Encrypt Journal"
+        requireConfirmation
+        minLength={MIN_PASSPHRASE_LENGTH}
+        onSubmit={handleEnable}
+      />
+      <PassphraseDialog
+        open={dialog === "disable"}
+        onOpenChange={(open) => setDialog(open ? "disable" : null)}
+        title="Disable Vault"
+        description="Enter your passphrase to decrypt your journal and store it unencrypted."
+        submitLabel="Decrypt Journal"
+        onSubmit={handleDisable}
+      />
+    </Card>
+  );
+};
+
+export default VaultSettings;
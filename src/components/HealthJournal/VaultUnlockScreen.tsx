@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Lock, Loader2, Unlock } from "lucide-react";
+import { unlockVault } from "@/lib/healthJournalVault";
+import { toast } from "sonner";
+
+const VaultUnlockScreen = () => {
+  const [passphrase, setPassphrase] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    setIsUnlocking(true);
+    try {
+      const unlocked = await unlockVault(passphrase);
+      if (!unlocked) {
+        toast.error("Incorrect passphrase");
+        return;
+      }
+      setPassphrase("");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <Card className="p-8 max-w-md mx-auto animate-fade-in">
+      <form onSubmit={handleUnlock} className="space-y-6 text-center">
+        <Lock className="h-16 w-16 mx-auto text-muted-foreground" />
+        <div>
+          <h3 className="text-xl font-semibold mb-2">Journal Locked</h3>
+          <p className="text-muted-foreground">
+            Your journal is encrypted. Enter your passphrase to unlock it.
+          </p>
+        </div>
+        <div className="space-y-2 text-left">
+          <Label htmlFor="vault-passphrase">Passphrase</Label>
+          <Input
+            id="vault-passphrase"
+            type="password"
+            autoComplete="current-password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoFocus
+          />
+        </div>
+        <Button type="submit" className="w-full" disabled={isUnlocking || !passphrase}>
+          {isUnlocking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Unlock className="h-4 w-4 mr-2" />}
+          Unlock
+        </Button>
+      </form>
+    </Card>
+  );
+};
+
+export default VaultUnlockScreen;
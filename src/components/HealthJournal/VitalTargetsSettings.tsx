@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { HeartPulse, RotateCcw, Save } from "lucide-react";
+import { toast } from "sonner";
+import {
+  DEFAULT_VITAL_TARGETS,
+  VITAL_DEFINITIONS,
+  VITAL_TYPES,
+  VitalTarget,
+  VitalTargets,
+  canonicalUnit,
+  saveVitalTargets,
+} from "@/lib/healthVitals";
+import { VitalType } from "@/lib/healthJournalTypes";
+import { useVitalTargets } from "@/hooks/use-vital-targets";
+
+const parseBound = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const VitalTargetsSettings = () => {
+  const stored = useVitalTargets();
+  const [targets, setTargets] = useState<VitalTargets>(stored);
+
+  useEffect(() => {
+    setTargets(stored);
+  }, [stored]);
+
+  const updateTarget = (type: VitalType, field: keyof VitalTarget, value: string) => {
+    setTargets({ ...targets, [type]: { ...targets[type], [field]: parseBound(value) } });
+  };
+
+  const handleSave = async () => {
+    const invalid = VITAL_TYPES.find(type => {
+      const { min, max, secondaryMin, secondaryMax } = targets[type];
+      return (min !== undefined && max !== undefined && min > max) ||
+        (secondaryMin !== undefined && secondaryMax !== undefined && secondaryMin > secondaryMax);
+    });
+    if (invalid) {
+      toast.error(`${VITAL_DEFINITIONS[invalid].label}: the minimum must not exceed the maximum`);
+      return;
+    }
+
+    try {
+      await saveVitalTargets(targets);
+      toast.success("Vital sign targets saved!");
+    } catch (error) {
+      console.error("Failed to save vital targets:", error);
+      toast.error("Failed to save vital sign targets");
+    }
+  };
+
+  const boundInput = (type: VitalType, field: keyof VitalTarget, placeholder: string) => (
+    <Input
+      type="number"
+      step={VITAL_DEFINITIONS[type].step}
+      placeholder={placeholder}
+      value={targets[type][field] ?? ""}
+      onChange={(e) => updateTarget(type, field, e.target.value)}
+      aria-label={`${VITAL_DEFINITIONS[type].label} ${placeholder.toLowerCase()}`}
+    />
+  );
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
+        <HeartPulse className="h-5 w-5 text-red-500" />
+        Vital Sign Targets
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Readings outside these ranges are flagged in your journal, charts and doctor reports.
+        Leave a bound empty to skip it.
+      </p>
+
+      <div className="space-y-3">
+        {VITAL_TYPES.map(type => (
+          <div key={type} className="grid grid-cols-[1fr_auto] sm:grid-cols-[10rem_1fr] gap-2 items-center">
+            <Label className="col-span-2 sm:col-span-1">
+              {VITAL_DEFINITIONS[type].label}
+              <span className="text-muted-foreground font-normal"> ({canonicalUnit(type)})</span>
+            </Label>
+            <div className="col-span-2 sm:col-span-1 space-y-2">
+              <div className="flex items-center gap-2">
+                {VITAL_DEFINITIONS[type].hasSecondary && (
+                  <span className="w-16 text-xs text-muted-foreground">Systolic</span>
+                )}
+                {boundInput(type, "min", "Min")}
+                <span className="text-muted-foreground">–</span>
+                {boundInput(type, "max", "Max")}
+              </div>
+              {VITAL_DEFINITIONS[type].hasSecondary && (
+                <div className="flex items-center gap-2">
+                  <span className="w-16 text-xs text-muted-foreground">Diastolic</span>
+                  {boundInput(type, "secondaryMin", "Min")}
+                  <span className="text-muted-foreground">–</span>
+                  {boundInput(type, "secondaryMax", "Max")}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <Button onClick={handleSave}>
+          <Save className="h-4 w-4 mr-2" />
+          Save Targets
+        </Button>
+        <Button variant="outline" onClick={() => setTargets(DEFAULT_VITAL_TARGETS)}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset to Defaults
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export default VitalTargetsSettings;
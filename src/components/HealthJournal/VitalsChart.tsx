@@ -0,0 +1,111 @@
+import { useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from "recharts";
+import { format } from "date-fns";
+import { HeartPulse } from "lucide-react";
+import { JournalEntry, VitalType } from "@/lib/healthJournalTypes";
+import {
+  VITAL_DEFINITIONS,
+  VITAL_TYPES,
+  canonicalUnit,
+  collectVitals,
+  getVitalStatus,
+  toCanonicalValue,
+} from "@/lib/healthVitals";
+import { useVitalTargets } from "@/hooks/use-vital-targets";
+
+interface VitalsChartProps {
+  entries: JournalEntry[];
+}
+
+const VitalsChart = ({ entries }: VitalsChartProps) => {
+  const targets = useVitalTargets();
+  const readings = useMemo(() => collectVitals(entries), [entries]);
+  const loggedTypes = VITAL_TYPES.filter(type => readings.some(reading => reading.type === type));
+  const [selected, setSelected] = useState<VitalType | null>(null);
+
+  if (loggedTypes.length === 0) return null;
+
+  const type = selected && loggedTypes.includes(selected) ? selected : loggedTypes[0];
+  const definition = VITAL_DEFINITIONS[type];
+  const target = targets[type];
+  const unit = canonicalUnit(type);
+
+  const typeReadings = readings.filter(reading => reading.type === type);
+  const outOfRange = typeReadings.filter(reading => getVitalStatus(reading, targets) !== "normal").length;
+
+  // Values are charted in the canonical unit so mixed units line up
+  const data = typeReadings.map(reading => ({
+    time: reading.takenAt,
+    value: Math.round(toCanonicalValue(type, reading.value, reading.unit) * 10) / 10,
+    secondary: reading.secondaryValue,
+  }));
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <HeartPulse className="h-5 w-5 text-red-500" />
+          <h3 className="text-lg font-semibold">Vital Signs</h3>
+          {outOfRange > 0 && (
+            <Badge variant="destructive">{outOfRange} out of range</Badge>
+          )}
+        </div>
+        <Select value={type} onValueChange={(value) => setSelected(value as VitalType)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {loggedTypes.map(vitalType => (
+              <SelectItem key={vitalType} value={vitalType}>{VITAL_DEFINITIONS[vitalType].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <ResponsiveContainer width="100%" height={300}>
+        <LineChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={(time) => format(new Date(time), "MMM dd")}
+          />
+          <YAxis domain={["auto", "auto"]} unit={` ${unit}`} width={90} />
+          <Tooltip labelFormatter={(time) => format(new Date(time as number), "MMM d, HH:mm")} />
+          <Legend />
+          {target.min !== undefined && (
+            <ReferenceLine y={target.min} stroke={definition.color} strokeDasharray="4 4" strokeOpacity={0.6} />
+          )}
+          {target.max !== undefined && (
+            <ReferenceLine y={target.max} stroke={definition.color} strokeDasharray="4 4" strokeOpacity={0.6} />
+          )}
+          <Line
+            type="monotone"
+            dataKey="value"
+            stroke={definition.color}
+            strokeWidth={2}
+            name={definition.hasSecondary ? "Systolic" : definition.label}
+            dot={{ fill: definition.color }}
+          />
+          {definition.hasSecondary && (
+            <Line
+              type="monotone"
+              dataKey="secondary"
+              stroke="#6366f1"
+              strokeWidth={2}
+              name="Diastolic"
+              dot={{ fill: "#6366f1" }}
+            />
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+      <p className="text-xs text-muted-foreground mt-2">Dashed lines mark your target range.</p>
+    </Card>
+  );
+};
+
+export default VitalsChart;
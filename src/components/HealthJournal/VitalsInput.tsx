@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { HeartPulse, Plus, X } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { VitalReading, VitalType } from "@/lib/healthJournalTypes";
+import { VITAL_DEFINITIONS, VITAL_TYPES, VitalStatus, formatReading, getVitalStatus } from "@/lib/healthVitals";
+import { useVitalTargets } from "@/hooks/use-vital-targets";
+
+interface VitalsInputProps {
+  date: string; // Entry date; readings are timestamped on this day
+  vitals: VitalReading[];
+  onVitalsChange: (vitals: VitalReading[]) => void;
+}
+
+const VITAL_STATUS_STYLES: Record<VitalStatus, string> = {
+  low: "bg-blue-100 text-blue-700 dark:bg-blue-950/20",
+  normal: "bg-green-100 text-green-700 dark:bg-green-950/20",
+  high: "bg-red-100 text-red-700 dark:bg-red-950/20",
+};
+
+const VitalsInput = ({ date, vitals, onVitalsChange }: VitalsInputProps) => {
+  const targets = useVitalTargets();
+  const [type, setType] = useState<VitalType>("bloodPressure");
+  const [unit, setUnit] = useState(VITAL_DEFINITIONS.bloodPressure.units[0]);
+  const [value, setValue] = useState("");
+  const [secondaryValue, setSecondaryValue] = useState("");
+  const [time, setTime] = useState(() => format(new Date(), "HH:mm"));
+
+  const definition = VITAL_DEFINITIONS[type];
+
+  const handleTypeChange = (next: VitalType) => {
+    setType(next);
+    setUnit(VITAL_DEFINITIONS[next].units[0]);
+    setValue("");
+    setSecondaryValue("");
+  };
+
+  const handleAdd = () => {
+    const primary = parseFloat(value);
+    const secondary = parseFloat(secondaryValue);
+    if (Number.isNaN(primary) || (definition.hasSecondary && Number.isNaN(secondary))) {
+      toast.error(`Please enter a valid ${definition.label.toLowerCase()} reading`);
+      return;
+    }
+
+    const reading: VitalReading = {
+      id: `vital-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      type,
+      value: primary,
+      secondaryValue: definition.hasSecondary ? secondary : undefined,
+      unit,
+      takenAt: new Date(`${date}T${time || "12:00"}`).getTime(),
+    };
+
+    onVitalsChange([...vitals, reading].sort((a, b) => a.takenAt - b.takenAt));
+    setValue("");
+    setSecondaryValue("");
+  };
+
+  return (
+    <div>
+      <Label className="mb-3 flex items-center gap-2">
+        <HeartPulse className="h-4 w-4 text-red-500" />
+        Vital Signs
+      </Label>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+        <Select value={type} onValueChange={(next) => handleTypeChange(next as VitalType)}>
+          <SelectTrigger className="col-span-2 md:col-span-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {VITAL_TYPES.map(vitalType => (
+              <SelectItem key={vitalType} value={vitalType}>{VITAL_DEFINITIONS[vitalType].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex gap-1 items-center">
+          <Input
+            type="number"
+            inputMode="decimal"
+            step={definition.step}
+            placeholder={definition.hasSecondary ? "Systolic" : "Value"}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+          />
+          {definition.hasSecondary && (
+            <>
+              <span className="text-muted-foreground">/</span>
+              <Input
+                type="number"
+                inputMode="decimal"
+                step={definition.step}
+                placeholder="Diastolic"
+                value={secondaryValue}
+                onChange={(e) => setSecondaryValue(e.target.value)}
+              />
+            </>
+          )}
+        </div>
+
+        {definition.units.length > 1 ? (
+          <Select value={unit} onValueChange={setUnit}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {definition.units.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <div className="h-10 flex items-center px-3 text-sm text-muted-foreground">{unit}</div>
+        )}
+
+        <Input type="time" value={time} onChange={(e) => setTime(e.target.value)} aria-label="Time taken" />
+
+        <Button onClick={handleAdd} variant="outline">
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {vitals.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {vitals.map(reading => {
+            const status = getVitalStatus(reading, targets);
+            return (
+              <Badge key={reading.id} className={VITAL_STATUS_STYLES[status]}>
+                {VITAL_DEFINITIONS[reading.type].shortLabel} {formatReading(reading)}
+                <span className="ml-1 opacity-70">{format(new Date(reading.takenAt), "HH:mm")}</span>
+                {status !== "normal" && <span className="ml-1 font-semibold uppercase">{status}</span>}
+                <X
+                  className="h-3 w-3 ml-1 cursor-pointer"
+                  onClick={() => onVitalsChange(vitals.filter(v => v.id !== reading.id))}
+                />
+              </Badge>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VitalsInput;
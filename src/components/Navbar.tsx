@@ -1,9 +1,11 @@
 import { Link, useLocation } from "react-router-dom";
-import { Shield, Menu, X, Moon, Sun } from "lucide-react";
+import { Shield, Menu, X, Moon, Sun, LogIn, UserCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useState } from "react";
 import { cn } from "@/lib/utils";
 import { useTheme } from "@/components/ThemeProvider";
+import { useAuth } from "@/hooks/use-auth";
+import ProfileSwitcher from "@/components/ProfileSwitcher";
 
 const navLinks = [
   { name: "Home", path: "/" },
@@ -18,6 +20,7 @@ const Navbar = () => {
   const [isOpen, setIsOpen] = useState(false);
   const location = useLocation();
   const { theme, setTheme } = useTheme();
+  const { user } = useAuth();
 
   return (
     <nav className="sticky top-0 z-50 bg-card/80 backdrop-blur-lg border-b shadow-sm">
@@ -51,6 +54,8 @@ const Navbar = () => {
               </Link>
             ))}
             
+            <ProfileSwitcher className="ml-2" />
+
             {/* Theme Toggle */}
             <Button
               variant="ghost"
@@ -62,10 +67,26 @@ const Navbar = () => {
               <Moon className="absolute h-5 w-5 rotate-90 scale-0 transition-all dark:rotate-0 dark:scale-100" />
               <span className="sr-only">Toggle theme</span>
             </Button>
+
+            {/* Account */}
+            <Link to="/auth">
+              {user ? (
+                <Button variant="ghost" size="icon" title={user.email}>
+                  <UserCircle className="h-5 w-5" />
+                  <span className="sr-only">Account</span>
+                </Button>
+              ) : (
+                <Button variant="outline" size="sm" className="ml-1">
+                  <LogIn className="h-4 w-4 mr-2" />
+                  Sign In
+                </Button>
+              )}
+            </Link>
           </div>
 
           {/* Mobile Menu Button & Theme Toggle */}
           <div className="md:hidden flex items-center gap-2">
+            <ProfileSwitcher />
             <Button
               variant="ghost"
               size="icon"
@@ -104,6 +125,19 @@ const Navbar = () => {
                   </Button>
                 </Link>
               ))}
+              <Link to="/auth" onClick={() => setIsOpen(false)}>
+                <Button
+                  variant="ghost"
+                  className={cn(
+                    "w-full justify-start font-medium",
+                    location.pathname === "/auth"
+                      ? "text-primary bg-primary/10"
+                      : "text-muted-foreground"
+                  )}
+                >
+                  {user ? "Account" : "Sign In"}
+                </Button>
+              </Link>
             </div>
           </div>
         )}
@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  JournalProfile,
+  PROFILE_SEX_LABELS,
+  ProfileSex,
+  createProfile,
+  deleteProfile,
+  getProfileAge,
+  updateProfile,
+} from "@/lib/journalProfiles";
+import { DEFAULT_PROFILE_ID } from "@/lib/storageScope";
+import { useProfiles } from "@/hooks/use-profiles";
+
+interface ProfileManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NO_SEX = "unspecified";
+
+const describeProfile = (profile: JournalProfile): string => {
+  const age = getProfileAge(profile);
+  const parts = [
+    age !== undefined ? `${age} years` : null,
+    profile.sex ? PROFILE_SEX_LABELS[profile.sex] : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "No details";
+};
+
+const ProfileManager = ({ open, onOpenChange }: ProfileManagerProps) => {
+  const { profiles, activeProfile } = useProfiles();
+  const [editingId, setEditingId] = useState<string | "new" | null>(null);
+  const [name, setName] = useState("");
+  const [dateOfBirth, setDateOfBirth] = useState("");
+  const [sex, setSex] = useState<ProfileSex | typeof NO_SEX>(NO_SEX);
+  const [profileToDelete, setProfileToDelete] = useState<JournalProfile | null>(null);
+
+  useEffect(() => {
+    if (!open) setEditingId(null);
+  }, [open]);
+
+  const startEditing = (profile: JournalProfile | null) => {
+    setEditingId(profile?.id ?? "new");
+    setName(profile?.name ?? "");
+    setDateOfBirth(profile?.dateOfBirth ?? "");
+    setSex(profile?.sex ?? NO_SEX);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const details = {
+      name,
+      dateOfBirth: dateOfBirth || undefined,
+      sex: sex === NO_SEX ? undefined : sex,
+    };
+
+    try {
+      if (editingId === "new") {
+        createProfile(details);
+        toast.success(`Profile "${name.trim()}" created`);
+      } else if (editingId) {
+        updateProfile(editingId, details);
+        toast.success("Profile updated");
+      }
+      setEditingId(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save profile");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!profileToDelete) return;
+    try {
+      await deleteProfile(profileToDelete.id);
+      toast.success(`Profile "${profileToDelete.name}" deleted`);
+    } catch (error) {
+      console.error("Profile deletion error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete profile");
+    } finally {
+      setProfileToDelete(null);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Profiles</DialogTitle>
+            <DialogDescription>
+              Keep separate journals for family members. Each profile has its own entries,
+              predictions, reminders and reports.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editingId ? (
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="profile-name">Name</Label>
+                <Input
+                  id="profile-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g., Mom"
+                  autoFocus
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="profile-dob">Date of birth</Label>
+                  <Input
+                    id="profile-dob"
+                    type="date"
+                    value={dateOfBirth}
+                    max={new Date().toISOString().split("T")[0]}
+                    onChange={(e) => setDateOfBirth(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-sex">Sex</Label>
+                  <Select value={sex} onValueChange={(value) => setSex(value as ProfileSex | typeof NO_SEX)}>
+                    <SelectTrigger id="profile-sex">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_SEX}>Not specified</SelectItem>
+                      {(Object.keys(PROFILE_SEX_LABELS) as ProfileSex[]).map(value => (
+                        <SelectItem key={value} value={value}>{PROFILE_SEX_LABELS[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setEditingId(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit">Save</Button>
+              </div>
+            </form>
+          ) : (
+            <div className="space-y-3">
+              {profiles.map(profile => (
+                <div key={profile.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate flex items-center gap-2">
+                      {profile.name}
+                      {profile.id === activeProfile?.id && <Badge variant="secondary">Active</Badge>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{describeProfile(profile)}</p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => startEditing(profile)}>
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">Edit {profile.name}</span>
+                    </Button>
+                    {profile.id !== DEFAULT_PROFILE_ID && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={profile.id === activeProfile?.id}
+                        title={profile.id === activeProfile?.id ? "Switch to another profile to delete this one" : undefined}
+                        onClick={() => setProfileToDelete(profile)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                        <span className="sr-only">Delete {profile.name}</span>
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+              <Button variant="outline" className="w-full" onClick={() => startEditing(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Profile
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!profileToDelete} onOpenChange={(isOpen) => !isOpen && setProfileToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {profileToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All journal entries, attachments, predictions and reminders for this profile will be
+              permanently deleted from this device and from cloud sync.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete Profile
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default ProfileManager;
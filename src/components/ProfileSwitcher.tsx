@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Check, Settings, Users } from "lucide-react";
+import { toast } from "sonner";
+import { switchProfile } from "@/lib/activeScope";
+import { useProfiles } from "@/hooks/use-profiles";
+import ProfileManager from "./ProfileManager";
+
+interface ProfileSwitcherProps {
+  className?: string;
+}
+
+const ProfileSwitcher = ({ className }: ProfileSwitcherProps) => {
+  const { profiles, activeProfile } = useProfiles();
+  const [managerOpen, setManagerOpen] = useState(false);
+
+  const handleSwitch = async (profileId: string) => {
+    try {
+      await switchProfile(profileId);
+    } catch (error) {
+      console.error("Profile switch error:", error);
+      toast.error("Failed to switch profile");
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className={className}>
+            <Users className="h-4 w-4 mr-2" />
+            <span className="max-w-[8rem] truncate">{activeProfile?.name}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-52">
+          <DropdownMenuLabel>Profiles</DropdownMenuLabel>
+          {profiles.map(profile => (
+            <DropdownMenuItem key={profile.id} onSelect={() => handleSwitch(profile.id)}>
+              <Check className={`h-4 w-4 mr-2 ${profile.id === activeProfile?.id ? "opacity-100" : "opacity-0"}`} />
+              <span className="truncate">{profile.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setManagerOpen(true)}>
+            <Settings className="h-4 w-4 mr-2" />
+            Manage Profiles
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ProfileManager open={managerOpen} onOpenChange={setManagerOpen} />
+    </>
+  );
+};
+
+export default ProfileSwitcher;
@@ -0,0 +1,17 @@
+import * as React from "react";
+import { JournalEntry } from "@/lib/healthJournalTypes";
+import { LaggedAssociation, computeLaggedAssociations } from "@/lib/healthStatistics";
+import { useIntake } from "@/hooks/use-intake";
+import { useTrackers } from "@/hooks/use-trackers";
+
+// Lagged factor/symptom associations over the given entries, with the current
+// profile's trackers, tags and intake counters as factors too
+export function useLaggedAssociations(entries: JournalEntry[]): LaggedAssociation[] {
+  const { trackers, tags } = useTrackers();
+  const intakeLog = useIntake();
+
+  return React.useMemo(
+    () => computeLaggedAssociations(entries, { trackerList: { trackers, tags }, intakeLog: intakeLog ?? undefined }),
+    [entries, trackers, tags, intakeLog]
+  );
+}
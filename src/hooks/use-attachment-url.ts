@@ -0,0 +1,31 @@
+import * as React from "react";
+import { AttachmentVariant, getAttachmentBlob } from "@/lib/healthJournalAttachments";
+
+// Load an attachment file from the blob store as an object URL. Pass
+// enabled=false to defer loading (e.g. full-size files until opened).
+export function useAttachmentUrl(attachmentId: string, variant: AttachmentVariant, enabled = true) {
+  const [url, setUrl] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!enabled) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    getAttachmentBlob(attachmentId, variant)
+      .then((blob) => {
+        if (cancelled || !blob) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch((error) => console.error("Failed to load attachment:", error));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [attachmentId, variant, enabled]);
+
+  return url;
+}
@@ -0,0 +1,21 @@
+import { createContext, useContext } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+
+export type AuthState = {
+  session: Session | null;
+  user: User | null;
+  signInWithEmail: (email: string) => Promise<void>;
+  signOut: () => Promise<void>;
+};
+
+export const AuthContext = createContext<AuthState | undefined>(undefined);
+
+// Signed-in session and sign in/out actions; must be used within AuthProvider
+export function useAuth() {
+  const context = useContext(AuthContext);
+
+  if (context === undefined)
+    throw new Error("useAuth must be used within an AuthProvider");
+
+  return context;
+}
@@ -0,0 +1,25 @@
+import * as React from "react";
+import { EntryConflict, getConflicts, subscribeToConflicts } from "@/lib/journalConflicts";
+
+// Open entry conflicts, reloaded whenever one is added or resolved
+export function useConflicts(enabled = true) {
+  const [conflicts, setConflicts] = React.useState<EntryConflict[]>([]);
+
+  React.useEffect(() => {
+    if (!enabled) {
+      setConflicts([]);
+      return;
+    }
+
+    const load = () => {
+      getConflicts()
+        .then(setConflicts)
+        .catch((error) => console.error("Failed to load conflicts:", error));
+    };
+
+    load();
+    return subscribeToConflicts(load);
+  }, [enabled]);
+
+  return conflicts;
+}
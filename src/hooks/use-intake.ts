@@ -0,0 +1,19 @@
+import * as React from "react";
+import { IntakeLog, getIntakeLog, subscribeToIntake } from "@/lib/healthIntake";
+
+// Water, caffeine and alcohol counters of the current profile, reloaded when
+// they change; null until first loaded
+export function useIntake() {
+  const [log, setLog] = React.useState<IntakeLog | null>(null);
+
+  React.useEffect(() => {
+    const load = () => {
+      getIntakeLog().then(setLog);
+    };
+
+    load();
+    return subscribeToIntake(load);
+  }, []);
+
+  return log;
+}
@@ -0,0 +1,40 @@
+import * as React from "react";
+import { SyncResult, getSyncSnapshot, subscribeToSync, syncJournal } from "@/lib/journalSync";
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+export function useSyncStatus() {
+  return React.useSyncExternalStore(subscribeToSync, getSyncSnapshot);
+}
+
+// Sync on mount, whenever the browser comes back online and every few
+// minutes. onPulled runs when remote changes were written locally.
+export function useJournalSync(onPulled: () => void, enabled = true) {
+  const onPulledRef = React.useRef(onPulled);
+  onPulledRef.current = onPulled;
+
+  const syncNow = React.useCallback(async (): Promise<SyncResult> => {
+    const result = await syncJournal();
+    if (result.pulled > 0) onPulledRef.current();
+    return result;
+  }, []);
+
+  React.useEffect(() => {
+    if (!enabled) return;
+
+    const handleOnline = () => {
+      syncNow();
+    };
+
+    syncNow();
+    window.addEventListener("online", handleOnline);
+    const interval = setInterval(handleOnline, SYNC_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      clearInterval(interval);
+    };
+  }, [enabled, syncNow]);
+
+  return syncNow;
+}
@@ -0,0 +1,19 @@
+import * as React from "react";
+import { Medication } from "@/lib/healthJournalTypes";
+import { getMedications, subscribeToMedications } from "@/lib/healthMedications";
+
+// Active medications of the current profile, reloaded when the list changes
+export function useMedications() {
+  const [medications, setMedications] = React.useState<Medication[]>([]);
+
+  React.useEffect(() => {
+    const load = () => {
+      getMedications().then(setMedications);
+    };
+
+    load();
+    return subscribeToMedications(load);
+  }, []);
+
+  return medications;
+}
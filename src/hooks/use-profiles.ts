@@ -0,0 +1,11 @@
+import * as React from "react";
+import { getProfiles, subscribeToProfiles } from "@/lib/journalProfiles";
+import { getActiveProfileId } from "@/lib/storageScope";
+
+// Profiles of the current user and the one in use
+export function useProfiles() {
+  const profiles = React.useSyncExternalStore(subscribeToProfiles, getProfiles);
+  const activeProfile = profiles.find(profile => profile.id === getActiveProfileId()) ?? profiles[0];
+
+  return { profiles, activeProfile };
+}
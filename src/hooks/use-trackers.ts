@@ -0,0 +1,22 @@
+import * as React from "react";
+import { JournalTag, Tracker } from "@/lib/healthJournalTypes";
+import { getTags, getTrackers, subscribeToTrackers } from "@/lib/healthTrackers";
+
+// Trackers and tags of the current profile in display order, archived ones
+// included, reloaded when they change
+export function useTrackers() {
+  const [trackers, setTrackers] = React.useState<Tracker[]>([]);
+  const [tags, setTags] = React.useState<JournalTag[]>([]);
+
+  React.useEffect(() => {
+    const load = () => {
+      getTrackers().then(setTrackers);
+      getTags().then(setTags);
+    };
+
+    load();
+    return subscribeToTrackers(load);
+  }, []);
+
+  return { trackers, tags };
+}
@@ -0,0 +1,11 @@
+import * as React from "react";
+import { getAutoLockMinutes, isVaultEnabled, isVaultLocked, subscribeToVault } from "@/lib/healthJournalVault";
+
+// Current vault state; re-renders on enable, lock, unlock and setting changes
+export function useVault() {
+  const enabled = React.useSyncExternalStore(subscribeToVault, isVaultEnabled);
+  const locked = React.useSyncExternalStore(subscribeToVault, isVaultLocked);
+  const autoLockMinutes = React.useSyncExternalStore(subscribeToVault, getAutoLockMinutes);
+
+  return { enabled, locked, autoLockMinutes };
+}
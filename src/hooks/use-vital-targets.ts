@@ -0,0 +1,18 @@
+import * as React from "react";
+import { DEFAULT_VITAL_TARGETS, VitalTargets, getVitalTargets, subscribeToVitalTargets } from "@/lib/healthVitals";
+
+// Configured vital target ranges, reloaded when they are changed
+export function useVitalTargets() {
+  const [targets, setTargets] = React.useState<VitalTargets>(DEFAULT_VITAL_TARGETS);
+
+  React.useEffect(() => {
+    const load = () => {
+      getVitalTargets().then(setTargets);
+    };
+
+    load();
+    return subscribeToVitalTargets(load);
+  }, []);
+
+  return targets;
+}
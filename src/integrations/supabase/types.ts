@@ -14,7 +14,105 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      journal_entries: {
+        Row: {
+          data: Json | null
+          deleted: boolean
+          id: string
+          profile_id: string
+          server_updated_at: string
+          updated_at: number
+          user_id: string
+        }
+        Insert: {
+          data?: Json | null
+          deleted?: boolean
+          id: string
+          profile_id?: string
+          server_updated_at?: string
+          updated_at: number
+          user_id?: string
+        }
+        Update: {
+          data?: Json | null
+          deleted?: boolean
+          id?: string
+          profile_id?: string
+          server_updated_at?: string
+          updated_at?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      journal_lists: {
+        Row: {
+          data: Json
+          kind: string
+          profile_id: string
+          server_updated_at: string
+          updated_at: number
+          user_id: string
+        }
+        Insert: {
+          data: Json
+          kind: string
+          profile_id?: string
+          server_updated_at?: string
+          updated_at: number
+          user_id?: string
+        }
+        Update: {
+          data?: Json
+          kind?: string
+          profile_id?: string
+          server_updated_at?: string
+          updated_at?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      journal_profiles: {
+        Row: {
+          data: Json
+          server_updated_at: string
+          user_id: string
+        }
+        Insert: {
+          data: Json
+          server_updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          data?: Json
+          server_updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      prediction_settings: {
+        Row: {
+          data: Json
+          profile_id: string
+          server_updated_at: string
+          updated_at: number
+          user_id: string
+        }
+        Insert: {
+          data: Json
+          profile_id?: string
+          server_updated_at?: string
+          updated_at: number
+          user_id?: string
+        }
+        Update: {
+          data?: Json
+          profile_id?: string
+          server_updated_at?: string
+          updated_at?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
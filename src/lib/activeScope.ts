@@ -0,0 +1,67 @@
+// Switching between users and profiles. Everything read from storage
+// belongs to the active scope, so a switch locks the vault, runs startup
+// migrations for the new data and tells the UI to reload.
+import {
+  DEFAULT_PROFILE_ID,
+  getActiveProfileId,
+  getStorageScope,
+  setActiveProfileId,
+  setStorageScope
+} from './storageScope';
+import { getProfile, getStoredActiveProfileId, setStoredActiveProfileId } from './journalProfiles';
+import { lockVault } from './healthJournalVault';
+import { runStartupMigrations } from './schemaMigrations';
+import { refreshSyncSnapshot } from './journalSync';
+
+const listeners = new Set<() => void>();
+
+const currentScopeKey = (): string => `${getStorageScope() ?? 'guest'}/${getActiveProfileId()}`;
+
+// Only updated once the new scope is ready to be read
+let scopeKey = currentScopeKey();
+
+const activate = async (): Promise<void> => {
+  lockVault();
+  refreshSyncSnapshot();
+  await runStartupMigrations().catch(error => console.error('Startup migrations failed:', error));
+  scopeKey = currentScopeKey();
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToScope = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Changes whenever the active user or profile does
+export const getScopeKey = (): string => scopeKey;
+
+// The profile list belongs to the user, so pick the profile after the user
+const applyUser = (userId: string | null): void => {
+  setStorageScope(userId);
+  setActiveProfileId(getStoredActiveProfileId());
+};
+
+// Set the scope without migrating, e.g. at startup before anything has read it
+export const initializeScope = (userId: string | null): void => {
+  applyUser(userId);
+  scopeKey = currentScopeKey();
+};
+
+export const switchUser = async (userId: string | null): Promise<void> => {
+  applyUser(userId);
+  await activate();
+};
+
+export const switchProfile = async (profileId: string): Promise<void> => {
+  if (profileId !== DEFAULT_PROFILE_ID && !getProfile(profileId)) {
+    throw new Error('Profile not found');
+  }
+  if (profileId === getActiveProfileId()) return;
+
+  setStoredActiveProfileId(profileId);
+  setActiveProfileId(profileId);
+  await activate();
+};
@@ -0,0 +1,137 @@
+// Body map regions for locating pain, shared by the entry form, the
+// heatmap chart and the doctor report
+import { JournalEntry, PainRegion } from './healthJournalTypes';
+
+export type BodySide = 'front' | 'back';
+
+export const BODY_SIDE_LABELS: Record<BodySide, string> = {
+  front: 'Front',
+  back: 'Back',
+};
+
+export type RegionShape =
+  | { kind: 'ellipse'; cx: number; cy: number; rx: number; ry: number }
+  | { kind: 'rect'; x: number; y: number; width: number; height: number };
+
+export interface BodyRegion {
+  id: string;
+  label: string;
+  side: BodySide | 'both'; // Limbs can be marked from either view
+  shape: RegionShape; // In the coordinates of its own view; 'both' uses the front view
+}
+
+// Figure coordinates. The front view shows the person's right on the
+// viewer's left, the back view the other way round.
+export const BODY_MAP_WIDTH = 120;
+export const BODY_MAP_HEIGHT = 250;
+
+export const MIN_PAIN_INTENSITY = 1;
+export const MAX_PAIN_INTENSITY = 10;
+export const DEFAULT_PAIN_INTENSITY = 5;
+
+const ellipse = (cx: number, cy: number, rx: number, ry: number): RegionShape => ({ kind: 'ellipse', cx, cy, rx, ry });
+const rect = (x: number, y: number, width: number, height: number): RegionShape => ({ kind: 'rect', x, y, width, height });
+
+// Drawn in this order, so overlapping joints come after the areas they sit on
+export const BODY_REGIONS: BodyRegion[] = [
+  { id: 'head', label: 'Head / face', side: 'front', shape: ellipse(60, 22, 14, 17) },
+  { id: 'backOfHead', label: 'Back of head', side: 'back', shape: ellipse(60, 22, 14, 17) },
+  { id: 'neck', label: 'Neck / throat', side: 'front', shape: rect(53, 39, 14, 10) },
+  { id: 'backOfNeck', label: 'Back of neck', side: 'back', shape: rect(53, 39, 14, 10) },
+  { id: 'chest', label: 'Chest', side: 'front', shape: rect(44, 49, 32, 29) },
+  { id: 'upperBack', label: 'Upper back', side: 'back', shape: rect(44, 49, 32, 29) },
+  { id: 'abdomen', label: 'Abdomen', side: 'front', shape: rect(45, 78, 30, 28) },
+  { id: 'lowerBack', label: 'Lower back', side: 'back', shape: rect(45, 78, 30, 28) },
+  { id: 'pelvis', label: 'Pelvis / groin', side: 'front', shape: rect(44, 106, 32, 18) },
+  { id: 'buttocks', label: 'Buttocks', side: 'back', shape: rect(44, 106, 32, 18) },
+  { id: 'rightUpperArm', label: 'Right upper arm', side: 'both', shape: rect(27, 62, 11, 34) },
+  { id: 'leftUpperArm', label: 'Left upper arm', side: 'both', shape: rect(82, 62, 11, 34) },
+  { id: 'rightForearm', label: 'Right forearm', side: 'both', shape: rect(23, 97, 11, 32) },
+  { id: 'leftForearm', label: 'Left forearm', side: 'both', shape: rect(86, 97, 11, 32) },
+  { id: 'rightHand', label: 'Right hand', side: 'both', shape: ellipse(28, 137, 6, 8) },
+  { id: 'leftHand', label: 'Left hand', side: 'both', shape: ellipse(92, 137, 6, 8) },
+  { id: 'rightShoulder', label: 'Right shoulder', side: 'both', shape: ellipse(36, 55, 9, 7) },
+  { id: 'leftShoulder', label: 'Left shoulder', side: 'both', shape: ellipse(84, 55, 9, 7) },
+  { id: 'rightThigh', label: 'Right thigh', side: 'both', shape: rect(44, 125, 15, 46) },
+  { id: 'leftThigh', label: 'Left thigh', side: 'both', shape: rect(61, 125, 15, 46) },
+  { id: 'rightShin', label: 'Right shin', side: 'front', shape: rect(45, 185, 13, 44) },
+  { id: 'leftShin', label: 'Left shin', side: 'front', shape: rect(62, 185, 13, 44) },
+  { id: 'rightKnee', label: 'Right knee', side: 'front', shape: ellipse(51.5, 178, 7.5, 6) },
+  { id: 'leftKnee', label: 'Left knee', side: 'front', shape: ellipse(68.5, 178, 7.5, 6) },
+  { id: 'rightCalf', label: 'Right calf', side: 'back', shape: rect(62, 175, 13, 54) },
+  { id: 'leftCalf', label: 'Left calf', side: 'back', shape: rect(45, 175, 13, 54) },
+  { id: 'rightFoot', label: 'Right foot', side: 'both', shape: ellipse(51.5, 236, 8, 5) },
+  { id: 'leftFoot', label: 'Left foot', side: 'both', shape: ellipse(68.5, 236, 8, 5) },
+];
+
+const regionsById = new Map(BODY_REGIONS.map(region => [region.id, region]));
+
+export const isBodyRegion = (id: string): boolean => regionsById.has(id);
+
+export const getRegionLabel = (id: string): string => regionsById.get(id)?.label ?? id;
+
+const mirror = (shape: RegionShape): RegionShape =>
+  shape.kind === 'ellipse'
+    ? { ...shape, cx: BODY_MAP_WIDTH - shape.cx }
+    : { ...shape, x: BODY_MAP_WIDTH - shape.x - shape.width };
+
+// Regions visible in one view, with their shape in that view's coordinates
+export const getRegionsForSide = (side: BodySide): { region: BodyRegion; shape: RegionShape }[] =>
+  BODY_REGIONS
+    .filter(region => region.side === side || region.side === 'both')
+    .map(region => ({
+      region,
+      shape: region.side === 'both' && side === 'back' ? mirror(region.shape) : region.shape,
+    }));
+
+// e.g. 'Lower back 6/10'
+export const formatPainRegion = (pain: PainRegion): string =>
+  `${getRegionLabel(pain.region)} ${pain.intensity}/${MAX_PAIN_INTENSITY}`;
+
+export const describePainRegions = (entry: JournalEntry): string =>
+  (entry.painRegions || []).map(formatPainRegion).join(', ');
+
+const NO_PAIN_RGB: [number, number, number] = [229, 231, 235];
+const MILD_RGB: [number, number, number] = [253, 224, 71];
+const SEVERE_RGB: [number, number, number] = [220, 38, 38];
+
+// Yellow for mild pain through to red for the worst; grey for none
+export const getPainRgb = (intensity: number): [number, number, number] => {
+  if (intensity <= 0) return NO_PAIN_RGB;
+  const t = (Math.min(intensity, MAX_PAIN_INTENSITY) - MIN_PAIN_INTENSITY) / (MAX_PAIN_INTENSITY - MIN_PAIN_INTENSITY);
+  return MILD_RGB.map((from, i) => Math.round(from + (SEVERE_RGB[i] - from) * t)) as [number, number, number];
+};
+
+export const getPainColor = (intensity: number): string => `rgb(${getPainRgb(intensity).join(', ')})`;
+
+export interface RegionPainSummary {
+  region: string;
+  days: number; // Days the region was marked
+  averageIntensity: number;
+  maxIntensity: number;
+}
+
+// How often and how badly each region hurt, most often marked first.
+// Check-ins on the same day count once, with the day's worst intensity.
+export const summarizePainRegions = (entries: JournalEntry[]): RegionPainSummary[] => {
+  const worstByDay = new Map<string, Map<string, number>>();
+  entries.filter(entry => !entry.deletedAt).forEach(entry => {
+    (entry.painRegions || []).forEach(({ region, intensity }) => {
+      const days = worstByDay.get(region) ?? new Map<string, number>();
+      days.set(entry.date, Math.max(days.get(entry.date) ?? 0, intensity));
+      worstByDay.set(region, days);
+    });
+  });
+
+  return Array.from(worstByDay.entries())
+    .map(([region, days]) => {
+      const intensities = Array.from(days.values());
+      return {
+        region,
+        days: intensities.length,
+        averageIntensity: intensities.reduce((sum, i) => sum + i, 0) / intensities.length,
+        maxIntensity: Math.max(...intensities),
+      };
+    })
+    .sort((a, b) => b.days - a.days || b.averageIntensity - a.averageIntensity);
+};
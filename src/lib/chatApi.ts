@@ -0,0 +1,18 @@
+// Access to the `chat` edge function, which only accepts signed-in users
+import { supabase } from '@/integrations/supabase/client';
+
+export const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`;
+
+export const SIGN_IN_REQUIRED_MESSAGE = 'Please sign in to use AI features';
+
+export const getChatHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error(SIGN_IN_REQUIRED_MESSAGE);
+  }
+
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${session.access_token}`,
+  };
+};
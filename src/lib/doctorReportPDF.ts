@@ -1,13 +1,34 @@
 // Professional Medical Report PDF Generator
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import { JournalEntry, HealthInsights, MOOD_LABELS, Attachment } from './healthJournalTypes';
-import { format } from 'date-fns';
-
-interface PatientInfo {
+import { JournalEntry, HealthInsights, MOOD_LABELS, Attachment, Medication } from './healthJournalTypes';
+import { format, parseISO } from 'date-fns';
+import { calculateAdherence } from './healthMedications';
+import { formatSymptom, summarizeSymptoms } from './healthSymptoms';
+import { rollUpByDay } from './journalDays';
+import { describeMeals, hasMeals } from './healthNutrition';
+import {
+  BODY_MAP_HEIGHT,
+  BODY_MAP_WIDTH,
+  BODY_SIDE_LABELS,
+  BodySide,
+  getPainRgb,
+  getRegionLabel,
+  getRegionsForSide,
+  summarizePainRegions
+} from './bodyMap';
+import { CYCLE_PHASE_LABELS, findCycleSymptomPatterns, getAverageCycleLength, getCycles } from './healthCycle';
+import { DEFAULT_VITAL_TARGETS, VITAL_DEFINITIONS, VitalTargets, collectVitals, formatReading, getVitalStatus } from './healthVitals';
+import { LAB_STATUS_LABELS, collectLabResults, formatReferenceRange, getLabStatus } from './healthLabs';
+import { analyzeSleep, describeSleepMetrics } from './healthSleep';
+import { computeLaggedAssociations, describeAssociation, getSignificantLinks } from './healthStatistics';
+import { getTrackerList } from './healthTrackers';
+import { getIntakeLog } from './healthIntake';
+
+export interface PatientInfo {
   name?: string;
   age?: string;
-  gender?: string;
+  sex?: string;
 }
 
 interface DoctorReportOptions {
@@ -15,10 +36,36 @@ interface DoctorReportOptions {
   insights?: HealthInsights;
   patientInfo?: PatientInfo;
   dateRange?: { start: string; end: string };
+  vitalTargets?: VitalTargets;
+  medications?: Medication[];
 }
 
+// jspdf-autotable records where the last table ended on the document
+const getLastTableY = (doc: jsPDF): number =>
+  (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+const BODY_MAP_PDF_HEIGHT = 90;
+
+// Vector drawing of one side of the body map, BODY_MAP_PDF_HEIGHT mm tall
+const drawBodyMap = (doc: jsPDF, side: BodySide, intensities: Record<string, number>, left: number, top: number) => {
+  const scale = BODY_MAP_PDF_HEIGHT / BODY_MAP_HEIGHT;
+  doc.setDrawColor(156, 163, 175);
+  doc.setLineWidth(0.2);
+  getRegionsForSide(side).forEach(({ region, shape }) => {
+    doc.setFillColor(...getPainRgb(intensities[region.id] ?? 0));
+    if (shape.kind === 'ellipse') {
+      doc.ellipse(left + shape.cx * scale, top + shape.cy * scale, shape.rx * scale, shape.ry * scale, 'FD');
+    } else {
+      doc.roundedRect(left + shape.x * scale, top + shape.y * scale, shape.width * scale, shape.height * scale, 1, 1, 'FD');
+    }
+  });
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'normal');
+  doc.text(BODY_SIDE_LABELS[side], left + (BODY_MAP_WIDTH * scale) / 2, top + BODY_MAP_PDF_HEIGHT + 4, { align: 'center' });
+};
+
 export const generateDoctorReport = async (options: DoctorReportOptions): Promise<void> => {
-  const { entries, insights, patientInfo, dateRange } = options;
+  const { entries, insights, patientInfo, dateRange, vitalTargets = DEFAULT_VITAL_TARGETS, medications = [] } = options;
 
   if (entries.length === 0) {
     throw new Error('No entries to generate report');
@@ -40,7 +87,7 @@ export const generateDoctorReport = async (options: DoctorReportOptions): Promis
   yPosition += 15;
 
   // Patient Information Section
-  if (patientInfo && (patientInfo.name || patientInfo.age || patientInfo.gender)) {
+  if (patientInfo && (patientInfo.name || patientInfo.age || patientInfo.sex)) {
     doc.setFontSize(14);
     doc.setFont('helvetica', 'bold');
     doc.text('Patient Information', 20, yPosition);
@@ -57,8 +104,8 @@ export const generateDoctorReport = async (options: DoctorReportOptions): Promis
       doc.text(`Age: ${patientInfo.age}`, 25, yPosition);
       yPosition += 5;
     }
-    if (patientInfo.gender) {
-      doc.text(`Gender: ${patientInfo.gender}`, 25, yPosition);
+    if (patientInfo.sex) {
+      doc.text(`Sex: ${patientInfo.sex}`, 25, yPosition);
       yPosition += 5;
     }
     
@@ -79,7 +126,9 @@ export const generateDoctorReport = async (options: DoctorReportOptions): Promis
   yPosition += 5;
   doc.text(`To: ${format(new Date(endDate), 'MMMM dd, yyyy')}`, 25, yPosition);
   yPosition += 5;
-  doc.text(`Total Entries: ${entries.length}`, 25, yPosition);
+  // Statistics are per day, combining the check-ins logged on it
+  const days = rollUpByDay(entries);
+  doc.text(`Total Entries: ${entries.length} (${days.length} days)`, 25, yPosition);
   yPosition += 10;
 
   // Clinical Summary
@@ -92,44 +141,46 @@ export const generateDoctorReport = async (options: DoctorReportOptions): Promis
   doc.setFont('helvetica', 'normal');
 
   // Calculate statistics
-  const avgMood = entries.reduce((sum, e) => sum + e.mood, 0) / entries.length;
-  const avgSleep = entries.reduce((sum, e) => sum + e.sleepHours, 0) / entries.length;
-  const avgSleepQuality = entries.reduce((sum, e) => sum + e.sleepQuality, 0) / entries.length;
-  const avgStress = entries.reduce((sum, e) => sum + e.stressLevel, 0) / entries.length;
+  const avgMood = days.reduce((sum, e) => sum + e.mood, 0) / days.length;
+  const avgSleep = days.reduce((sum, e) => sum + e.sleepHours, 0) / days.length;
+  const avgSleepQuality = days.reduce((sum, e) => sum + e.sleepQuality, 0) / days.length;
+  const avgStress = days.reduce((sum, e) => sum + e.stressLevel, 0) / days.length;
 
   doc.text(`• Average Mood: ${avgMood.toFixed(1)}/5 (${MOOD_LABELS[Math.round(avgMood) as 1 | 2 | 3 | 4 | 5]})`, 25, yPosition);
   yPosition += 5;
   doc.text(`• Average Sleep: ${avgSleep.toFixed(1)} hours/night (Quality: ${avgSleepQuality.toFixed(1)}/5)`, 25, yPosition);
   yPosition += 5;
+  const sleepNights = analyzeSleep(entries);
+  const latestSleep = sleepNights[sleepNights.length - 1];
+  if (latestSleep) {
+    doc.text(`• Latest Sleep: ${describeSleepMetrics(latestSleep)}`, 25, yPosition);
+    yPosition += 5;
+  }
   doc.text(`• Average Stress Level: ${avgStress.toFixed(1)}/5`, 25, yPosition);
   yPosition += 10;
 
-  // Symptom Frequency Analysis
-  const symptomFrequency: Record<string, number> = {};
-  entries.forEach(entry => {
-    entry.symptoms.forEach(symptom => {
-      symptomFrequency[symptom] = (symptomFrequency[symptom] || 0) + 1;
-    });
-  });
+  // Symptom Frequency Analysis, heaviest burden first
+  const symptomSummaries = summarizeSymptoms(days);
 
-  if (Object.keys(symptomFrequency).length > 0) {
+  if (symptomSummaries.length > 0) {
     doc.setFontSize(14);
     doc.setFont('helvetica', 'bold');
     doc.text('Symptom Frequency', 20, yPosition);
     yPosition += 7;
 
-    const symptomData = Object.entries(symptomFrequency)
-      .sort(([, a], [, b]) => b - a)
+    const symptomData = symptomSummaries
       .slice(0, 10)
-      .map(([symptom, count]) => [
-        symptom,
+      .map(({ name, count, averageSeverity, maxSeverity }) => [
+        name,
         count.toString(),
-        `${((count / entries.length) * 100).toFixed(1)}%`
+        `${((count / days.length) * 100).toFixed(1)}%`,
+        `${averageSeverity.toFixed(1)}/10`,
+        `${maxSeverity}/10`
       ]);
 
     autoTable(doc, {
       startY: yPosition,
-      head: [['Symptom', 'Occurrences', 'Frequency']],
+      head: [['Symptom', 'Days', 'Frequency', 'Avg Severity', 'Max Severity']],
       body: symptomData,
       theme: 'striped',
       headStyles: { fillColor: [79, 70, 229] },
@@ -137,7 +188,278 @@ export const generateDoctorReport = async (options: DoctorReportOptions): Promis
       styles: { fontSize: 9 }
     });
 
-    yPosition = (doc as any).lastAutoTable.finalY + 10;
+    yPosition = getLastTableY(doc) + 10;
+  }
+
+  // Pain body map, shaded by average intensity
+  const painSummaries = summarizePainRegions(entries);
+
+  if (painSummaries.length > 0) {
+    if (yPosition > 160) {
+      doc.addPage();
+      yPosition = 20;
+    }
+
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Pain Locations', 20, yPosition);
+    yPosition += 7;
+
+    const intensities = Object.fromEntries(painSummaries.map(summary => [summary.region, summary.averageIntensity]));
+    const figureTop = yPosition;
+    (['front', 'back'] as BodySide[]).forEach((side, index) => {
+      drawBodyMap(doc, side, intensities, 22 + index * 50, figureTop);
+    });
+
+    autoTable(doc, {
+      startY: figureTop,
+      head: [['Region', 'Days', 'Avg', 'Max']],
+      body: painSummaries.slice(0, 12).map(summary => [
+        getRegionLabel(summary.region),
+        summary.days.toString(),
+        `${summary.averageIntensity.toFixed(1)}/10`,
+        `${summary.maxIntensity}/10`
+      ]),
+      theme: 'striped',
+      headStyles: { fillColor: [79, 70, 229] },
+      margin: { left: 125 },
+      styles: { fontSize: 8 }
+    });
+
+    const tableBottom = getLastTableY(doc);
+    yPosition = Math.max(tableBottom, figureTop + BODY_MAP_PDF_HEIGHT + 6) + 10;
+  }
+
+  // Menstrual cycle, most recent cycles first
+  const cycles = getCycles(entries);
+
+  if (cycles.length > 0) {
+    if (yPosition > 230) {
+      doc.addPage();
+      yPosition = 20;
+    }
+
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Menstrual Cycle', 20, yPosition);
+    yPosition += 7;
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`• Average cycle length: ${getAverageCycleLength(cycles)} days (${cycles.length} periods logged)`, 25, yPosition);
+    yPosition += 5;
+
+    const cycleData = [...cycles].reverse().slice(0, 12).map(cycle => [
+      format(parseISO(cycle.start), 'MMM dd, yyyy'),
+      cycle.length !== undefined ? `${cycle.length} days` : 'Current',
+      `${cycle.periodDays} days`
+    ]);
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [['Period Start', 'Cycle Length', 'Period Length']],
+      body: cycleData,
+      theme: 'striped',
+      headStyles: { fillColor: [79, 70, 229] },
+      margin: { left: 20 },
+      styles: { fontSize: 9 }
+    });
+
+    yPosition = getLastTableY(doc) + 6;
+
+    const cyclePatterns = findCycleSymptomPatterns(entries);
+    if (cyclePatterns.length > 0) {
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Cycle-linked symptoms', 20, yPosition);
+      yPosition += 5;
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(9);
+      cyclePatterns.forEach(pattern => {
+        const lines = doc.splitTextToSize(
+          `• ${pattern.symptom} around cycle day ${pattern.cycleDay} (${CYCLE_PHASE_LABELS[pattern.phase].toLowerCase()} phase) in ${pattern.cycles} of ${pattern.observedCycles} cycles, average severity ${pattern.averageSeverity.toFixed(1)}/10`,
+          165
+        );
+        doc.text(lines, 25, yPosition);
+        yPosition += lines.length * 4.5;
+      });
+    }
+    yPosition += 5;
+  }
+
+  // Vital Signs, newest first
+  const vitals = collectVitals(entries).reverse();
+
+  if (vitals.length > 0) {
+    if (yPosition > 230) {
+      doc.addPage();
+      yPosition = 20;
+    }
+
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Vital Signs', 20, yPosition);
+    yPosition += 7;
+
+    const vitalData = vitals.map(reading => {
+      const status = getVitalStatus(reading, vitalTargets);
+      return [
+        format(new Date(reading.takenAt), 'MMM dd, yyyy HH:mm'),
+        VITAL_DEFINITIONS[reading.type].label,
+        formatReading(reading),
+        status === 'normal' ? 'In range' : status === 'high' ? 'HIGH' : 'LOW'
+      ];
+    });
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [['Date/Time', 'Vital', 'Reading', 'Status']],
+      body: vitalData,
+      theme: 'striped',
+      headStyles: { fillColor: [79, 70, 229] },
+      margin: { left: 20 },
+      styles: { fontSize: 9 },
+      didParseCell: (data) => {
+        // Flag out-of-range readings
+        if (data.section === 'body' && data.column.index === 3 && data.cell.raw !== 'In range') {
+          data.cell.styles.textColor = [220, 38, 38];
+          data.cell.styles.fontStyle = 'bold';
+        }
+      }
+    });
+
+    yPosition = getLastTableY(doc) + 10;
+  }
+
+  // Lab Results, newest first, with the report each value came from
+  const labResults = collectLabResults(entries).reverse();
+
+  if (labResults.length > 0) {
+    if (yPosition > 230) {
+      doc.addPage();
+      yPosition = 20;
+    }
+
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Lab Results', 20, yPosition);
+    yPosition += 7;
+
+    // Source reports are numbered in the order they first appear
+    const sources: { attachment: Attachment; entry: JournalEntry }[] = [];
+    const sourceLabel = (attachment?: Attachment, entry?: JournalEntry): string => {
+      if (!attachment || !entry) return '-';
+      let index = sources.findIndex(source => source.attachment.id === attachment.id);
+      if (index === -1) index = sources.push({ attachment, entry }) - 1;
+      return `Report ${index + 1}`;
+    };
+
+    const labData = labResults.map(({ result, entry, attachment }) => [
+      format(parseISO(result.collectedOn), 'MMM dd, yyyy'),
+      result.testName,
+      `${result.value} ${result.unit}`.trim(),
+      formatReferenceRange(result) || '-',
+      getLabStatus(result) === 'normal' ? LAB_STATUS_LABELS.normal : getLabStatus(result).toUpperCase(),
+      sourceLabel(attachment, entry)
+    ]);
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [['Collected', 'Test', 'Result', 'Reference', 'Flag', 'Source']],
+      body: labData,
+      theme: 'striped',
+      headStyles: { fillColor: [79, 70, 229] },
+      margin: { left: 20 },
+      styles: { fontSize: 9 },
+      didParseCell: (data) => {
+        // Flag results outside the reference range
+        if (data.section === 'body' && data.column.index === 4 && data.cell.raw !== LAB_STATUS_LABELS.normal) {
+          data.cell.styles.textColor = [220, 38, 38];
+          data.cell.styles.fontStyle = 'bold';
+        }
+      }
+    });
+
+    yPosition = getLastTableY(doc) + 6;
+
+    if (sources.length > 0) {
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(100, 100, 100);
+      sources.forEach(({ attachment, entry }, index) => {
+        if (yPosition > 270) {
+          doc.addPage();
+          yPosition = 20;
+        }
+        doc.text(
+          `Report ${index + 1}: ${attachment.fileName}, attached to the journal entry of ${format(parseISO(entry.date), 'MMM dd, yyyy')}`,
+          25,
+          yPosition
+        );
+        yPosition += 4.5;
+      });
+      doc.setTextColor(0, 0, 0);
+    }
+
+    yPosition += 5;
+  }
+
+  // Medications and adherence over the report period
+  if (medications.length > 0) {
+    if (yPosition > 230) {
+      doc.addPage();
+      yPosition = 20;
+    }
+
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Medications', 20, yPosition);
+    yPosition += 7;
+
+    const medicationData = calculateAdherence(entries, medications).map(({ medication, taken, skipped, percentage }) => [
+      medication.name,
+      medication.strength || '-',
+      medication.scheduleTimes.length > 0 ? medication.scheduleTimes.join(', ') : 'As needed',
+      taken.toString(),
+      skipped.toString(),
+      percentage !== null ? `${percentage}%` : '-'
+    ]);
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [['Medication', 'Strength', 'Schedule', 'Taken', 'Skipped', 'Adherence']],
+      body: medicationData,
+      theme: 'striped',
+      headStyles: { fillColor: [79, 70, 229] },
+      margin: { left: 20 },
+      styles: { fontSize: 9 }
+    });
+
+    yPosition = getLastTableY(doc) + 7;
+
+    // Tested with every factor, as in the app, so the correction matches
+    const [trackerList, intakeLog] = await Promise.all([getTrackerList(), getIntakeLog()]);
+    const associations = computeLaggedAssociations(entries, { trackerList, intakeLog });
+    const links = getSignificantLinks(associations, 'medication').slice(0, 5);
+    if (links.length > 0) {
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Medication/symptom links (significant after correction)', 20, yPosition);
+      yPosition += 5;
+
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(9);
+      links.forEach(link => {
+        const line = doc.splitTextToSize(
+          `• ${describeAssociation(link)}; adjusted p = ${link.qValue.toFixed(3)}`,
+          165
+        );
+        doc.text(line, 25, yPosition);
+        yPosition += line.length * 4 + 1;
+      });
+    }
+
+    yPosition += 5;
   }
 
   // Attachments Summary
@@ -267,10 +589,10 @@ export const generateDoctorReport = async (options: DoctorReportOptions): Promis
   yPosition += 7;
 
   const recentEntries = entries.slice(0, 10).map(entry => [
-    format(new Date(entry.date), 'MMM dd, yyyy'),
+    [format(new Date(entry.date), 'MMM dd, yyyy'), entry.time].filter(Boolean).join(' '),
     MOOD_LABELS[entry.mood],
     `${entry.sleepHours}h`,
-    entry.symptoms.slice(0, 3).join(', ') || 'None',
+    entry.symptoms.slice(0, 3).map(({ name, severity }) => `${name} (${severity}/10)`).join(', ') || 'None',
     `Stress: ${entry.stressLevel}/5`
   ]);
 
@@ -287,7 +609,7 @@ export const generateDoctorReport = async (options: DoctorReportOptions): Promis
     }
   });
 
-  yPosition = (doc as any).lastAutoTable.finalY + 10;
+  yPosition = getLastTableY(doc) + 10;
 
   // Add new page for detailed entries if needed
   if (entries.length > 10 && yPosition > 200) {
@@ -307,15 +629,16 @@ export const generateDoctorReport = async (options: DoctorReportOptions): Promis
 
       doc.setFontSize(10);
       doc.setFont('helvetica', 'bold');
-      doc.text(`${format(new Date(entry.date), 'MMM dd, yyyy')} - ${MOOD_LABELS[entry.mood]}`, 25, yPosition);
+      doc.text(`${[format(new Date(entry.date), 'MMM dd, yyyy'), entry.time].filter(Boolean).join(' ')} - ${MOOD_LABELS[entry.mood]}`, 25, yPosition);
       yPosition += 5;
 
       doc.setFont('helvetica', 'normal');
       doc.setFontSize(9);
 
       if (entry.symptoms.length > 0) {
-        doc.text(`Symptoms: ${entry.symptoms.join(', ')}`, 30, yPosition);
-        yPosition += 4;
+        const symptomLines = doc.splitTextToSize(`Symptoms: ${entry.symptoms.map(formatSymptom).join('; ')}`, 160);
+        doc.text(symptomLines, 30, yPosition);
+        yPosition += symptomLines.length * 4;
       }
 
       if (entry.diet.length > 0) {
@@ -323,6 +646,12 @@ export const generateDoctorReport = async (options: DoctorReportOptions): Promis
         yPosition += 4;
       }
 
+      if (hasMeals(entry)) {
+        const mealLines = doc.splitTextToSize(`Meals: ${describeMeals(entry)}`, 160);
+        doc.text(mealLines, 30, yPosition);
+        yPosition += mealLines.length * 4;
+      }
+
       if (entry.notes) {
         const notes = doc.splitTextToSize(`Notes: ${entry.notes}`, 160);
         doc.text(notes, 30, yPosition);
@@ -360,24 +689,17 @@ export const generateDoctorReport = async (options: DoctorReportOptions): Promis
 };
 
 export const generateQuickSummary = (entries: JournalEntry[]): string => {
-  const avgMood = entries.reduce((sum, e) => sum + e.mood, 0) / entries.length;
-  const avgSleep = entries.reduce((sum, e) => sum + e.sleepHours, 0) / entries.length;
-  const avgStress = entries.reduce((sum, e) => sum + e.stressLevel, 0) / entries.length;
-
-  const symptomFrequency: Record<string, number> = {};
-  entries.forEach(entry => {
-    entry.symptoms.forEach(symptom => {
-      symptomFrequency[symptom] = (symptomFrequency[symptom] || 0) + 1;
-    });
-  });
+  const days = rollUpByDay(entries);
+  const avgMood = days.reduce((sum, e) => sum + e.mood, 0) / days.length;
+  const avgSleep = days.reduce((sum, e) => sum + e.sleepHours, 0) / days.length;
+  const avgStress = days.reduce((sum, e) => sum + e.stressLevel, 0) / days.length;
 
-  const topSymptoms = Object.entries(symptomFrequency)
-    .sort(([, a], [, b]) => b - a)
+  const topSymptoms = summarizeSymptoms(days)
     .slice(0, 3)
-    .map(([symptom]) => symptom);
+    .map(({ name, averageSeverity }) => `${name} (avg ${averageSeverity.toFixed(1)}/10)`);
 
   return `
-Health Summary (${entries.length} entries):
+Health Summary (${entries.length} entries over ${days.length} days):
 • Mood: ${avgMood.toFixed(1)}/5
 • Sleep: ${avgSleep.toFixed(1)} hours/night
 • Stress: ${avgStress.toFixed(1)}/5
@@ -0,0 +1,106 @@
+// Bundled food composition data, so meals can be resolved to nutrients
+// offline. Values are per typical portion, rounded from public food
+// composition tables (USDA FoodData Central, UK CoFID).
+import { Nutrients } from './healthJournalTypes';
+
+export interface Food {
+  id: string;
+  name: string;
+  portion: string;
+  nutrients: Nutrients;
+  aliases?: string[]; // Other names the food is searched by
+}
+
+const food = (
+  id: string,
+  name: string,
+  portion: string,
+  [calories, caffeineMg, alcoholUnits, sugarG]: [number, number, number, number],
+  aliases?: string[]
+): Food => ({ id, name, portion, nutrients: { calories, caffeineMg, alcoholUnits, sugarG }, aliases });
+
+// [kcal, caffeine mg, alcohol units, sugar g] per portion
+export const FOODS: Food[] = [
+  // Hot drinks
+  food('coffee', 'Coffee', 'cup (240 ml)', [2, 95, 0, 0], ['filter coffee', 'americano']),
+  food('espresso', 'Espresso', 'shot (30 ml)', [1, 63, 0, 0]),
+  food('latte', 'Latte', 'medium (350 ml)', [190, 150, 0, 17], ['flat white']),
+  food('cappuccino', 'Cappuccino', 'cup (240 ml)', [120, 75, 0, 10]),
+  food('decaf-coffee', 'Decaf coffee', 'cup (240 ml)', [2, 3, 0, 0]),
+  food('black-tea', 'Black tea', 'cup (240 ml)', [2, 47, 0, 0], ['tea', 'english breakfast']),
+  food('green-tea', 'Green tea', 'cup (240 ml)', [2, 28, 0, 0]),
+  food('herbal-tea', 'Herbal tea', 'cup (240 ml)', [2, 0, 0, 0], ['chamomile', 'peppermint tea']),
+  food('hot-chocolate', 'Hot chocolate', 'mug (250 ml)', [190, 5, 0, 24], ['cocoa']),
+  // Soft drinks
+  food('water', 'Water', 'glass (250 ml)', [0, 0, 0, 0]),
+  food('cola', 'Cola', 'can (330 ml)', [139, 32, 0, 35], ['coke', 'soda', 'pop']),
+  food('diet-cola', 'Diet cola', 'can (330 ml)', [1, 42, 0, 0], ['diet coke', 'coke zero']),
+  food('energy-drink', 'Energy drink', 'can (250 ml)', [110, 80, 0, 27], ['red bull', 'monster']),
+  food('orange-juice', 'Orange juice', 'glass (250 ml)', [112, 0, 0, 21], ['juice']),
+  food('milk', 'Milk', 'glass (250 ml)', [150, 0, 0, 12]),
+  food('smoothie', 'Fruit smoothie', 'bottle (250 ml)', [140, 0, 0, 28]),
+  // Alcohol
+  food('beer-pint', 'Beer', 'pint (568 ml, 4%)', [215, 0, 2.3, 0], ['lager', 'ale']),
+  food('beer-bottle', 'Beer', 'bottle (330 ml, 5%)', [142, 0, 1.7, 0], ['lager']),
+  food('wine', 'Wine', 'glass (175 ml, 12%)', [160, 0, 2.1, 1.5], ['red wine', 'white wine', 'rosé']),
+  food('prosecco', 'Prosecco', 'flute (125 ml, 11%)', [90, 0, 1.4, 2], ['champagne', 'sparkling wine']),
+  food('spirits', 'Spirits', 'single (25 ml, 40%)', [55, 0, 1, 0], ['vodka', 'gin', 'whisky', 'rum']),
+  food('cider', 'Cider', 'pint (568 ml, 4.5%)', [216, 0, 2.6, 20]),
+  food('cocktail', 'Cocktail', 'glass (200 ml)', [220, 0, 2, 18], ['margarita', 'mojito']),
+  // Breakfast and bakery
+  food('white-bread', 'White bread', 'slice (36 g)', [79, 0, 0, 1.5], ['toast']),
+  food('wholemeal-bread', 'Wholemeal bread', 'slice (36 g)', [70, 0, 0, 1.5], ['brown bread']),
+  food('porridge', 'Porridge', 'bowl (40 g oats, milk)', [210, 0, 0, 9], ['oatmeal', 'oats']),
+  food('cereal', 'Breakfast cereal', 'bowl (40 g, milk)', [220, 0, 0, 14], ['cornflakes', 'granola']),
+  food('croissant', 'Croissant', 'each (60 g)', [250, 0, 0, 6]),
+  food('egg', 'Egg', 'each', [78, 0, 0, 0.6], ['boiled egg', 'fried egg', 'scrambled egg']),
+  food('bacon', 'Bacon', 'rasher', [43, 0, 0, 0]),
+  food('yoghurt', 'Yoghurt', 'pot (150 g)', [95, 0, 0, 7], ['yogurt']),
+  food('cheese', 'Cheese', 'slice (30 g)', [120, 0, 0, 0.1], ['cheddar']),
+  food('butter', 'Butter', 'portion (10 g)', [72, 0, 0, 0]),
+  // Fruit and vegetables
+  food('banana', 'Banana', 'medium', [105, 0, 0, 14]),
+  food('apple', 'Apple', 'medium', [95, 0, 0, 19]),
+  food('orange', 'Orange', 'medium', [62, 0, 0, 12]),
+  food('berries', 'Berries', 'cup (150 g)', [85, 0, 0, 15], ['strawberries', 'blueberries']),
+  food('salad', 'Green salad', 'bowl', [50, 0, 0, 4], ['salad']),
+  food('vegetables', 'Mixed vegetables', 'portion (80 g)', [35, 0, 0, 3], ['veg', 'broccoli', 'carrots']),
+  // Mains and sides
+  food('rice', 'Rice', 'cup cooked (160 g)', [205, 0, 0, 0.1]),
+  food('pasta', 'Pasta', 'cup cooked (140 g)', [220, 0, 0, 1], ['spaghetti']),
+  food('potato', 'Baked potato', 'medium', [160, 0, 0, 2], ['jacket potato']),
+  food('fries', 'Fries', 'medium portion', [365, 0, 0, 0.3], ['chips', 'french fries']),
+  food('chicken', 'Chicken breast', 'fillet (120 g)', [198, 0, 0, 0]),
+  food('steak', 'Beef steak', 'steak (170 g)', [350, 0, 0, 0], ['beef']),
+  food('salmon', 'Salmon', 'fillet (140 g)', [290, 0, 0, 0], ['fish']),
+  food('burger', 'Burger', 'each', [540, 0, 0, 9], ['hamburger', 'cheeseburger']),
+  food('pizza', 'Pizza', 'slice', [285, 0, 0, 3.8]),
+  food('sandwich', 'Sandwich', 'each', [350, 0, 0, 4], ['sub', 'wrap']),
+  food('curry', 'Curry', 'portion (350 g)', [450, 0, 0, 8], ['chicken curry']),
+  food('soup', 'Soup', 'bowl (300 ml)', [150, 0, 0, 5]),
+  // Snacks and sweets
+  food('chocolate', 'Milk chocolate', 'bar (45 g)', [235, 9, 0, 24], ['chocolate']),
+  food('dark-chocolate', 'Dark chocolate', 'portion (25 g)', [150, 20, 0, 6]),
+  food('biscuit', 'Biscuit', 'each', [70, 0, 0, 3], ['cookie']),
+  food('cake', 'Cake', 'slice', [350, 0, 0, 30]),
+  food('doughnut', 'Doughnut', 'each', [250, 0, 0, 12], ['donut']),
+  food('ice-cream', 'Ice cream', 'scoop (65 g)', [137, 0, 0, 14]),
+  food('crisps', 'Crisps', 'bag (25 g)', [130, 0, 0, 0.2], ['potato chips']),
+  food('nuts', 'Nuts', 'handful (30 g)', [180, 0, 0, 1], ['almonds', 'peanuts']),
+  food('sugar', 'Sugar', 'teaspoon (4 g)', [16, 0, 0, 4]),
+  food('honey', 'Honey', 'tablespoon', [64, 0, 0, 17]),
+];
+
+const byId = new Map(FOODS.map(f => [f.id, f]));
+
+export const getFood = (id: string): Food | undefined => byId.get(id);
+
+// Foods whose name or aliases match the query, names starting with it first
+export const searchFoods = (query: string, limit = 8): Food[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+  const names = (f: Food) => [f.name, ...(f.aliases || [])].map(name => name.toLowerCase());
+  const starts = FOODS.filter(f => names(f).some(name => name.startsWith(q)));
+  const contains = FOODS.filter(f => !starts.includes(f) && names(f).some(name => name.includes(q)));
+  return [...starts, ...contains].slice(0, limit);
+};
@@ -0,0 +1,231 @@
+// Menstrual cycle tracking: period starts, cycle days, phases and
+// symptoms that recur on the same cycle day
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { JournalEntry, MenstrualFlow } from './healthJournalTypes';
+
+export const FLOW_LEVELS: MenstrualFlow[] = ['spotting', 'light', 'medium', 'heavy'];
+
+export const FLOW_LABELS: Record<MenstrualFlow, string> = {
+  spotting: 'Spotting',
+  light: 'Light',
+  medium: 'Medium',
+  heavy: 'Heavy',
+};
+
+export type CyclePhase = 'menstrual' | 'follicular' | 'ovulation' | 'luteal';
+
+export const CYCLE_PHASE_LABELS: Record<CyclePhase, string> = {
+  menstrual: 'Menstrual',
+  follicular: 'Follicular',
+  ovulation: 'Ovulation',
+  luteal: 'Luteal',
+};
+
+export const DEFAULT_CYCLE_LENGTH = 28;
+// Cycles outside this range are treated as missed logging, not real cycles
+const MIN_CYCLE_LENGTH = 15;
+const MAX_CYCLE_LENGTH = 60;
+// Flow within this many days of the previous flow day belongs to the same period
+const PERIOD_GAP_DAYS = 2;
+const MENSTRUAL_PHASE_DAYS = 5;
+// The luteal phase is fairly constant, so ovulation is counted back from the next period
+const LUTEAL_PHASE_DAYS = 14;
+// Occurrences within this many cycle days of each other count as the same pattern
+const CYCLE_DAY_WINDOW = 2;
+const MIN_PATTERN_CYCLES = 2;
+const MIN_PATTERN_SHARE = 0.5;
+
+export interface Cycle {
+  start: string; // First period day
+  length?: number; // Days until the next period; unset for the current cycle
+  periodDays: number;
+}
+
+export interface CycleStatus {
+  cycleDay: number;
+  phase: CyclePhase;
+  cycleLength: number; // Average of completed cycles, or the default
+  nextPeriod: string;
+  daysLate: number; // How far past the expected start the current cycle is
+}
+
+export interface CycleSymptomPattern {
+  symptom: string;
+  cycleDay: number; // Typical cycle day the symptom appears on
+  phase: CyclePhase;
+  cycles: number; // Cycles where it appeared around that day
+  observedCycles: number; // Cycles with any logging
+  averageSeverity: number;
+}
+
+export interface CycleDayStat {
+  cycleDay: number;
+  phase: CyclePhase;
+  days: number; // Logged days that fell on this cycle day
+  averageSeverity: number; // Mean peak symptom severity on those days
+}
+
+const toISODate = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+const daysBetween = (later: string, earlier: string): number =>
+  differenceInCalendarDays(parseISO(later), parseISO(earlier));
+
+// Spotting alone does not start a period
+const isPeriodDay = (entry: JournalEntry): boolean =>
+  !!entry.menstrualFlow && entry.menstrualFlow !== 'spotting' && !entry.deletedAt;
+
+const getPeriodDates = (entries: JournalEntry[]): string[] =>
+  Array.from(new Set(entries.filter(isPeriodDay).map(entry => entry.date))).sort();
+
+export const getCycles = (entries: JournalEntry[]): Cycle[] => {
+  const cycles: Cycle[] = [];
+  let previous: string | null = null;
+
+  getPeriodDates(entries).forEach(date => {
+    if (previous && daysBetween(date, previous) <= PERIOD_GAP_DAYS) {
+      cycles[cycles.length - 1].periodDays++;
+    } else {
+      if (cycles.length > 0) cycles[cycles.length - 1].length = daysBetween(date, cycles[cycles.length - 1].start);
+      cycles.push({ start: date, periodDays: 1 });
+    }
+    previous = date;
+  });
+
+  return cycles;
+};
+
+const isPlausible = (cycle: Cycle): boolean =>
+  cycle.length !== undefined && cycle.length >= MIN_CYCLE_LENGTH && cycle.length <= MAX_CYCLE_LENGTH;
+
+export const getAverageCycleLength = (cycles: Cycle[]): number => {
+  const lengths = cycles.filter(isPlausible).map(cycle => cycle.length!);
+  if (lengths.length === 0) return DEFAULT_CYCLE_LENGTH;
+  return Math.round(lengths.reduce((sum, length) => sum + length, 0) / lengths.length);
+};
+
+// 1-based day of the cycle the date falls in, or null before the first logged period
+export const getCycleDay = (date: string, cycles: Cycle[]): number | null => {
+  const cycle = [...cycles].reverse().find(c => c.start <= date);
+  if (!cycle) return null;
+  const day = daysBetween(date, cycle.start) + 1;
+  // Without a later period the cycle's end is unknown; stop counting once it is implausibly long
+  return day <= (cycle.length ?? MAX_CYCLE_LENGTH) ? day : null;
+};
+
+export const getCyclePhase = (cycleDay: number, cycleLength = DEFAULT_CYCLE_LENGTH): CyclePhase => {
+  if (cycleDay <= MENSTRUAL_PHASE_DAYS) return 'menstrual';
+  const ovulationDay = cycleLength - LUTEAL_PHASE_DAYS;
+  if (Math.abs(cycleDay - ovulationDay) <= 1) return 'ovulation';
+  return cycleDay < ovulationDay ? 'follicular' : 'luteal';
+};
+
+export const getCycleStatus = (entries: JournalEntry[], today = new Date()): CycleStatus | null => {
+  const cycles = getCycles(entries);
+  const todayISO = toISODate(today);
+  const current = [...cycles].reverse().find(cycle => cycle.start <= todayISO);
+  if (!current) return null;
+
+  const cycleLength = getAverageCycleLength(cycles);
+  const cycleDay = daysBetween(todayISO, current.start) + 1;
+  if (cycleDay > MAX_CYCLE_LENGTH) return null;
+
+  return {
+    cycleDay,
+    phase: getCyclePhase(cycleDay, cycleLength),
+    cycleLength,
+    nextPeriod: toISODate(addDays(parseISO(current.start), cycleLength)),
+    daysLate: Math.max(0, cycleDay - cycleLength - 1),
+  };
+};
+
+// Symptoms that keep coming back around the same cycle day, in at least
+// half of the cycles with any logging
+export const findCycleSymptomPatterns = (entries: JournalEntry[]): CycleSymptomPattern[] => {
+  const cycles = getCycles(entries);
+  if (cycles.length < MIN_PATTERN_CYCLES) return [];
+  const cycleLength = getAverageCycleLength(cycles);
+
+  const observedCycles = new Set<string>();
+  const bySymptom = new Map<string, { days: Map<string, number[]>; severities: number[] }>();
+
+  entries.filter(entry => !entry.deletedAt).forEach(entry => {
+    const cycleDay = getCycleDay(entry.date, cycles);
+    if (cycleDay === null) return;
+    const cycleStart = [...cycles].reverse().find(c => c.start <= entry.date)!.start;
+    observedCycles.add(cycleStart);
+
+    entry.symptoms.forEach(({ name, severity }) => {
+      const data = bySymptom.get(name) ?? { days: new Map<string, number[]>(), severities: [] };
+      data.days.set(cycleStart, [...(data.days.get(cycleStart) ?? []), cycleDay]);
+      data.severities.push(severity);
+      bySymptom.set(name, data);
+    });
+  });
+
+  const patterns: CycleSymptomPattern[] = [];
+  bySymptom.forEach(({ days, severities }, symptom) => {
+    // Pick the day matched by the most cycles, centred on where the occurrences fall
+    let best = { cycleDay: 0, cycles: 0, distance: 0 };
+    for (let day = 1; day <= cycleLength; day++) {
+      const distances = Array.from(days.values())
+        .map(cycleDays => Math.min(...cycleDays.map(d => Math.abs(d - day))))
+        .filter(distance => distance <= CYCLE_DAY_WINDOW);
+      const distance = distances.reduce((sum, d) => sum + d, 0);
+      if (distances.length > best.cycles || (distances.length === best.cycles && distance < best.distance)) {
+        best = { cycleDay: day, cycles: distances.length, distance };
+      }
+    }
+
+    if (best.cycles >= MIN_PATTERN_CYCLES && best.cycles / observedCycles.size >= MIN_PATTERN_SHARE) {
+      patterns.push({
+        symptom,
+        cycleDay: best.cycleDay,
+        phase: getCyclePhase(best.cycleDay, cycleLength),
+        cycles: best.cycles,
+        observedCycles: observedCycles.size,
+        averageSeverity: severities.reduce((sum, s) => sum + s, 0) / severities.length,
+      });
+    }
+  });
+
+  return patterns.sort((a, b) => b.cycles / b.observedCycles - a.cycles / a.observedCycles);
+};
+
+// Average peak symptom severity for each day of the cycle
+export const getCycleDayStats = (entries: JournalEntry[]): CycleDayStat[] => {
+  const cycles = getCycles(entries);
+  if (cycles.length === 0) return [];
+  const cycleLength = getAverageCycleLength(cycles);
+
+  const severities = new Map<number, number[]>();
+  entries.filter(entry => !entry.deletedAt).forEach(entry => {
+    const cycleDay = getCycleDay(entry.date, cycles);
+    if (cycleDay === null || cycleDay > cycleLength) return;
+    const peak = entry.symptoms.reduce((max, symptom) => Math.max(max, symptom.severity), 0);
+    severities.set(cycleDay, [...(severities.get(cycleDay) ?? []), peak]);
+  });
+
+  return Array.from({ length: cycleLength }, (_, index) => {
+    const cycleDay = index + 1;
+    const values = severities.get(cycleDay) ?? [];
+    return {
+      cycleDay,
+      phase: getCyclePhase(cycleDay, cycleLength),
+      days: values.length,
+      averageSeverity: values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0,
+    };
+  });
+};
+
+// Next date (from today on) that falls on the given cycle day
+export const getNextCycleDayDate = (cycleDay: number, entries: JournalEntry[], today = new Date()): string | null => {
+  const cycles = getCycles(entries);
+  const current = cycles[cycles.length - 1];
+  if (!current) return null;
+  const cycleLength = getAverageCycleLength(cycles);
+
+  const todayISO = toISODate(today);
+  let date = addDays(parseISO(current.start), cycleDay - 1);
+  while (toISODate(date) < todayISO) date = addDays(date, cycleLength);
+  return toISODate(date);
+};
@@ -0,0 +1,191 @@
+// Daily water, caffeine and alcohol counters with goals, and the factors
+// they contribute to prediction and correlation analysis
+import { format } from 'date-fns';
+import { CURRENT_SCHEMA_VERSION } from './healthJournalTypes';
+import { secureGetItem, secureSetItem } from './secureStorage';
+import { WriteOptions, queueChanges } from './syncOutbox';
+import { MergeOutcome, mergeNewestByKey } from './listMerge';
+
+export const INTAKE_KEY = 'bioguard_intake';
+// Counters are a single record per profile; this is its id in the sync outbox
+export const INTAKE_RECORD_ID = 'default';
+
+export type IntakeKind = 'water' | 'caffeine' | 'alcohol';
+
+export interface IntakeDefinition {
+  label: string;
+  // Display units and how many canonical units each is worth; the first is canonical
+  units: Record<string, number>;
+  goalType: 'min' | 'max'; // Water is a target to reach, caffeine and alcohol limits to stay under
+  color: string;
+  defaultSetting: IntakeSetting;
+}
+
+// Amounts are stored in the canonical unit and shown in the chosen one
+export interface IntakeSetting {
+  unit: string;
+  step: number; // Added per tap
+  goal: number;
+}
+
+export const INTAKE_DEFINITIONS: Record<IntakeKind, IntakeDefinition> = {
+  water: {
+    label: 'Water',
+    units: { ml: 1, L: 1000, 'fl oz': 29.5735, glasses: 250 },
+    goalType: 'min',
+    color: '#0ea5e9',
+    defaultSetting: { unit: 'ml', step: 250, goal: 2000 },
+  },
+  caffeine: {
+    label: 'Caffeine',
+    units: { mg: 1, coffees: 95 },
+    goalType: 'max',
+    color: '#92400e',
+    defaultSetting: { unit: 'mg', step: 95, goal: 400 },
+  },
+  alcohol: {
+    label: 'Alcohol',
+    units: { 'UK units': 1, 'US drinks': 1.75, g: 0.125 },
+    goalType: 'max',
+    color: '#7c3aed',
+    defaultSetting: { unit: 'UK units', step: 1, goal: 3 },
+  },
+};
+
+export const INTAKE_KINDS = Object.keys(INTAKE_DEFINITIONS) as IntakeKind[];
+
+export type IntakeSettings = Record<IntakeKind, IntakeSetting>;
+
+export interface DailyIntake {
+  water?: number;
+  caffeine?: number;
+  alcohol?: number;
+  updatedAt: number;
+}
+
+export interface IntakeLog {
+  days: Record<string, DailyIntake>; // Keyed by yyyy-MM-dd
+  settings: IntakeSettings;
+  settingsUpdatedAt: number;
+  updatedAt: number;
+  schemaVersion?: number;
+}
+
+export const DEFAULT_INTAKE_SETTINGS = Object.fromEntries(
+  INTAKE_KINDS.map(kind => [kind, INTAKE_DEFINITIONS[kind].defaultSetting])
+) as IntakeSettings;
+
+const EMPTY_LOG: IntakeLog = { days: {}, settings: DEFAULT_INTAKE_SETTINGS, settingsUpdatedAt: 0, updatedAt: 0 };
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeToIntake = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getIntakeLog = async (): Promise<IntakeLog> => {
+  try {
+    const stored = await secureGetItem<IntakeLog>(INTAKE_KEY);
+    return stored ? { ...stored, settings: { ...DEFAULT_INTAKE_SETTINGS, ...stored.settings } } : EMPTY_LOG;
+  } catch (error) {
+    console.error('Failed to load intake counters:', error);
+    return EMPTY_LOG;
+  }
+};
+
+export const saveIntakeLog = async (
+  log: IntakeLog,
+  { markChanged = true }: WriteOptions = {}
+): Promise<void> => {
+  await secureSetItem(INTAKE_KEY, {
+    ...log,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    updatedAt: markChanged ? Date.now() : log.updatedAt,
+  });
+  if (markChanged) {
+    await queueChanges('intake', [INTAKE_RECORD_ID]);
+  }
+  notify();
+};
+
+export const todayKey = (): string => format(new Date(), 'yyyy-MM-dd');
+
+// Add (or with a negative amount, take back) a canonical amount; never drops below zero
+export const addIntake = async (kind: IntakeKind, amount: number, date = todayKey()): Promise<void> => {
+  const log = await getIntakeLog();
+  const day = log.days[date] ?? { updatedAt: 0 };
+  const value = Math.max(0, Math.round(((day[kind] ?? 0) + amount) * 100) / 100);
+  await saveIntakeLog({ ...log, days: { ...log.days, [date]: { ...day, [kind]: value, updatedAt: Date.now() } } });
+};
+
+export const saveIntakeSettings = async (settings: IntakeSettings): Promise<void> => {
+  INTAKE_KINDS.forEach(kind => {
+    const { label, units } = INTAKE_DEFINITIONS[kind];
+    if (!(settings[kind].unit in units)) throw new Error(`${label}: unknown unit ${settings[kind].unit}`);
+    if (!(settings[kind].step > 0)) throw new Error(`${label}: amount per tap must be more than zero`);
+    if (!(settings[kind].goal > 0)) throw new Error(`${label}: daily goal must be more than zero`);
+  });
+  const log = await getIntakeLog();
+  await saveIntakeLog({ ...log, settings, settingsUpdatedAt: Date.now() });
+};
+
+// Merge a log from another device. Counters are kept per day, so a day
+// counted on both devices keeps the one changed last.
+export const mergeIntakeLogs = (local: IntakeLog, remote: IntakeLog): MergeOutcome<IntakeLog> => {
+  const days = mergeNewestByKey(local.days, remote.days);
+  const remoteSettingsNewer = remote.settingsUpdatedAt > local.settingsUpdatedAt;
+
+  return {
+    merged: {
+      days: days.merged,
+      settings: remoteSettingsNewer ? { ...DEFAULT_INTAKE_SETTINGS, ...remote.settings } : local.settings,
+      settingsUpdatedAt: Math.max(local.settingsUpdatedAt, remote.settingsUpdatedAt),
+      updatedAt: Math.max(local.updatedAt, remote.updatedAt),
+    },
+    localNewer: days.localNewer || local.settingsUpdatedAt > remote.settingsUpdatedAt,
+    remoteNewer: days.remoteNewer || remoteSettingsNewer,
+  };
+};
+
+export const toDisplayAmount = (kind: IntakeKind, amount: number, unit: string): number =>
+  Math.round((amount / (INTAKE_DEFINITIONS[kind].units[unit] ?? 1)) * 100) / 100;
+
+export const fromDisplayAmount = (kind: IntakeKind, amount: number, unit: string): number =>
+  amount * (INTAKE_DEFINITIONS[kind].units[unit] ?? 1);
+
+// e.g. '750 ml'
+export const formatIntake = (kind: IntakeKind, amount: number, settings: IntakeSettings): string =>
+  `${toDisplayAmount(kind, amount, settings[kind].unit)} ${settings[kind].unit}`;
+
+// Whether the day's amount misses the goal: under a water target or over a limit
+export const isOffGoal = (kind: IntakeKind, amount: number, setting: IntakeSetting): boolean =>
+  INTAKE_DEFINITIONS[kind].goalType === 'min' ? amount < setting.goal : amount > setting.goal;
+
+// Counted amounts for one day in canonical units; kinds not counted that day are left out
+export const getIntakeFeatures = (log: IntakeLog, date: string): Partial<Record<IntakeKind, number>> => {
+  const day = log.days[date];
+  if (!day) return {};
+  return Object.fromEntries(
+    INTAKE_KINDS.filter(kind => day[kind] !== undefined).map(kind => [kind, day[kind] as number])
+  );
+};
+
+// Factor names match the nutrition factors, so a high caffeine day counts
+// once whether it came from meals or the counter
+export const INTAKE_FACTORS: Record<IntakeKind, string> = {
+  water: 'Low water',
+  caffeine: 'High caffeine',
+  alcohol: 'High alcohol',
+};
+
+export const getIntakeFactors = (log: IntakeLog, date: string): string[] => {
+  const features = getIntakeFeatures(log, date);
+  return INTAKE_KINDS
+    .filter(kind => features[kind] !== undefined && isOffGoal(kind, features[kind] as number, log.settings[kind]))
+    .map(kind => INTAKE_FACTORS[kind]);
+};
@@ -1,5 +1,16 @@
 // AI Pattern Detection for Health Journal
 import { JournalEntry, Pattern, HealthInsights } from './healthJournalTypes';
+import { CHAT_URL, getChatHeaders } from './chatApi';
+import { describeDoses } from './healthMedications';
+import { formatSymptom, summarizeSymptoms } from './healthSymptoms';
+import { rollUpByDay } from './journalDays';
+import { describeMeals, getDailyNutrients, hasMeals } from './healthNutrition';
+import { describePainRegions } from './bodyMap';
+import { TrackerList, describeTrackers, getTrackerList } from './healthTrackers';
+import { INTAKE_KINDS, IntakeLog, formatIntake, getIntakeLog } from './healthIntake';
+import { collectLabResults, formatReferenceRange, getLabStatus } from './healthLabs';
+import { computeLaggedAssociations, describeAssociation } from './healthStatistics';
+import { analyzeSleep, describeSleepMetrics } from './healthSleep';
 
 export async function analyzeHealthPatterns(entries: JournalEntry[]): Promise<HealthInsights> {
   if (entries.length < 7) {
@@ -15,26 +26,86 @@ export async function analyzeHealthPatterns(entries: JournalEntry[]): Promise<He
     };
   }
 
+  const trackerList = await getTrackerList();
+  const intakeLog = await getIntakeLog();
+
   try {
-    const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`;
-    
     // Prepare journal data for AI analysis
     const journalSummary = entries.map(e => ({
       date: e.date,
+      time: e.time,
       mood: e.mood,
-      symptoms: e.symptoms.join(', '),
+      symptoms: e.symptoms.map(formatSymptom).join('; '),
+      painLocations: describePainRegions(e),
+      menstrualFlow: e.menstrualFlow,
       diet: e.diet.join(', '),
+      meals: describeMeals(e),
       sleepHours: e.sleepHours,
       sleepQuality: e.sleepQuality,
+      bedtime: e.bedtime,
+      wakeTime: e.wakeTime,
       stressLevel: e.stressLevel,
-      activities: e.activities.join(', ')
+      activities: e.activities.join(', '),
+      medications: describeDoses(e.medicationDoses),
+      trackers: describeTrackers(e, trackerList.trackers, trackerList.tags)
     }));
+    const dailyNutrition = rollUpByDay(entries)
+      .filter(hasMeals)
+      .map(day => ({ date: day.date, ...getDailyNutrients(day) }));
+    const dailyIntake = Object.keys(intakeLog.days)
+      .filter(date => entries.some(entry => entry.date === date))
+      .sort()
+      .map(date => ({
+        date,
+        ...Object.fromEntries(
+          INTAKE_KINDS
+            .filter(kind => intakeLog.days[date][kind] !== undefined)
+            .map(kind => [kind, formatIntake(kind, intakeLog.days[date][kind] ?? 0, intakeLog.settings)])
+        ),
+      }));
 
-    const prompt = `Analyze this health journal data and identify patterns, correlations, and trends. Look for relationships between symptoms, mood, diet, sleep, and activities.
+    const labResults = collectLabResults(entries).map(({ result }) => ({
+      collectedOn: result.collectedOn,
+      test: result.testName,
+      value: `${result.value} ${result.unit}`.trim(),
+      referenceRange: formatReferenceRange(result) || undefined,
+      flag: getLabStatus(result)
+    }));
+
+    // Statistics computed here, so the model reports tested links rather than guessing
+    const associations = computeLaggedAssociations(entries, { trackerList, intakeLog }).slice(0, 20).map(a => ({
+      factor: a.factor,
+      symptom: a.symptom,
+      lagDays: a.lag,
+      symptomDaysWithFactor: `${a.exposedWithSymptom}/${a.exposedDays}`,
+      symptomDaysWithoutFactor: `${a.unexposedWithSymptom}/${a.unexposedDays}`,
+      riskRatio: Number(a.riskRatio.toFixed(2)),
+      phi: Number(a.phi.toFixed(2)),
+      adjustedP: Number(a.qValue.toFixed(3)),
+      significant: a.significant
+    }));
+    const sleepNights = analyzeSleep(entries);
+    const latestSleep = sleepNights[sleepNights.length - 1];
+
+    const prompt = `Analyze this health journal data and identify patterns, correlations, and trends. Look for relationships between symptoms, mood, diet, sleep, activities, and medication doses taken or skipped.
 
 Journal Data (last ${entries.length} entries):
 ${JSON.stringify(journalSummary, null, 2)}
 
+Daily nutrient totals (calories in kcal, caffeine in mg, alcohol in units, sugar in g):
+${JSON.stringify(dailyNutrition, null, 2)}
+
+${labResults.length > 0 ? `Lab results (flags are against the reference range printed on the report):
+${JSON.stringify(labResults, null, 2)}
+
+` : ''}${associations.length > 0 ? `Lagged factor/symptom associations computed from this journal (Fisher's exact test, Benjamini-Hochberg adjusted p-values; lagDays is how many days after the factor the symptom was checked):
+${JSON.stringify(associations, null, 2)}
+
+` : ''}${latestSleep ? `Sleep as of the latest entry (need counted as 8h/night; social jet lag compares weekend and weekday sleep midpoints; regularity is the Sleep Regularity Index, 100 = identical schedule): ${describeSleepMetrics(latestSleep)}
+
+` : ''}Daily water, caffeine and alcohol counted (goals: ${INTAKE_KINDS.map(kind => `${kind} ${formatIntake(kind, intakeLog.settings[kind].goal, intakeLog.settings)}`).join(', ')}):
+${JSON.stringify(dailyIntake, null, 2)}
+
 Provide a detailed analysis in the following JSON format:
 {
   "patterns": [
@@ -65,17 +136,22 @@ Provide a detailed analysis in the following JSON format:
 
 Guidelines:
 - Look for temporal patterns (e.g., symptoms appear 2-3 days after certain foods)
+- "menstrualFlow" marks period days; look for symptoms tied to the menstrual cycle rather than calendar dates
+- Several entries can share a date; "time" is the HH:MM of that check-in, so use it for same-day ordering
+- "painLocations" lists body regions marked as painful with a 1-10 intensity; note pain that recurs in or spreads between regions
+- Symptoms carry a severity from 0-10 with onset time, duration and location; weigh severe episodes more than mild ones
 - Identify correlations between activities and mood/symptoms
+- Ground "correlations" in the lagged associations above: use their phi as the correlation, and only present a link as established when "significant" is true
+- Check whether symptoms tend to precede or follow taken or skipped medication doses
+- "meals" lists timed meals with portions; daily nutrient totals are given separately. Look at meal timing and quantities, not just which foods appear
+- "trackers" holds the user's own trackers and #tags; treat them as possible triggers like diet and activities
 - Consider sleep quality impact on mood and symptoms
 - Only include patterns with reasonable confidence (>0.6)
 - Provide actionable, specific recommendations`;
 
     const response = await fetch(CHAT_URL, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-      },
+      headers: await getChatHeaders(),
       body: JSON.stringify({
         messages: [{ role: "user", content: prompt }],
         module: "general"
@@ -143,12 +219,14 @@ Guidelines:
     console.error("Pattern analysis error:", error);
     
     // Fallback to basic analysis
-    return performBasicAnalysis(entries);
+    return performBasicAnalysis(entries, trackerList, intakeLog);
   }
 }
 
 // Fallback basic analysis without AI
-function performBasicAnalysis(entries: JournalEntry[]): HealthInsights {
+function performBasicAnalysis(checkIns: JournalEntry[], trackerList: TrackerList, intakeLog: IntakeLog): HealthInsights {
+  // Trends compare days, so check-ins are rolled up first
+  const entries = rollUpByDay(checkIns);
   const symptomsFrequency: Record<string, number> = {};
   let totalMood = 0;
   let totalSleep = 0;
@@ -156,8 +234,8 @@ function performBasicAnalysis(entries: JournalEntry[]): HealthInsights {
   entries.forEach(entry => {
     totalMood += entry.mood;
     totalSleep += entry.sleepQuality;
-    entry.symptoms.forEach(symptom => {
-      symptomsFrequency[symptom] = (symptomsFrequency[symptom] || 0) + 1;
+    entry.symptoms.forEach(({ name }) => {
+      symptomsFrequency[name] = (symptomsFrequency[name] || 0) + 1;
     });
   });
 
@@ -175,22 +253,21 @@ function performBasicAnalysis(entries: JournalEntry[]): HealthInsights {
   const sleepTrend = recentSleep > olderSleep + 0.5 ? 'improving' : 
                      recentSleep < olderSleep - 0.5 ? 'declining' : 'stable';
 
-  // Find most common symptom
-  const topSymptom = Object.entries(symptomsFrequency)
-    .sort(([, a], [, b]) => b - a)[0];
+  // Symptom with the heaviest burden (frequency weighted by severity)
+  const topSymptom = summarizeSymptoms(entries)[0];
 
   const patterns: Pattern[] = [];
   
-  if (topSymptom && topSymptom[1] >= 3) {
+  if (topSymptom && topSymptom.count >= 3) {
     patterns.push({
       id: 'pattern-1',
       type: 'symptom',
-      pattern: `${topSymptom[0]} appears frequently in your journal`,
-      confidence: Math.min(topSymptom[1] / entries.length, 0.9),
-      occurrences: topSymptom[1],
+      pattern: `${topSymptom.name} appears frequently in your journal (average severity ${topSymptom.averageSeverity.toFixed(1)}/10)`,
+      confidence: Math.min(topSymptom.count / entries.length, 0.9),
+      occurrences: topSymptom.count,
       lastDetected: entries[0].date,
       relatedFactors: [],
-      recommendation: `Track what happens before ${topSymptom[0]} occurs to identify triggers`
+      recommendation: `Track what happens before ${topSymptom.name} occurs to identify triggers`
     });
   }
 
@@ -207,6 +284,16 @@ function performBasicAnalysis(entries: JournalEntry[]): HealthInsights {
     });
   }
 
+  const correlations = computeLaggedAssociations(entries, { trackerList, intakeLog })
+    .filter(association => association.significant)
+    .slice(0, 10)
+    .map(association => ({
+      factor1: association.factor,
+      factor2: association.symptom,
+      correlation: association.phi,
+      description: `${describeAssociation(association)}; adjusted p = ${association.qValue.toFixed(3)}`
+    }));
+
   return {
     patterns,
     trends: {
@@ -214,7 +301,7 @@ function performBasicAnalysis(entries: JournalEntry[]): HealthInsights {
       sleepTrend,
       symptomsFrequency
     },
-    correlations: [],
+    correlations,
     summary: `Based on ${entries.length} journal entries, your mood is ${moodTrend} and sleep is ${sleepTrend}. Continue logging to discover more personalized insights.`
   };
 }
@@ -0,0 +1,188 @@
+// Blob storage for journal attachments
+import { Attachment } from './healthJournalTypes';
+import { ATTACHMENTS_STORE, withStore } from './healthJournalDB';
+import { EncryptedBlob, decryptBlob, encryptBlob, isVaultEnabled } from './healthJournalVault';
+import { WriteOptions, queueChanges } from './syncOutbox';
+
+const THUMBNAIL_MAX_SIZE = 320; // px, longest side
+const THUMBNAIL_QUALITY = 0.8;
+
+export interface AttachmentBlobRecord {
+  id: string; // Same id as the Attachment that references it
+  blob: Blob | null;
+  thumbnail: Blob | null;
+  // Set instead of blob/thumbnail while vault mode is on
+  encryptedBlob?: EncryptedBlob;
+  encryptedThumbnail?: EncryptedBlob | null;
+  size: number; // bytes, file plus thumbnail
+  createdAt: number;
+}
+
+export type AttachmentVariant = 'thumbnail' | 'full';
+
+export const isImageAttachment = (attachment: Pick<Attachment, 'mimeType'>): boolean =>
+  !!attachment.mimeType?.startsWith('image/');
+
+// Downscale an image to a small JPEG for gallery previews
+export const createThumbnail = async (blob: Blob): Promise<Blob | null> => {
+  if (!blob.type.startsWith('image/') || typeof createImageBitmap === 'undefined') {
+    return null;
+  }
+
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, THUMBNAIL_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      bitmap.close();
+      return null;
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    return await new Promise<Blob | null>(resolve =>
+      canvas.toBlob(resolve, 'image/jpeg', THUMBNAIL_QUALITY)
+    );
+  } catch (error) {
+    console.warn('Thumbnail generation failed:', error);
+    return null;
+  }
+};
+
+const encodeBlobRecord = async (
+  id: string,
+  blob: Blob,
+  thumbnail: Blob | null,
+  createdAt: number
+): Promise<AttachmentBlobRecord> => {
+  const size = blob.size + (thumbnail?.size || 0);
+  if (!isVaultEnabled()) {
+    return { id, blob, thumbnail, size, createdAt };
+  }
+
+  return {
+    id,
+    blob: null,
+    thumbnail: null,
+    encryptedBlob: await encryptBlob(blob),
+    encryptedThumbnail: thumbnail ? await encryptBlob(thumbnail) : null,
+    size,
+    createdAt,
+  };
+};
+
+export const hasStoredThumbnail = (record: AttachmentBlobRecord): boolean =>
+  !!(record.thumbnail || record.encryptedThumbnail);
+
+const readBlobRecord = (id: string) =>
+  withStore<AttachmentBlobRecord | undefined>(ATTACHMENTS_STORE, 'readonly', store => store.get(id));
+
+export const saveAttachmentBlob = async (
+  id: string,
+  blob: Blob,
+  { markChanged = true }: WriteOptions = {}
+): Promise<AttachmentBlobRecord> => {
+  const thumbnail = await createThumbnail(blob);
+  const record = await encodeBlobRecord(id, blob, thumbnail, Date.now());
+
+  await withStore(ATTACHMENTS_STORE, 'readwrite', store => store.put(record));
+  if (markChanged) {
+    await queueChanges('attachment', [id]);
+  }
+  return record;
+};
+
+export const getAttachmentBlob = async (id: string, variant: AttachmentVariant = 'full'): Promise<Blob | null> => {
+  const record = await readBlobRecord(id);
+  if (!record) return null;
+
+  if (variant === 'thumbnail') {
+    return record.encryptedThumbnail ? decryptBlob(record.encryptedThumbnail) : record.thumbnail;
+  }
+  return record.encryptedBlob ? decryptBlob(record.encryptedBlob) : record.blob;
+};
+
+// Re-encode every stored file so it matches the current vault state
+export const rewriteAttachmentBlobs = async (): Promise<void> => {
+  for (const id of await getStoredAttachmentIds()) {
+    const record = await readBlobRecord(id);
+    if (!record) continue;
+
+    const blob = await getAttachmentBlob(id, 'full');
+    if (!blob) continue;
+    const thumbnail = await getAttachmentBlob(id, 'thumbnail');
+
+    const updated = await encodeBlobRecord(id, blob, thumbnail, record.createdAt);
+    await withStore(ATTACHMENTS_STORE, 'readwrite', store => store.put(updated));
+  }
+};
+
+export const deleteAttachmentBlobs = async (
+  ids: string[],
+  { markChanged = true }: WriteOptions = {}
+): Promise<void> => {
+  if (ids.length === 0) return;
+  await withStore(ATTACHMENTS_STORE, 'readwrite', store => {
+    ids.forEach(id => store.delete(id));
+  });
+  if (markChanged) {
+    await queueChanges('attachment', ids, true);
+  }
+};
+
+export const getAttachmentStoreSize = async (): Promise<number> => {
+  const records = await withStore<AttachmentBlobRecord[]>(ATTACHMENTS_STORE, 'readonly', store => store.getAll());
+  return (records || []).reduce((total, record) => total + record.size, 0);
+};
+
+export const getStoredAttachmentIds = async (): Promise<string[]> => {
+  const keys = await withStore<IDBValidKey[]>(ATTACHMENTS_STORE, 'readonly', store => store.getAllKeys());
+  return (keys || []).map(String);
+};
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Move inline base64 attachments (old records, JSON backups) into the blob store
+export const detachInlineAttachments = async (attachments?: Attachment[]): Promise<Attachment[] | undefined> => {
+  if (!attachments) return attachments;
+
+  return Promise.all(attachments.map(async (attachment) => {
+    if (!attachment.dataUrl) return attachment;
+
+    const { dataUrl, ...rest } = attachment;
+    const blob = await dataUrlToBlob(dataUrl);
+    const record = await saveAttachmentBlob(attachment.id, blob);
+
+    return {
+      ...rest,
+      mimeType: attachment.mimeType || blob.type,
+      hasThumbnail: hasStoredThumbnail(record),
+    };
+  }));
+};
+
+// Embed attachment files as data URLs so a JSON backup is self-contained
+export const inlineAttachments = async (attachments?: Attachment[]): Promise<Attachment[] | undefined> => {
+  if (!attachments) return attachments;
+
+  return Promise.all(attachments.map(async (attachment) => {
+    const blob = await getAttachmentBlob(attachment.id);
+    return blob ? { ...attachment, dataUrl: await blobToDataUrl(blob) } : attachment;
+  }));
+};
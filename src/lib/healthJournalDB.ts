@@ -0,0 +1,170 @@
+// IndexedDB connection for the health journal
+import { profileScopedKey, scopedKey } from './storageScope';
+
+const DB_NAME = 'bioguard_health_journal';
+const DB_VERSION = 6;
+
+// Key used by the original localStorage implementation. It predates per-user
+// storage, so it is imported into whichever journal database is created first.
+export const LEGACY_STORAGE_KEY = 'bioguard_health_journal';
+
+export const ENTRIES_STORE = 'entries';
+export const QUARANTINE_STORE = 'quarantine';
+export const ATTACHMENTS_STORE = 'attachments';
+export const OUTBOX_STORE = 'outbox';
+export const CONFLICTS_STORE = 'conflicts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let openDBName: string | null = null;
+
+// Read entries persisted by the localStorage implementation, if any
+const readLegacyEntries = (): unknown[] => {
+  const data = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!data) return [];
+
+  try {
+    const parsed = JSON.parse(data);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+// Create or upgrade object stores. Each block runs once, in version order.
+const upgradeDatabase = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): boolean => {
+  let migratedLegacy = false;
+
+  if (oldVersion < 1) {
+    const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+    entries.createIndex('date', 'date');
+    entries.createIndex('symptoms', 'symptoms', { multiEntry: true });
+
+    // One-time import of the old single-key journal, inside the upgrade
+    // transaction so a failed import leaves the old key untouched
+    const legacyEntries = readLegacyEntries();
+    legacyEntries.forEach(entry => {
+      if (entry && typeof entry === 'object' && 'id' in entry) {
+        transaction.objectStore(ENTRIES_STORE).put(entry);
+      }
+    });
+    migratedLegacy = legacyEntries.length > 0;
+  }
+
+  if (oldVersion < 2) {
+    const quarantine = db.createObjectStore(QUARANTINE_STORE, { keyPath: 'id' });
+    quarantine.createIndex('kind', 'kind');
+  }
+
+  if (oldVersion < 3) {
+    db.createObjectStore(ATTACHMENTS_STORE, { keyPath: 'id' });
+  }
+
+  if (oldVersion < 4) {
+    db.createObjectStore(OUTBOX_STORE, { keyPath: 'key' });
+  }
+
+  if (oldVersion < 5) {
+    db.createObjectStore(CONFLICTS_STORE, { keyPath: 'id' });
+  }
+
+  // Symptoms became records, which the multi-entry index cannot key on
+  if (oldVersion < 6) {
+    transaction.objectStore(ENTRIES_STORE).deleteIndex('symptoms');
+  }
+
+  return migratedLegacy;
+};
+
+// Each user and profile gets its own database; switching closes the old connection
+export const openJournalDB = (): Promise<IDBDatabase> => {
+  const dbName = scopedKey(DB_NAME);
+  if (dbPromise && openDBName === dbName) return dbPromise;
+
+  if (dbPromise) {
+    dbPromise.then(db => db.close()).catch(() => undefined);
+  }
+  openDBName = dbName;
+
+  const promise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not supported in this browser'));
+      return;
+    }
+
+    let migratedLegacy = false;
+    const request = indexedDB.open(dbName, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      migratedLegacy = upgradeDatabase(request.result, request.transaction!, event.oldVersion);
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+
+      // Another tab upgraded the schema; drop our connection so it can proceed
+      db.onversionchange = () => {
+        db.close();
+        if (dbPromise === promise) dbPromise = null;
+      };
+
+      if (migratedLegacy) {
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+      }
+
+      resolve(db);
+    };
+
+    request.onerror = () => reject(request.error ?? new Error('Failed to open journal database'));
+    request.onblocked = () => console.warn('Journal database upgrade blocked by another open tab');
+  });
+
+  promise.catch(() => {
+    if (dbPromise === promise) dbPromise = null;
+  });
+
+  dbPromise = promise;
+  return promise;
+};
+
+// Remove a profile's whole database; it must not be the active profile
+export const deleteProfileDatabase = (profileId: string): Promise<void> => {
+  const dbName = profileScopedKey(profileId, DB_NAME);
+  if (dbName === openDBName) {
+    return Promise.reject(new Error('Cannot delete the database of the active profile'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(dbName);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error ?? new Error('Failed to delete profile database'));
+    request.onblocked = () => console.warn('Profile database deletion blocked by another open tab');
+  });
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+};
+
+// Run a single request against a store and resolve once the transaction commits
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openJournalDB();
+  const transaction = db.transaction(storeName, mode);
+  const request = callback(transaction.objectStore(storeName));
+  await transactionDone(transaction);
+  return request ? request.result : undefined;
+};
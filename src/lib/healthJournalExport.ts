@@ -1,48 +1,136 @@
 // Export health journal data
 import { JournalEntry } from './healthJournalTypes';
 import { format } from 'date-fns';
+import { describeDoses } from './healthMedications';
+import { formatSymptom } from './healthSymptoms';
+import { TrackerList, formatTrackerValue, getEntryTags } from './healthTrackers';
+import { describeMeals, getDailyNutrients } from './healthNutrition';
+import { describePainRegions } from './bodyMap';
+import { describeLabResults } from './healthLabs';
+import { inlineAttachments } from './healthJournalAttachments';
+import { QuarantinedRecord, createQuarantinedRecord, quarantineRecords, upgradeRecord } from './schemaMigrations';
+import {
+  PassphraseEncryptedPayload,
+  decryptWithPassphrase,
+  encryptWithPassphrase,
+  isEncryptedPayload,
+  isVaultEnabled,
+  verifyPassphrase
+} from './healthJournalVault';
 
-export const exportToJSON = (entries: JournalEntry[]): void => {
-  const dataStr = JSON.stringify(entries, null, 2);
+const ENCRYPTED_BACKUP_FORMAT = 'bioguard-encrypted-backup';
+
+interface EncryptedBackup extends PassphraseEncryptedPayload {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: 1;
+}
+
+const isEncryptedBackupData = (value: unknown): value is EncryptedBackup =>
+  isEncryptedPayload(value) && (value as EncryptedBackup).format === ENCRYPTED_BACKUP_FORMAT;
+
+const downloadJSON = (data: unknown, filename: string): void => {
+  const dataStr = JSON.stringify(data, null, 2);
   const dataBlob = new Blob([dataStr], { type: 'application/json' });
   const url = URL.createObjectURL(dataBlob);
   const link = document.createElement('a');
   link.href = url;
-  link.download = `health-journal-${format(new Date(), 'yyyy-MM-dd')}.json`;
+  link.download = filename;
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
   URL.revokeObjectURL(url);
 };
 
-export const exportToCSV = (entries: JournalEntry[]): void => {
+// Attachment files live in their own store; embed them so the backup is
+// complete, including trashed files that can still be restored
+const withInlineFiles = (entries: JournalEntry[]): Promise<JournalEntry[]> =>
+  Promise.all(entries.map(async entry => ({
+    ...entry,
+    attachments: await inlineAttachments(entry.attachments),
+    trashedAttachments: await inlineAttachments(entry.trashedAttachments)
+  })));
+
+export const exportToJSON = async (entries: JournalEntry[]): Promise<void> => {
+  downloadJSON(await withInlineFiles(entries), `health-journal-${format(new Date(), 'yyyy-MM-dd')}.json`);
+};
+
+// Backup that can only be restored with the given passphrase. With vault mode
+// on, the vault passphrase is required so there is only one secret to remember.
+export const exportEncryptedBackup = async (entries: JournalEntry[], passphrase: string): Promise<void> => {
+  if (isVaultEnabled() && !(await verifyPassphrase(passphrase))) {
+    throw new Error('Incorrect passphrase');
+  }
+
+  const payload = await encryptWithPassphrase(await withInlineFiles(entries), passphrase);
+  const backup: EncryptedBackup = { format: ENCRYPTED_BACKUP_FORMAT, version: 1, ...payload };
+  downloadJSON(backup, `health-journal-${format(new Date(), 'yyyy-MM-dd')}.encrypted.json`);
+};
+
+// Custom trackers get a column each, in tracker order, followed by the entry's tags
+export const exportToCSV = (entries: JournalEntry[], trackerList?: Pick<TrackerList, 'trackers' | 'tags'>): void => {
+  const trackers = trackerList?.trackers.filter(tracker => !tracker.deletedAt) || [];
+  const tags = trackerList?.tags.filter(tag => !tag.deletedAt) || [];
+
   // CSV header
   const headers = [
     'Date',
+    'Time',
     'Mood',
     'Mood Note',
     'Sleep Hours',
     'Sleep Quality',
+    'Bedtime',
+    'Wake Time',
     'Stress Level',
     'Symptoms',
+    'Pain Locations',
     'Diet',
     'Activities',
+    'Medications',
+    'Period Flow',
+    'Lab Results',
+    'Meals',
+    'Calories (kcal)',
+    'Caffeine (mg)',
+    'Alcohol (units)',
+    'Sugar (g)',
+    ...trackers.map(tracker => `"${tracker.name.replace(/"/g, '""')}"`),
+    'Tags',
     'Notes'
   ];
 
   // Convert entries to CSV rows
-  const rows = entries.map(entry => [
-    entry.date,
-    entry.mood.toString(),
-    `"${(entry.moodNote || '').replace(/"/g, '""')}"`,
-    entry.sleepHours.toString(),
-    entry.sleepQuality.toString(),
-    entry.stressLevel.toString(),
-    `"${entry.symptoms.join(', ')}"`,
-    `"${entry.diet.join(', ')}"`,
-    `"${entry.activities.join(', ')}"`,
-    `"${(entry.notes || '').replace(/"/g, '""')}"`
-  ]);
+  const rows = entries.map(entry => {
+    const nutrients = getDailyNutrients(entry);
+    return [
+      entry.date,
+      entry.time || '',
+      entry.mood.toString(),
+      `"${(entry.moodNote || '').replace(/"/g, '""')}"`,
+      entry.sleepHours.toString(),
+      entry.sleepQuality.toString(),
+      entry.bedtime || '',
+      entry.wakeTime || '',
+      entry.stressLevel.toString(),
+      `"${entry.symptoms.map(formatSymptom).join('; ').replace(/"/g, '""')}"`,
+      `"${describePainRegions(entry)}"`,
+      `"${entry.diet.join(', ')}"`,
+      `"${entry.activities.join(', ')}"`,
+      `"${describeDoses(entry.medicationDoses)}"`,
+      entry.menstrualFlow || '',
+      `"${describeLabResults(entry).replace(/"/g, '""')}"`,
+      `"${describeMeals(entry).replace(/"/g, '""')}"`,
+      ...(entry.meals?.length
+        ? [nutrients.calories, nutrients.caffeineMg, nutrients.alcoholUnits, nutrients.sugarG].map(String)
+        : ['', '', '', '']),
+      ...trackers.map(tracker => {
+        const value = entry.trackerValues?.[tracker.id];
+        return value === undefined ? '' : `"${formatTrackerValue(tracker, value).replace(/"/g, '""')}"`;
+      }),
+      `"${getEntryTags(entry, tags).map(tag => tag.name).join(', ').replace(/"/g, '""')}"`,
+      `"${(entry.notes || '').replace(/"/g, '""')}"`
+    ];
+  });
 
   // Combine headers and rows
   const csvContent = [
@@ -62,36 +150,71 @@ export const exportToCSV = (entries: JournalEntry[]): void => {
   URL.revokeObjectURL(url);
 };
 
-export const importFromJSON = (file: File): Promise<JournalEntry[]> => {
+export interface ImportResult {
+  entries: JournalEntry[];
+  quarantined: number;
+}
+
+const readFileAsText = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        const entries = JSON.parse(content) as JournalEntry[];
-        
-        // Validate entries
-        if (!Array.isArray(entries)) {
-          throw new Error('Invalid format: expected array of entries');
-        }
-        
-        // Basic validation of entry structure
-        const validEntries = entries.filter(entry => 
-          entry.id && entry.date && entry.mood && entry.sleepHours !== undefined
-        );
-        
-        if (validEntries.length === 0) {
-          throw new Error('No valid entries found in file');
-        }
-        
-        resolve(validEntries);
-      } catch (error) {
-        reject(new Error('Failed to parse JSON file'));
-      }
-    };
-    
+    reader.onload = (e) => resolve(e.target?.result as string);
     reader.onerror = () => reject(new Error('Failed to read file'));
     reader.readAsText(file);
   });
 };
+
+const parseBackupFile = async (file: File): Promise<unknown> => {
+  const content = await readFileAsText(file);
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error('Failed to parse JSON file');
+  }
+};
+
+export const isEncryptedBackup = async (file: File): Promise<boolean> =>
+  isEncryptedBackupData(await parseBackupFile(file));
+
+export const importFromJSON = async (file: File, passphrase?: string): Promise<ImportResult> => {
+  let parsed = await parseBackupFile(file);
+
+  if (isEncryptedBackupData(parsed)) {
+    if (!passphrase) {
+      throw new Error('This backup is encrypted; a passphrase is required');
+    }
+    parsed = await decryptWithPassphrase<unknown>(parsed, passphrase);
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('Invalid format: expected array of entries');
+  }
+
+  // Upgrade each record to the current schema; keep the ones that fail
+  // validation in quarantine instead of dropping them
+  const entries: JournalEntry[] = [];
+  const rejected: QuarantinedRecord[] = [];
+  const source = `import:${file.name}`;
+
+  for (const raw of parsed) {
+    const result = await upgradeRecord<JournalEntry>('journalEntry', raw);
+    if (result.ok === true) {
+      // Inline attachment files were moved into the blob store by the upgrade
+      entries.push(result.record);
+    } else {
+      rejected.push(createQuarantinedRecord('journalEntry', source, raw, result.errors));
+    }
+  }
+
+  await quarantineRecords(rejected);
+
+  if (entries.length === 0) {
+    throw new Error(
+      rejected.length > 0
+        ? `No valid entries found in file (${rejected.length} quarantined)`
+        : 'No valid entries found in file'
+    );
+  }
+
+  return { entries, quarantined: rejected.length };
+};
@@ -1,15 +1,25 @@
 // Daily journal reminder system
-const REMINDER_STORAGE_KEY = 'bioguard_journal_reminder';
+import { CURRENT_SCHEMA_VERSION } from './healthJournalTypes';
+import { scopedStorage } from './storageScope';
+
+export const REMINDER_STORAGE_KEY = 'bioguard_journal_reminder';
 const LAST_ENTRY_KEY = 'bioguard_last_journal_entry';
 
 export interface ReminderSettings {
   enabled: boolean;
   time: string; // HH:MM format
   notificationsGranted: boolean;
+  schemaVersion?: number;
 }
 
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  time: '20:00',
+  notificationsGranted: false
+};
+
 export const getReminderSettings = (): ReminderSettings => {
-  const stored = localStorage.getItem(REMINDER_STORAGE_KEY);
+  const stored = scopedStorage.getItem(REMINDER_STORAGE_KEY);
   if (stored) {
     try {
       return JSON.parse(stored);
@@ -20,14 +30,13 @@ export const getReminderSettings = (): ReminderSettings => {
   return getDefaultSettings();
 };
 
-const getDefaultSettings = (): ReminderSettings => ({
-  enabled: false,
-  time: '20:00',
-  notificationsGranted: false
-});
+const getDefaultSettings = (): ReminderSettings => ({ ...DEFAULT_REMINDER_SETTINGS });
 
 export const saveReminderSettings = (settings: ReminderSettings): void => {
-  localStorage.setItem(REMINDER_STORAGE_KEY, JSON.stringify(settings));
+  scopedStorage.setItem(
+    REMINDER_STORAGE_KEY,
+    JSON.stringify({ ...settings, schemaVersion: CURRENT_SCHEMA_VERSION })
+  );
   if (settings.enabled) {
     scheduleReminder(settings.time);
   }
@@ -84,7 +93,7 @@ export const scheduleReminder = (timeString: string): void => {
 };
 
 export const checkIfEntryNeeded = (): boolean => {
-  const lastEntry = localStorage.getItem(LAST_ENTRY_KEY);
+  const lastEntry = scopedStorage.getItem(LAST_ENTRY_KEY);
   if (!lastEntry) return true;
 
   const today = new Date().toISOString().split('T')[0];
@@ -93,14 +102,14 @@ export const checkIfEntryNeeded = (): boolean => {
 
 export const markEntryForToday = (): void => {
   const today = new Date().toISOString().split('T')[0];
-  localStorage.setItem(LAST_ENTRY_KEY, today);
+  scopedStorage.setItem(LAST_ENTRY_KEY, today);
 };
 
 export const getStreak = (entries: { date: string }[]): number => {
   if (entries.length === 0) return 0;
 
-  const sortedDates = entries
-    .map(e => e.date)
+  // Several check-ins on one day count once
+  const sortedDates = Array.from(new Set(entries.map(e => e.date)))
     .sort((a, b) => b.localeCompare(a));
 
   let streak = 0;
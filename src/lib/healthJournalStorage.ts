@@ -1,86 +1,259 @@
-// Local storage management for health journal
-import { JournalEntry } from './healthJournalTypes';
-
-const STORAGE_KEY = 'bioguard_health_journal';
-
-export const saveJournalEntry = (entry: JournalEntry): void => {
-  const entries = getJournalEntries();
-  const existingIndex = entries.findIndex(e => e.id === entry.id);
-  
-  if (existingIndex >= 0) {
-    entries[existingIndex] = entry;
-  } else {
-    entries.push(entry);
+// IndexedDB-backed repository for the health journal
+import { Attachment, JournalEntry, CURRENT_SCHEMA_VERSION, TRASH_RETENTION_DAYS } from './healthJournalTypes';
+import { ENTRIES_STORE, withStore } from './healthJournalDB';
+import { deleteAttachmentBlobs, getAttachmentStoreSize, getStoredAttachmentIds } from './healthJournalAttachments';
+import { EncryptedPayload, decryptValue, encryptValue, isEncryptedPayload, isVaultEnabled } from './healthJournalVault';
+import { WriteOptions, queueChanges } from './syncOutbox';
+import { compareEntriesDesc } from './journalDays';
+
+// Shape stored while vault mode is on. The date stays readable so the
+// date index keeps working; everything else is encrypted.
+interface EncryptedEntryRecord {
+  id: string;
+  date: string;
+  schemaVersion?: number;
+  encrypted: EncryptedPayload;
+}
+
+type StoredEntryRecord = JournalEntry | EncryptedEntryRecord;
+
+const sortByDateDesc = (entries: JournalEntry[]): JournalEntry[] => entries.sort(compareEntriesDesc);
+
+const isTrashed = (entry: JournalEntry): boolean => entry.deletedAt !== undefined;
+
+const withoutTrashed = (entries: JournalEntry[]): JournalEntry[] => entries.filter(entry => !isTrashed(entry));
+
+// Every attachment an entry still holds a file for, including trashed ones
+const storedAttachments = (entry: JournalEntry): Attachment[] =>
+  [...(entry.attachments || []), ...(entry.trashedAttachments || [])];
+
+const stampVersion = (entry: JournalEntry, markChanged: boolean): JournalEntry => ({
+  ...entry,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  updatedAt: markChanged ? Date.now() : entry.updatedAt
+});
+
+const getCutoffDate = (days: number): string => {
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - days);
+  return cutoffDate.toISOString().split('T')[0];
+};
+
+// Encode a record for storage, encrypting it when vault mode is on.
+// Encrypt before opening the write transaction; IndexedDB transactions
+// commit as soon as they are left idle across an await.
+export const encodeEntryRecord = async (entry: JournalEntry): Promise<StoredEntryRecord> => {
+  if (!isVaultEnabled()) return entry;
+  return {
+    id: entry.id,
+    date: entry.date,
+    schemaVersion: entry.schemaVersion,
+    encrypted: await encryptValue(entry),
+  };
+};
+
+export const decodeEntryRecord = async (record: unknown): Promise<unknown> => {
+  if (record && typeof record === 'object' && isEncryptedPayload((record as EncryptedEntryRecord).encrypted)) {
+    return decryptValue((record as EncryptedEntryRecord).encrypted);
   }
-  
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
-};
-
-export const getJournalEntries = (): JournalEntry[] => {
-  const data = localStorage.getItem(STORAGE_KEY);
-  if (!data) return [];
-  
-  try {
-    return JSON.parse(data);
-  } catch {
-    return [];
+  return record;
+};
+
+const decodeEntries = async (records?: StoredEntryRecord[]): Promise<JournalEntry[]> =>
+  Promise.all((records || []).map(record => decodeEntryRecord(record) as Promise<JournalEntry>));
+
+export const saveJournalEntry = async (entry: JournalEntry, options: WriteOptions = {}): Promise<void> => {
+  await saveJournalEntries([entry], options);
+};
+
+export const saveJournalEntries = async (
+  entries: JournalEntry[],
+  { markChanged = true }: WriteOptions = {}
+): Promise<void> => {
+  const records = await Promise.all(entries.map(entry => encodeEntryRecord(stampVersion(entry, markChanged))));
+  await withStore(ENTRIES_STORE, 'readwrite', store => {
+    records.forEach(record => store.put(record));
+  });
+
+  if (markChanged) {
+    await queueChanges('entry', entries.map(entry => entry.id));
   }
 };
 
-export const getJournalEntry = (id: string): JournalEntry | null => {
-  const entries = getJournalEntries();
-  return entries.find(e => e.id === id) || null;
+// Every stored entry including the trash, e.g. for sync and re-encryption
+export const getAllJournalEntries = async (): Promise<JournalEntry[]> => {
+  const records = await withStore<StoredEntryRecord[]>(ENTRIES_STORE, 'readonly', store => store.getAll());
+  return decodeEntries(records);
 };
 
-export const getJournalEntriesByDateRange = (startDate: string, endDate: string): JournalEntry[] => {
-  const entries = getJournalEntries();
-  return entries.filter(e => e.date >= startDate && e.date <= endDate)
-    .sort((a, b) => b.date.localeCompare(a.date));
+export const getJournalEntries = async (): Promise<JournalEntry[]> =>
+  withoutTrashed(await getAllJournalEntries());
+
+export const getTrashedEntries = async (): Promise<JournalEntry[]> => {
+  const entries = await getAllJournalEntries();
+  return entries.filter(isTrashed).sort((a, b) => b.deletedAt! - a.deletedAt!);
 };
 
-export const deleteJournalEntry = (id: string): void => {
-  const entries = getJournalEntries().filter(e => e.id !== id);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+export interface TrashedAttachment {
+  entry: JournalEntry;
+  attachment: Attachment;
+}
+
+// Attachments removed from entries that are not themselves in the trash
+export const getTrashedAttachments = async (): Promise<TrashedAttachment[]> => {
+  const entries = withoutTrashed(await getAllJournalEntries());
+  return entries
+    .flatMap(entry => (entry.trashedAttachments || []).map(attachment => ({ entry, attachment })))
+    .sort((a, b) => (b.attachment.deletedAt ?? 0) - (a.attachment.deletedAt ?? 0));
 };
 
-export const getRecentEntries = (days: number = 30): JournalEntry[] => {
-  const entries = getJournalEntries();
-  const cutoffDate = new Date();
-  cutoffDate.setDate(cutoffDate.getDate() - days);
-  const cutoffString = cutoffDate.toISOString().split('T')[0];
-  
-  return entries.filter(e => e.date >= cutoffString)
-    .sort((a, b) => b.date.localeCompare(a.date));
+// May return a trashed entry; check deletedAt where that matters
+export const getJournalEntry = async (id: string): Promise<JournalEntry | null> => {
+  const record = await withStore<StoredEntryRecord | undefined>(ENTRIES_STORE, 'readonly', store => store.get(id));
+  return record ? (await decodeEntryRecord(record)) as JournalEntry : null;
+};
+
+export const getJournalEntriesByDateRange = async (startDate: string, endDate: string): Promise<JournalEntry[]> => {
+  const records = await withStore<StoredEntryRecord[]>(ENTRIES_STORE, 'readonly', store =>
+    store.index('date').getAll(IDBKeyRange.bound(startDate, endDate))
+  );
+  return sortByDateDesc(withoutTrashed(await decodeEntries(records)));
+};
+
+export const getJournalEntriesBySymptom = async (symptom: string): Promise<JournalEntry[]> => {
+  const entries = await getJournalEntries();
+  return sortByDateDesc(entries.filter(entry => entry.symptoms.some(record => record.name === symptom)));
+};
+
+// Move an entry to the trash; it can be restored until it is purged
+export const trashJournalEntry = async (id: string): Promise<void> => {
+  const entry = await getJournalEntry(id);
+  if (!entry || isTrashed(entry)) return;
+  await saveJournalEntry({ ...entry, deletedAt: Date.now() });
+};
+
+export const restoreJournalEntry = async (id: string): Promise<void> => {
+  const entry = await getJournalEntry(id);
+  if (!entry || !isTrashed(entry)) return;
+  const { deletedAt: _deletedAt, ...restored } = entry;
+  await saveJournalEntry(restored);
+};
+
+// Put a removed attachment back on its entry
+export const restoreAttachment = async (entryId: string, attachmentId: string): Promise<void> => {
+  const entry = await getJournalEntry(entryId);
+  const attachment = entry?.trashedAttachments?.find(a => a.id === attachmentId);
+  if (!entry || !attachment) return;
+
+  const { deletedAt: _deletedAt, ...restored } = attachment;
+  const trashed = entry.trashedAttachments!.filter(a => a.id !== attachmentId);
+  await saveJournalEntry({
+    ...entry,
+    attachments: [...(entry.attachments || []), restored],
+    trashedAttachments: trashed.length > 0 ? trashed : undefined,
+  });
+};
+
+// Permanently delete a removed attachment and its file
+export const purgeAttachment = async (entryId: string, attachmentId: string): Promise<void> => {
+  const entry = await getJournalEntry(entryId);
+  if (!entry?.trashedAttachments?.some(a => a.id === attachmentId)) return;
+
+  const trashed = entry.trashedAttachments.filter(a => a.id !== attachmentId);
+  await saveJournalEntry({ ...entry, trashedAttachments: trashed.length > 0 ? trashed : undefined });
+  await deleteAttachmentBlobs([attachmentId]);
+};
+
+// Permanently delete an entry and its files
+export const deleteJournalEntry = async (id: string, options: WriteOptions = {}): Promise<void> => {
+  const entry = await getJournalEntry(id);
+  await withStore(ENTRIES_STORE, 'readwrite', store => store.delete(id));
+  await deleteAttachmentBlobs(entry ? storedAttachments(entry).map(a => a.id) : [], options);
+
+  // Queue a tombstone so other devices delete it too
+  if (options.markChanged ?? true) {
+    await queueChanges('entry', [id], true);
+  }
+};
+
+export const getRecentEntries = async (days: number = 30): Promise<JournalEntry[]> => {
+  const records = await withStore<StoredEntryRecord[]>(ENTRIES_STORE, 'readonly', store =>
+    store.index('date').getAll(IDBKeyRange.lowerBound(getCutoffDate(days)))
+  );
+  return sortByDateDesc(withoutTrashed(await decodeEntries(records)));
+};
+
+// Permanently delete whatever has been in the trash longer than the
+// retention period. Returns how many entries and attachments were purged.
+export const purgeExpiredTrash = async (retentionDays: number = TRASH_RETENTION_DAYS): Promise<number> => {
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  const expired = (deletedAt?: number) => deletedAt !== undefined && deletedAt < cutoff;
+  let purged = 0;
+
+  for (const entry of await getAllJournalEntries()) {
+    if (expired(entry.deletedAt)) {
+      await deleteJournalEntry(entry.id);
+      purged++;
+      continue;
+    }
+
+    const expiredAttachments = (entry.trashedAttachments || []).filter(a => expired(a.deletedAt));
+    if (expiredAttachments.length === 0) continue;
+
+    const kept = entry.trashedAttachments!.filter(a => !expired(a.deletedAt));
+    await saveJournalEntry({ ...entry, trashedAttachments: kept.length > 0 ? kept : undefined });
+    await deleteAttachmentBlobs(expiredAttachments.map(a => a.id));
+    purged += expiredAttachments.length;
+  }
+
+  return purged;
 };
 
+export const emptyTrash = async (): Promise<number> => purgeExpiredTrash(0);
+
 // Storage utilities for attachments
-export const getStorageSize = (): number => {
-  const data = localStorage.getItem(STORAGE_KEY);
-  if (!data) return 0;
+export const getStorageSize = async (): Promise<number> => {
+  const entries = await getAllJournalEntries();
+  const entriesSize = entries.length > 0 ? new Blob([JSON.stringify(entries)]).size : 0;
+  const attachmentsSize = await getAttachmentStoreSize();
   // Return size in MB
-  return new Blob([data]).size / (1024 * 1024);
+  return (entriesSize + attachmentsSize) / (1024 * 1024);
 };
 
-export const getTotalAttachmentCount = (): number => {
-  const entries = getJournalEntries();
+export const getTotalAttachmentCount = async (): Promise<number> => {
+  const entries = await getJournalEntries();
   return entries.reduce((total, entry) => {
     return total + (entry.attachments?.length || 0);
   }, 0);
 };
 
-export const clearOldAttachments = (daysToKeep: number = 90): void => {
-  const entries = getJournalEntries();
-  const cutoffDate = new Date();
-  cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
-  const cutoffString = cutoffDate.toISOString().split('T')[0];
-  
-  const updatedEntries = entries.map(entry => {
-    if (entry.date < cutoffString && entry.attachments) {
-      // Remove attachments from old entries to save space
-      return { ...entry, attachments: undefined };
-    }
-    return entry;
-  });
-  
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedEntries));
+// Delete stored files no longer referenced by any entry
+export const pruneOrphanedAttachments = async (): Promise<number> => {
+  const entries = await getAllJournalEntries();
+  const referenced = new Set(entries.flatMap(entry => storedAttachments(entry).map(a => a.id)));
+  const orphaned = (await getStoredAttachmentIds()).filter(id => !referenced.has(id));
+  await deleteAttachmentBlobs(orphaned);
+  return orphaned.length;
+};
+
+export const clearOldAttachments = async (daysToKeep: number = 90): Promise<void> => {
+  const oldRecords = await withStore<StoredEntryRecord[]>(ENTRIES_STORE, 'readonly', store =>
+    store.index('date').getAll(IDBKeyRange.upperBound(getCutoffDate(daysToKeep), true))
+  );
+  const oldEntries = await decodeEntries(oldRecords);
+
+  // Remove attachments from old entries to save space
+  const entriesWithAttachments = oldEntries.filter(entry => storedAttachments(entry).length > 0);
+  const updatedEntries = entriesWithAttachments.map(entry => ({
+    ...entry,
+    attachments: undefined,
+    trashedAttachments: undefined,
+  }));
+
+  if (updatedEntries.length > 0) {
+    await saveJournalEntries(updatedEntries);
+    await deleteAttachmentBlobs(entriesWithAttachments.flatMap(entry => storedAttachments(entry).map(a => a.id)));
+  }
+
+  await pruneOrphanedAttachments();
 };
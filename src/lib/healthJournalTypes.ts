@@ -1,35 +1,175 @@
 // Health Journal Types and Models
 
+// Bumped whenever the shape of persisted data changes; see schemaMigrations.ts
+export const CURRENT_SCHEMA_VERSION = 4;
+
 export type MoodLevel = 1 | 2 | 3 | 4 | 5;
 
 export type AttachmentType = 'image' | 'document' | 'lab_result' | 'prescription';
 
 export interface Attachment {
-  id: string;
+  id: string; // Also the key of the file in the attachment blob store
   type: AttachmentType;
   fileName: string;
   fileSize: number; // bytes
-  dataUrl: string; // base64 data URL for local storage
+  mimeType: string;
+  hasThumbnail?: boolean;
+  dataUrl?: string; // Inline base64 copy, only present in JSON backups and pre-v2 records
   caption?: string;
   uploadedAt: number;
+  deletedAt?: number; // Set while the attachment is in the trash
+}
+
+export type VitalType = 'bloodPressure' | 'heartRate' | 'glucose' | 'temperature' | 'weight' | 'spo2';
+
+export interface VitalReading {
+  id: string;
+  type: VitalType;
+  value: number; // Systolic for blood pressure
+  secondaryValue?: number; // Diastolic for blood pressure
+  unit: string; // As entered, e.g. 'mmol/L' or 'mg/dL'; see healthVitals.ts
+  takenAt: number; // Timestamp of the measurement
+  note?: string;
+}
+
+// A single analyte from a lab report, e.g. haemoglobin 13.2 g/dL
+export interface LabResult {
+  id: string;
+  testName: string;
+  value: number;
+  unit: string; // As reported; results are only compared across the same unit
+  referenceLow?: number; // Reference range printed on the report; either end may be open
+  referenceHigh?: number;
+  collectedOn: string; // yyyy-MM-dd the sample was taken, often before the entry date
+  attachmentId?: string; // Report on the same entry the value was read from
+}
+
+export interface SymptomRecord {
+  name: string; // One record per symptom name in an entry
+  severity: number; // 0-10
+  onset?: string; // HH:MM
+  durationMinutes?: number;
+  location?: string; // Body location, e.g. 'left temple'
+  notes?: string;
+}
+
+export interface Medication {
+  id: string;
+  name: string;
+  strength?: string; // e.g. '400 mg'
+  scheduleTimes: string[]; // HH:MM each day; empty for as-needed medication
+  createdAt: number;
+  updatedAt: number;
+  deletedAt?: number; // Tombstone so the removal syncs to other devices
 }
 
+export type DoseStatus = 'taken' | 'skipped';
+
+export interface MedicationDose {
+  id: string;
+  medicationId: string;
+  name: string; // Copied from the medication so the entry still reads correctly after it is removed
+  strength?: string;
+  status: DoseStatus;
+  time: number; // When the dose was taken or was due
+  scheduledTime?: string; // HH:MM slot of the schedule this dose belongs to
+}
+
+export type TrackerType = 'boolean' | 'number' | 'scale' | 'choice';
+
+// A value a user chose to track in every entry, e.g. 'Caffeine' or 'Screen time'
+export interface Tracker {
+  id: string;
+  name: string;
+  type: TrackerType;
+  unit?: string; // Number trackers only
+  options?: string[]; // Choice trackers only
+  order: number;
+  archived?: boolean; // Hidden from new entries, kept for history and charts
+  createdAt: number;
+  updatedAt: number;
+  deletedAt?: number;
+}
+
+export type TrackerValue = boolean | number | string;
+
+export interface JournalTag {
+  id: string;
+  name: string;
+  order: number;
+  archived?: boolean;
+  createdAt: number;
+  updatedAt: number;
+  deletedAt?: number;
+}
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'drink';
+
+export interface Nutrients {
+  calories: number; // kcal
+  caffeineMg: number;
+  alcoholUnits: number; // UK units, 8 g of pure alcohol each
+  sugarG: number;
+}
+
+export interface MealItem {
+  id: string;
+  name: string;
+  foodId?: string; // Food database id; unset for items typed in by hand
+  quantity: number; // Number of portions
+  portion: string; // e.g. 'cup (240 ml)'
+  nutrients?: Nutrients; // Totals for the quantity eaten, resolved when logged
+}
+
+export interface Meal {
+  id: string;
+  type: MealType;
+  time: string; // HH:MM
+  items: MealItem[];
+}
+
+// Where pain was felt, marked on the body map
+export interface PainRegion {
+  region: string; // Body map region id
+  intensity: number; // 1-10
+}
+
+export type MenstrualFlow = 'spotting' | 'light' | 'medium' | 'heavy';
+
 export interface JournalEntry {
   id: string;
   date: string; // ISO date string
+  time?: string; // HH:MM of the check-in; missing on whole-day entries logged before check-ins
   mood: MoodLevel;
   moodNote?: string;
-  symptoms: string[];
+  symptoms: SymptomRecord[];
+  painRegions?: PainRegion[];
   diet: string[];
   sleepHours: number;
   sleepQuality: 1 | 2 | 3 | 4 | 5;
+  bedtime?: string; // HH:MM the night before
+  wakeTime?: string; // HH:MM on the entry's date
   activities: string[];
   stressLevel: 1 | 2 | 3 | 4 | 5;
   notes?: string;
+  vitals?: VitalReading[];
+  labResults?: LabResult[];
+  medicationDoses?: MedicationDose[];
+  menstrualFlow?: MenstrualFlow; // Set on period days
+  meals?: Meal[];
+  trackerValues?: Record<string, TrackerValue>; // Keyed by tracker id
+  tags?: string[]; // Tag ids
   attachments?: Attachment[];
+  trashedAttachments?: Attachment[]; // Removed from the entry, kept until purged
+  deletedAt?: number; // Set while the entry is in the trash
   createdAt: number;
+  updatedAt?: number; // Last local change, used to reconcile with the cloud copy
+  schemaVersion?: number;
 }
 
+// Trashed entries and attachments are purged after this many days
+export const TRASH_RETENTION_DAYS = 30;
+
 export interface Pattern {
   id: string;
   type: 'symptom' | 'mood' | 'sleep' | 'diet';
@@ -0,0 +1,269 @@
+// Opt-in client-side encryption (vault mode) for journal data
+// Keys are derived from the user's passphrase with PBKDF2 and used for AES-GCM.
+import { scopedStorage } from './storageScope';
+
+const VAULT_CONFIG_KEY = 'bioguard_vault';
+const PBKDF2_ITERATIONS = 600000;
+const VERIFIER_TEXT = 'bioguard-vault';
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+const IV_LENGTH = 12; // bytes, AES-GCM nonce
+
+export interface EncryptedPayload {
+  vault: 1;
+  iv: string; // base64
+  data: string; // base64 ciphertext
+}
+
+export interface EncryptedBlob {
+  iv: string; // base64
+  data: ArrayBuffer;
+  type: string; // original MIME type
+}
+
+export interface PassphraseEncryptedPayload extends EncryptedPayload {
+  salt: string; // base64
+  iterations: number;
+}
+
+interface VaultConfig {
+  enabled: boolean;
+  salt: string;
+  iterations: number;
+  verifier: EncryptedPayload;
+  autoLockMinutes: number; // 0 disables auto-lock
+}
+
+let vaultKey: CryptoKey | null = null;
+let autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array): string => {
+  const array = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  array.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+const getVaultConfig = (): VaultConfig | null => {
+  const stored = scopedStorage.getItem(VAULT_CONFIG_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return null;
+  }
+};
+
+const saveVaultConfig = (config: VaultConfig | null): void => {
+  if (config) {
+    scopedStorage.setItem(VAULT_CONFIG_KEY, JSON.stringify(config));
+  } else {
+    scopedStorage.removeItem(VAULT_CONFIG_KEY);
+  }
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encryptBytes = async (key: CryptoKey, bytes: BufferSource): Promise<{ iv: Uint8Array; data: ArrayBuffer }> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+  return { iv, data };
+};
+
+const encryptWithKey = async (key: CryptoKey, value: unknown): Promise<EncryptedPayload> => {
+  const { iv, data } = await encryptBytes(key, encoder.encode(JSON.stringify(value)));
+  return { vault: 1, iv: toBase64(iv), data: toBase64(data) };
+};
+
+const decryptWithKey = async <T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.data)
+  );
+  return JSON.parse(decoder.decode(plaintext));
+};
+
+const requireKey = (): CryptoKey => {
+  if (!vaultKey) {
+    throw new Error('Vault is locked');
+  }
+  return vaultKey;
+};
+
+const scheduleAutoLock = () => {
+  if (autoLockTimer) clearTimeout(autoLockTimer);
+  autoLockTimer = null;
+
+  const config = getVaultConfig();
+  if (!vaultKey || !config?.enabled || !config.autoLockMinutes) return;
+
+  autoLockTimer = setTimeout(lockVault, config.autoLockMinutes * 60 * 1000);
+};
+
+export const isEncryptedPayload = (value: unknown): value is EncryptedPayload =>
+  typeof value === 'object' && value !== null && (value as EncryptedPayload).vault === 1 &&
+  typeof (value as EncryptedPayload).iv === 'string' && typeof (value as EncryptedPayload).data === 'string';
+
+export const isEncryptedBlob = (value: unknown): value is EncryptedBlob =>
+  typeof value === 'object' && value !== null && (value as EncryptedBlob).data instanceof ArrayBuffer &&
+  typeof (value as EncryptedBlob).iv === 'string';
+
+export const isVaultEnabled = (): boolean => !!getVaultConfig()?.enabled;
+
+export const isVaultLocked = (): boolean => isVaultEnabled() && !vaultKey;
+
+export const getAutoLockMinutes = (): number =>
+  getVaultConfig()?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+
+export const setAutoLockMinutes = (minutes: number): void => {
+  const config = getVaultConfig();
+  if (!config) return;
+  saveVaultConfig({ ...config, autoLockMinutes: minutes });
+  scheduleAutoLock();
+  notify();
+};
+
+export const subscribeToVault = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Restart the auto-lock countdown; call on user activity
+export const touchVault = (): void => {
+  if (vaultKey) scheduleAutoLock();
+};
+
+export const encryptValue = async (value: unknown): Promise<EncryptedPayload> =>
+  encryptWithKey(requireKey(), value);
+
+export const decryptValue = async <T>(payload: EncryptedPayload): Promise<T> =>
+  decryptWithKey<T>(requireKey(), payload);
+
+export const encryptBlob = async (blob: Blob): Promise<EncryptedBlob> => {
+  const { iv, data } = await encryptBytes(requireKey(), await blob.arrayBuffer());
+  return { iv: toBase64(iv), data, type: blob.type };
+};
+
+export const decryptBlob = async (encrypted: EncryptedBlob): Promise<Blob> => {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(encrypted.iv) },
+    requireKey(),
+    encrypted.data
+  );
+  return new Blob([data], { type: encrypted.type });
+};
+
+export const verifyPassphrase = async (passphrase: string): Promise<CryptoKey | null> => {
+  const config = getVaultConfig();
+  if (!config) return null;
+
+  try {
+    const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+    const check = await decryptWithKey<string>(key, config.verifier);
+    return check === VERIFIER_TEXT ? key : null;
+  } catch {
+    // AES-GCM authentication fails for a wrong key
+    return null;
+  }
+};
+
+export const unlockVault = async (passphrase: string): Promise<boolean> => {
+  const key = await verifyPassphrase(passphrase);
+  if (!key) return false;
+
+  vaultKey = key;
+  scheduleAutoLock();
+  notify();
+  return true;
+};
+
+export const lockVault = (): void => {
+  if (autoLockTimer) clearTimeout(autoLockTimer);
+  autoLockTimer = null;
+  if (!vaultKey) return;
+
+  vaultKey = null;
+  notify();
+};
+
+// Create the vault and keep it unlocked. Existing data still has to be
+// rewritten through the storage modules to become encrypted.
+export const activateVault = async (passphrase: string): Promise<void> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+  saveVaultConfig({
+    enabled: true,
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    verifier: await encryptWithKey(key, VERIFIER_TEXT),
+    autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+  });
+
+  vaultKey = key;
+  scheduleAutoLock();
+  notify();
+};
+
+// Stop encrypting new writes but keep the key so existing data can still be
+// decrypted while it is rewritten as plaintext; finish with removeVault()
+export const deactivateVault = (): void => {
+  const config = getVaultConfig();
+  if (!config) return;
+  requireKey();
+  saveVaultConfig({ ...config, enabled: false });
+  notify();
+};
+
+export const removeVault = (): void => {
+  saveVaultConfig(null);
+  if (autoLockTimer) clearTimeout(autoLockTimer);
+  autoLockTimer = null;
+  vaultKey = null;
+  notify();
+};
+
+// Standalone passphrase encryption for backups, independent of vault state
+export const encryptWithPassphrase = async (value: unknown, passphrase: string): Promise<PassphraseEncryptedPayload> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const payload = await encryptWithKey(key, value);
+  return { ...payload, salt: toBase64(salt), iterations: PBKDF2_ITERATIONS };
+};
+
+export const decryptWithPassphrase = async <T>(payload: PassphraseEncryptedPayload, passphrase: string): Promise<T> => {
+  const key = await deriveKey(passphrase, fromBase64(payload.salt), payload.iterations);
+  try {
+    return await decryptWithKey<T>(key, payload);
+  } catch {
+    throw new Error('Incorrect passphrase');
+  }
+};
@@ -0,0 +1,199 @@
+// Lab results: reference range flags, trends per analyte, and reading values
+// off the text of a lab report
+import { format, isValid, parse } from 'date-fns';
+import { Attachment, JournalEntry, LabResult } from './healthJournalTypes';
+
+export type LabStatus = 'low' | 'normal' | 'high';
+
+export const LAB_STATUS_LABELS: Record<LabStatus, string> = {
+  low: 'Low',
+  normal: 'In range',
+  high: 'High',
+};
+
+export const createLabResult = (fields: Omit<LabResult, 'id'>): LabResult => ({
+  id: `lab-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  ...fields,
+});
+
+// Results without a printed range are treated as in range
+export const getLabStatus = (result: LabResult): LabStatus =>
+  result.referenceLow !== undefined && result.value < result.referenceLow
+    ? 'low'
+    : result.referenceHigh !== undefined && result.value > result.referenceHigh
+      ? 'high'
+      : 'normal';
+
+export const isAbnormal = (result: LabResult): boolean => getLabStatus(result) !== 'normal';
+
+// e.g. '13.0–17.0', '< 5.7' or '' when the report gave no range
+export const formatReferenceRange = (result: LabResult): string => {
+  const { referenceLow: low, referenceHigh: high } = result;
+  if (low !== undefined && high !== undefined) return `${low}–${high}`;
+  if (high !== undefined) return `< ${high}`;
+  if (low !== undefined) return `> ${low}`;
+  return '';
+};
+
+// e.g. 'Haemoglobin 13.2 g/dL'
+export const formatLabResult = (result: LabResult): string =>
+  `${result.testName} ${result.value} ${result.unit}`.trim();
+
+export const describeLabResults = (entry: JournalEntry): string =>
+  (entry.labResults || [])
+    .map(result => {
+      const status = getLabStatus(result);
+      return status === 'normal' ? formatLabResult(result) : `${formatLabResult(result)} (${status})`;
+    })
+    .join(', ');
+
+// Analytes are matched by name regardless of case and spacing
+export const analyteKey = (testName: string): string => testName.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export interface LabResultSource {
+  result: LabResult;
+  entry: JournalEntry;
+  attachment?: Attachment; // The report the value was read from, if still attached
+}
+
+// Every result with the entry it was logged on, oldest collection first
+export const collectLabResults = (entries: JournalEntry[]): LabResultSource[] =>
+  entries
+    .filter(entry => !entry.deletedAt)
+    .flatMap(entry => (entry.labResults || []).map(result => ({
+      result,
+      entry,
+      attachment: entry.attachments?.find(attachment => attachment.id === result.attachmentId),
+    })))
+    .sort((a, b) =>
+      a.result.collectedOn.localeCompare(b.result.collectedOn) || a.result.testName.localeCompare(b.result.testName)
+    );
+
+export interface AnalyteSummary {
+  key: string;
+  testName: string; // As written on the latest result
+  unit: string; // Unit of the latest result; the trend only includes results in it
+  results: LabResult[]; // Oldest first
+  latest: LabResult;
+  abnormalCount: number;
+}
+
+// One summary per analyte, those with a recent abnormal result first
+export const summarizeAnalytes = (entries: JournalEntry[]): AnalyteSummary[] => {
+  const byKey = new Map<string, LabResult[]>();
+  collectLabResults(entries).forEach(({ result }) => {
+    const key = analyteKey(result.testName);
+    byKey.set(key, [...(byKey.get(key) ?? []), result]);
+  });
+
+  return Array.from(byKey.entries())
+    .map(([key, all]) => {
+      const latest = all[all.length - 1];
+      const results = all.filter(result => result.unit === latest.unit);
+      return {
+        key,
+        testName: latest.testName,
+        unit: latest.unit,
+        results,
+        latest,
+        abnormalCount: results.filter(isAbnormal).length,
+      };
+    })
+    .sort((a, b) =>
+      Number(isAbnormal(b.latest)) - Number(isAbnormal(a.latest)) || a.testName.localeCompare(b.testName)
+    );
+};
+
+const NUMBER = String.raw`\d+(?:[.,]\d+)*`;
+const RESULT_LINE = new RegExp(String.raw`^([A-Za-z0-9][A-Za-z0-9 ,()'/+.\-]*?)[\s:]+(${NUMBER})(?=\s|$)(.*)$`);
+const RANGE = new RegExp(String.raw`\(?\s*(${NUMBER})\s*(?:-|–|to)\s*(${NUMBER})\s*\)?`);
+const LIMIT = new RegExp(String.raw`\(?\s*(<=?|>=?|≤|≥)\s*(${NUMBER})\s*\)?`);
+// Flags printed next to a value; the status is worked out from the range instead
+const FLAG = /(?:^|\s)(?:H|L|HH|LL|HIGH|LOW|\*+)(?=\s|$)/g;
+// Units without a slash or percent sign that still show up on reports
+const PLAIN_UNITS = ['fL', 'pg', 'sec', 'ratio', 'mmHg', 'U', 'IU', 'index'];
+// Header and footer lines that look like 'label number'
+const NOT_A_TEST = /^(page|date|dob|age|phone|tel|fax|id|mrn|nhs|sample|specimen|collected|received|reported|patient|accession|order|lab)\b/i;
+
+// '1,200' is a thousands separator, '4,5' a decimal comma
+const parseNumber = (text: string): number =>
+  parseFloat(/^\d{1,3}(,\d{3})+(\.\d+)?$/.test(text) ? text.replace(/,/g, '') : text.replace(',', '.'));
+
+const isUnit = (token: string): boolean =>
+  /[/%]/.test(token) || PLAIN_UNITS.some(unit => unit.toLowerCase() === token.toLowerCase());
+
+// Read one 'name value [flag] [unit] [range]' row; anything without a unit
+// or a reference range is taken to be something other than a result
+const parseResultLine = (line: string, collectedOn: string): Omit<LabResult, 'id'> | null => {
+  const match = line.replace(FLAG, ' ').replace(/\s+/g, ' ').trim().match(RESULT_LINE);
+  if (!match) return null;
+
+  const [, rawName, rawValue, rest] = match;
+  const testName = rawName.replace(/[\s:.-]+$/, '').trim();
+  if (!/[A-Za-z]{2}/.test(testName) || testName.length > 60 || NOT_A_TEST.test(testName)) return null;
+
+  let remaining = rest;
+  let referenceLow: number | undefined;
+  let referenceHigh: number | undefined;
+  const range = remaining.match(RANGE);
+  const limit = range ? null : remaining.match(LIMIT);
+  if (range) {
+    referenceLow = parseNumber(range[1]);
+    referenceHigh = parseNumber(range[2]);
+    remaining = remaining.replace(range[0], ' ');
+  } else if (limit) {
+    if (limit[1].startsWith('<') || limit[1] === '≤') referenceHigh = parseNumber(limit[2]);
+    else referenceLow = parseNumber(limit[2]);
+    remaining = remaining.replace(limit[0], ' ');
+  }
+
+  const unit = remaining.trim().split(' ').find(isUnit) ?? '';
+  if (!unit && referenceLow === undefined && referenceHigh === undefined) return null;
+
+  return { testName, value: parseNumber(rawValue), unit, referenceLow, referenceHigh, collectedOn };
+};
+
+const DATE = String.raw`\d{4}-\d{2}-\d{2}|\d{1,2}[/.]\d{1,2}[/.]\d{4}|\d{1,2}[ -][A-Za-z]{3,9}[ -]\d{4}|[A-Za-z]{3,9} \d{1,2},? \d{4}`;
+const COLLECTION_DATE = new RegExp(
+  String.raw`(?:collect(?:ed|ion)(?: date)?|date collected|specimen date|sample date|drawn)(?: on| date)?\s*[:-]?\s*(${DATE})`,
+  'i'
+);
+const DATE_FORMATS = [
+  'yyyy-MM-dd', 'd/M/yyyy', 'M/d/yyyy', 'd.M.yyyy', 'd MMM yyyy', 'd-MMM-yyyy', 'd MMMM yyyy',
+  'MMM d, yyyy', 'MMMM d, yyyy', 'MMM d yyyy', 'MMMM d yyyy',
+];
+
+// The collection date printed on a report, as yyyy-MM-dd. Day-first dates
+// are tried before month-first, so 03/04/2026 reads as 3 April.
+export const findCollectionDate = (text: string): string | undefined => {
+  const candidate = text.match(COLLECTION_DATE)?.[1];
+  if (!candidate) return undefined;
+  const date = DATE_FORMATS
+    .map(dateFormat => parse(candidate, dateFormat, new Date()))
+    .find(parsed => isValid(parsed) && parsed.getFullYear() > 1900);
+  return date ? format(date, 'yyyy-MM-dd') : undefined;
+};
+
+export interface ParsedLabReport {
+  collectedOn?: string; // Found on the report, if printed in a recognised form
+  results: LabResult[];
+}
+
+// Pick out result rows from a report's text. Values are only suggestions:
+// reports vary too much to read reliably, so they are reviewed before saving.
+export const parseLabReport = (text: string, fallbackDate: string, attachmentId?: string): ParsedLabReport => {
+  const collectedOn = findCollectionDate(text);
+  const seen = new Set<string>();
+  const results = text
+    .split(/\r?\n/)
+    .map(line => parseResultLine(line, collectedOn ?? fallbackDate))
+    .filter((fields): fields is Omit<LabResult, 'id'> => fields !== null && !Number.isNaN(fields.value))
+    .filter(fields => {
+      const key = analyteKey(fields.testName);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(fields => createLabResult({ ...fields, attachmentId }));
+  return { collectedOn, results };
+};
@@ -0,0 +1,173 @@
+// Per-profile medication list, dose adherence and medication/symptom links
+import { format } from 'date-fns';
+import { CURRENT_SCHEMA_VERSION, DoseStatus, JournalEntry, Medication, MedicationDose } from './healthJournalTypes';
+import { secureGetItem, secureSetItem } from './secureStorage';
+import { WriteOptions, queueChanges } from './syncOutbox';
+import { MergeOutcome, mergeNewestById } from './listMerge';
+
+export const MEDICATIONS_KEY = 'bioguard_medications';
+// The list is a single record per profile; this is its id in the sync outbox
+export const MEDICATIONS_RECORD_ID = 'default';
+
+export const DOSE_STATUS_LABELS: Record<DoseStatus, string> = {
+  taken: 'Taken',
+  skipped: 'Skipped',
+};
+
+export interface MedicationList {
+  medications: Medication[]; // Includes tombstones, for sync
+  updatedAt: number;
+  schemaVersion?: number;
+}
+
+export type MedicationDetails = Pick<Medication, 'name' | 'strength' | 'scheduleTimes'>;
+
+export interface MedicationAdherence {
+  medication: Medication;
+  taken: number;
+  skipped: number;
+  expected: number; // Scheduled doses on logged days; 0 for as-needed medication
+  percentage: number | null;
+}
+
+const EMPTY_LIST: MedicationList = { medications: [], updatedAt: 0 };
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeToMedications = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getMedicationList = async (): Promise<MedicationList> => {
+  try {
+    return (await secureGetItem<MedicationList>(MEDICATIONS_KEY)) || EMPTY_LIST;
+  } catch (error) {
+    console.error('Failed to load medications:', error);
+    return EMPTY_LIST;
+  }
+};
+
+export const saveMedicationList = async (
+  list: MedicationList,
+  { markChanged = true }: WriteOptions = {}
+): Promise<void> => {
+  await secureSetItem(MEDICATIONS_KEY, {
+    ...list,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    updatedAt: markChanged ? Date.now() : list.updatedAt,
+  });
+  if (markChanged) {
+    await queueChanges('medications', [MEDICATIONS_RECORD_ID]);
+  }
+  notify();
+};
+
+// Active medications, alphabetically
+export const getMedications = async (): Promise<Medication[]> => {
+  const { medications } = await getMedicationList();
+  return medications
+    .filter(medication => !medication.deletedAt)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const normalizeDetails = (details: MedicationDetails): MedicationDetails => {
+  const name = details.name.trim();
+  if (!name) throw new Error('Medication name is required');
+  return {
+    name,
+    strength: details.strength?.trim() || undefined,
+    scheduleTimes: Array.from(new Set(details.scheduleTimes)).sort(),
+  };
+};
+
+export const addMedication = async (details: MedicationDetails): Promise<Medication> => {
+  const now = Date.now();
+  const medication: Medication = { ...normalizeDetails(details), id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+  const list = await getMedicationList();
+  await saveMedicationList({ ...list, medications: [...list.medications, medication] });
+  return medication;
+};
+
+export const updateMedication = async (id: string, details: MedicationDetails): Promise<void> => {
+  const normalized = normalizeDetails(details);
+  const list = await getMedicationList();
+  await saveMedicationList({
+    ...list,
+    medications: list.medications.map(medication =>
+      medication.id === id ? { ...medication, ...normalized, updatedAt: Date.now() } : medication
+    ),
+  });
+};
+
+// Logged doses keep their copy of the name, so past entries are unaffected
+export const deleteMedication = async (id: string): Promise<void> => {
+  const list = await getMedicationList();
+  const now = Date.now();
+  await saveMedicationList({
+    ...list,
+    medications: list.medications.map(medication =>
+      medication.id === id ? { ...medication, deletedAt: now, updatedAt: now } : medication
+    ),
+  });
+};
+
+// Merge a list from another device, newest change per medication wins
+export const mergeMedicationLists = (local: MedicationList, remote: MedicationList): MergeOutcome<MedicationList> => {
+  const medications = mergeNewestById(local.medications, remote.medications);
+  return {
+    merged: { medications: medications.merged, updatedAt: Math.max(local.updatedAt, remote.updatedAt) },
+    localNewer: medications.localNewer,
+    remoteNewer: medications.remoteNewer,
+  };
+};
+
+export const formatDose = (dose: MedicationDose): string =>
+  [dose.name, dose.strength].filter(Boolean).join(' ');
+
+// One-line summary of an entry's doses, e.g. for AI prompts and exports
+export const describeDoses = (doses: MedicationDose[] = []): string =>
+  doses
+    .map(dose => `${formatDose(dose)} ${dose.status} ${format(new Date(dose.time), 'HH:mm')}`)
+    .join(', ');
+
+// Dose events as factors that correlation code can treat like diet or activities
+export const getMedicationFactors = (entry: JournalEntry): string[] =>
+  Array.from(new Set((entry.medicationDoses || []).map(dose => `${dose.name} ${dose.status}`)));
+
+const activeEntries = (entries: JournalEntry[]) => entries.filter(entry => !entry.deletedAt);
+
+export const calculateAdherence = (entries: JournalEntry[], medications: Medication[]): MedicationAdherence[] => {
+  const logged = activeEntries(entries);
+  const loggedDates = Array.from(new Set(logged.map(entry => entry.date)));
+  const doses = logged.flatMap(entry => (entry.medicationDoses || []).map(dose => ({ ...dose, date: entry.date })));
+
+  return medications.map(medication => {
+    const own = doses.filter(dose => dose.medicationId === medication.id);
+    const skipped = own.filter(dose => dose.status === 'skipped').length;
+
+    // Only days logged since the medication was added count towards the schedule
+    const since = format(new Date(medication.createdAt), 'yyyy-MM-dd');
+    const days = loggedDates.filter(date => date >= since);
+    const perDay = medication.scheduleTimes.length;
+    const expected = days.length * perDay;
+
+    // Extra doses on a day cannot make up for missed ones on another
+    const taken = perDay > 0
+      ? days.reduce((sum, date) =>
+          sum + Math.min(perDay, own.filter(dose => dose.date === date && dose.status === 'taken').length), 0)
+      : own.filter(dose => dose.status === 'taken').length;
+
+    return {
+      medication,
+      taken,
+      skipped,
+      expected,
+      percentage: expected > 0 ? Math.round((taken / expected) * 100) : null,
+    };
+  });
+};
@@ -0,0 +1,140 @@
+// Meals, their nutrients and daily totals, and the diet factors they
+// contribute to prediction and correlation analysis
+import { JournalEntry, Meal, MealItem, MealType, Nutrients } from './healthJournalTypes';
+import { Food } from './foodDatabase';
+import { IntakeLog, getIntakeFactors } from './healthIntake';
+
+export const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack', 'drink'];
+
+export const MEAL_TYPE_LABELS: Record<MealType, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snack: 'Snack',
+  drink: 'Drink',
+};
+
+export type NutrientKey = keyof Nutrients;
+
+export interface NutrientDefinition {
+  label: string;
+  unit: string;
+  color: string;
+  highAt?: number; // Daily total flagged as high, from common intake guidelines
+}
+
+export const NUTRIENT_DEFINITIONS: Record<NutrientKey, NutrientDefinition> = {
+  calories: { label: 'Calories', unit: 'kcal', color: '#f97316' },
+  caffeineMg: { label: 'Caffeine', unit: 'mg', color: '#92400e', highAt: 400 },
+  alcoholUnits: { label: 'Alcohol', unit: 'units', color: '#7c3aed', highAt: 3 },
+  sugarG: { label: 'Sugar', unit: 'g', color: '#ec4899', highAt: 50 },
+};
+
+export const NUTRIENT_KEYS = Object.keys(NUTRIENT_DEFINITIONS) as NutrientKey[];
+
+// A meal starting this late with at least this many calories counts as a late heavy meal
+const LATE_MEAL_TIME = '20:00';
+const HEAVY_MEAL_CALORIES = 700;
+
+export const EMPTY_NUTRIENTS: Nutrients = { calories: 0, caffeineMg: 0, alcoholUnits: 0, sugarG: 0 };
+
+const roundNutrient = (value: number): number => Math.round(value * 10) / 10;
+
+export const addNutrients = (a: Nutrients, b: Nutrients): Nutrients => ({
+  calories: roundNutrient(a.calories + b.calories),
+  caffeineMg: roundNutrient(a.caffeineMg + b.caffeineMg),
+  alcoholUnits: roundNutrient(a.alcoholUnits + b.alcoholUnits),
+  sugarG: roundNutrient(a.sugarG + b.sugarG),
+});
+
+const scaleNutrients = (nutrients: Nutrients, factor: number): Nutrients => ({
+  calories: roundNutrient(nutrients.calories * factor),
+  caffeineMg: roundNutrient(nutrients.caffeineMg * factor),
+  alcoholUnits: roundNutrient(nutrients.alcoholUnits * factor),
+  sugarG: roundNutrient(nutrients.sugarG * factor),
+});
+
+const createItemId = () => `meal-item-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Nutrients are resolved when the item is logged, so later changes to the
+// food database do not rewrite history
+export const createMealItem = (food: Food, quantity = 1): MealItem => ({
+  id: createItemId(),
+  name: food.name,
+  foodId: food.id,
+  quantity,
+  portion: food.portion,
+  nutrients: scaleNutrients(food.nutrients, quantity),
+});
+
+// Items not in the food database are logged without nutrients
+export const createCustomMealItem = (name: string, quantity = 1): MealItem => ({
+  id: createItemId(),
+  name: name.trim(),
+  quantity,
+  portion: 'portion',
+});
+
+export const setItemQuantity = (item: MealItem, quantity: number): MealItem => ({
+  ...item,
+  quantity,
+  nutrients: item.nutrients && item.quantity > 0
+    ? scaleNutrients(item.nutrients, quantity / item.quantity)
+    : item.nutrients,
+});
+
+export const createMeal = (type: MealType, time: string): Meal => ({
+  id: `meal-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  type,
+  time,
+  items: [],
+});
+
+export const getMealNutrients = (meal: Meal): Nutrients =>
+  meal.items.reduce((total, item) => item.nutrients ? addNutrients(total, item.nutrients) : total, EMPTY_NUTRIENTS);
+
+// Totals across every meal of an entry; for a daily roll-up that is the whole day
+export const getDailyNutrients = (entry: JournalEntry): Nutrients =>
+  (entry.meals || []).reduce((total, meal) => addNutrients(total, getMealNutrients(meal)), EMPTY_NUTRIENTS);
+
+export const hasMeals = (entry: JournalEntry): boolean => (entry.meals || []).some(meal => meal.items.length > 0);
+
+export const formatNutrient = (key: NutrientKey, value: number): string =>
+  `${Math.round(value * 10) / 10} ${NUTRIENT_DEFINITIONS[key].unit}`;
+
+// e.g. '2 × Coffee'
+export const formatMealItem = (item: MealItem): string =>
+  item.quantity === 1 ? item.name : `${item.quantity} × ${item.name}`;
+
+// e.g. 'Breakfast 08:00: Porridge, 2 × Coffee'
+export const formatMeal = (meal: Meal): string =>
+  `${MEAL_TYPE_LABELS[meal.type]} ${meal.time}: ${meal.items.map(formatMealItem).join(', ')}`;
+
+export const describeMeals = (entry: JournalEntry): string =>
+  (entry.meals || []).filter(meal => meal.items.length > 0).map(formatMeal).join('; ');
+
+export const isLateHeavyMeal = (meal: Meal): boolean =>
+  meal.time >= LATE_MEAL_TIME && getMealNutrients(meal).calories >= HEAVY_MEAL_CALORIES;
+
+// Foods eaten, daily totals above common guidelines and late heavy meals,
+// as factors correlation code can treat like diet tags
+export const getNutritionFactors = (entry: JournalEntry): string[] => {
+  const meals = entry.meals || [];
+  const totals = getDailyNutrients(entry);
+  const factors = new Set(meals.flatMap(meal => meal.items.map(item => item.name)));
+
+  NUTRIENT_KEYS.forEach(key => {
+    const { label, highAt } = NUTRIENT_DEFINITIONS[key];
+    if (highAt !== undefined && totals[key] >= highAt) factors.add(`High ${label.toLowerCase()}`);
+  });
+  if (meals.some(isLateHeavyMeal)) factors.add('Late heavy meal');
+
+  return Array.from(factors);
+};
+
+// Meal factors together with the day's intake counters, if given
+export const getDietFactors = (entry: JournalEntry, intakeLog?: IntakeLog): string[] =>
+  Array.from(new Set([
+    ...getNutritionFactors(entry),
+    ...(intakeLog ? getIntakeFactors(intakeLog, entry.date) : []),
+  ]));
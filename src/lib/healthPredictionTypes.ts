@@ -1,8 +1,13 @@
 // Health Prediction Types and Models
+import type { JournalEntry } from './healthJournalTypes';
+import type { IntakeLog } from './healthIntake';
+import type { TrackerList } from './healthTrackers';
+import type { WeatherData, WeatherForecast } from './weatherApi';
 
 export type PredictionType = 'symptom' | 'mood' | 'sleep' | 'stress' | 'general';
 export type RiskLevel = 'low' | 'medium' | 'high';
-export type TriggerType = 'weather' | 'pattern' | 'seasonal' | 'cyclic';
+export type PredictionOutcome = 'happened' | 'didNotHappen';
+export type TriggerType = 'weather' | 'pattern' | 'seasonal' | 'cyclic' | 'medication' | 'diet' | 'sleep';
 
 export interface HealthPrediction {
   id: string;
@@ -17,6 +22,10 @@ export interface HealthPrediction {
   recommendations: string[];
   reasoning: string;
   createdAt: number;
+  outcome?: PredictionOutcome; // Set once the user confirms or refutes it
+  outcomeAt?: number;
+  rawConfidence?: number; // What the detectors claimed, before feedback calibration
+  belowThreshold?: boolean; // Kept in the history for calibration only; never shown or asked about
 }
 
 export interface PredictionTrigger {
@@ -39,6 +48,7 @@ export interface PatternMatch {
   timeOfMonth?: number;
   seasonalPattern?: boolean;
   frequency: number; // How often this pattern occurred
+  averageSeverity: number; // 0-10 across those occurrences
   lastOccurrence: string;
 }
 
@@ -53,6 +63,9 @@ export interface PredictionSettings {
     lon: number;
     city?: string;
   };
+  detectors?: Record<string, boolean>; // Keyed by detector id; detectors not listed are on
+  updatedAt?: number;
+  schemaVersion?: number;
 }
 
 export const DEFAULT_PREDICTION_SETTINGS: PredictionSettings = {
@@ -63,6 +76,51 @@ export const DEFAULT_PREDICTION_SETTINGS: PredictionSettings = {
   daysToPredict: 3,
 };
 
+// Weather around today, fetched once per run and shared by every detector
+export interface WeatherContext {
+  current: WeatherData;
+  forecast: WeatherForecast[];
+  history: Record<string, WeatherData>; // Weather stored with past entries, keyed by date
+}
+
+// Everything a detector may look at. Detectors are pure functions of this,
+// so they can be run and tested without storage or the network.
+export interface DetectorContext {
+  entries: JournalEntry[]; // One rolled-up entry per day, newest first
+  weather?: WeatherContext; // Missing when weather integration is off or unavailable
+  intakeLog: IntakeLog;
+  trackerList?: Pick<TrackerList, 'trackers' | 'tags'>; // Custom trackers and tags, tested as factors too
+  settings: PredictionSettings;
+  today: Date; // Local midnight
+}
+
+// A prediction proposed by a detector, before it is combined with the
+// others and checked against the confidence threshold
+export interface PredictionCandidate {
+  type: PredictionType;
+  symptom: string;
+  predictedDate: string;
+  daysAhead: number;
+  confidence: number; // 0-1
+  likelihood: number; // 0-100
+  triggers: PredictionTrigger[];
+  recommendations: string[];
+  reasoning: string;
+  // 'date' joins predictions for the same symptom on the same day; 'symptom'
+  // is evidence like a skipped dose that supports the symptom on any day
+  scope: 'date' | 'symptom';
+  // Supporting evidence, e.g. a weather change, never stands alone: it adds
+  // its triggers and this much confidence to the predictions it joins
+  supportBoost?: number;
+}
+
+export interface PredictionDetector {
+  id: string;
+  label: string;
+  description: string; // Shown next to its toggle in the prediction settings
+  detect: (context: DetectorContext) => PredictionCandidate[];
+}
+
 // Recommendation templates based on prediction type
 export const PREVENTION_RECOMMENDATIONS: Record<string, string[]> = {
   migraine: [
@@ -0,0 +1,122 @@
+// Sleep debt and circadian regularity from logged sleep hours and, where
+// recorded, bedtime and wake time
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { JournalEntry } from './healthJournalTypes';
+import { rollUpByDay } from './journalDays';
+
+// Most adults need 7-9 hours; debt is counted against the middle of that
+export const SLEEP_NEED_HOURS = 8;
+export const DEBT_WINDOW_NIGHTS = 7;
+// Debt at which the sleep debt detector starts raising risk
+export const SLEEP_DEBT_THRESHOLD_HOURS = 5;
+const JET_LAG_WINDOW_DAYS = 28;
+const REGULARITY_WINDOW_DAYS = 7;
+const MIN_REGULARITY_PAIRS = 2;
+const MINUTES_PER_DAY = 24 * 60;
+const REGULARITY_SLOT_MINUTES = 5;
+
+export interface SleepNight {
+  date: string; // The morning the night ended
+  hours: number;
+  bedtime?: string;
+  wakeTime?: string;
+  midpoint?: number; // Minutes from midnight, negative before it
+  debt: number; // Hours short of need over the nights logged in the last DEBT_WINDOW_NIGHTS days, never negative
+  socialJetLag?: number; // Hours between sleep midpoints on free days and workdays
+  regularity?: number; // Sleep Regularity Index, -100 to 100; 100 is the same schedule every day
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Hours between a bedtime and the following wake time
+export const getTimedSleepHours = (bedtime: string, wakeTime: string): number =>
+  ((toMinutes(wakeTime) - toMinutes(bedtime) + MINUTES_PER_DAY) % MINUTES_PER_DAY) / 60;
+
+// Asleep from start to end, in minutes from the entry date's midnight.
+// Bedtimes from noon on are taken to be the evening before.
+const getSleepWindow = (night: JournalEntry): { start: number; end: number } | undefined => {
+  if (!night.bedtime || !night.wakeTime) return undefined;
+  const bed = toMinutes(night.bedtime);
+  const start = bed >= MINUTES_PER_DAY / 2 ? bed - MINUTES_PER_DAY : bed;
+  const end = toMinutes(night.wakeTime);
+  return end > start ? { start, end } : undefined;
+};
+
+// Free days are mornings without work: Saturday and Sunday
+const isFreeDay = (date: string): boolean => [0, 6].includes(parseISO(date).getDay());
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Share of five-minute slots, noon to noon, asleep or awake on both days
+const sameStateShare = (a: { start: number; end: number }, b: { start: number; end: number }): number => {
+  let same = 0;
+  const slots = MINUTES_PER_DAY / REGULARITY_SLOT_MINUTES;
+  for (let i = 0; i < slots; i++) {
+    const minute = i * REGULARITY_SLOT_MINUTES - MINUTES_PER_DAY / 2;
+    const asleepA = minute >= a.start && minute < a.end;
+    const asleepB = minute >= b.start && minute < b.end;
+    if (asleepA === asleepB) same++;
+  }
+  return same / slots;
+};
+
+// One night per logged day, oldest first, with the rolling measures as of that morning
+export const analyzeSleep = (entries: JournalEntry[]): SleepNight[] => {
+  const days = rollUpByDay(entries.filter(entry => !entry.deletedAt)).reverse();
+  const windows = new Map(days.map(day => [day.date, getSleepWindow(day)]));
+
+  return days.map(day => {
+    const daysBefore = (other: JournalEntry) => differenceInCalendarDays(parseISO(day.date), parseISO(other.date));
+    const within = (window: number) => days.filter(other => daysBefore(other) >= 0 && daysBefore(other) < window);
+
+    // Nights not logged are unknown rather than counted as short or long
+    const debt = Math.max(0, within(DEBT_WINDOW_NIGHTS).reduce((sum, night) => sum + SLEEP_NEED_HOURS - night.sleepHours, 0));
+
+    const timed = within(JET_LAG_WINDOW_DAYS).filter(night => windows.get(night.date));
+    const midpoint = (night: JournalEntry) => {
+      const window = windows.get(night.date);
+      return window ? (window.start + window.end) / 2 : 0;
+    };
+    const free = timed.filter(night => isFreeDay(night.date)).map(midpoint);
+    const work = timed.filter(night => !isFreeDay(night.date)).map(midpoint);
+    const socialJetLag = free.length > 0 && work.length > 1 ? Math.abs(mean(free) - mean(work)) / 60 : undefined;
+
+    // Compare each timed day with the timed day right before it
+    const pairs = within(REGULARITY_WINDOW_DAYS).flatMap(night => {
+      const current = windows.get(night.date);
+      const previous = days.find(other => daysBefore(other) === daysBefore(night) + 1);
+      const before = previous ? windows.get(previous.date) : undefined;
+      return current && before ? [sameStateShare(current, before)] : [];
+    });
+    const regularity = pairs.length >= MIN_REGULARITY_PAIRS ? 200 * mean(pairs) - 100 : undefined;
+
+    const window = windows.get(day.date);
+    return {
+      date: day.date,
+      hours: day.sleepHours,
+      bedtime: day.bedtime,
+      wakeTime: day.wakeTime,
+      midpoint: window ? (window.start + window.end) / 2 : undefined,
+      debt,
+      socialJetLag,
+      regularity,
+    };
+  });
+};
+
+// e.g. '03:15' for a midpoint of 195 minutes, '23:30' for -30
+export const formatMidpoint = (minutes: number): string => {
+  const wrapped = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+};
+
+// e.g. '6.5h sleep debt over the last 7 nights, 1.2h social jet lag, regularity 72'
+export const describeSleepMetrics = (night: SleepNight): string =>
+  [
+    `${night.debt.toFixed(1)}h sleep debt over the last ${DEBT_WINDOW_NIGHTS} nights`,
+    night.socialJetLag !== undefined ? `${night.socialJetLag.toFixed(1)}h social jet lag` : '',
+    night.regularity !== undefined ? `regularity ${Math.round(night.regularity)}` : '',
+  ].filter(Boolean).join(', ');
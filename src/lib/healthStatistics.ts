@@ -0,0 +1,238 @@
+// Lagged associations between daily factors (diet, food and drink,
+// activities, sleep, stress, medication doses, trackers and tags) and
+// symptoms, computed locally: each factor/symptom/lag is a 2x2 table of
+// logged days, tested with Fisher's exact test and corrected for the number
+// of tests with Benjamini-Hochberg
+import { addDays, format, parseISO } from 'date-fns';
+import { JournalEntry, MedicationDose } from './healthJournalTypes';
+import { rollUpByDay } from './journalDays';
+import { DOSE_STATUS_LABELS } from './healthMedications';
+import { getDietFactors } from './healthNutrition';
+import { IntakeLog } from './healthIntake';
+import { FactorContext, TrackerList, buildFactorContext, getTrackerFactors } from './healthTrackers';
+
+export type FactorCategory = 'diet' | 'nutrition' | 'activity' | 'sleep' | 'stress' | 'medication' | 'tracker';
+
+export interface DailyFactor {
+  factor: string;
+  category: FactorCategory;
+}
+
+export const FACTOR_CATEGORY_LABELS: Record<FactorCategory, string> = {
+  diet: 'Diet',
+  nutrition: 'Food & drink',
+  activity: 'Activity',
+  sleep: 'Sleep',
+  stress: 'Stress',
+  medication: 'Medication',
+  tracker: 'Tracker',
+};
+
+// Factors kept outside the entries: custom trackers and tags, and the
+// water, caffeine and alcohol counters
+export interface FactorSources {
+  trackerList?: Pick<TrackerList, 'trackers' | 'tags'>;
+  intakeLog?: IntakeLog;
+}
+
+interface FactorInputs {
+  trackers?: FactorContext;
+  intakeLog?: IntakeLog;
+}
+
+// Days between the factor and the symptom
+export const ASSOCIATION_LAGS = [0, 1, 2];
+
+export const LAG_LABELS: Record<number, string> = {
+  0: 'Same day',
+  1: 'Next day',
+  2: '2 days later',
+};
+
+const SHORT_SLEEP_HOURS = 6;
+const POOR_SLEEP_QUALITY = 2;
+const HIGH_STRESS_LEVEL = 4;
+// Tables with fewer days than this on either side aren't tested at all
+const MIN_DAYS_PER_GROUP = 3;
+const MIN_SYMPTOM_DAYS = 3;
+// Share of reported associations allowed to be false discoveries
+export const FALSE_DISCOVERY_RATE = 0.1;
+
+export interface LaggedAssociation {
+  factor: string;
+  category: FactorCategory;
+  symptom: string;
+  lag: number;
+  exposedDays: number; // Logged days with the factor whose lagged day was also logged
+  exposedWithSymptom: number;
+  unexposedDays: number;
+  unexposedWithSymptom: number;
+  riskDifference: number; // Symptom rate after the factor minus the rate otherwise
+  riskRatio: number; // With 0.5 added to every cell when one is empty
+  phi: number; // Correlation of the two yes/no variables, -1 to 1
+  pValue: number; // Fisher's exact test, two-sided
+  qValue: number; // Benjamini-Hochberg adjusted across every test run
+  significant: boolean; // qValue within the false discovery rate
+}
+
+// e.g. 'Ibuprofen skipped'
+export const getDoseFactor = (dose: MedicationDose): string =>
+  `${dose.name} ${DOSE_STATUS_LABELS[dose.status].toLowerCase()}`;
+
+// Factors of one day; pass days rolled up so daily totals are complete
+export const getDailyFactors = (day: JournalEntry, { trackers, intakeLog }: FactorInputs = {}): DailyFactor[] => [
+  ...day.diet.map(item => ({ factor: item, category: 'diet' as const })),
+  // Foods already tagged as diet count once, as diet
+  ...getDietFactors(day, intakeLog)
+    .filter(factor => !day.diet.includes(factor))
+    .map(factor => ({ factor, category: 'nutrition' as const })),
+  ...day.activities.map(activity => ({ factor: activity, category: 'activity' as const })),
+  ...(day.sleepHours < SHORT_SLEEP_HOURS
+    ? [{ factor: `Short sleep (under ${SHORT_SLEEP_HOURS}h)`, category: 'sleep' as const }]
+    : []),
+  ...(day.sleepQuality <= POOR_SLEEP_QUALITY ? [{ factor: 'Poor sleep quality', category: 'sleep' as const }] : []),
+  ...(day.stressLevel >= HIGH_STRESS_LEVEL ? [{ factor: 'High stress', category: 'stress' as const }] : []),
+  ...Array.from(new Set((day.medicationDoses || []).map(getDoseFactor)))
+    .map(factor => ({ factor, category: 'medication' as const })),
+  ...(trackers ? getTrackerFactors(day, trackers) : []).map(factor => ({ factor, category: 'tracker' as const })),
+];
+
+// Log-factorials up to n, so hypergeometric terms don't overflow
+const logFactorials = (n: number): number[] => {
+  const table = [0];
+  for (let i = 1; i <= n; i++) table.push(table[i - 1] + Math.log(i));
+  return table;
+};
+
+// Two-sided Fisher's exact test for [[a, b], [c, d]]: the probability of a
+// table at least as unlikely as this one, given the row and column totals
+export const fisherExactTest = (a: number, b: number, c: number, d: number): number => {
+  const n = a + b + c + d;
+  const logF = logFactorials(n);
+  const row1 = a + b;
+  const row2 = c + d;
+  const col1 = a + c;
+  const logP = (x: number) =>
+    logF[row1] + logF[row2] + logF[col1] + logF[n - col1] -
+    logF[n] - logF[x] - logF[row1 - x] - logF[col1 - x] - logF[row2 - col1 + x];
+
+  const observed = logP(a);
+  let p = 0;
+  for (let x = Math.max(0, col1 - row2); x <= Math.min(row1, col1); x++) {
+    const logPx = logP(x);
+    // Small tolerance so tables equally likely to the observed one count
+    if (logPx <= observed + 1e-7) p += Math.exp(logPx);
+  }
+  return Math.min(p, 1);
+};
+
+// Adjusted p-values that hold the false discovery rate across all tests
+export const benjaminiHochberg = (pValues: number[]): number[] => {
+  const order = pValues.map((p, index) => ({ p, index })).sort((x, y) => x.p - y.p);
+  const adjusted = new Array<number>(pValues.length);
+  let running = 1;
+  for (let rank = order.length; rank >= 1; rank--) {
+    const { p, index } = order[rank - 1];
+    running = Math.min(running, (p * order.length) / rank);
+    adjusted[index] = running;
+  }
+  return adjusted;
+};
+
+// Every factor/symptom/lag combination with enough days on both sides,
+// strongest evidence first. Pass the same sources everywhere: the correction
+// depends on how many factors were tested.
+export const computeLaggedAssociations = (
+  entries: JournalEntry[],
+  { trackerList, intakeLog }: FactorSources = {},
+  lags: number[] = ASSOCIATION_LAGS
+): LaggedAssociation[] => {
+  const days = rollUpByDay(entries.filter(entry => !entry.deletedAt));
+  const inputs: FactorInputs = {
+    trackers: trackerList && (trackerList.trackers.length > 0 || trackerList.tags.length > 0)
+      ? buildFactorContext(days, trackerList)
+      : undefined,
+    intakeLog,
+  };
+  const dailyFactors = new Map(days.map(day => [day.date, getDailyFactors(day, inputs)]));
+  const byDate = new Map(days.map(day => [day.date, day]));
+  const symptomsByDate = new Map(days.map(day => [day.date, new Set(day.symptoms.map(s => s.name))]));
+  const factorsByDate = new Map(days.map(day => [day.date, new Set(dailyFactors.get(day.date)?.map(f => f.factor))]));
+
+  const categories = new Map<string, FactorCategory>();
+  dailyFactors.forEach(factors => factors.forEach(({ factor, category }) => categories.set(factor, category)));
+  const symptomDays = new Map<string, number>();
+  days.forEach(day => day.symptoms.forEach(({ name }) => symptomDays.set(name, (symptomDays.get(name) ?? 0) + 1)));
+  const symptoms = Array.from(symptomDays.keys()).filter(symptom => (symptomDays.get(symptom) ?? 0) >= MIN_SYMPTOM_DAYS);
+
+  const tested: Omit<LaggedAssociation, 'qValue' | 'significant'>[] = [];
+  lags.forEach(lag => {
+    // Only pairs where both days were logged; a missing day says nothing
+    const pairs = days
+      .map(day => ({ day, later: byDate.get(format(addDays(parseISO(day.date), lag), 'yyyy-MM-dd')) }))
+      .filter((pair): pair is { day: JournalEntry; later: JournalEntry } => pair.later !== undefined);
+
+    categories.forEach((category, factor) => {
+      const exposed = pairs.filter(({ day }) => factorsByDate.get(day.date)?.has(factor));
+      const unexposed = pairs.filter(({ day }) => !factorsByDate.get(day.date)?.has(factor));
+      if (exposed.length < MIN_DAYS_PER_GROUP || unexposed.length < MIN_DAYS_PER_GROUP) return;
+
+      symptoms.forEach(symptom => {
+        const hasSymptom = ({ later }: { later: JournalEntry }) => !!symptomsByDate.get(later.date)?.has(symptom);
+        const a = exposed.filter(hasSymptom).length;
+        const b = exposed.length - a;
+        const c = unexposed.filter(hasSymptom).length;
+        const d = unexposed.length - c;
+        // A symptom that never or always follows can't differ between groups
+        if (a + c === 0 || b + d === 0) return;
+
+        const anyEmpty = a === 0 || b === 0 || c === 0 || d === 0;
+        const k = anyEmpty ? 0.5 : 0;
+        tested.push({
+          factor,
+          category,
+          symptom,
+          lag,
+          exposedDays: exposed.length,
+          exposedWithSymptom: a,
+          unexposedDays: unexposed.length,
+          unexposedWithSymptom: c,
+          riskDifference: a / exposed.length - c / unexposed.length,
+          riskRatio: ((a + k) / (exposed.length + 2 * k)) / ((c + k) / (unexposed.length + 2 * k)),
+          phi: (a * d - b * c) / Math.sqrt((a + b) * (c + d) * (a + c) * (b + d)),
+          pValue: fisherExactTest(a, b, c, d),
+        });
+      });
+    });
+  });
+
+  const qValues = benjaminiHochberg(tested.map(association => association.pValue));
+  return tested
+    .map((association, i) => ({
+      ...association,
+      qValue: qValues[i],
+      significant: qValues[i] <= FALSE_DISCOVERY_RATE,
+    }))
+    .sort((x, y) => x.qValue - y.qValue || Math.abs(y.riskDifference) - Math.abs(x.riskDifference));
+};
+
+// Links that held up after correction, where the symptom was more common
+// after the factor, optionally only for some kinds of factor
+export const getSignificantLinks = (
+  associations: LaggedAssociation[],
+  ...categories: FactorCategory[]
+): LaggedAssociation[] =>
+  associations.filter(association =>
+    association.significant && association.riskDifference > 0 &&
+    (categories.length === 0 || categories.includes(association.category))
+  );
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// e.g. 'Headache was logged the day after 8 of 12 days with Coffee (67%), vs 8 of 40 other days (20%)'
+export const describeAssociation = (association: LaggedAssociation): string => {
+  const { lag, exposedWithSymptom: a, exposedDays, unexposedWithSymptom: c, unexposedDays } = association;
+  const timing = lag === 0 ? 'on' : lag === 1 ? 'the day after' : `${lag} days after`;
+  return `${association.symptom} was logged ${timing} ${a} of ${exposedDays} days with ${association.factor} ` +
+    `(${percent(a / exposedDays)}), vs ${c} of ${unexposedDays} other days (${percent(c / unexposedDays)})`;
+};
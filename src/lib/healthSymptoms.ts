@@ -0,0 +1,74 @@
+// Structured symptom helpers and severity-weighted summaries
+import { JournalEntry, SymptomRecord } from './healthJournalTypes';
+
+export const MIN_SEVERITY = 0;
+export const MAX_SEVERITY = 10;
+// Given to symptoms logged before severity was recorded
+export const DEFAULT_SYMPTOM_SEVERITY = 5;
+
+export type SeverityBand = 'mild' | 'moderate' | 'severe';
+
+export const SEVERITY_BAND_LABELS: Record<SeverityBand, string> = {
+  mild: 'Mild',
+  moderate: 'Moderate',
+  severe: 'Severe',
+};
+
+export interface SymptomSummary {
+  name: string;
+  count: number; // Entries the symptom was logged in
+  totalSeverity: number; // Sum of severities, the symptom's overall burden
+  averageSeverity: number;
+  maxSeverity: number;
+}
+
+export const getSeverityBand = (severity: number): SeverityBand =>
+  severity >= 7 ? 'severe' : severity >= 4 ? 'moderate' : 'mild';
+
+export const createSymptom = (name: string, severity = DEFAULT_SYMPTOM_SEVERITY): SymptomRecord => ({ name, severity });
+
+export const getSymptomNames = (entry: JournalEntry): string[] => entry.symptoms.map(symptom => symptom.name);
+
+export const hasSymptom = (entry: JournalEntry, name: string): boolean =>
+  entry.symptoms.some(symptom => symptom.name === name);
+
+export const formatDuration = (minutes: number): string => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+};
+
+// e.g. 'Headache (7/10, from 14:00, 2h, left temple)'
+export const formatSymptom = (symptom: SymptomRecord): string => {
+  const details = [
+    `${symptom.severity}/${MAX_SEVERITY}`,
+    symptom.onset ? `from ${symptom.onset}` : null,
+    symptom.durationMinutes !== undefined ? formatDuration(symptom.durationMinutes) : null,
+    symptom.location || null,
+  ].filter(Boolean);
+  return `${symptom.name} (${details.join(', ')})`;
+};
+
+// Highest severity logged in the entry, 0 when it has no symptoms
+export const getPeakSeverity = (entry: JournalEntry): number =>
+  entry.symptoms.reduce((max, symptom) => Math.max(max, symptom.severity), 0);
+
+// Per-symptom counts and severities, heaviest burden first
+export const summarizeSymptoms = (entries: JournalEntry[]): SymptomSummary[] => {
+  const byName = new Map<string, SymptomSummary>();
+
+  entries.forEach(entry => {
+    entry.symptoms.forEach(({ name, severity }) => {
+      const summary = byName.get(name) ?? { name, count: 0, totalSeverity: 0, averageSeverity: 0, maxSeverity: 0 };
+      summary.count++;
+      summary.totalSeverity += severity;
+      summary.maxSeverity = Math.max(summary.maxSeverity, severity);
+      byName.set(name, summary);
+    });
+  });
+
+  return Array.from(byName.values())
+    .map(summary => ({ ...summary, averageSeverity: summary.totalSeverity / summary.count }))
+    .sort((a, b) => b.totalSeverity - a.totalSeverity || b.count - a.count);
+};
@@ -0,0 +1,291 @@
+// Per-profile custom trackers and tags, their values in entries and the
+// factors they contribute to correlation analysis
+import { CURRENT_SCHEMA_VERSION, JournalEntry, JournalTag, Tracker, TrackerType, TrackerValue } from './healthJournalTypes';
+import { secureGetItem, secureSetItem } from './secureStorage';
+import { WriteOptions, queueChanges } from './syncOutbox';
+import { MergeOutcome, mergeNewestById } from './listMerge';
+
+export const TRACKERS_KEY = 'bioguard_trackers';
+// Trackers and tags are a single record per profile; this is its id in the sync outbox
+export const TRACKERS_RECORD_ID = 'default';
+
+export const TRACKER_TYPES: TrackerType[] = ['boolean', 'number', 'scale', 'choice'];
+
+export const TRACKER_TYPE_LABELS: Record<TrackerType, string> = {
+  boolean: 'Yes / No',
+  number: 'Number',
+  scale: 'Scale 1-5',
+  choice: 'Choice',
+};
+
+export const SCALE_MIN = 1;
+export const SCALE_MAX = 5;
+
+export interface TrackerList {
+  trackers: Tracker[]; // Includes tombstones, for sync
+  tags: JournalTag[];
+  updatedAt: number;
+  schemaVersion?: number;
+}
+
+export type TrackerDetails = Pick<Tracker, 'name' | 'type' | 'unit' | 'options'>;
+
+// Everything needed to turn an entry's tracker values and tags into factors
+export interface FactorContext {
+  trackers: Tracker[];
+  tags: JournalTag[];
+  medians: Map<string, number>; // Typical value of each number tracker
+}
+
+const EMPTY_LIST: TrackerList = { trackers: [], tags: [], updatedAt: 0 };
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeToTrackers = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getTrackerList = async (): Promise<TrackerList> => {
+  try {
+    return (await secureGetItem<TrackerList>(TRACKERS_KEY)) || EMPTY_LIST;
+  } catch (error) {
+    console.error('Failed to load trackers:', error);
+    return EMPTY_LIST;
+  }
+};
+
+export const saveTrackerList = async (
+  list: TrackerList,
+  { markChanged = true }: WriteOptions = {}
+): Promise<void> => {
+  await secureSetItem(TRACKERS_KEY, {
+    ...list,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    updatedAt: markChanged ? Date.now() : list.updatedAt,
+  });
+  if (markChanged) {
+    await queueChanges('trackers', [TRACKERS_RECORD_ID]);
+  }
+  notify();
+};
+
+type Ordered = Tracker | JournalTag;
+
+const byOrder = <T extends Ordered>(items: T[]): T[] =>
+  items.filter(item => !item.deletedAt).sort((a, b) => a.order - b.order);
+
+const nextOrder = (items: Ordered[]): number => items.reduce((max, item) => Math.max(max, item.order + 1), 0);
+
+const patchItem = <T extends Ordered>(items: T[], id: string, changes: Partial<T>): T[] =>
+  items.map(item => item.id === id ? { ...item, ...changes, updatedAt: Date.now() } : item);
+
+// Swap an item with its neighbour in the display order
+const moveItem = <T extends Ordered>(items: T[], id: string, offset: -1 | 1): T[] => {
+  const ordered = byOrder(items);
+  const index = ordered.findIndex(item => item.id === id);
+  const neighbour = ordered[index + offset];
+  if (index === -1 || !neighbour) return items;
+  const now = Date.now();
+  return items.map(item => {
+    if (item.id === id) return { ...item, order: neighbour.order, updatedAt: now };
+    if (item.id === neighbour.id) return { ...item, order: ordered[index].order, updatedAt: now };
+    return item;
+  });
+};
+
+const assertUniqueName = (items: Ordered[], name: string, kind: string, exceptId?: string) => {
+  const taken = items.some(item =>
+    !item.deletedAt && item.id !== exceptId && item.name.toLowerCase() === name.toLowerCase()
+  );
+  if (taken) throw new Error(`A ${kind} named ${name} already exists`);
+};
+
+// Trackers in display order, archived ones included
+export const getTrackers = async (): Promise<Tracker[]> => byOrder((await getTrackerList()).trackers);
+
+export const getTags = async (): Promise<JournalTag[]> => byOrder((await getTrackerList()).tags);
+
+const normalizeTracker = (details: TrackerDetails): TrackerDetails => {
+  const name = details.name.trim();
+  if (!name) throw new Error('Tracker name is required');
+  const options = Array.from(new Set((details.options || []).map(option => option.trim()).filter(Boolean)));
+  if (details.type === 'choice' && options.length < 2) {
+    throw new Error('A choice tracker needs at least two options');
+  }
+  return {
+    name,
+    type: details.type,
+    unit: details.type === 'number' ? details.unit?.trim() || undefined : undefined,
+    options: details.type === 'choice' ? options : undefined,
+  };
+};
+
+export const addTracker = async (details: TrackerDetails): Promise<Tracker> => {
+  const normalized = normalizeTracker(details);
+  const list = await getTrackerList();
+  assertUniqueName(list.trackers, normalized.name, 'tracker');
+  const now = Date.now();
+  const tracker: Tracker = { ...normalized, id: crypto.randomUUID(), order: nextOrder(list.trackers), createdAt: now, updatedAt: now };
+  await saveTrackerList({ ...list, trackers: [...list.trackers, tracker] });
+  return tracker;
+};
+
+export const updateTracker = async (id: string, details: TrackerDetails): Promise<void> => {
+  const normalized = normalizeTracker(details);
+  const list = await getTrackerList();
+  assertUniqueName(list.trackers, normalized.name, 'tracker', id);
+  await saveTrackerList({ ...list, trackers: patchItem(list.trackers, id, normalized) });
+};
+
+export const setTrackerArchived = async (id: string, archived: boolean): Promise<void> => {
+  const list = await getTrackerList();
+  await saveTrackerList({ ...list, trackers: patchItem(list.trackers, id, { archived: archived || undefined }) });
+};
+
+export const moveTracker = async (id: string, offset: -1 | 1): Promise<void> => {
+  const list = await getTrackerList();
+  await saveTrackerList({ ...list, trackers: moveItem(list.trackers, id, offset) });
+};
+
+// Values already logged stay in their entries but are no longer shown
+export const deleteTracker = async (id: string): Promise<void> => {
+  const list = await getTrackerList();
+  await saveTrackerList({ ...list, trackers: patchItem(list.trackers, id, { deletedAt: Date.now() }) });
+};
+
+const normalizeTagName = (name: string): string => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Tag name is required');
+  return trimmed;
+};
+
+export const addTag = async (name: string): Promise<JournalTag> => {
+  const list = await getTrackerList();
+  const normalized = normalizeTagName(name);
+  assertUniqueName(list.tags, normalized, 'tag');
+  const now = Date.now();
+  const tag: JournalTag = { id: crypto.randomUUID(), name: normalized, order: nextOrder(list.tags), createdAt: now, updatedAt: now };
+  await saveTrackerList({ ...list, tags: [...list.tags, tag] });
+  return tag;
+};
+
+export const renameTag = async (id: string, name: string): Promise<void> => {
+  const list = await getTrackerList();
+  const normalized = normalizeTagName(name);
+  assertUniqueName(list.tags, normalized, 'tag', id);
+  await saveTrackerList({ ...list, tags: patchItem(list.tags, id, { name: normalized }) });
+};
+
+export const setTagArchived = async (id: string, archived: boolean): Promise<void> => {
+  const list = await getTrackerList();
+  await saveTrackerList({ ...list, tags: patchItem(list.tags, id, { archived: archived || undefined }) });
+};
+
+export const moveTag = async (id: string, offset: -1 | 1): Promise<void> => {
+  const list = await getTrackerList();
+  await saveTrackerList({ ...list, tags: moveItem(list.tags, id, offset) });
+};
+
+export const deleteTag = async (id: string): Promise<void> => {
+  const list = await getTrackerList();
+  await saveTrackerList({ ...list, tags: patchItem(list.tags, id, { deletedAt: Date.now() }) });
+};
+
+// Merge a list from another device, newest change per tracker or tag wins
+export const mergeTrackerLists = (local: TrackerList, remote: TrackerList): MergeOutcome<TrackerList> => {
+  const trackers = mergeNewestById(local.trackers, remote.trackers);
+  const tags = mergeNewestById(local.tags, remote.tags || []);
+  return {
+    merged: { trackers: trackers.merged, tags: tags.merged, updatedAt: Math.max(local.updatedAt, remote.updatedAt) },
+    localNewer: trackers.localNewer || tags.localNewer,
+    remoteNewer: trackers.remoteNewer || tags.remoteNewer,
+  };
+};
+
+export const isValidTrackerValue = (tracker: Tracker, value: TrackerValue): boolean => {
+  switch (tracker.type) {
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'scale':
+      return typeof value === 'number' && Number.isInteger(value) && value >= SCALE_MIN && value <= SCALE_MAX;
+    case 'choice':
+      return typeof value === 'string' && (tracker.options || []).includes(value);
+  }
+};
+
+export const formatTrackerValue = (tracker: Tracker, value: TrackerValue): string => {
+  switch (tracker.type) {
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'number':
+      return [value, tracker.unit].filter(part => part !== undefined && part !== '').join(' ');
+    case 'scale':
+      return `${value}/${SCALE_MAX}`;
+    case 'choice':
+      return String(value);
+  }
+};
+
+// Values logged for known trackers, in tracker order
+export const getEntryTrackerValues = (entry: JournalEntry, trackers: Tracker[]): { tracker: Tracker; value: TrackerValue }[] =>
+  trackers
+    .filter(tracker => entry.trackerValues?.[tracker.id] !== undefined)
+    .map(tracker => ({ tracker, value: entry.trackerValues![tracker.id] }));
+
+export const getEntryTags = (entry: JournalEntry, tags: JournalTag[]): JournalTag[] =>
+  tags.filter(tag => entry.tags?.includes(tag.id));
+
+// One-line summary of an entry's tracker values and tags, e.g. for AI prompts
+export const describeTrackers = (entry: JournalEntry, trackers: Tracker[], tags: JournalTag[]): string =>
+  [
+    ...getEntryTrackerValues(entry, trackers).map(({ tracker, value }) => `${tracker.name}: ${formatTrackerValue(tracker, value)}`),
+    ...getEntryTags(entry, tags).map(tag => `#${tag.name}`),
+  ].join(', ');
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export const buildFactorContext = (entries: JournalEntry[], list: Pick<TrackerList, 'trackers' | 'tags'>): FactorContext => {
+  const trackers = byOrder(list.trackers);
+  const medians = new Map<string, number>();
+  trackers.filter(tracker => tracker.type === 'number').forEach(tracker => {
+    const values = entries
+      .map(entry => entry.trackerValues?.[tracker.id])
+      .filter((value): value is number => typeof value === 'number');
+    if (values.length > 0) medians.set(tracker.id, median(values));
+  });
+  return { trackers, tags: byOrder(list.tags), medians };
+};
+
+// Tracker readings and tags as factors that correlation code can treat like
+// diet or activities: yes-answers, high or low scale and number readings,
+// chosen options and tag names
+export const getTrackerFactors = (entry: JournalEntry, { trackers, tags, medians }: FactorContext): string[] => {
+  const factors = getEntryTrackerValues(entry, trackers).flatMap(({ tracker, value }): string[] => {
+    switch (tracker.type) {
+      case 'boolean':
+        return value === true ? [tracker.name] : [];
+      case 'scale':
+        if (typeof value !== 'number') return [];
+        return value >= 4 ? [`${tracker.name} high`] : value <= 2 ? [`${tracker.name} low`] : [];
+      case 'number': {
+        const typical = medians.get(tracker.id);
+        if (typeof value !== 'number' || typical === undefined || value === typical) return [];
+        return [`${tracker.name} ${value > typical ? 'above' : 'below'} usual`];
+      }
+      case 'choice':
+        return [`${tracker.name}: ${value}`];
+    }
+  });
+  return [...factors, ...getEntryTags(entry, tags).map(tag => `#${tag.name}`)];
+};
@@ -0,0 +1,108 @@
+// Vital sign definitions, unit conversion and target ranges
+import { JournalEntry, VitalReading, VitalType } from './healthJournalTypes';
+import { secureGetItem, secureSetItem } from './secureStorage';
+
+export const VITAL_TARGETS_KEY = 'bioguard_vital_targets';
+
+export interface VitalDefinition {
+  label: string;
+  shortLabel: string;
+  units: string[]; // First unit is canonical; ranges and charts use it
+  hasSecondary?: boolean; // Blood pressure takes two values
+  step: number;
+  color: string;
+}
+
+export const VITAL_DEFINITIONS: Record<VitalType, VitalDefinition> = {
+  bloodPressure: { label: 'Blood Pressure', shortLabel: 'BP', units: ['mmHg'], hasSecondary: true, step: 1, color: '#ef4444' },
+  heartRate: { label: 'Heart Rate', shortLabel: 'HR', units: ['bpm'], step: 1, color: '#ec4899' },
+  glucose: { label: 'Blood Glucose', shortLabel: 'Glucose', units: ['mg/dL', 'mmol/L'], step: 0.1, color: '#f59e0b' },
+  temperature: { label: 'Temperature', shortLabel: 'Temp', units: ['°C', '°F'], step: 0.1, color: '#f97316' },
+  weight: { label: 'Weight', shortLabel: 'Weight', units: ['kg', 'lb'], step: 0.1, color: '#10b981' },
+  spo2: { label: 'Oxygen Saturation', shortLabel: 'SpO₂', units: ['%'], step: 1, color: '#3b82f6' },
+};
+
+export const VITAL_TYPES = Object.keys(VITAL_DEFINITIONS) as VitalType[];
+
+// Target range in the canonical unit. Secondary bounds apply to diastolic.
+export interface VitalTarget {
+  min?: number;
+  max?: number;
+  secondaryMin?: number;
+  secondaryMax?: number;
+}
+
+export type VitalTargets = Record<VitalType, VitalTarget>;
+
+export const DEFAULT_VITAL_TARGETS: VitalTargets = {
+  bloodPressure: { min: 90, max: 130, secondaryMin: 60, secondaryMax: 85 },
+  heartRate: { min: 60, max: 100 },
+  glucose: { min: 70, max: 140 },
+  temperature: { min: 36.1, max: 37.5 },
+  weight: {},
+  spo2: { min: 95, max: 100 },
+};
+
+export type VitalStatus = 'low' | 'normal' | 'high';
+
+const MG_DL_PER_MMOL_L = 18.016;
+const KG_PER_LB = 0.45359237;
+
+const targetListeners = new Set<() => void>();
+
+// Convert a value to the canonical unit of its vital type
+export const toCanonicalValue = (type: VitalType, value: number, unit: string): number => {
+  if (type === 'glucose' && unit === 'mmol/L') return value * MG_DL_PER_MMOL_L;
+  if (type === 'temperature' && unit === '°F') return (value - 32) * 5 / 9;
+  if (type === 'weight' && unit === 'lb') return value * KG_PER_LB;
+  return value;
+};
+
+export const canonicalUnit = (type: VitalType): string => VITAL_DEFINITIONS[type].units[0];
+
+export const formatReading = (reading: VitalReading): string => {
+  const value = reading.secondaryValue !== undefined
+    ? `${reading.value}/${reading.secondaryValue}`
+    : `${reading.value}`;
+  return `${value} ${reading.unit}`;
+};
+
+const compare = (value: number, min?: number, max?: number): VitalStatus =>
+  min !== undefined && value < min ? 'low' : max !== undefined && value > max ? 'high' : 'normal';
+
+export const getVitalStatus = (reading: VitalReading, targets: VitalTargets): VitalStatus => {
+  const target = targets[reading.type] ?? {};
+  const primary = compare(toCanonicalValue(reading.type, reading.value, reading.unit), target.min, target.max);
+  if (primary !== 'normal' || reading.secondaryValue === undefined) return primary;
+
+  return compare(reading.secondaryValue, target.secondaryMin, target.secondaryMax);
+};
+
+export const getVitalTargets = async (): Promise<VitalTargets> => {
+  try {
+    const stored = await secureGetItem<Partial<VitalTargets>>(VITAL_TARGETS_KEY);
+    return { ...DEFAULT_VITAL_TARGETS, ...stored };
+  } catch (error) {
+    console.error('Failed to load vital targets:', error);
+    return DEFAULT_VITAL_TARGETS;
+  }
+};
+
+export const saveVitalTargets = async (targets: VitalTargets): Promise<void> => {
+  await secureSetItem(VITAL_TARGETS_KEY, targets);
+  targetListeners.forEach(listener => listener());
+};
+
+export const subscribeToVitalTargets = (listener: () => void): (() => void) => {
+  targetListeners.add(listener);
+  return () => {
+    targetListeners.delete(listener);
+  };
+};
+
+// Every reading across entries, oldest first
+export const collectVitals = (entries: JournalEntry[], type?: VitalType): VitalReading[] =>
+  entries
+    .flatMap(entry => entry.vitals || [])
+    .filter(reading => !type || reading.type === type)
+    .sort((a, b) => a.takenAt - b.takenAt);
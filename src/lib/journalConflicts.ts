@@ -0,0 +1,182 @@
+// Detection, storage and resolution of conflicting versions of an entry
+import { JournalEntry } from './healthJournalTypes';
+import { CONFLICTS_STORE, withStore } from './healthJournalDB';
+import { getJournalEntry, saveJournalEntries, saveJournalEntry } from './healthJournalStorage';
+import { deleteAttachmentBlobs } from './healthJournalAttachments';
+import { FieldDifference, MergeSide, ScalarField, entriesMatch, mergeEntries } from './journalMerge';
+import { EncryptedPayload, decryptValue, encryptValue, isEncryptedPayload, isVaultEnabled } from './healthJournalVault';
+
+export interface EntryConflict {
+  id: string; // Entry id; one open conflict per entry
+  source: string; // Where the incoming version came from ('sync', 'import:<file>')
+  local: JournalEntry;
+  incoming: JournalEntry;
+  differences: FieldDifference[];
+  detectedAt: number;
+}
+
+export type ConflictResolution = 'mine' | 'theirs' | 'merge';
+
+// 'conflict' means the merge had to pick between differing scalar values
+export type ReconcileOutcome = 'unchanged' | 'merged' | 'conflict';
+
+type ConflictDetails = Pick<EntryConflict, 'source' | 'local' | 'incoming' | 'differences'>;
+
+// Entry contents are encrypted in vault mode, like the entries store
+interface StoredConflict {
+  id: string;
+  detectedAt: number;
+  details: ConflictDetails | EncryptedPayload;
+}
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeToConflicts = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const encodeConflict = async ({ id, detectedAt, ...details }: EntryConflict): Promise<StoredConflict> => ({
+  id,
+  detectedAt,
+  details: isVaultEnabled() ? await encryptValue(details) : details,
+});
+
+const decodeConflict = async (stored: StoredConflict): Promise<EntryConflict> => {
+  const details = isEncryptedPayload(stored.details)
+    ? await decryptValue<ConflictDetails>(stored.details)
+    : stored.details;
+  return { id: stored.id, detectedAt: stored.detectedAt, ...details };
+};
+
+export const saveConflict = async (conflict: EntryConflict): Promise<void> => {
+  const stored = await encodeConflict(conflict);
+  await withStore(CONFLICTS_STORE, 'readwrite', store => store.put(stored));
+  notify();
+};
+
+export const getConflicts = async (): Promise<EntryConflict[]> => {
+  const stored = await withStore<StoredConflict[]>(CONFLICTS_STORE, 'readonly', store => store.getAll());
+  const conflicts = await Promise.all((stored || []).map(decodeConflict));
+  return conflicts.sort((a, b) => b.detectedAt - a.detectedAt);
+};
+
+export const getConflictCount = async (): Promise<number> =>
+  withStore<number>(CONFLICTS_STORE, 'readonly', store => store.count());
+
+export const deleteConflict = async (id: string): Promise<void> => {
+  await withStore(CONFLICTS_STORE, 'readwrite', store => store.delete(id));
+  notify();
+};
+
+// Re-encode open conflicts so they match the current vault state
+export const rewriteConflicts = async (): Promise<void> => {
+  const conflicts = await getConflicts();
+  const stored = await Promise.all(conflicts.map(encodeConflict));
+  await withStore(CONFLICTS_STORE, 'readwrite', store => {
+    stored.forEach(conflict => store.put(conflict));
+  });
+};
+
+// Merge an incoming version into the local one. The merged entry is saved
+// right away; scalar fields that differed are kept as a conflict for review.
+export const reconcileEntry = async (
+  local: JournalEntry,
+  incoming: JournalEntry,
+  source: string
+): Promise<ReconcileOutcome> => {
+  if (entriesMatch(local, incoming)) return 'unchanged';
+
+  const { merged, differences } = mergeEntries(local, incoming);
+  await saveJournalEntry(merged);
+
+  if (differences.length === 0) return 'merged';
+
+  await saveConflict({ id: local.id, source, local, incoming, differences, detectedAt: Date.now() });
+  return 'conflict';
+};
+
+// Save entries from an import or restore, merging any that already exist
+export const saveIncomingEntries = async (
+  entries: JournalEntry[],
+  source: string
+): Promise<{ conflicts: number }> => {
+  const fresh: JournalEntry[] = [];
+  let conflicts = 0;
+
+  for (const entry of entries) {
+    const local = await getJournalEntry(entry.id);
+    if (!local) {
+      fresh.push(entry);
+      continue;
+    }
+    if (await reconcileEntry(local, entry, source) === 'conflict') {
+      conflicts++;
+    }
+  }
+
+  await saveJournalEntries(fresh);
+  return { conflicts };
+};
+
+// Bookkeeping that is never taken from one side when resolving
+const UNRESOLVED_FIELDS = new Set<string>(['id', 'createdAt', 'updatedAt', 'schemaVersion']);
+
+// Fields whose values differ between the two versions, lists included
+const differingFields = (local: JournalEntry, incoming: JournalEntry): (keyof JournalEntry)[] =>
+  (Array.from(new Set([...Object.keys(local), ...Object.keys(incoming)])) as (keyof JournalEntry)[])
+    .filter(field => !UNRESOLVED_FIELDS.has(field))
+    .filter(field => JSON.stringify(local[field]) !== JSON.stringify(incoming[field]));
+
+// Apply a resolution to the entry as it is now. Only fields that differed
+// between the two versions are touched: every one of them for 'mine' and
+// 'theirs', the reviewed scalar fields for 'merge'. If the entry was edited
+// after the conflict was detected it is checked again instead, and false is
+// returned so the new differences can be reviewed.
+export const resolveConflict = async (
+  conflict: EntryConflict,
+  resolution: ConflictResolution,
+  choices: Partial<Record<ScalarField, MergeSide>> = {}
+): Promise<boolean> => {
+  const current = await getJournalEntry(conflict.id);
+  if (!current) {
+    await deleteConflict(conflict.id);
+    return true;
+  }
+
+  if (!entriesMatch(current, mergeEntries(conflict.local, conflict.incoming).merged)) {
+    const outcome = await reconcileEntry(current, conflict.incoming, conflict.source);
+    if (outcome !== 'conflict') await deleteConflict(conflict.id);
+    return false;
+  }
+
+  const sides: Partial<Record<keyof JournalEntry, MergeSide>> = resolution === 'merge'
+    ? Object.fromEntries(conflict.differences.map(diff => [diff.field, choices[diff.field] ?? diff.chosen]))
+    : Object.fromEntries(differingFields(conflict.local, conflict.incoming).map(field => [
+        field,
+        resolution === 'mine' ? 'local' : 'incoming',
+      ]));
+
+  const resolved: JournalEntry = { ...current };
+  (Object.entries(sides) as [keyof JournalEntry, MergeSide][]).forEach(([field, side]) => {
+    // Both sides share the JournalEntry shape, so the field types line up
+    (resolved as unknown as Record<string, unknown>)[field] = (side === 'local' ? conflict.local : conflict.incoming)[field];
+  });
+
+  await saveJournalEntry(resolved);
+
+  // Files only the discarded version referenced are no longer needed
+  const filesOf = (entry: JournalEntry) => [...(entry.attachments || []), ...(entry.trashedAttachments || [])];
+  const kept = new Set(filesOf(resolved).map(a => a.id));
+  const dropped = [...filesOf(conflict.local), ...filesOf(conflict.incoming)]
+    .map(a => a.id)
+    .filter(id => !kept.has(id));
+  await deleteAttachmentBlobs(Array.from(new Set(dropped)));
+
+  await deleteConflict(conflict.id);
+  return true;
+};
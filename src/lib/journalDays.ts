@@ -0,0 +1,148 @@
+// Intraday check-ins and their daily roll-up
+import { JournalEntry, MenstrualFlow, MoodLevel, PainRegion, SymptomRecord, TrackerValue } from './healthJournalTypes';
+import { FLOW_LEVELS } from './healthCycle';
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export const TIME_OF_DAY_LABELS: Record<TimeOfDay, string> = {
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  evening: 'Evening',
+  night: 'Night',
+};
+
+// Quick picks offered in the entry form; any other time can be typed in
+export const CHECK_IN_PRESETS: { timeOfDay: TimeOfDay; time: string }[] = [
+  { timeOfDay: 'morning', time: '08:00' },
+  { timeOfDay: 'afternoon', time: '14:00' },
+  { timeOfDay: 'evening', time: '20:00' },
+];
+
+export const getTimeOfDay = (time: string): TimeOfDay => {
+  const hour = parseInt(time.split(':')[0], 10);
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 22) return 'evening';
+  return 'night';
+};
+
+// e.g. 'Evening · 20:15', or 'Whole day' for entries logged before check-ins had a time
+export const formatCheckInTime = (entry: JournalEntry): string =>
+  entry.time ? `${TIME_OF_DAY_LABELS[getTimeOfDay(entry.time)]} · ${entry.time}` : 'Whole day';
+
+// Newest day first, latest check-in first within a day
+export const compareEntriesDesc = (a: JournalEntry, b: JournalEntry): number =>
+  b.date.localeCompare(a.date) || (b.time ?? '').localeCompare(a.time ?? '');
+
+export const getEntryDates = (entries: JournalEntry[]): string[] =>
+  Array.from(new Set(entries.map(entry => entry.date))).sort((a, b) => b.localeCompare(a));
+
+const average = (values: number[]): number => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const unionList = (lists: string[][]): string[] => Array.from(new Set(lists.flat()));
+
+// One record per symptom name: the worst severity of the day, its earliest
+// onset and the total time it lasted
+const mergeDaySymptoms = (checkIns: JournalEntry[]): SymptomRecord[] => {
+  const byName = new Map<string, SymptomRecord>();
+  checkIns.flatMap(entry => entry.symptoms).forEach(symptom => {
+    const existing = byName.get(symptom.name);
+    if (!existing) {
+      byName.set(symptom.name, { ...symptom });
+      return;
+    }
+    const worst = symptom.severity > existing.severity ? symptom : existing;
+    const onsets = [existing.onset, symptom.onset].filter((onset): onset is string => !!onset).sort();
+    const durations = [existing.durationMinutes, symptom.durationMinutes].filter((d): d is number => d !== undefined);
+    byName.set(symptom.name, {
+      ...worst,
+      onset: onsets[0],
+      durationMinutes: durations.length > 0 ? durations.reduce((sum, d) => sum + d, 0) : undefined,
+    });
+  });
+  return Array.from(byName.values());
+};
+
+// A yes on any check-in counts for the day, numbers keep the highest
+// reading and choices the latest one
+const mergeDayTrackerValues = (checkIns: JournalEntry[]): Record<string, TrackerValue> | undefined => {
+  const values: Record<string, TrackerValue> = {};
+  checkIns.forEach(entry => {
+    Object.entries(entry.trackerValues || {}).forEach(([id, value]) => {
+      const existing = values[id];
+      if (typeof value === 'boolean' && typeof existing === 'boolean') {
+        values[id] = existing || value;
+      } else if (typeof value === 'number' && typeof existing === 'number') {
+        values[id] = Math.max(existing, value);
+      } else {
+        values[id] = value;
+      }
+    });
+  });
+  return Object.keys(values).length > 0 ? values : undefined;
+};
+
+// Each region keeps the worst intensity marked that day
+const mergeDayPainRegions = (checkIns: JournalEntry[]): PainRegion[] | undefined => {
+  const worst = new Map<string, number>();
+  checkIns.flatMap(entry => entry.painRegions || []).forEach(({ region, intensity }) => {
+    worst.set(region, Math.max(worst.get(region) ?? 0, intensity));
+  });
+  return worst.size > 0 ? Array.from(worst, ([region, intensity]) => ({ region, intensity })) : undefined;
+};
+
+const joinText = (values: (string | undefined)[]): string | undefined => {
+  const text = values.filter(Boolean).join('\n');
+  return text || undefined;
+};
+
+// Summary of every check-in logged on one day. Sleep is taken from the
+// check-in that reported the most, since it describes the night before.
+export const summarizeDay = (checkIns: JournalEntry[]): JournalEntry => {
+  if (checkIns.length === 1) return checkIns[0];
+
+  const ordered = [...checkIns].sort((a, b) => (a.time ?? '').localeCompare(b.time ?? ''));
+  const sleep = ordered.reduce((best, entry) => entry.sleepHours > best.sleepHours ? entry : best);
+
+  return {
+    id: `day-${ordered[0].date}`,
+    date: ordered[0].date,
+    mood: Math.round(average(ordered.map(entry => entry.mood))) as MoodLevel,
+    moodNote: joinText(ordered.map(entry => entry.moodNote)),
+    symptoms: mergeDaySymptoms(ordered),
+    painRegions: mergeDayPainRegions(ordered),
+    diet: unionList(ordered.map(entry => entry.diet)),
+    sleepHours: sleep.sleepHours,
+    sleepQuality: sleep.sleepQuality,
+    bedtime: sleep.bedtime,
+    wakeTime: sleep.wakeTime,
+    activities: unionList(ordered.map(entry => entry.activities)),
+    stressLevel: Math.round(average(ordered.map(entry => entry.stressLevel))) as JournalEntry['stressLevel'],
+    notes: joinText(ordered.map(entry => entry.notes)),
+    trackerValues: mergeDayTrackerValues(ordered),
+    tags: unionList(ordered.map(entry => entry.tags || [])),
+    vitals: ordered.flatMap(entry => entry.vitals || []),
+    labResults: ordered.flatMap(entry => entry.labResults || []),
+    medicationDoses: ordered.flatMap(entry => entry.medicationDoses || []),
+    meals: ordered.flatMap(entry => entry.meals || []).sort((a, b) => a.time.localeCompare(b.time)),
+    // Heaviest flow logged that day
+    menstrualFlow: ordered
+      .map(entry => entry.menstrualFlow)
+      .filter((flow): flow is MenstrualFlow => !!flow)
+      .sort((a, b) => FLOW_LEVELS.indexOf(b) - FLOW_LEVELS.indexOf(a))[0],
+    attachments: ordered.flatMap(entry => entry.attachments || []),
+    createdAt: Math.min(...ordered.map(entry => entry.createdAt)),
+    updatedAt: Math.max(...ordered.map(entry => entry.updatedAt ?? entry.createdAt)),
+  };
+};
+
+// One summary per day, newest first, for charts and predictions
+export const rollUpByDay = (entries: JournalEntry[]): JournalEntry[] => {
+  const byDate = new Map<string, JournalEntry[]>();
+  entries.forEach(entry => {
+    byDate.set(entry.date, [...(byDate.get(entry.date) ?? []), entry]);
+  });
+  return Array.from(byDate.values())
+    .map(summarizeDay)
+    .sort((a, b) => b.date.localeCompare(a.date));
+};
@@ -0,0 +1,169 @@
+// Field-level merge of two versions of the same journal entry
+import { JournalEntry, LabResult, Meal, PainRegion, SymptomRecord, TrackerValue } from './healthJournalTypes';
+
+// Fields where only one value can win; differences are shown for review
+export const SCALAR_FIELDS = [
+  'date',
+  'time',
+  'mood',
+  'moodNote',
+  'sleepHours',
+  'sleepQuality',
+  'bedtime',
+  'wakeTime',
+  'stressLevel',
+  'menstrualFlow',
+  'notes',
+] as const;
+
+export type ScalarField = typeof SCALAR_FIELDS[number];
+
+// Lists that are combined from both versions
+const LIST_FIELDS = ['diet', 'activities'] as const;
+
+export type MergeSide = 'local' | 'incoming';
+
+export interface FieldDifference {
+  field: ScalarField;
+  local: JournalEntry[ScalarField];
+  incoming: JournalEntry[ScalarField];
+  chosen: MergeSide; // Side picked by last-writer-wins
+}
+
+export interface MergeResult {
+  merged: JournalEntry;
+  differences: FieldDifference[];
+}
+
+const changedAt = (entry: JournalEntry): number => entry.updatedAt ?? entry.createdAt;
+
+const unionList = (a: string[] = [], b: string[] = []): string[] => Array.from(new Set([...a, ...b]));
+
+// Combine records by id, keeping the first copy of each
+const unionById = <T extends { id: string }>(a: T[] = [], b: T[] = []): T[] | undefined => {
+  const byId = new Map<string, T>();
+  [...a, ...b].forEach(item => {
+    if (!byId.has(item.id)) byId.set(item.id, item);
+  });
+  return byId.size > 0 ? Array.from(byId.values()) : undefined;
+};
+
+// Symptoms are combined by name; a symptom on both sides keeps the newer version's details
+const unionSymptoms = (newer: SymptomRecord[] = [], older: SymptomRecord[] = []): SymptomRecord[] => {
+  const names = new Set(newer.map(symptom => symptom.name));
+  return [...newer, ...older.filter(symptom => !names.has(symptom.name))];
+};
+
+// Tracker values are combined per tracker; one logged on both sides keeps the newer value
+const mergeTrackerValues = (
+  newer: Record<string, TrackerValue> = {},
+  older: Record<string, TrackerValue> = {}
+): Record<string, TrackerValue> | undefined => {
+  const values = { ...older, ...newer };
+  return Object.keys(values).length > 0 ? values : undefined;
+};
+
+const trackerValueKeys = (values: Record<string, TrackerValue> = {}): string[] =>
+  Object.entries(values).map(([id, value]) => `${id}:${value}`);
+
+// Pain regions are combined per region; one marked on both sides keeps the newer intensity
+const mergePainRegions = (newer: PainRegion[] = [], older: PainRegion[] = []): PainRegion[] | undefined => {
+  const regions = new Set(newer.map(pain => pain.region));
+  const merged = [...newer, ...older.filter(pain => !regions.has(pain.region))];
+  return merged.length > 0 ? merged : undefined;
+};
+
+const mealKey = (meal: Meal): string =>
+  [meal.id, meal.type, meal.time, ...meal.items.map(item => `${item.id}:${item.quantity}`)].join('|');
+
+const labResultKey = (result: LabResult): string =>
+  [result.id, result.testName, result.value, result.unit, result.referenceLow, result.referenceHigh, result.collectedOn].join('|');
+
+const symptomKey = (symptom: SymptomRecord): string =>
+  [symptom.name, symptom.severity, symptom.onset, symptom.durationMinutes, symptom.location, symptom.notes].join('|');
+
+const sameValue = (a: unknown, b: unknown): boolean => (a ?? '') === (b ?? '');
+
+const sameList = (a: string[] = [], b: string[] = []): boolean =>
+  a.length === b.length && a.every(item => b.includes(item));
+
+// True when both versions hold the same data, ignoring bookkeeping fields
+export const entriesMatch = (a: JournalEntry, b: JournalEntry): boolean =>
+  SCALAR_FIELDS.every(field => sameValue(a[field], b[field])) &&
+  LIST_FIELDS.every(field => sameList(a[field], b[field])) &&
+  sameList(a.symptoms.map(symptomKey), b.symptoms.map(symptomKey)) &&
+  sameList(a.tags, b.tags) &&
+  sameList(a.painRegions?.map(p => `${p.region}:${p.intensity}`), b.painRegions?.map(p => `${p.region}:${p.intensity}`)) &&
+  sameList(a.meals?.map(mealKey), b.meals?.map(mealKey)) &&
+  sameList(trackerValueKeys(a.trackerValues), trackerValueKeys(b.trackerValues)) &&
+  sameList(a.attachments?.map(x => x.id), b.attachments?.map(x => x.id)) &&
+  sameList(a.vitals?.map(x => x.id), b.vitals?.map(x => x.id)) &&
+  sameList(a.labResults?.map(labResultKey), b.labResults?.map(labResultKey)) &&
+  sameList(
+    a.medicationDoses?.map(x => `${x.id}:${x.status}`),
+    b.medicationDoses?.map(x => `${x.id}:${x.status}`)
+  ) &&
+  sameList(a.trashedAttachments?.map(x => x.id), b.trashedAttachments?.map(x => x.id)) &&
+  (a.deletedAt === undefined) === (b.deletedAt === undefined);
+
+// Union the list fields and resolve scalars last-writer-wins. `choices`
+// overrides the winner per field, e.g. from the conflict review screen.
+export const mergeEntries = (
+  local: JournalEntry,
+  incoming: JournalEntry,
+  choices: Partial<Record<ScalarField, MergeSide>> = {}
+): MergeResult => {
+  const newer: MergeSide = changedAt(incoming) > changedAt(local) ? 'incoming' : 'local';
+  const merged: JournalEntry = { ...(newer === 'local' ? local : incoming) };
+  const differences: FieldDifference[] = [];
+
+  SCALAR_FIELDS.forEach(field => {
+    if (sameValue(local[field], incoming[field])) return;
+
+    const chosen = choices[field] ?? newer;
+    differences.push({ field, local: local[field], incoming: incoming[field], chosen });
+    // Both sides share the JournalEntry shape, so the field types line up
+    (merged as unknown as Record<string, unknown>)[field] = (chosen === 'local' ? local : incoming)[field];
+  });
+
+  LIST_FIELDS.forEach(field => {
+    merged[field] = unionList(local[field], incoming[field]);
+  });
+  merged.symptoms = newer === 'local'
+    ? unionSymptoms(local.symptoms, incoming.symptoms)
+    : unionSymptoms(incoming.symptoms, local.symptoms);
+  merged.painRegions = newer === 'local'
+    ? mergePainRegions(local.painRegions, incoming.painRegions)
+    : mergePainRegions(incoming.painRegions, local.painRegions);
+  merged.trackerValues = newer === 'local'
+    ? mergeTrackerValues(local.trackerValues, incoming.trackerValues)
+    : mergeTrackerValues(incoming.trackerValues, local.trackerValues);
+  merged.tags = unionList(local.tags, incoming.tags);
+  if (merged.tags.length === 0) merged.tags = undefined;
+  merged.vitals = unionById(local.vitals, incoming.vitals)?.sort((x, y) => x.takenAt - y.takenAt);
+  // A result corrected on both sides keeps the newer version
+  merged.labResults = unionById(
+    (newer === 'local' ? local : incoming).labResults,
+    (newer === 'local' ? incoming : local).labResults
+  )?.sort((x, y) => x.collectedOn.localeCompare(y.collectedOn));
+  // A dose marked differently on each side keeps the newer version's status
+  merged.medicationDoses = unionById(
+    (newer === 'local' ? local : incoming).medicationDoses,
+    (newer === 'local' ? incoming : local).medicationDoses
+  )?.sort((x, y) => x.time - y.time);
+  // A meal edited on both sides keeps the newer version
+  merged.meals = unionById(
+    (newer === 'local' ? local : incoming).meals,
+    (newer === 'local' ? incoming : local).meals
+  )?.sort((x, y) => x.time.localeCompare(y.time));
+  // A removal on either side wins over the attachment still being listed
+  merged.trashedAttachments = unionById(local.trashedAttachments, incoming.trashedAttachments);
+  const trashedIds = new Set(merged.trashedAttachments?.map(a => a.id));
+  merged.attachments = unionById(local.attachments, incoming.attachments)
+    ?.filter(attachment => !trashedIds.has(attachment.id));
+  if (merged.attachments?.length === 0) merged.attachments = undefined;
+  merged.createdAt = Math.min(local.createdAt, incoming.createdAt);
+  merged.updatedAt = Math.max(changedAt(local), changedAt(incoming));
+
+  return { merged, differences };
+};
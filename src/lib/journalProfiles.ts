@@ -0,0 +1,195 @@
+// Named profiles so one account can keep journals for family members.
+// Each profile has its own journal database, predictions, reminders and
+// vault; the profile list itself is shared by the whole account.
+import { differenceInYears, parseISO } from 'date-fns';
+import { DEFAULT_PROFILE_ID, accountKey, accountStorage, clearProfileStorage } from './storageScope';
+import { deleteProfileDatabase } from './healthJournalDB';
+import type { PatientInfo } from './doctorReportPDF';
+
+const PROFILES_KEY = 'bioguard_profiles';
+const DEFAULT_PROFILE_NAME = 'Me';
+
+export type ProfileSex = 'female' | 'male' | 'other';
+
+export const PROFILE_SEX_LABELS: Record<ProfileSex, string> = {
+  female: 'Female',
+  male: 'Male',
+  other: 'Other',
+};
+
+export interface JournalProfile {
+  id: string;
+  name: string;
+  dateOfBirth?: string; // YYYY-MM-DD
+  sex?: ProfileSex;
+  createdAt: number;
+  updatedAt: number;
+  deletedAt?: number; // Tombstone so the deletion syncs to other devices
+}
+
+export type ProfileDetails = Pick<JournalProfile, 'name' | 'dateOfBirth' | 'sex'>;
+
+interface ProfileStore {
+  profiles: JournalProfile[];
+  activeProfileId: string;
+}
+
+let cache: { key: string; raw: string | null; store: ProfileStore } | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const createDefaultProfile = (): JournalProfile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: DEFAULT_PROFILE_NAME,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+// The default profile always exists, even before anything is saved
+const withDefaultProfile = (profiles: JournalProfile[]): JournalProfile[] =>
+  profiles.some(profile => profile.id === DEFAULT_PROFILE_ID) ? profiles : [createDefaultProfile(), ...profiles];
+
+const parseStore = (raw: string | null): ProfileStore => {
+  const fallback: ProfileStore = { profiles: [createDefaultProfile()], activeProfileId: DEFAULT_PROFILE_ID };
+  if (!raw) return fallback;
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed?.profiles)) return fallback;
+    return {
+      profiles: withDefaultProfile(parsed.profiles),
+      activeProfileId: typeof parsed.activeProfileId === 'string' ? parsed.activeProfileId : DEFAULT_PROFILE_ID,
+    };
+  } catch {
+    return fallback;
+  }
+};
+
+// Parsed store, reused until the stored value changes so snapshots stay stable
+const getStore = (): ProfileStore => {
+  const key = accountKey(PROFILES_KEY);
+  const raw = accountStorage.getItem(PROFILES_KEY);
+  if (!cache || cache.key !== key || cache.raw !== raw) {
+    cache = { key, raw, store: parseStore(raw) };
+  }
+  return cache.store;
+};
+
+const saveStore = (store: ProfileStore): void => {
+  accountStorage.setItem(PROFILES_KEY, JSON.stringify(store));
+  notify();
+};
+
+export const subscribeToProfiles = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Every profile including tombstones, for sync
+export const getAllProfileRecords = (): JournalProfile[] => getStore().profiles;
+
+export const getProfiles = (): JournalProfile[] => getStore().profiles.filter(profile => !profile.deletedAt);
+
+export const getProfile = (id: string): JournalProfile | null =>
+  getProfiles().find(profile => profile.id === id) ?? null;
+
+// Profile this device last used; falls back to the default profile
+export const getStoredActiveProfileId = (): string => {
+  const { activeProfileId } = getStore();
+  return getProfile(activeProfileId) ? activeProfileId : DEFAULT_PROFILE_ID;
+};
+
+export const setStoredActiveProfileId = (id: string): void => {
+  saveStore({ ...getStore(), activeProfileId: id });
+};
+
+export const createProfile = (details: ProfileDetails): JournalProfile => {
+  const name = details.name.trim();
+  if (!name) throw new Error('Profile name is required');
+
+  const now = Date.now();
+  const profile: JournalProfile = { ...details, name, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+  const store = getStore();
+  saveStore({ ...store, profiles: [...store.profiles, profile] });
+  return profile;
+};
+
+export const updateProfile = (id: string, details: Partial<ProfileDetails>): void => {
+  if (details.name !== undefined && !details.name.trim()) {
+    throw new Error('Profile name is required');
+  }
+
+  const store = getStore();
+  saveStore({
+    ...store,
+    profiles: store.profiles.map(profile =>
+      profile.id === id
+        ? { ...profile, ...details, name: details.name?.trim() ?? profile.name, updatedAt: Date.now() }
+        : profile
+    ),
+  });
+};
+
+// Remove the journal data stored on this device for a profile
+export const removeProfileData = async (id: string): Promise<void> => {
+  await deleteProfileDatabase(id);
+  clearProfileStorage(id);
+};
+
+// Delete a profile and its local data. Switch away from it first.
+export const deleteProfile = async (id: string): Promise<void> => {
+  if (id === DEFAULT_PROFILE_ID) {
+    throw new Error('The default profile cannot be deleted');
+  }
+
+  await removeProfileData(id);
+
+  const store = getStore();
+  const now = Date.now();
+  saveStore({
+    ...store,
+    profiles: store.profiles.map(profile =>
+      profile.id === id ? { ...profile, deletedAt: now, updatedAt: now } : profile
+    ),
+  });
+};
+
+// Merge the profile list from another device, newest change per profile
+// wins. Returns the ids of profiles that were deleted by the merge.
+export const mergeRemoteProfiles = (remote: JournalProfile[]): string[] => {
+  const store = getStore();
+  const merged = new Map(store.profiles.map(profile => [profile.id, profile]));
+  const deleted: string[] = [];
+
+  remote.forEach(incoming => {
+    const local = merged.get(incoming.id);
+    if (local && local.updatedAt >= incoming.updatedAt) return;
+    // Keep the profile in use here; the local copy is made newer and pushed back
+    if (incoming.deletedAt && local && incoming.id === store.activeProfileId) {
+      merged.set(local.id, { ...local, updatedAt: incoming.updatedAt + 1 });
+      return;
+    }
+
+    if (incoming.deletedAt && local && !local.deletedAt) deleted.push(incoming.id);
+    merged.set(incoming.id, incoming);
+  });
+
+  saveStore({ ...store, profiles: withDefaultProfile(Array.from(merged.values())) });
+  return deleted;
+};
+
+// Whole years, or undefined when no date of birth is set
+export const getProfileAge = (profile: JournalProfile): number | undefined =>
+  profile.dateOfBirth ? differenceInYears(new Date(), parseISO(profile.dateOfBirth)) : undefined;
+
+// Patient details printed on doctor reports
+export const getPatientInfo = (profile: JournalProfile): PatientInfo => {
+  const age = getProfileAge(profile);
+  return {
+    name: profile.name,
+    age: age !== undefined ? String(age) : undefined,
+    sex: profile.sex ? PROFILE_SEX_LABELS[profile.sex] : undefined,
+  };
+};
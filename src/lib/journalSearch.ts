@@ -0,0 +1,219 @@
+// Full-text and faceted search over journal entries. The index is built in
+// memory from decrypted entries, so it also works in vault mode and is never
+// persisted.
+import { JournalEntry } from './healthJournalTypes';
+import { compareEntriesDesc } from './journalDays';
+import { getRegionLabel } from './bodyMap';
+
+export type SearchField = 'symptoms' | 'activities' | 'diet' | 'notes' | 'moodNote' | 'captions';
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  symptoms: 'Symptoms',
+  activities: 'Activities',
+  diet: 'Diet',
+  notes: 'Notes',
+  moodNote: 'Mood note',
+  captions: 'Attachments',
+};
+
+// Matches in tagged fields count for more than matches in free text
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  symptoms: 3,
+  activities: 2,
+  diet: 2,
+  notes: 1,
+  moodNote: 1,
+  captions: 1,
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'after', 'at', 'before', 'by', 'day', 'days', 'for', 'had', 'have', 'i', 'in', 'my',
+  'of', 'on', 'or', 'the', 'to', 'was', 'week', 'when', 'with',
+]);
+
+const SNIPPET_CONTEXT = 60; // characters around the first match in long text
+
+export interface SearchFilters {
+  moodRange?: [number, number];
+  stressRange?: [number, number];
+  sleepRange?: [number, number]; // hours
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string;
+  hasAttachments?: boolean;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchMatch {
+  field: SearchField;
+  segments: HighlightSegment[];
+}
+
+export interface SearchResult {
+  entry: JournalEntry;
+  score: number;
+  matches: SearchMatch[];
+}
+
+export interface SearchIndex {
+  entries: JournalEntry[];
+  // token -> entry id -> summed field weight
+  postings: Map<string, Map<string, number>>;
+}
+
+const normalize = (text: string): string =>
+  text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export const tokenize = (text: string): string[] =>
+  normalize(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Query terms worth searching for; stop words are dropped unless nothing else is left
+const queryTerms = (query: string): string[] => {
+  const tokens = Array.from(new Set(tokenize(query)));
+  const meaningful = tokens.filter(token => !STOP_WORDS.has(token));
+  return meaningful.length > 0 ? meaningful : tokens;
+};
+
+const fieldTexts = (entry: JournalEntry): Record<SearchField, string[]> => ({
+  symptoms: [
+    ...entry.symptoms.flatMap(symptom =>
+      [symptom.name, symptom.location, symptom.notes].filter((text): text is string => !!text)
+    ),
+    ...(entry.painRegions || []).map(pain => getRegionLabel(pain.region)),
+  ],
+  activities: entry.activities,
+  diet: [...entry.diet, ...(entry.meals || []).flatMap(meal => meal.items.map(item => item.name))],
+  notes: entry.notes ? [entry.notes] : [],
+  moodNote: entry.moodNote ? [entry.moodNote] : [],
+  captions: [
+    ...(entry.attachments || []).flatMap(a => [a.caption, a.fileName].filter((text): text is string => !!text)),
+    ...(entry.labResults || []).map(result => result.testName),
+  ],
+});
+
+export const buildSearchIndex = (entries: JournalEntry[]): SearchIndex => {
+  const postings = new Map<string, Map<string, number>>();
+
+  entries.forEach(entry => {
+    const texts = fieldTexts(entry);
+    (Object.keys(texts) as SearchField[]).forEach(field => {
+      texts[field].flatMap(tokenize).forEach(token => {
+        const byEntry = postings.get(token) ?? new Map<string, number>();
+        byEntry.set(entry.id, (byEntry.get(entry.id) ?? 0) + FIELD_WEIGHTS[field]);
+        postings.set(token, byEntry);
+      });
+    });
+  });
+
+  return { entries, postings };
+};
+
+const matchesFilters = (entry: JournalEntry, filters: SearchFilters): boolean => {
+  const inRange = (value: number, range?: [number, number]) =>
+    !range || (value >= range[0] && value <= range[1]);
+
+  return (
+    inRange(entry.mood, filters.moodRange) &&
+    inRange(entry.stressLevel, filters.stressRange) &&
+    inRange(entry.sleepHours, filters.sleepRange) &&
+    (!filters.startDate || entry.date >= filters.startDate) &&
+    (!filters.endDate || entry.date <= filters.endDate) &&
+    (filters.hasAttachments === undefined || ((entry.attachments?.length ?? 0) > 0) === filters.hasAttachments)
+  );
+};
+
+// Split text into plain and highlighted parts; words are highlighted when
+// they start with one of the query terms
+export const highlightText = (text: string, terms: string[]): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  const wordPattern = /[\p{L}\p{N}]+/gu;
+  let last = 0;
+
+  for (const match of text.matchAll(wordPattern)) {
+    const word = normalize(match[0]);
+    if (!terms.some(term => word.startsWith(term))) continue;
+
+    const start = match.index ?? 0;
+    if (start > last) segments.push({ text: text.slice(last, start), match: false });
+    segments.push({ text: match[0], match: true });
+    last = start + match[0].length;
+  }
+
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+};
+
+// Trim long free text to the area around the first highlighted word
+const toSnippet = (segments: HighlightSegment[]): HighlightSegment[] => {
+  const first = segments.findIndex(segment => segment.match);
+  if (first === -1) return segments;
+
+  const before = segments.slice(0, first).map(segment => segment.text).join('');
+  if (before.length <= SNIPPET_CONTEXT) return segments;
+
+  return [{ text: `…${before.slice(-SNIPPET_CONTEXT)}`, match: false }, ...segments.slice(first)];
+};
+
+const findMatches = (entry: JournalEntry, terms: string[]): SearchMatch[] => {
+  const texts = fieldTexts(entry);
+  const matches: SearchMatch[] = [];
+
+  (Object.keys(texts) as SearchField[]).forEach(field => {
+    const highlighted = texts[field]
+      .map(text => highlightText(text, terms))
+      .filter(segments => segments.some(segment => segment.match));
+    if (highlighted.length === 0) return;
+
+    const isList = field === 'symptoms' || field === 'activities' || field === 'diet' || field === 'captions';
+    const segments = isList
+      ? highlighted.flatMap((parts, i) => (i === 0 ? parts : [{ text: ', ', match: false }, ...parts]))
+      : toSnippet(highlighted[0]);
+    matches.push({ field, segments });
+  });
+
+  return matches;
+};
+
+// Entries matching the query and filters, best match first. An empty query
+// lists every entry that passes the filters, newest first.
+export const searchJournal = (index: SearchIndex, query: string, filters: SearchFilters = {}): SearchResult[] => {
+  const terms = queryTerms(query);
+  const candidates = index.entries.filter(entry => matchesFilters(entry, filters));
+
+  if (terms.length === 0) {
+    return candidates
+      .map(entry => ({ entry, score: 0, matches: [] }))
+      .sort((a, b) => compareEntriesDesc(a.entry, b.entry));
+  }
+
+  // Each term matches indexed tokens it is a prefix of
+  const scores = new Map<string, { score: number; termsMatched: number }>();
+  const indexedTokens = Array.from(index.postings.keys());
+  terms.forEach(term => {
+    const termScores = new Map<string, number>();
+    indexedTokens
+      .filter(token => token.startsWith(term))
+      .forEach(token => {
+        index.postings.get(token)!.forEach((weight, entryId) => {
+          termScores.set(entryId, (termScores.get(entryId) ?? 0) + weight);
+        });
+      });
+
+    termScores.forEach((weight, entryId) => {
+      const current = scores.get(entryId) ?? { score: 0, termsMatched: 0 };
+      scores.set(entryId, { score: current.score + weight, termsMatched: current.termsMatched + 1 });
+    });
+  });
+
+  return candidates
+    .filter(entry => scores.has(entry.id))
+    .map(entry => {
+      const { score, termsMatched } = scores.get(entry.id)!;
+      // Entries matching more of the terms always rank above partial matches
+      return { entry, score: termsMatched * 100 + score, matches: findMatches(entry, terms) };
+    })
+    .sort((a, b) => b.score - a.score || compareEntriesDesc(a.entry, b.entry));
+};
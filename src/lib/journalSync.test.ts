@@ -0,0 +1,275 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, JournalEntry } from './healthJournalTypes';
+import { getJournalEntry, saveJournalEntry } from './healthJournalStorage';
+import { addMedication, getMedicationList } from './healthMedications';
+import { getOutbox } from './syncOutbox';
+import { getConflicts } from './journalConflicts';
+import { getQuarantinedRecords } from './schemaMigrations';
+import { scopedStorage, setStorageScope } from './storageScope';
+import { syncJournal } from './journalSync';
+
+// The real client needs a project URL; every test passes its own fake
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+type SyncClient = Parameters<typeof syncJournal>[0];
+type Row = Record<string, unknown>;
+
+// Primary keys of the tables sync writes to, as in the migrations
+const TABLE_KEYS: Record<string, string[]> = {
+  journal_entries: ['user_id', 'profile_id', 'id'],
+  prediction_settings: ['user_id', 'profile_id'],
+  journal_lists: ['user_id', 'profile_id', 'kind'],
+  journal_profiles: ['user_id'],
+};
+
+// Just enough of the Supabase client for sync: filtered selects, upserts
+// stamped with a server clock, deletes, the attachment bucket and a session
+const createFakeClient = (userId: string, { signedIn = true } = {}) => {
+  const tables: Record<string, Row[]> = Object.fromEntries(Object.keys(TABLE_KEYS).map(table => [table, []]));
+  const files = new Map<string, Blob>();
+  let serverTime = Date.parse('2026-10-19T10:00:00.000Z');
+  let requests = 0;
+
+  const stamp = (): string => {
+    serverTime += 1000;
+    return new Date(serverTime).toISOString();
+  };
+
+  const write = (table: string, row: Row, serverUpdatedAt = stamp()): Row => {
+    const key = TABLE_KEYS[table];
+    const stored = { user_id: userId, ...row, server_updated_at: serverUpdatedAt };
+    tables[table] = [...tables[table].filter(existing => !key.every(column => existing[column] === stored[column])), stored];
+    return stored;
+  };
+
+  const from = (table: string) => {
+    requests++;
+    const filters: ((row: Row) => boolean)[] = [];
+    let sortBy: string | null = null;
+    let window: [number, number] | null = null;
+    let removing = false;
+
+    const rows = (): Row[] => {
+      const matching = tables[table].filter(row => filters.every(filter => filter(row)));
+      if (sortBy) matching.sort((a, b) => String(a[sortBy]).localeCompare(String(b[sortBy])));
+      return window ? matching.slice(window[0], window[1] + 1) : matching;
+    };
+
+    const query = {
+      select: () => query,
+      eq: (column: string, value: unknown) => {
+        filters.push(row => row[column] === value);
+        return query;
+      },
+      gte: (column: string, value: string) => {
+        filters.push(row => String(row[column]) >= value);
+        return query;
+      },
+      order: (column: string) => {
+        sortBy = column;
+        return query;
+      },
+      range: (start: number, end: number) => {
+        window = [start, end];
+        return query;
+      },
+      delete: () => {
+        removing = true;
+        return query;
+      },
+      upsert: (values: Row | Row[]) => {
+        const stamped = stamp();
+        (Array.isArray(values) ? values : [values]).forEach(row => write(table, row, stamped));
+        return Promise.resolve({ data: null, error: null });
+      },
+      maybeSingle: () => Promise.resolve({ data: rows()[0] ?? null, error: null }),
+      then: <T>(resolve: (result: { data: Row[] | null; error: null }) => T) => {
+        if (removing) {
+          const removed = new Set(rows());
+          tables[table] = tables[table].filter(row => !removed.has(row));
+          return Promise.resolve(resolve({ data: null, error: null }));
+        }
+        return Promise.resolve(resolve({ data: rows(), error: null }));
+      },
+    };
+    return query;
+  };
+
+  const storage = {
+    from: () => ({
+      upload: async (path: string, blob: Blob) => {
+        files.set(path, blob);
+        return { data: { path }, error: null };
+      },
+      download: async (path: string) =>
+        files.has(path) ? { data: files.get(path), error: null } : { data: null, error: new Error('Not found') },
+      remove: async (paths: string[]) => {
+        paths.forEach(path => files.delete(path));
+        return { data: [], error: null };
+      },
+      list: async (folder: string) => ({
+        data: Array.from(files.keys())
+          .filter(path => path.startsWith(`${folder}/`))
+          .map(path => ({ name: path.slice(folder.length + 1) })),
+        error: null,
+      }),
+    }),
+  };
+
+  const auth = {
+    getSession: async () => ({ data: { session: signedIn ? { user: { id: userId } } : null } }),
+  };
+
+  return {
+    client: { from, storage, auth } as unknown as SyncClient,
+    tables,
+    files,
+    write,
+    stamp,
+    requestCount: () => requests,
+  };
+};
+
+const makeEntry = (id: string, overrides: Partial<JournalEntry> = {}): JournalEntry => ({
+  id,
+  date: '2026-10-18',
+  mood: 3,
+  symptoms: [],
+  diet: [],
+  sleepHours: 7,
+  sleepQuality: 3,
+  activities: [],
+  stressLevel: 2,
+  createdAt: Date.parse('2026-10-18T08:00:00.000Z'),
+  updatedAt: Date.parse('2026-10-18T08:00:00.000Z'),
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  ...overrides,
+});
+
+// A row written by another device of the same user
+const remoteEntry = (entry: JournalEntry): Row => ({
+  profile_id: 'default',
+  id: entry.id,
+  data: entry,
+  deleted: false,
+  updated_at: entry.updatedAt,
+});
+
+let userId = '';
+let testRun = 0;
+
+beforeEach(() => {
+  // A fresh user per test gets its own journal database and storage keys
+  userId = `user-${++testRun}`;
+  setStorageScope(userId);
+});
+
+describe('syncJournal', () => {
+  it('pushes data that existed before the first sync', async () => {
+    const { client, tables } = createFakeClient(userId);
+    await saveJournalEntry(makeEntry('entry-1', { mood: 4 }));
+    await addMedication({ name: 'Ibuprofen', strength: '400 mg', scheduleTimes: [] });
+
+    const result = await syncJournal(client);
+
+    expect(result).toMatchObject({ status: 'synced', pulled: 0 });
+    expect(tables.journal_entries).toEqual([
+      expect.objectContaining({ id: 'entry-1', profile_id: 'default', deleted: false, data: expect.objectContaining({ mood: 4 }) }),
+    ]);
+    expect(tables.journal_lists).toEqual([
+      expect.objectContaining({ kind: 'medications', data: expect.objectContaining({ medications: [expect.objectContaining({ name: 'Ibuprofen' })] }) }),
+    ]);
+    expect(await getOutbox()).toEqual([]);
+  });
+
+  it('pulls entries from other devices without sending them back', async () => {
+    const { client, write } = createFakeClient(userId);
+    write('journal_entries', remoteEntry(makeEntry('entry-2', { notes: 'From the phone' })));
+
+    expect(await syncJournal(client)).toMatchObject({ status: 'synced', pushed: 0, pulled: 1 });
+    expect(await getJournalEntry('entry-2')).toMatchObject({ notes: 'From the phone' });
+    expect(await getOutbox()).toEqual([]);
+
+    // The overlap window reads the row again, but it is not applied twice
+    expect(await syncJournal(client)).toMatchObject({ pushed: 0, pulled: 0 });
+  });
+
+  it('picks up a row that committed after the cursor passed its timestamp', async () => {
+    const { client, write, tables } = createFakeClient(userId);
+    write('journal_entries', remoteEntry(makeEntry('entry-early')));
+    await syncJournal(client);
+
+    // Stamped before the row already pulled, but only visible now
+    const cursor = Date.parse(String(tables.journal_entries[0].server_updated_at));
+    write('journal_entries', remoteEntry(makeEntry('entry-late')), new Date(cursor - 1000).toISOString());
+
+    expect(await syncJournal(client)).toMatchObject({ pulled: 1 });
+    expect(await getJournalEntry('entry-late')).not.toBeNull();
+  });
+
+  it('merges an entry edited on both devices since the last sync', async () => {
+    const { client, write, tables } = createFakeClient(userId);
+    const original = makeEntry('entry-3');
+    await saveJournalEntry(original);
+    await syncJournal(client);
+
+    await saveJournalEntry({ ...original, diet: ['Coffee'] });
+    write('journal_entries', remoteEntry({ ...original, activities: ['Walk'], updatedAt: Date.now() + 60000 }));
+
+    await syncJournal(client);
+
+    expect(await getJournalEntry('entry-3')).toMatchObject({ diet: ['Coffee'], activities: ['Walk'] });
+    expect(tables.journal_entries[0].data).toMatchObject({ diet: ['Coffee'], activities: ['Walk'] });
+    expect(await getConflicts()).toEqual([]);
+  });
+
+  it('merges medication lists from both devices', async () => {
+    const { client, write, tables } = createFakeClient(userId);
+    await addMedication({ name: 'Ibuprofen', scheduleTimes: [] });
+    write('journal_lists', {
+      profile_id: 'default',
+      kind: 'medications',
+      data: {
+        medications: [{ id: 'med-remote', name: 'Propranolol', scheduleTimes: ['08:00'], createdAt: 1, updatedAt: 1 }],
+        updatedAt: 1,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+      },
+      updated_at: 1,
+    });
+
+    await syncJournal(client);
+
+    const names = (await getMedicationList()).medications.map(medication => medication.name).sort();
+    expect(names).toEqual(['Ibuprofen', 'Propranolol']);
+    const remote = tables.journal_lists[0].data as { medications: { name: string }[] };
+    expect(remote.medications.map(medication => medication.name).sort()).toEqual(['Ibuprofen', 'Propranolol']);
+  });
+
+  it('quarantines remote entries that fail validation', async () => {
+    const { client, write } = createFakeClient(userId);
+    write('journal_entries', remoteEntry(makeEntry('entry-bad', { mood: 12 as JournalEntry['mood'] })));
+
+    expect(await syncJournal(client)).toMatchObject({ status: 'synced', pulled: 0 });
+    expect(await getJournalEntry('entry-bad')).toBeNull();
+    expect(await getQuarantinedRecords()).toEqual([
+      expect.objectContaining({ kind: 'journalEntry', source: 'sync', errors: ['Mood must be 1-5'] }),
+    ]);
+  });
+
+  it('stays off while vault mode is on', async () => {
+    const { client, requestCount } = createFakeClient(userId);
+    scopedStorage.setItem('bioguard_vault', JSON.stringify({ enabled: true }));
+
+    expect(await syncJournal(client)).toEqual({ status: 'vault', pushed: 0, pulled: 0 });
+    expect(requestCount()).toBe(0);
+  });
+
+  it('does nothing without a session', async () => {
+    const { client, requestCount } = createFakeClient(userId, { signedIn: false });
+
+    expect(await syncJournal(client)).toEqual({ status: 'signed-out', pushed: 0, pulled: 0 });
+    expect(requestCount()).toBe(0);
+  });
+});
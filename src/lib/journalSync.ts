@@ -0,0 +1,576 @@
+// Two-way sync of the journal with Supabase. Local IndexedDB stays the source
+// of truth for the UI; changes are queued in the outbox and pushed when online.
+// Conflicts are resolved last-writer-wins on the client change time.
+// Sync is off while vault mode is on: the vault key is derived on this device
+// only, so other devices could not read what it uploads.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { JournalEntry } from './healthJournalTypes';
+import { PredictionSettings } from './healthPredictionTypes';
+import { deleteJournalEntry, getAllJournalEntries, getJournalEntry, saveJournalEntry } from './healthJournalStorage';
+import { getAttachmentBlob, getStoredAttachmentIds, saveAttachmentBlob } from './healthJournalAttachments';
+import { PREDICTION_SETTINGS_KEY, PREDICTION_SETTINGS_RECORD_ID, savePredictionSettings } from './healthPredictionEngine';
+import {
+  MEDICATIONS_KEY,
+  MEDICATIONS_RECORD_ID,
+  MedicationList,
+  getMedicationList,
+  mergeMedicationLists,
+  saveMedicationList
+} from './healthMedications';
+import {
+  INTAKE_KEY,
+  INTAKE_RECORD_ID,
+  IntakeLog,
+  getIntakeLog,
+  mergeIntakeLogs,
+  saveIntakeLog
+} from './healthIntake';
+import {
+  TRACKERS_KEY,
+  TRACKERS_RECORD_ID,
+  TrackerList,
+  getTrackerList,
+  mergeTrackerLists,
+  saveTrackerList
+} from './healthTrackers';
+import { OutboxItem, SyncKind, WriteOptions, clearOutboxItems, getOutbox, queueChanges } from './syncOutbox';
+import { MergeOutcome } from './listMerge';
+import { PersistedKind, quarantineRecord, upgradeRecord } from './schemaMigrations';
+import { reconcileEntry } from './journalConflicts';
+import { secureGetItem } from './secureStorage';
+import { isVaultEnabled } from './healthJournalVault';
+import { DEFAULT_PROFILE_ID, getActiveProfileId, scopedStorage } from './storageScope';
+import { JournalProfile, getAllProfileRecords, mergeRemoteProfiles, removeProfileData } from './journalProfiles';
+
+type SyncClient = SupabaseClient<Database>;
+type EntryRow = Database['public']['Tables']['journal_entries']['Row'];
+type ListRow = Database['public']['Tables']['journal_lists']['Row'];
+
+// Whose data a sync pass reads and writes
+interface SyncOwner {
+  userId: string;
+  profileId: string;
+}
+
+const SYNC_STATE_KEY = 'bioguard_sync_state';
+const ATTACHMENT_BUCKET = 'journal-attachments';
+const PULL_PAGE_SIZE = 500;
+// Rows are stamped before they commit, so one can appear behind the cursor
+// after it moved on; every pull reaches this far back to catch it
+const PULL_OVERLAP_MS = 5 * 60 * 1000;
+
+export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'offline' | 'signed-out' | 'vault' | 'error';
+
+export interface SyncResult {
+  status: SyncStatus;
+  pushed: number;
+  pulled: number;
+  error?: string;
+}
+
+export interface SyncSnapshot {
+  status: SyncStatus;
+  lastSyncedAt: number | null;
+  error?: string;
+}
+
+interface SyncState {
+  lastPulledAt: string | null; // server_updated_at cursor
+  recentlyPulled: Record<string, string>; // Entry id -> server_updated_at of rows applied within the overlap window
+  lastSyncedAt: number | null;
+  initialPushDone: boolean;
+}
+
+let syncInFlight: Promise<SyncResult> | null = null;
+let snapshot: SyncSnapshot = { status: 'idle', lastSyncedAt: null };
+const listeners = new Set<() => void>();
+
+const getSyncState = (): SyncState => {
+  const stored = scopedStorage.getItem(SYNC_STATE_KEY);
+  const defaults: SyncState = { lastPulledAt: null, recentlyPulled: {}, lastSyncedAt: null, initialPushDone: false };
+  if (!stored) return defaults;
+  try {
+    return { ...defaults, ...JSON.parse(stored) };
+  } catch {
+    return defaults;
+  }
+};
+
+const saveSyncState = (state: SyncState): void => {
+  scopedStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+};
+
+const setSnapshot = (next: SyncSnapshot) => {
+  snapshot = next;
+  listeners.forEach(listener => listener());
+};
+
+export const getSyncSnapshot = (): SyncSnapshot => snapshot;
+
+export const subscribeToSync = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Re-read the stored state after switching users
+export const refreshSyncSnapshot = (): void => {
+  setSnapshot({ status: 'idle', lastSyncedAt: getSyncState().lastSyncedAt });
+};
+
+// The default profile keeps the layout used before profiles existed
+const profileFolder = ({ userId, profileId }: SyncOwner) =>
+  profileId === DEFAULT_PROFILE_ID ? userId : `${userId}/${profileId}`;
+
+const attachmentPath = (owner: SyncOwner, attachmentId: string) => `${profileFolder(owner)}/${attachmentId}`;
+
+const entryTimestamp = (entry: JournalEntry): number => entry.updatedAt ?? entry.createdAt;
+
+// Validate a record written by another device before storing it
+const upgradeRemote = async <T>(kind: PersistedKind, row: { data: Json | null }): Promise<T | null> => {
+  const result = await upgradeRecord<T>(kind, row.data);
+  if (result.ok === true) return result.record;
+
+  await quarantineRecord(kind, 'sync', row.data, result.errors);
+  return null;
+};
+
+// A list kept as one record per profile and merged record by record, so
+// edits made on two devices both survive
+interface SyncedList<T extends { updatedAt: number }> {
+  kind: SyncKind; // Also its journal_lists.kind
+  storageKey: string;
+  recordId: string; // Its id in the outbox
+  schema: PersistedKind;
+  load: () => Promise<T>;
+  save: (value: T, options: WriteOptions) => Promise<void>;
+  merge: (local: T, remote: T) => MergeOutcome<T>;
+}
+
+interface ListSync {
+  kind: SyncKind;
+  storageKey: string;
+  recordId: string;
+  push: (client: SyncClient, owner: SyncOwner) => Promise<void>;
+  pull: (row: ListRow) => Promise<number>;
+}
+
+const syncedList = <T extends { updatedAt: number }>(list: SyncedList<T>): ListSync => ({
+  kind: list.kind,
+  storageKey: list.storageKey,
+  recordId: list.recordId,
+
+  push: async (client, { userId, profileId }) => {
+    const value = await secureGetItem<T>(list.storageKey);
+    if (!value) return;
+
+    const { error } = await client.from('journal_lists').upsert({
+      user_id: userId,
+      profile_id: profileId,
+      kind: list.kind,
+      data: value as unknown as Json,
+      updated_at: value.updatedAt,
+    }, { onConflict: 'user_id,profile_id,kind' });
+    if (error) throw error;
+  },
+
+  pull: async row => {
+    const remote = await upgradeRemote<T>(list.schema, row);
+    if (!remote) return 0;
+
+    const { merged, localNewer, remoteNewer } = list.merge(await list.load(), remote);
+    if (remoteNewer) {
+      await list.save(merged, { markChanged: false });
+    }
+
+    const pending = (await getOutbox()).find(item => item.kind === list.kind);
+    if (localNewer) {
+      await queueChanges(list.kind, [list.recordId]);
+    } else if (pending) {
+      await clearOutboxItems([pending]);
+    }
+    return remoteNewer ? 1 : 0;
+  },
+});
+
+const SYNCED_LISTS: ListSync[] = [
+  syncedList<MedicationList>({
+    kind: 'medications',
+    storageKey: MEDICATIONS_KEY,
+    recordId: MEDICATIONS_RECORD_ID,
+    schema: 'medicationList',
+    load: getMedicationList,
+    save: saveMedicationList,
+    merge: mergeMedicationLists,
+  }),
+  syncedList<TrackerList>({
+    kind: 'trackers',
+    storageKey: TRACKERS_KEY,
+    recordId: TRACKERS_RECORD_ID,
+    schema: 'trackerList',
+    load: getTrackerList,
+    save: saveTrackerList,
+    merge: mergeTrackerLists,
+  }),
+  // Counters are merged day by day
+  syncedList<IntakeLog>({
+    kind: 'intake',
+    storageKey: INTAKE_KEY,
+    recordId: INTAKE_RECORD_ID,
+    schema: 'intakeLog',
+    load: getIntakeLog,
+    save: saveIntakeLog,
+    merge: mergeIntakeLogs,
+  }),
+];
+
+// First sync on this device: queue everything that already exists locally
+const queueExistingData = async (): Promise<void> => {
+  const entries = await getAllJournalEntries();
+  await queueChanges('entry', entries.map(entry => entry.id));
+  await queueChanges('attachment', await getStoredAttachmentIds());
+  if (scopedStorage.getItem(PREDICTION_SETTINGS_KEY) !== null) {
+    await queueChanges('predictionSettings', [PREDICTION_SETTINGS_RECORD_ID]);
+  }
+  for (const list of SYNCED_LISTS) {
+    if (scopedStorage.getItem(list.storageKey) !== null) {
+      await queueChanges(list.kind, [list.recordId]);
+    }
+  }
+};
+
+const uploadAttachment = async (client: SyncClient, owner: SyncOwner, id: string): Promise<void> => {
+  const blob = await getAttachmentBlob(id);
+  if (!blob) return;
+
+  const { error } = await client.storage.from(ATTACHMENT_BUCKET).upload(attachmentPath(owner, id), blob, {
+    upsert: true,
+    contentType: blob.type || 'application/octet-stream',
+  });
+  if (error) throw error;
+};
+
+// Files of the entry's attachments, including trashed ones so they can be restored
+const downloadMissingAttachments = async (
+  client: SyncClient,
+  owner: SyncOwner,
+  entry: JournalEntry
+): Promise<void> => {
+  for (const attachment of [...(entry.attachments || []), ...(entry.trashedAttachments || [])]) {
+    if (await getAttachmentBlob(attachment.id)) continue;
+
+    const { data, error } = await client.storage.from(ATTACHMENT_BUCKET).download(attachmentPath(owner, attachment.id));
+    if (error || !data) {
+      console.warn(`Attachment ${attachment.id} is not available in the cloud yet`);
+      continue;
+    }
+
+    await saveAttachmentBlob(attachment.id, data, { markChanged: false });
+  }
+};
+
+const pushChanges = async (client: SyncClient, owner: SyncOwner): Promise<number> => {
+  const { userId, profileId } = owner;
+  const items = await getOutbox();
+  if (items.length === 0) return 0;
+
+  const entryRows: Database['public']['Tables']['journal_entries']['Insert'][] = [];
+  const removedFiles: string[] = [];
+
+  for (const item of items) {
+    if (item.kind === 'entry') {
+      if (item.deleted) {
+        entryRows.push({
+          user_id: userId,
+          profile_id: profileId,
+          id: item.recordId,
+          data: null,
+          deleted: true,
+          updated_at: item.queuedAt,
+        });
+        continue;
+      }
+      const entry = await getJournalEntry(item.recordId);
+      if (entry) {
+        entryRows.push({
+          user_id: userId,
+          profile_id: profileId,
+          id: entry.id,
+          data: entry as unknown as Json,
+          deleted: false,
+          updated_at: entryTimestamp(entry),
+        });
+      }
+    } else if (item.kind === 'attachment') {
+      if (item.deleted) {
+        removedFiles.push(attachmentPath(owner, item.recordId));
+      } else {
+        await uploadAttachment(client, owner, item.recordId);
+      }
+    } else if (item.kind === 'predictionSettings') {
+      const settings = await secureGetItem<PredictionSettings>(PREDICTION_SETTINGS_KEY);
+      if (settings) {
+        const { error } = await client.from('prediction_settings').upsert({
+          user_id: userId,
+          profile_id: profileId,
+          data: settings as unknown as Json,
+          updated_at: settings.updatedAt ?? 0,
+        }, { onConflict: 'user_id,profile_id' });
+        if (error) throw error;
+      }
+    } else {
+      await SYNCED_LISTS.find(list => list.kind === item.kind)?.push(client, owner);
+    }
+  }
+
+  if (entryRows.length > 0) {
+    const { error } = await client.from('journal_entries').upsert(entryRows, { onConflict: 'user_id,profile_id,id' });
+    if (error) throw error;
+  }
+
+  if (removedFiles.length > 0) {
+    const { error } = await client.storage.from(ATTACHMENT_BUCKET).remove(removedFiles);
+    if (error) throw error;
+  }
+
+  await clearOutboxItems(items);
+  return items.length;
+};
+
+const applyRemoteEntry = async (
+  client: SyncClient,
+  owner: SyncOwner,
+  row: EntryRow,
+  pending: OutboxItem | undefined
+): Promise<boolean> => {
+  const local = await getJournalEntry(row.id);
+
+  // Edited here and on another device since the last sync: merge the two
+  if (local && pending && !pending.deleted && !row.deleted) {
+    const incoming = await upgradeRemote<JournalEntry>('journalEntry', row);
+    if (!incoming) return false;
+
+    const outcome = await reconcileEntry(local, { ...incoming, updatedAt: row.updated_at }, 'sync');
+    await downloadMissingAttachments(client, owner, incoming);
+    return outcome !== 'unchanged';
+  }
+
+  const localTimestamp = pending?.deleted ? pending.queuedAt : local ? entryTimestamp(local) : 0;
+
+  // The local copy (or local deletion) is at least as new; it will be pushed
+  if ((local || pending) && row.updated_at <= localTimestamp) return false;
+
+  if (row.deleted) {
+    if (local) await deleteJournalEntry(row.id, { markChanged: false });
+  } else {
+    const entry = await upgradeRemote<JournalEntry>('journalEntry', row);
+    if (!entry) return false;
+    await saveJournalEntry({ ...entry, updatedAt: row.updated_at }, { markChanged: false });
+    await downloadMissingAttachments(client, owner, entry);
+  }
+
+  // Remote won; drop the superseded local change
+  if (pending) await clearOutboxItems([pending]);
+  return true;
+};
+
+const overlapStart = (cursor: string): number => new Date(cursor).getTime() - PULL_OVERLAP_MS;
+
+const pullEntries = async (client: SyncClient, owner: SyncOwner, state: SyncState): Promise<number> => {
+  const outbox = new Map((await getOutbox()).map(item => [item.key, item]));
+  const since = state.lastPulledAt ? new Date(overlapStart(state.lastPulledAt)).toISOString() : null;
+  let cursor = state.lastPulledAt;
+  let pulled = 0;
+
+  for (let from = 0; ; from += PULL_PAGE_SIZE) {
+    let query = client
+      .from('journal_entries')
+      .select('*')
+      .eq('profile_id', owner.profileId)
+      .order('server_updated_at', { ascending: true })
+      .range(from, from + PULL_PAGE_SIZE - 1);
+    if (since) {
+      query = query.gte('server_updated_at', since);
+    }
+
+    const { data: rows, error } = await query;
+    if (error) throw error;
+
+    for (const row of rows || []) {
+      // Seen on an earlier pass through the overlap window
+      if (state.recentlyPulled[row.id] === row.server_updated_at) continue;
+
+      if (await applyRemoteEntry(client, owner, row, outbox.get(`entry:${row.id}`))) {
+        pulled++;
+      }
+      state.recentlyPulled[row.id] = row.server_updated_at;
+      if (!cursor || row.server_updated_at > cursor) cursor = row.server_updated_at;
+    }
+
+    if (!rows || rows.length < PULL_PAGE_SIZE) break;
+  }
+
+  state.lastPulledAt = cursor;
+  if (cursor) {
+    const keepFrom = overlapStart(cursor);
+    state.recentlyPulled = Object.fromEntries(
+      Object.entries(state.recentlyPulled).filter(([, pulledAt]) => new Date(pulledAt).getTime() >= keepFrom)
+    );
+  }
+  return pulled;
+};
+
+const pullPredictionSettings = async (client: SyncClient, owner: SyncOwner): Promise<number> => {
+  const { data: row, error } = await client
+    .from('prediction_settings')
+    .select('*')
+    .eq('profile_id', owner.profileId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!row) return 0;
+
+  const local = await secureGetItem<PredictionSettings>(PREDICTION_SETTINGS_KEY).catch(() => null);
+  if (row.updated_at <= (local?.updatedAt ?? 0)) return 0;
+
+  const settings = await upgradeRemote<PredictionSettings>('predictionSettings', row);
+  if (!settings) return 0;
+
+  await savePredictionSettings({ ...settings, updatedAt: row.updated_at }, { markChanged: false });
+  const pending = (await getOutbox()).find(item => item.kind === 'predictionSettings');
+  if (pending) await clearOutboxItems([pending]);
+  return 1;
+};
+
+// Lists of every kind for the profile come back in one request
+const pullLists = async (client: SyncClient, owner: SyncOwner): Promise<number> => {
+  const { data: rows, error } = await client.from('journal_lists').select('*').eq('profile_id', owner.profileId);
+  if (error) throw error;
+
+  let pulled = 0;
+  for (const row of rows || []) {
+    pulled += await SYNCED_LISTS.find(list => list.kind === row.kind)?.pull(row) ?? 0;
+  }
+  return pulled;
+};
+
+const isProfileRecord = (value: unknown): value is JournalProfile =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as JournalProfile).id === 'string' && typeof (value as JournalProfile).name === 'string' &&
+  typeof (value as JournalProfile).updatedAt === 'number';
+
+// Remove the cloud copy of a deleted profile's journal
+const deleteRemoteProfileData = async (client: SyncClient, owner: SyncOwner): Promise<void> => {
+  const { error: entriesError } = await client.from('journal_entries').delete().eq('profile_id', owner.profileId);
+  if (entriesError) throw entriesError;
+  const { error: settingsError } = await client.from('prediction_settings').delete().eq('profile_id', owner.profileId);
+  if (settingsError) throw settingsError;
+  const { error: listsError } = await client.from('journal_lists').delete().eq('profile_id', owner.profileId);
+  if (listsError) throw listsError;
+
+  const bucket = client.storage.from(ATTACHMENT_BUCKET);
+  const { data: files, error: listError } = await bucket.list(profileFolder(owner));
+  if (listError) throw listError;
+  if (files && files.length > 0) {
+    const { error } = await bucket.remove(files.map(file => `${profileFolder(owner)}/${file.name}`));
+    if (error) throw error;
+  }
+};
+
+// The profile list is shared by all profiles and merged on every pass
+const syncProfiles = async (client: SyncClient, userId: string): Promise<void> => {
+  const { data: row, error } = await client.from('journal_profiles').select('*').maybeSingle();
+  if (error) throw error;
+
+  const remote = Array.isArray(row?.data) ? (row.data as unknown[]).filter(isProfileRecord) : [];
+  for (const profileId of mergeRemoteProfiles(remote)) {
+    await removeProfileData(profileId).catch(error => console.warn(`Could not remove profile ${profileId}:`, error));
+  }
+
+  const remoteById = new Map(remote.map(profile => [profile.id, profile]));
+  const profiles = getAllProfileRecords();
+  const changed = profiles.filter(profile => (remoteById.get(profile.id)?.updatedAt ?? -1) < profile.updatedAt);
+  if (changed.length === 0) return;
+
+  const { error: pushError } = await client
+    .from('journal_profiles')
+    .upsert({ user_id: userId, data: profiles as unknown as Json });
+  if (pushError) throw pushError;
+
+  // Profiles deleted on this device since the last push
+  for (const profile of changed) {
+    if (profile.deletedAt && !remoteById.get(profile.id)?.deletedAt) {
+      await deleteRemoteProfileData(client, { userId, profileId: profile.id });
+    }
+  }
+};
+
+const runSync = async (client: SyncClient): Promise<SyncResult> => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return { status: 'offline', pushed: 0, pulled: 0 };
+  }
+  if (isVaultEnabled()) {
+    return { status: 'vault', pushed: 0, pulled: 0 };
+  }
+
+  const { data: { session } } = await client.auth.getSession();
+  if (!session) {
+    return { status: 'signed-out', pushed: 0, pulled: 0 };
+  }
+
+  const owner: SyncOwner = { userId: session.user.id, profileId: getActiveProfileId() };
+  const state = getSyncState();
+
+  await syncProfiles(client, owner.userId);
+
+  if (!state.initialPushDone) {
+    await queueExistingData();
+    state.initialPushDone = true;
+  }
+
+  // Pull first so concurrent remote edits are merged into queued local ones
+  let pulled = await pullEntries(client, owner, state) +
+    await pullPredictionSettings(client, owner) +
+    await pullLists(client, owner);
+  const pushed = await pushChanges(client, owner);
+
+  // Move the cursor past the rows just pushed so they are not mistaken for
+  // concurrent edits next time
+  if (pushed > 0) {
+    pulled += await pullEntries(client, owner, state);
+  }
+
+  state.lastSyncedAt = Date.now();
+  saveSyncState(state);
+  return { status: 'synced', pushed, pulled };
+};
+
+// Run one sync pass. Concurrent calls share the pass already in progress.
+export const syncJournal = (client: SyncClient = supabase): Promise<SyncResult> => {
+  if (syncInFlight) return syncInFlight;
+
+  setSnapshot({ ...snapshot, status: 'syncing', error: undefined });
+
+  syncInFlight = runSync(client)
+    .catch((error): SyncResult => {
+      console.error('Journal sync failed:', error);
+      const offline = typeof navigator !== 'undefined' && !navigator.onLine;
+      return {
+        status: offline ? 'offline' : 'error',
+        pushed: 0,
+        pulled: 0,
+        error: error instanceof Error ? error.message : String(error?.message ?? error),
+      };
+    })
+    .then(result => {
+      setSnapshot({ status: result.status, lastSyncedAt: getSyncState().lastSyncedAt, error: result.error });
+      return result;
+    })
+    .finally(() => {
+      syncInFlight = null;
+    });
+
+  return syncInFlight;
+};
@@ -0,0 +1,39 @@
+// Newest-change-wins merge of records kept by key, shared by the lists that
+// sync as one record per profile (medications, trackers and tags, intake days)
+
+export interface MergeOutcome<T> {
+  merged: T;
+  localNewer: boolean; // The merged value has changes the other side lacks
+  remoteNewer: boolean; // The merged value picked up changes from the other side
+}
+
+// Records on one side only are kept; on both sides the one changed last wins
+export const mergeNewestByKey = <T extends { updatedAt: number }>(
+  local: Record<string, T>,
+  remote: Record<string, T>
+): MergeOutcome<Record<string, T>> => {
+  const merged = { ...local };
+  let localNewer = Object.keys(local).some(key => !(key in remote));
+  let remoteNewer = false;
+
+  Object.entries(remote).forEach(([key, incoming]) => {
+    const current = merged[key];
+    if (!current || incoming.updatedAt > current.updatedAt) {
+      merged[key] = incoming;
+      remoteNewer = true;
+    } else if (current.updatedAt > incoming.updatedAt) {
+      localNewer = true;
+    }
+  });
+
+  return { merged, localNewer, remoteNewer };
+};
+
+export const mergeNewestById = <T extends { id: string; updatedAt: number }>(
+  local: T[],
+  remote: T[]
+): MergeOutcome<T[]> => {
+  const byId = (items: T[]) => Object.fromEntries(items.map(item => [item.id, item]));
+  const { merged, localNewer, remoteNewer } = mergeNewestByKey(byId(local), byId(remote));
+  return { merged: Object.values(merged), localNewer, remoteNewer };
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { extractPdfText } from './pdfText';
+
+const deflate = async (text: string): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([text]).stream().pipeThrough(new CompressionStream('deflate'))).arrayBuffer());
+
+// One stream object; `data` is written as is, so pass compressed bytes with a filter
+const streamObject = (id: number, data: string | Uint8Array, dictionary = ''): BlobPart[] => [
+  `${id} 0 obj\n<< /Length ${data.length}${dictionary} >>\nstream\n`,
+  data,
+  '\nendstream\nendobj\n',
+];
+
+const pdf = (...objects: BlobPart[][]): Blob => new Blob(['%PDF-1.4\n', ...objects.flat(), '%%EOF\n']);
+
+describe('extractPdfText', () => {
+  it('puts text on one baseline on one line and starts a new line when the baseline moves', async () => {
+    const file = pdf(streamObject(1, 'BT /F1 12 Tf 72 720 Td (Hemoglobin) Tj 200 0 Td (13.5 g/dL) Tj 0 -14 Td (Glucose) Tj ET'));
+    expect(await extractPdfText(file)).toBe('Hemoglobin 13.5 g/dL\nGlucose');
+  });
+
+  it('places text by absolute text matrices', async () => {
+    const file = pdf(streamObject(1, 'BT 1 0 0 1 72 700 Tm (TSH) Tj 1 0 0 1 250 700 Tm (2.1) Tj 1 0 0 1 72 680 Tm (T4) Tj ET'));
+    expect(await extractPdfText(file)).toBe('TSH 2.1\nT4');
+  });
+
+  it('reads Flate-compressed streams', async () => {
+    const file = pdf(streamObject(1, await deflate('BT 72 700 Td (Ferritin 45 ng/mL) Tj ET'), ' /Filter /FlateDecode'));
+    expect(await extractPdfText(file)).toBe('Ferritin 45 ng/mL');
+  });
+
+  it('joins kerned pieces and turns wide gaps into spaces', async () => {
+    const file = pdf(streamObject(1, 'BT 72 700 Td [(Chol)-20(esterol)-300(5.2)] TJ ET'));
+    expect(await extractPdfText(file)).toBe('Cholesterol 5.2');
+  });
+
+  it('decodes escapes, octal codes and balanced brackets in literal strings', async () => {
+    const file = pdf(streamObject(1, 'BT 72 700 Td (LDL \\(calc\\) 3\\0564 mmol/L) Tj 0 -14 Td (Ratio (HDL) 1.2) Tj ET'));
+    expect(await extractPdfText(file)).toBe('LDL (calc) 3.4 mmol/L\nRatio (HDL) 1.2');
+  });
+
+  it('decodes single-byte hex strings and drops two-byte ones', async () => {
+    const file = pdf(streamObject(1, 'BT 72 700 Td <4862413163> Tj <00350025> Tj ( 5.8 %) Tj ET'));
+    expect(await extractPdfText(file)).toBe('HbA1c 5.8 %');
+  });
+
+  it('starts a new line for the quote operators', async () => {
+    const file = pdf(streamObject(1, "BT 72 700 Td 14 TL (Sodium 140) Tj (Potassium 4.2) ' ET"));
+    expect(await extractPdfText(file)).toBe('Sodium 140\nPotassium 4.2');
+  });
+
+  it('skips images, unsupported filters and streams without text', async () => {
+    const file = pdf(
+      streamObject(1, 'BT 72 700 Td (Scanned) Tj ET', ' /Subtype /Image /Width 1 /Height 1'),
+      streamObject(2, 'BT 72 700 Td (Encoded) Tj ET', ' /Filter /DCTDecode'),
+      streamObject(3, '0 0 m 100 100 l S'),
+      streamObject(4, 'BT 72 700 Td (Vitamin D 62 nmol/L) Tj ET')
+    );
+    expect(await extractPdfText(file)).toBe('Vitamin D 62 nmol/L');
+  });
+
+  it('puts each page on its own lines', async () => {
+    const file = pdf(
+      streamObject(1, 'BT 72 700 Td (Page one) Tj ET'),
+      streamObject(2, await deflate('BT 72 700 Td (Page two) Tj ET'), ' /Filter [/FlateDecode]')
+    );
+    expect(await extractPdfText(file)).toBe('Page one\nPage two');
+  });
+
+  it('returns nothing for a PDF without text', async () => {
+    expect(await extractPdfText(pdf(streamObject(1, '0 0 m 100 100 l S')))).toBe('');
+  });
+});
@@ -0,0 +1,217 @@
+// Plain text from text-based PDFs, enough to read values off a lab report.
+// Only content streams that are unfiltered or Flate-compressed are read, and
+// only strings in single-byte encodings; scanned reports come back empty.
+
+// One character per byte, so string offsets line up with the file's bytes
+const toBinaryString = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return text;
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate')).getReader();
+  const chunks: Uint8Array[] = [];
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+  } catch {
+    // Streams often end with a stray line break after the compressed data;
+    // keep whatever was inflated before it
+  }
+
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+};
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+// Read a (literal string) starting at its opening bracket
+const readLiteral = (content: string, start: number): { text: string; end: number } => {
+  let text = '';
+  let depth = 0;
+  let i = start;
+  for (; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\\') {
+      const next = content[++i];
+      if (/[0-7]/.test(next)) {
+        const octal = content.slice(i, i + 3).match(/^[0-7]{1,3}/)?.[0] ?? next;
+        text += String.fromCharCode(parseInt(octal, 8));
+        i += octal.length - 1;
+      } else if (next === '\r' || next === '\n') {
+        if (next === '\r' && content[i + 1] === '\n') i++;
+      } else {
+        text += ESCAPES[next] ?? next;
+      }
+    } else if (char === '(') {
+      if (depth++ > 0) text += char;
+    } else if (char === ')') {
+      if (--depth === 0) break;
+      text += char;
+    } else {
+      text += char;
+    }
+  }
+  return { text, end: i + 1 };
+};
+
+// Hex strings in two-byte font encodings can't be read without the font's
+// character map, so anything that doesn't decode to printable text is dropped
+const decodeHex = (hex: string): string => {
+  const digits = hex.replace(/[^0-9a-f]/gi, '');
+  let text = '';
+  for (let i = 0; i < digits.length; i += 2) {
+    text += String.fromCharCode(parseInt(digits.slice(i, i + 2).padEnd(2, '0'), 16));
+  }
+  return /^[\x20-\x7e\xa0-\xff]*$/.test(text) ? text : '';
+};
+
+type Operand = string | number | Operand[];
+
+// Walk a content stream's operators, writing out shown text. Text on a new
+// baseline starts a new line; a move along the same one becomes a space.
+const extractStreamText = (content: string): string => {
+  let output = '';
+  let operands: Operand[] = [];
+  const arrays: Operand[][] = [];
+  let y = 0; // Baseline of the text position
+  let printedY: number | null = null; // Baseline of the last text written
+  let moved = false;
+
+  const push = (operand: Operand) => (arrays.length > 0 ? arrays[arrays.length - 1] : operands).push(operand);
+  const newLine = () => {
+    if (output && !output.endsWith('\n')) output += '\n';
+  };
+  const space = () => {
+    if (output && !/\s$/.test(output)) output += ' ';
+  };
+  const write = (text: string) => {
+    if (!text) return;
+    if (printedY !== null && Math.abs(y - printedY) > 1) newLine();
+    else if (moved) space();
+    output += text;
+    printedY = y;
+    moved = false;
+  };
+  // Next-line operators move down by the leading, which isn't tracked
+  const nextLine = () => {
+    newLine();
+    printedY = null;
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const char = content[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '%') {
+      i = content.indexOf('\n', i) === -1 ? content.length : content.indexOf('\n', i);
+    } else if (char === '(') {
+      const { text, end } = readLiteral(content, i);
+      push(text);
+      i = end;
+    } else if (content.startsWith('<<', i) || content.startsWith('>>', i)) {
+      i += 2;
+    } else if (char === '<') {
+      const end = content.indexOf('>', i);
+      push(decodeHex(content.slice(i + 1, end)));
+      i = end + 1;
+    } else if (char === '[') {
+      arrays.push([]);
+      i++;
+    } else if (char === ']') {
+      const array = arrays.pop() ?? [];
+      push(array);
+      i++;
+    } else if (/[-+.\d]/.test(char)) {
+      const number = content.slice(i).match(/^[-+]?\d*\.?\d*/)?.[0] ?? char;
+      push(parseFloat(number) || 0);
+      i += Math.max(number.length, 1);
+    } else if (char === '/') {
+      const name = content.slice(i).match(/^\/[^\s/[\]()<>{}%]*/)?.[0] ?? char;
+      push(name);
+      i += name.length;
+    } else {
+      const operator = content.slice(i).match(/^[^\s/[\]()<>{}%]+/)?.[0] ?? char;
+      i += operator.length;
+      const last = operands[operands.length - 1];
+      switch (operator) {
+        case 'BT':
+          y = 0;
+          moved = true;
+          break;
+        case 'Td':
+        case 'TD':
+          if (typeof last === 'number') y += last;
+          moved = true;
+          break;
+        case 'Tm':
+          if (typeof last === 'number') y = last;
+          moved = true;
+          break;
+        case 'T*':
+          nextLine();
+          break;
+        case 'Tj':
+          if (typeof last === 'string') write(last);
+          break;
+        case "'":
+        case '"':
+          nextLine();
+          if (typeof last === 'string') write(last);
+          break;
+        case 'TJ':
+          if (Array.isArray(last)) {
+            last.forEach(part => {
+              if (typeof part === 'string') write(part);
+              // Large negative kerning is how many generators space out words
+              else if (typeof part === 'number' && part < -200) space();
+            });
+          }
+          break;
+      }
+      operands = [];
+    }
+  }
+  return output;
+};
+
+export const extractPdfText = async (file: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const raw = toBinaryString(bytes);
+  const pages: string[] = [];
+
+  const streamStart = /(?<!end)stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamStart.exec(raw))) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) break;
+
+    const dictionary = raw.slice(raw.lastIndexOf(' obj', match.index), match.index);
+    streamStart.lastIndex = end;
+    if (/\/Subtype\s*\/Image/.test(dictionary)) continue;
+    const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1].match(/\/\w+/g) ?? [];
+    if (filters.some(filter => filter !== '/FlateDecode')) continue;
+
+    const data = bytes.subarray(start, end);
+    const content = toBinaryString(filters.length > 0 ? await inflate(data) : data);
+    if (!/\bBT\b/.test(content)) continue;
+
+    const text = extractStreamText(content).trim();
+    if (text) pages.push(text);
+  }
+
+  return pages.join('\n');
+};
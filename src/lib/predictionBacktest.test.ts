@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PREDICTION_SETTINGS } from './healthPredictionTypes';
+import { BacktestResult, backtestPredictions } from './predictionBacktest';
+import { medicationDetector, weeklyPatternDetector } from './predictionDetectors';
+import { SAMPLE_PATTERNS, generateSyntheticJournal } from './syntheticJournal';
+
+const END_DATE = '2026-10-18';
+
+// Monday headaches with background fatigue that no detector should pick up
+const WEEKLY_JOURNAL = generateSyntheticJournal({
+  days: 90,
+  endDate: END_DATE,
+  seed: 7,
+  patterns: [
+    { kind: 'weekly', symptom: 'Headache', dayOfWeek: 1, probability: 0.9 },
+    { kind: 'random', symptom: 'Fatigue', probability: 0.15 },
+  ],
+});
+
+const SAMPLE_JOURNAL = generateSyntheticJournal({ days: 90, endDate: END_DATE, seed: 7, patterns: SAMPLE_PATTERNS });
+
+const symptomResult = (result: BacktestResult, symptom: string) =>
+  result.bySymptom.find(entry => entry.symptom === symptom);
+
+describe('backtestPredictions', () => {
+  it('finds a planted weekly pattern and leaves the noise alone', () => {
+    // Weekly confidence grows slowly with the number of weeks seen
+    const settings = { ...DEFAULT_PREDICTION_SETTINGS, minConfidence: 0.1 };
+    const result = backtestPredictions(WEEKLY_JOURNAL, { detectors: [weeklyPatternDetector], settings });
+
+    expect(result.replayedDays).toBe(76);
+    expect(result.scoredDays).toBe(76);
+    expect(symptomResult(result, 'Fatigue')).toMatchObject({ predicted: 0, hits: 0 });
+
+    const headache = symptomResult(result, 'Headache');
+    expect(headache?.hits).toBeGreaterThan(0);
+    // Far better than guessing at the rate symptoms were logged
+    expect(result.precision).toBeGreaterThan(0.75);
+    expect(result.precision).toBeGreaterThan(result.occurrences / result.forecasts);
+  });
+
+  it('scores a detector in isolation', () => {
+    const result = backtestPredictions(SAMPLE_JOURNAL, { detectors: [medicationDetector] });
+
+    expect(result.bySymptom.filter(entry => entry.predicted > 0).map(entry => entry.symptom)).toEqual(['Migraine']);
+    expect(symptomResult(result, 'Migraine')?.hits).toBeGreaterThan(0);
+    expect(result.precision).toBeGreaterThan(0.5);
+    expect(result.recall).toBeGreaterThan(0);
+    expect(result.recall).toBeLessThan(1);
+  });
+
+  it('bins every forecast by confidence', () => {
+    const settings = { ...DEFAULT_PREDICTION_SETTINGS, minConfidence: 0.1 };
+    const result = backtestPredictions(WEEKLY_JOURNAL, { detectors: [weeklyPatternDetector], settings });
+
+    expect(result.calibration.reduce((sum, bin) => sum + bin.forecasts, 0)).toBe(result.forecasts);
+    result.calibration.forEach(bin => {
+      expect(bin.meanConfidence).toBeGreaterThanOrEqual(bin.from);
+      expect(bin.meanConfidence).toBeLessThanOrEqual(bin.to);
+    });
+    // Forecasts with some confidence came true far more often than the rest
+    const [unpredicted, ...predicted] = result.calibration;
+    expect(unpredicted.meanConfidence).toBe(0);
+    predicted.forEach(bin => expect(bin.observedRate).toBeGreaterThan(unpredicted.observedRate));
+
+    expect(result.bySymptom.reduce((sum, entry) => sum + entry.occurrences, 0)).toBe(result.occurrences);
+    expect(result.brierScore).toBeGreaterThan(0);
+  });
+
+  it('gives the same result for the same seed', () => {
+    const again = generateSyntheticJournal({ days: 90, endDate: END_DATE, seed: 7, patterns: SAMPLE_PATTERNS });
+    expect(again).toEqual(SAMPLE_JOURNAL);
+    expect(backtestPredictions(again, { detectors: [weeklyPatternDetector] }))
+      .toEqual(backtestPredictions(SAMPLE_JOURNAL, { detectors: [weeklyPatternDetector] }));
+  });
+
+  it('does not predict from a journal shorter than the warm-up', () => {
+    const short = generateSyntheticJournal({ days: 10, endDate: END_DATE, seed: 7, patterns: SAMPLE_PATTERNS });
+    expect(backtestPredictions(short)).toMatchObject({ replayedDays: 0, scoredDays: 0, forecasts: 0, precision: null, recall: null });
+  });
+
+  it('returns empty scores for an empty journal', () => {
+    expect(backtestPredictions([])).toEqual({
+      replayedDays: 0,
+      scoredDays: 0,
+      forecasts: 0,
+      predicted: 0,
+      occurrences: 0,
+      hits: 0,
+      precision: null,
+      recall: null,
+      brierScore: null,
+      calibration: [],
+      bySymptom: [],
+    });
+  });
+});
@@ -0,0 +1,166 @@
+// Backtesting: replay a journal day by day, predict each day from only the
+// entries before it, and score the predictions against what was logged
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { JournalEntry } from './healthJournalTypes';
+import { DEFAULT_PREDICTION_SETTINGS, PredictionDetector, PredictionSettings } from './healthPredictionTypes';
+import { DEFAULT_INTAKE_SETTINGS, IntakeLog } from './healthIntake';
+import { TrackerList } from './healthTrackers';
+import { rollUpByDay } from './journalDays';
+import { PREDICTION_DETECTORS, combineCandidates, runDetectors } from './predictionDetectors';
+
+export interface BacktestOptions {
+  settings?: PredictionSettings; // Detector toggles, window and threshold; defaults to the default settings
+  detectors?: PredictionDetector[]; // e.g. a single detector to score it in isolation
+  intakeLog?: IntakeLog;
+  trackerList?: Pick<TrackerList, 'trackers' | 'tags'>;
+  warmupDays?: number; // Days of history before the first prediction is made
+}
+
+export interface CalibrationBin {
+  from: number; // Confidence range, 0-1
+  to: number;
+  forecasts: number;
+  meanConfidence: number;
+  observedRate: number; // Share of these forecasts where the symptom was logged
+}
+
+export interface SymptomBacktest {
+  symptom: string;
+  occurrences: number;
+  predicted: number;
+  hits: number;
+}
+
+export interface BacktestResult {
+  replayedDays: number;
+  scoredDays: number; // Logged days predictions were checked against
+  forecasts: number; // Symptom-days scored, predicted or not
+  predicted: number; // Symptom-days forecast at or above the confidence threshold
+  occurrences: number; // Symptom-days where the symptom was logged
+  hits: number; // Predicted and logged
+  precision: number | null; // null when there was nothing to divide by
+  recall: number | null;
+  brierScore: number | null; // Mean squared error of confidence against outcome; lower is better
+  calibration: CalibrationBin[];
+  bySymptom: SymptomBacktest[];
+}
+
+const EMPTY_INTAKE_LOG: IntakeLog = { days: {}, settings: DEFAULT_INTAKE_SETTINGS, settingsUpdatedAt: 0, updatedAt: 0 };
+const DEFAULT_WARMUP_DAYS = 14;
+const CALIBRATION_BINS = 10;
+// The engine needs this many logged days before it predicts anything
+const MIN_HISTORY_DAYS = 7;
+
+const ratio = (numerator: number, denominator: number): number | null =>
+  denominator > 0 ? numerator / denominator : null;
+
+// Every symptom known before a day counts as a forecast for that day: the
+// strongest confidence any earlier run gave it, or 0 if none predicted it.
+// Weather is left out because past forecasts aren't stored.
+export const backtestPredictions = (
+  entries: JournalEntry[],
+  {
+    settings = DEFAULT_PREDICTION_SETTINGS,
+    detectors = PREDICTION_DETECTORS,
+    intakeLog = EMPTY_INTAKE_LOG,
+    trackerList,
+    warmupDays = DEFAULT_WARMUP_DAYS,
+  }: BacktestOptions = {}
+): BacktestResult => {
+  const days = rollUpByDay(entries.filter(entry => !entry.deletedAt)); // Newest first
+  const symptomsByDate = new Map(days.map(day => [day.date, new Set(day.symptoms.map(s => s.name))]));
+  const forecasts = new Map<string, Map<string, number>>(); // date -> symptom -> confidence
+
+  const firstDate = days.length > 0 ? parseISO(days[days.length - 1].date) : new Date();
+  const span = days.length > 0 ? differenceInCalendarDays(parseISO(days[0].date), firstDate) + 1 : 0;
+  let replayedDays = 0;
+
+  for (let offset = warmupDays; offset < span; offset++) {
+    const today = addDays(firstDate, offset);
+    const todayISO = format(today, 'yyyy-MM-dd');
+    const history = days.filter(day => day.date < todayISO);
+    if (history.length < MIN_HISTORY_DAYS) continue;
+
+    // Counters logged later than the replayed day would leak the outcome
+    const pastIntake: IntakeLog = {
+      ...intakeLog,
+      days: Object.fromEntries(Object.entries(intakeLog.days).filter(([date]) => date < todayISO)),
+    };
+    const candidates = runDetectors({ entries: history, intakeLog: pastIntake, trackerList, settings, today }, detectors);
+    // Keep every prediction; the threshold is applied when scoring
+    combineCandidates(candidates, 0).forEach(prediction => {
+      const byDate = forecasts.get(prediction.predictedDate) ?? new Map<string, number>();
+      byDate.set(prediction.symptom, Math.max(byDate.get(prediction.symptom) ?? 0, prediction.confidence));
+      forecasts.set(prediction.predictedDate, byDate);
+    });
+    replayedDays++;
+  }
+
+  const firstScored = format(addDays(firstDate, warmupDays), 'yyyy-MM-dd');
+  const scored = days.filter(day => day.date >= firstScored).reverse(); // Oldest first
+  const knownSymptoms = new Set<string>();
+  days.filter(day => day.date < firstScored).forEach(day => day.symptoms.forEach(s => knownSymptoms.add(s.name)));
+
+  const pairs: { symptom: string; confidence: number; occurred: boolean }[] = [];
+  scored.forEach(day => {
+    const logged = symptomsByDate.get(day.date) ?? new Set<string>();
+    knownSymptoms.forEach(symptom => {
+      pairs.push({
+        symptom,
+        confidence: forecasts.get(day.date)?.get(symptom) ?? 0,
+        occurred: logged.has(symptom),
+      });
+    });
+    // A symptom first logged today couldn't have been predicted; it's scored from tomorrow on
+    logged.forEach(symptom => knownSymptoms.add(symptom));
+  });
+
+  const isPredicted = (confidence: number) => confidence > 0 && confidence >= settings.minConfidence;
+  const predicted = pairs.filter(pair => isPredicted(pair.confidence));
+  const occurrences = pairs.filter(pair => pair.occurred);
+  const hits = predicted.filter(pair => pair.occurred);
+
+  const calibration = Array.from({ length: CALIBRATION_BINS }, (_, i) => {
+    const from = i / CALIBRATION_BINS;
+    const to = (i + 1) / CALIBRATION_BINS;
+    const inBin = pairs.filter(pair =>
+      pair.confidence >= from && (pair.confidence < to || (i === CALIBRATION_BINS - 1 && pair.confidence <= to))
+    );
+    return {
+      from,
+      to,
+      forecasts: inBin.length,
+      meanConfidence: inBin.reduce((sum, pair) => sum + pair.confidence, 0) / (inBin.length || 1),
+      observedRate: inBin.filter(pair => pair.occurred).length / (inBin.length || 1),
+    };
+  }).filter(bin => bin.forecasts > 0);
+
+  const bySymptom = Array.from(new Set(pairs.map(pair => pair.symptom)))
+    .map(symptom => {
+      const own = pairs.filter(pair => pair.symptom === symptom);
+      return {
+        symptom,
+        occurrences: own.filter(pair => pair.occurred).length,
+        predicted: own.filter(pair => isPredicted(pair.confidence)).length,
+        hits: own.filter(pair => pair.occurred && isPredicted(pair.confidence)).length,
+      };
+    })
+    .sort((a, b) => b.occurrences - a.occurrences || a.symptom.localeCompare(b.symptom));
+
+  return {
+    replayedDays,
+    scoredDays: scored.length,
+    forecasts: pairs.length,
+    predicted: predicted.length,
+    occurrences: occurrences.length,
+    hits: hits.length,
+    precision: ratio(hits.length, predicted.length),
+    recall: ratio(hits.length, occurrences.length),
+    brierScore: ratio(
+      pairs.reduce((sum, pair) => sum + Math.pow(pair.confidence - (pair.occurred ? 1 : 0), 2), 0),
+      pairs.length
+    ),
+    calibration,
+    bySymptom,
+  };
+};
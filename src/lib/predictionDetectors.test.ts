@@ -0,0 +1,248 @@
+import { describe, expect, it, vi } from 'vitest';
+import { format, parseISO, subDays } from 'date-fns';
+import { JournalEntry, MedicationDose } from './healthJournalTypes';
+import { DEFAULT_PREDICTION_SETTINGS, DetectorContext, PredictionDetector } from './healthPredictionTypes';
+import { DEFAULT_INTAKE_SETTINGS, IntakeLog } from './healthIntake';
+import {
+  cycleDetector,
+  dietDetector,
+  medicationDetector,
+  monthlyPatternDetector,
+  runDetectors,
+  sleepDebtDetector,
+  weatherDetector,
+  weeklyPatternDetector,
+} from './predictionDetectors';
+
+// A Saturday, at local midnight as the engine passes it
+const TODAY = new Date(2026, 9, 17);
+
+const EMPTY_INTAKE: IntakeLog = { days: {}, settings: DEFAULT_INTAKE_SETTINGS, settingsUpdatedAt: 0, updatedAt: 0 };
+
+const daysBefore = (days: number): string => format(subDays(TODAY, days), 'yyyy-MM-dd');
+
+const symptom = (name: string) => ({ name, severity: 6 });
+
+// One rolled-up entry for each of the `days` days before today, newest
+// first; `build` gets the date and how many days before today it is
+const journal = (days: number, build: (date: string, daysAgo: number) => Partial<JournalEntry> = () => ({})): JournalEntry[] =>
+  Array.from({ length: days }, (_, index) => {
+    const daysAgo = index + 1;
+    const date = daysBefore(daysAgo);
+    return {
+      id: `entry-${date}`,
+      date,
+      mood: 3,
+      symptoms: [],
+      diet: [],
+      sleepHours: 8,
+      sleepQuality: 3,
+      activities: [],
+      stressLevel: 2,
+      createdAt: parseISO(date).getTime(),
+      ...build(date, daysAgo),
+    };
+  });
+
+const context = (entries: JournalEntry[], overrides: Partial<DetectorContext> = {}): DetectorContext => ({
+  entries,
+  intakeLog: EMPTY_INTAKE,
+  settings: DEFAULT_PREDICTION_SETTINGS,
+  today: TODAY,
+  ...overrides,
+});
+
+const dose = (date: string, status: MedicationDose['status']): MedicationDose => ({
+  id: `dose-${date}`,
+  medicationId: 'med-propranolol',
+  name: 'Propranolol',
+  status,
+  time: parseISO(date).getTime() + 8 * 60 * 60 * 1000,
+  scheduledTime: '08:00',
+});
+
+describe('weeklyPatternDetector', () => {
+  const mondayHeadaches = journal(28, date => (parseISO(date).getDay() === 1 ? { symptoms: [symptom('Headache')] } : {}));
+
+  it('predicts a symptom on the weekday it keeps falling on', () => {
+    expect(weeklyPatternDetector.detect(context(mondayHeadaches))).toEqual([
+      expect.objectContaining({ symptom: 'Headache', predictedDate: '2026-10-19', daysAhead: 2, scope: 'date' }),
+    ]);
+  });
+
+  it('leaves out days past the prediction window', () => {
+    const settings = { ...DEFAULT_PREDICTION_SETTINGS, daysToPredict: 1 };
+    expect(weeklyPatternDetector.detect(context(mondayHeadaches, { settings }))).toEqual([]);
+  });
+});
+
+describe('monthlyPatternDetector', () => {
+  const cramps = journal(100, date => (parseISO(date).getDate() === 18 ? { symptoms: [symptom('Cramps')] } : {}));
+
+  it('predicts a symptom that comes around the same day each month', () => {
+    expect(monthlyPatternDetector.detect(context(cramps))).toEqual([
+      expect.objectContaining({ symptom: 'Cramps', predictedDate: '2026-10-18', daysAhead: 1 }),
+    ]);
+  });
+
+  it('leaves monthly timing to the cycle detector once periods are logged', () => {
+    const withPeriods = cramps.map(entry => (entry.date === daysBefore(20) ? { ...entry, menstrualFlow: 'medium' as const } : entry));
+    expect(monthlyPatternDetector.detect(context(withPeriods))).toEqual([]);
+  });
+});
+
+describe('cycleDetector', () => {
+  // 28-day cycles starting 82, 54 and 26 days ago, with cramps on the
+  // last day of both finished cycles; tomorrow is day 28 of the current one
+  const periodStarts = [82, 54, 26];
+  const entries = journal(90, (_, daysAgo) => ({
+    menstrualFlow: periodStarts.some(start => daysAgo <= start && daysAgo > start - 3) ? 'medium' : undefined,
+    symptoms: daysAgo === 55 || daysAgo === 27 ? [symptom('Cramps')] : [],
+  }));
+
+  it('predicts symptoms on the cycle day they recur on', () => {
+    expect(cycleDetector.detect(context(entries))).toEqual([
+      expect.objectContaining({
+        symptom: 'Cramps',
+        predictedDate: daysBefore(-1),
+        daysAhead: 1,
+        triggers: [expect.objectContaining({ type: 'cyclic', factor: 'Cycle day 28 (luteal phase)' })],
+      }),
+    ]);
+  });
+
+  it('needs periods to be logged', () => {
+    expect(cycleDetector.detect(context(entries.map(entry => ({ ...entry, menstrualFlow: undefined }))))).toEqual([]);
+  });
+});
+
+describe('medicationDetector', () => {
+  // Propranolol skipped every fifth day, each time followed by a migraine
+  const skippedBefore = (skipDay: number) => journal(40, (date, daysAgo) => ({
+    medicationDoses: [dose(date, daysAgo % 5 === skipDay ? 'skipped' : 'taken')],
+    symptoms: daysAgo % 5 === (skipDay + 4) % 5 ? [symptom('Migraine')] : [],
+  }));
+
+  it('predicts the symptom that followed skipped doses when a dose was just skipped', () => {
+    expect(medicationDetector.detect(context(skippedBefore(1)))).toEqual([
+      expect.objectContaining({
+        symptom: 'Migraine',
+        predictedDate: daysBefore(0),
+        daysAhead: 0,
+        triggers: [expect.objectContaining({ type: 'medication', factor: 'Skipped Propranolol' })],
+        recommendations: expect.arrayContaining(['Take Propranolol as scheduled if your prescriber advises it']),
+      }),
+    ]);
+  });
+
+  it('predicts nothing when the last skip is already behind the lag', () => {
+    expect(medicationDetector.detect(context(skippedBefore(3)))).toEqual([]);
+  });
+});
+
+describe('dietDetector', () => {
+  it('predicts the symptom that followed a food logged yesterday', () => {
+    const entries = journal(40, (_, daysAgo) => ({
+      diet: daysAgo % 4 === 1 ? ['Red wine'] : [],
+      symptoms: daysAgo % 4 === 0 ? [symptom('Headache')] : [],
+    }));
+
+    expect(dietDetector.detect(context(entries))).toEqual([
+      expect.objectContaining({
+        symptom: 'Headache',
+        predictedDate: daysBefore(0),
+        triggers: [expect.objectContaining({ type: 'diet', factor: 'Red wine' })],
+      }),
+    ]);
+  });
+
+  it('reads intake counters for today before the entry is written', () => {
+    const caffeineDays = (daysAgo: number) => daysAgo === 0 || daysAgo % 4 === 2;
+    const entries = journal(40, (_, daysAgo) => ({ symptoms: daysAgo % 4 === 1 ? [symptom('Headache')] : [] }));
+    const intakeLog: IntakeLog = {
+      ...EMPTY_INTAKE,
+      days: Object.fromEntries(
+        Array.from({ length: 41 }, (_, daysAgo) => daysAgo)
+          .filter(caffeineDays)
+          .map(daysAgo => [daysBefore(daysAgo), { caffeine: 600, updatedAt: 0 }])
+      ),
+    };
+
+    expect(dietDetector.detect(context(entries, { intakeLog }))).toEqual([
+      expect.objectContaining({
+        symptom: 'Headache',
+        predictedDate: daysBefore(-1),
+        daysAhead: 1,
+        triggers: [expect.objectContaining({ factor: 'High caffeine (600 mg today)' })],
+      }),
+    ]);
+  });
+});
+
+describe('sleepDebtDetector', () => {
+  it('predicts symptoms that followed earlier sleep debt', () => {
+    const entries = journal(14, (_, daysAgo) => ({
+      sleepHours: daysAgo <= 7 ? 5 : 8,
+      symptoms: daysAgo === 3 ? [symptom('Fatigue')] : [],
+    }));
+
+    expect(sleepDebtDetector.detect(context(entries))).toEqual([
+      expect.objectContaining({ symptom: 'Fatigue', type: 'symptom', daysAhead: 1, likelihood: 40 }),
+      // Never logged, so only the assumed rate applies
+      expect.objectContaining({ symptom: 'Headache', type: 'symptom', daysAhead: 1, likelihood: 50 }),
+    ]);
+  });
+
+  it('raises fatigue and headache risk before either was ever logged', () => {
+    const entries = journal(14, (_, daysAgo) => ({ sleepHours: daysAgo <= 7 ? 5 : 8 }));
+
+    expect(sleepDebtDetector.detect(context(entries))).toEqual([
+      expect.objectContaining({ symptom: 'Fatigue', likelihood: 50, reasoning: expect.stringContaining('Sleep debt often brings on fatigue') }),
+      expect.objectContaining({ symptom: 'Headache', likelihood: 50 }),
+    ]);
+  });
+
+  it('predicts nothing without sleep debt', () => {
+    const entries = journal(14, (_, daysAgo) => ({ symptoms: daysAgo === 3 ? [symptom('Fatigue')] : [] }));
+    expect(sleepDebtDetector.detect(context(entries))).toEqual([]);
+  });
+});
+
+describe('weatherDetector', () => {
+  const entries = journal(10, (_, daysAgo) => ({
+    symptoms: daysAgo === 2 ? [symptom('Migraine')] : daysAgo === 4 ? [symptom('Fatigue')] : [],
+  }));
+  const reading = { temperature: 15, humidity: 60, pressure: 1020, windSpeed: 10, precipitation: 0, weatherCode: 1, uvIndex: 3, date: daysBefore(0) };
+
+  it('supports pressure-sensitive symptoms before a pressure drop', () => {
+    const weather = { current: reading, forecast: [{ ...reading, pressure: 1010, date: daysBefore(-1), daysAhead: 1 }], history: {} };
+
+    expect(weatherDetector.detect(context(entries, { weather }))).toEqual([
+      expect.objectContaining({ symptom: 'Migraine', supportBoost: 0.3, triggers: [expect.objectContaining({ factor: 'pressure drop' })] }),
+    ]);
+  });
+
+  it('does nothing without weather', () => {
+    expect(weatherDetector.detect(context(entries))).toEqual([]);
+  });
+});
+
+describe('runDetectors', () => {
+  it('skips disabled detectors and carries on past one that fails', () => {
+    const failing: PredictionDetector = {
+      id: 'failing',
+      label: 'Failing',
+      description: '',
+      detect: () => {
+        throw new Error('Broken');
+      },
+    };
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const settings = { ...DEFAULT_PREDICTION_SETTINGS, detectors: { weekly: false } };
+    const entries = journal(28, date => (parseISO(date).getDay() === 1 ? { symptoms: [symptom('Headache')] } : {}));
+
+    expect(runDetectors(context(entries, { settings }), [failing, weeklyPatternDetector, monthlyPatternDetector])).toEqual([]);
+    expect(warn).toHaveBeenCalledWith('Prediction detector failing failed:', expect.any(Error));
+    warn.mockRestore();
+  });
+});
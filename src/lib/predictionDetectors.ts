@@ -0,0 +1,604 @@
+// Prediction detectors: each looks for one kind of evidence and proposes
+// candidate predictions, which the engine combines. Add a detector by
+// writing a PredictionDetector and listing it in PREDICTION_DETECTORS.
+import { addDays as addCalendarDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { JournalEntry } from './healthJournalTypes';
+import {
+  DetectorContext,
+  HealthPrediction,
+  PatternMatch,
+  PredictionCandidate,
+  PredictionDetector,
+  PredictionSettings,
+  PredictionTrigger,
+  RiskLevel,
+  getRecommendationsForSymptom,
+} from './healthPredictionTypes';
+import { getWeatherChanges } from './weatherApi';
+import {
+  LaggedAssociation,
+  computeLaggedAssociations,
+  describeAssociation,
+  getDailyFactors,
+  getDoseFactor,
+  getSignificantLinks,
+} from './healthStatistics';
+import { INTAKE_FACTORS, INTAKE_KINDS, formatIntake, getIntakeFactors } from './healthIntake';
+import { DEFAULT_SYMPTOM_SEVERITY } from './healthSymptoms';
+import { CYCLE_PHASE_LABELS, findCycleSymptomPatterns, getCycles, getNextCycleDayDate } from './healthCycle';
+import { DEBT_WINDOW_NIGHTS, SLEEP_DEBT_THRESHOLD_HOURS, SLEEP_NEED_HOURS, analyzeSleep } from './healthSleep';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Local calendar dates, matching how entries are dated
+const addDays = (today: Date, days: number): string => format(addCalendarDays(today, days), 'yyyy-MM-dd');
+
+// Analyze patterns in journal entries
+const analyzePatterns = (entries: JournalEntry[]): PatternMatch[] => {
+  if (entries.length < 7) return [];
+
+  const patterns: PatternMatch[] = [];
+  const symptomOccurrences: Record<string, { dates: string[]; dayOfWeek: number[]; severities: number[] }> = {};
+
+  // Collect symptom occurrences
+  entries.forEach(entry => {
+    const date = new Date(entry.date);
+    const dayOfWeek = date.getDay();
+
+    entry.symptoms.forEach(({ name, severity }) => {
+      if (!symptomOccurrences[name]) {
+        symptomOccurrences[name] = { dates: [], dayOfWeek: [], severities: [] };
+      }
+      symptomOccurrences[name].dates.push(entry.date);
+      symptomOccurrences[name].dayOfWeek.push(dayOfWeek);
+      symptomOccurrences[name].severities.push(severity);
+    });
+  });
+
+  // Analyze each symptom for patterns
+  Object.entries(symptomOccurrences).forEach(([symptom, data]) => {
+    if (data.dates.length < 2) return;
+    const averageSeverity = data.severities.reduce((a, b) => a + b, 0) / data.severities.length;
+
+    // Check day of week patterns
+    const dayFrequency: Record<number, number> = {};
+    data.dayOfWeek.forEach(day => {
+      dayFrequency[day] = (dayFrequency[day] || 0) + 1;
+    });
+
+    const mostCommonDay = Object.entries(dayFrequency)
+      .sort(([, a], [, b]) => b - a)[0];
+
+    if (mostCommonDay && mostCommonDay[1] >= data.dates.length * 0.4) {
+      patterns.push({
+        symptom,
+        dayOfWeek: parseInt(mostCommonDay[0]),
+        frequency: data.dates.length,
+        averageSeverity,
+        lastOccurrence: data.dates[data.dates.length - 1],
+      });
+    }
+
+    // Check monthly patterns (e.g., around same time each month)
+    const daysOfMonth = data.dates.map(d => new Date(d).getDate());
+    const avgDayOfMonth = daysOfMonth.reduce((a, b) => a + b, 0) / daysOfMonth.length;
+    const variance = daysOfMonth.reduce((sum, day) => sum + Math.pow(day - avgDayOfMonth, 2), 0) / daysOfMonth.length;
+
+    if (variance < 25 && data.dates.length >= 3) { // Low variance = consistent timing
+      patterns.push({
+        symptom,
+        timeOfMonth: Math.round(avgDayOfMonth),
+        frequency: data.dates.length,
+        averageSeverity,
+        lastOccurrence: data.dates[data.dates.length - 1],
+      });
+    }
+  });
+
+  return patterns;
+};
+
+// Occurrences scaled by how severe they were, so mild episodes count for less
+const getWeightedFrequency = (pattern: PatternMatch): number =>
+  pattern.frequency * (pattern.averageSeverity / DEFAULT_SYMPTOM_SEVERITY);
+
+// Pattern strength (0-0.4) plus recency (0-0.3). Weather adds up to 0.3
+// more through the weather detector.
+const calculateConfidence = (
+  patternFrequency: number,
+  totalEntries: number,
+  daysSinceLastOccurrence: number
+): number => {
+  const patternStrength = Math.min(patternFrequency / totalEntries, 0.4);
+  const recencyScore = Math.max(0, 0.3 - (daysSinceLastOccurrence * 0.02));
+  return Math.min(patternStrength + recencyScore, 1);
+};
+
+const daysSince = (date: string, today: Date): number =>
+  Math.floor((today.getTime() - new Date(date).getTime()) / DAY_MS);
+
+// Determine risk level
+export const getRiskLevel = (confidence: number, likelihood: number): RiskLevel => {
+  const score = (confidence + likelihood / 100) / 2;
+
+  if (score >= 0.7) return 'high';
+  if (score >= 0.5) return 'medium';
+  return 'low';
+};
+
+// Symptoms that cluster on one day of the week
+export const weeklyPatternDetector: PredictionDetector = {
+  id: 'weekly',
+  label: 'Weekly patterns',
+  description: 'Symptoms that keep falling on the same day of the week',
+  detect: ({ entries, settings, today }) =>
+    analyzePatterns(entries)
+      .filter(pattern => pattern.dayOfWeek !== undefined)
+      .flatMap(pattern => {
+        let daysUntilPattern = (pattern.dayOfWeek as number) - today.getDay();
+        if (daysUntilPattern <= 0) daysUntilPattern += 7;
+        if (daysUntilPattern > settings.daysToPredict) return [];
+
+        const confidence = calculateConfidence(
+          getWeightedFrequency(pattern),
+          entries.length,
+          daysSince(pattern.lastOccurrence, today)
+        );
+        return [{
+          type: 'symptom',
+          symptom: pattern.symptom,
+          predictedDate: addDays(today, daysUntilPattern),
+          daysAhead: daysUntilPattern,
+          confidence,
+          likelihood: Math.round(confidence * 100),
+          triggers: [{
+            type: 'pattern',
+            factor: 'Weekly pattern',
+            impact: 0.6,
+            description: `${pattern.symptom} often occurs on this day of the week`,
+          }],
+          recommendations: getRecommendationsForSymptom(pattern.symptom).slice(0, 4),
+          reasoning: `Based on ${pattern.frequency} previous occurrences (average severity ${pattern.averageSeverity.toFixed(1)}/10) and pattern analysis`,
+          scope: 'date',
+        }];
+      }),
+};
+
+// Symptoms that come around the same day of the month. With periods logged
+// the cycle detector replaces this calendar approximation.
+export const monthlyPatternDetector: PredictionDetector = {
+  id: 'monthly',
+  label: 'Monthly timing',
+  description: 'Symptoms that come around the same day each month',
+  detect: ({ entries, settings, today }) => {
+    if (getCycles(entries).length > 0) return [];
+
+    return analyzePatterns(entries)
+      .filter(pattern => pattern.timeOfMonth !== undefined)
+      .flatMap(pattern => {
+        const targetDate = pattern.timeOfMonth as number;
+        let daysUntilPattern = targetDate - today.getDate();
+        if (daysUntilPattern < 0) {
+          // Next month
+          const nextMonth = new Date(today);
+          nextMonth.setMonth(nextMonth.getMonth() + 1, targetDate);
+          daysUntilPattern = Math.floor((nextMonth.getTime() - today.getTime()) / DAY_MS);
+        }
+        if (daysUntilPattern > settings.daysToPredict || daysUntilPattern <= 0) return [];
+
+        const confidence = calculateConfidence(
+          getWeightedFrequency(pattern),
+          entries.length,
+          daysSince(pattern.lastOccurrence, today)
+        );
+        return [{
+          type: 'symptom',
+          symptom: pattern.symptom,
+          predictedDate: addDays(today, daysUntilPattern),
+          daysAhead: daysUntilPattern,
+          confidence,
+          likelihood: Math.round(confidence * 100),
+          triggers: [{
+            type: 'pattern',
+            factor: 'Monthly timing',
+            impact: 0.7,
+            description: `${pattern.symptom} tends to occur around day ${targetDate} of the month`,
+          }],
+          recommendations: getRecommendationsForSymptom(pattern.symptom).slice(0, 4),
+          reasoning: `Based on consistent monthly timing pattern (average severity ${pattern.averageSeverity.toFixed(1)}/10)`,
+          scope: 'date',
+        }];
+      });
+  },
+};
+
+// Tested associations are computed once per context and shared by the
+// detectors that use them
+const associationCache = new WeakMap<DetectorContext, LaggedAssociation[]>();
+
+const getAssociations = (context: DetectorContext): LaggedAssociation[] => {
+  const cached = associationCache.get(context);
+  if (cached) return cached;
+  const { entries, trackerList, intakeLog } = context;
+  const associations = computeLaggedAssociations(entries, { trackerList, intakeLog });
+  associationCache.set(context, associations);
+  return associations;
+};
+
+interface UpcomingLink {
+  link: LaggedAssociation;
+  factorDate: string;
+  predictedDate: string;
+  daysAhead: number;
+}
+
+// Significant links whose factor was logged today or yesterday and whose lag
+// lands inside the prediction window
+const findUpcomingLinks = (
+  links: LaggedAssociation[],
+  factorsOn: (date: string) => string[],
+  { settings, today }: DetectorContext
+): UpcomingLink[] =>
+  [0, -1].flatMap(offset => {
+    const factorDate = addDays(today, offset);
+    const factors = new Set(factorsOn(factorDate));
+    return links
+      .filter(link => factors.has(link.factor))
+      .map(link => ({ link, factorDate, predictedDate: addDays(today, offset + link.lag), daysAhead: offset + link.lag }))
+      .filter(({ daysAhead }) => daysAhead >= 0 && daysAhead <= settings.daysToPredict);
+  });
+
+const symptomRate = (link: LaggedAssociation): number => link.exposedWithSymptom / link.exposedDays;
+
+// Weigh the rate by how many factor days it is based on
+const linkConfidence = (link: LaggedAssociation): number =>
+  Math.min(symptomRate(link) * Math.min(link.exposedDays / 5, 1), 0.9);
+
+// Symptoms that tend to follow a skipped dose, when that medication was
+// skipped today or yesterday
+export const medicationDetector: PredictionDetector = {
+  id: 'medication',
+  label: 'Skipped medication',
+  description: 'Symptoms that tend to follow a skipped dose',
+  detect: (context) => {
+    const links = getSignificantLinks(getAssociations(context), 'medication');
+    if (links.length === 0) return [];
+
+    const medicationByFactor = new Map<string, string>();
+    const skippedOn = (date: string): string[] =>
+      (context.entries.find(entry => entry.date === date)?.medicationDoses || [])
+        .filter(dose => dose.status === 'skipped')
+        .map(dose => {
+          const factor = getDoseFactor(dose);
+          medicationByFactor.set(factor, dose.name);
+          return factor;
+        });
+
+    return findUpcomingLinks(links, skippedOn, context).map(({ link, predictedDate, daysAhead }) => {
+      const medication = medicationByFactor.get(link.factor) ?? link.factor;
+      return {
+        type: 'symptom',
+        symptom: link.symptom,
+        predictedDate,
+        daysAhead,
+        confidence: linkConfidence(link),
+        likelihood: Math.round(symptomRate(link) * 100),
+        triggers: [{
+          type: 'medication',
+          factor: `Skipped ${medication}`,
+          impact: Math.min(link.riskDifference, 1),
+          description: describeAssociation(link),
+        }],
+        recommendations: [
+          `Take ${medication} as scheduled if your prescriber advises it`,
+          ...getRecommendationsForSymptom(link.symptom).slice(0, 3),
+        ],
+        reasoning: `Based on ${link.exposedDays} days when ${medication} was skipped (adjusted p = ${link.qValue.toFixed(3)})`,
+        scope: 'symptom',
+      };
+    });
+  },
+};
+
+// Symptoms that recur on the same cycle day, predicted from the logged
+// periods since cycles drift against calendar days
+export const cycleDetector: PredictionDetector = {
+  id: 'cycle',
+  label: 'Menstrual cycle',
+  description: 'Symptoms that recur on the same day of your cycle',
+  detect: ({ entries, settings, today }) =>
+    findCycleSymptomPatterns(entries).flatMap(pattern => {
+      const predictedDate = getNextCycleDayDate(pattern.cycleDay, entries, today);
+      if (!predictedDate) return [];
+      const daysAhead = differenceInCalendarDays(parseISO(predictedDate), today);
+      if (daysAhead < 0 || daysAhead > settings.daysToPredict) return [];
+
+      const share = pattern.cycles / pattern.observedCycles;
+      return [{
+        type: 'symptom',
+        symptom: pattern.symptom,
+        predictedDate,
+        daysAhead,
+        // More cycles behind the pattern make it more trustworthy
+        confidence: Math.min(share * Math.min(pattern.cycles / 3, 1) * (0.7 + pattern.averageSeverity / 30), 0.95),
+        likelihood: Math.round(share * 100),
+        triggers: [{
+          type: 'cyclic',
+          factor: `Cycle day ${pattern.cycleDay} (${CYCLE_PHASE_LABELS[pattern.phase].toLowerCase()} phase)`,
+          impact: share,
+          description: `${pattern.symptom} appeared around cycle day ${pattern.cycleDay} in ${pattern.cycles} of ${pattern.observedCycles} cycles`,
+        }],
+        recommendations: getRecommendationsForSymptom(pattern.symptom).slice(0, 4),
+        reasoning: `Based on ${pattern.cycles} of ${pattern.observedCycles} logged cycles (average severity ${pattern.averageSeverity.toFixed(1)}/10)`,
+        scope: 'date',
+      }];
+    }),
+};
+
+// Symptoms that tend to follow a food, a high daily intake, a late heavy
+// meal or too little water, when that was logged today or yesterday
+export const dietDetector: PredictionDetector = {
+  id: 'diet',
+  label: 'Food and drink',
+  description: 'Symptoms that tend to follow foods, caffeine, alcohol, late meals or low water',
+  detect: (context) => {
+    const { entries, intakeLog, today } = context;
+    const links = getSignificantLinks(getAssociations(context), 'diet', 'nutrition');
+    if (links.length === 0) return [];
+
+    // Counters are checked even before the day's entry is written
+    const dietOn = (date: string): string[] => {
+      const day = entries.find(entry => entry.date === date);
+      if (!day) return getIntakeFactors(intakeLog, date);
+      return getDailyFactors(day, { intakeLog })
+        .filter(({ category }) => category === 'diet' || category === 'nutrition')
+        .map(({ factor }) => factor);
+    };
+
+    // e.g. 'Low water (800 ml yesterday)'
+    const describeFactor = (factor: string, date: string): string => {
+      const kind = INTAKE_KINDS.find(k => INTAKE_FACTORS[k] === factor);
+      if (!kind || intakeLog.days[date]?.[kind] === undefined) return factor;
+      const amount = formatIntake(kind, intakeLog.days[date][kind] ?? 0, intakeLog.settings);
+      return `${factor} (${amount} ${date === format(today, 'yyyy-MM-dd') ? 'today' : 'yesterday'})`;
+    };
+
+    return findUpcomingLinks(links, dietOn, context).map(({ link, factorDate, predictedDate, daysAhead }) => ({
+      type: 'symptom',
+      symptom: link.symptom,
+      predictedDate,
+      daysAhead,
+      confidence: linkConfidence(link),
+      likelihood: Math.round(symptomRate(link) * 100),
+      triggers: [{
+        type: 'diet',
+        factor: describeFactor(link.factor, factorDate),
+        impact: Math.min(link.riskDifference, 1),
+        description: describeAssociation(link),
+      }],
+      recommendations: getRecommendationsForSymptom(link.symptom).slice(0, 4),
+      reasoning: `Based on ${link.exposedDays} days with ${link.factor.toLowerCase()} (adjusted p = ${link.qValue.toFixed(3)})`,
+      scope: 'symptom',
+    }));
+  },
+};
+
+const SLEEP_DEBT_SYMPTOMS = /fatigue|tired|exhaust|sleepy|drows|headache|migraine/i;
+// Always at risk under sleep debt, whether or not they were logged before
+const BASELINE_DEBT_SYMPTOMS = ['Fatigue', 'Headache'];
+const LOW_MOOD = 'Low mood';
+export const LOW_MOOD_LEVEL = 2;
+// Debt at which risk stops growing
+const SEVERE_DEBT_HOURS = 12;
+// Past high-debt days needed to measure how often a symptom follows;
+// until then a moderate rate is assumed
+const MIN_DEBT_DAYS = 3;
+const DEFAULT_DEBT_RATE = 0.5;
+
+// Fatigue, headaches and low mood when sleep debt has built up over the
+// last week, weighed by how often they followed high debt before. Fatigue
+// and headaches are predicted at the assumed rate until they are logged.
+export const sleepDebtDetector: PredictionDetector = {
+  id: 'sleepDebt',
+  label: 'Sleep debt',
+  description: 'Fatigue, headaches and low mood after a week of sleeping less than you need',
+  detect: ({ entries, today }) => {
+    const nights = analyzeSleep(entries);
+    const latest = nights[nights.length - 1];
+    // Only debt that is still current counts
+    if (!latest || latest.date < addDays(today, -1) || latest.debt < SLEEP_DEBT_THRESHOLD_HOURS) return [];
+
+    const byDate = new Map(entries.map(entry => [entry.date, entry]));
+    const hasTarget = (target: string, entry?: JournalEntry): boolean =>
+      !!entry && (target === LOW_MOOD
+        ? entry.mood <= LOW_MOOD_LEVEL
+        : entry.symptoms.some(symptom => symptom.name === target));
+    const followedBy = (date: string, target: string): boolean =>
+      hasTarget(target, byDate.get(date)) || hasTarget(target, byDate.get(addDays(parseISO(date), 1)));
+
+    // Targets seen in the journal can be measured against it
+    const logged = new Set<string>();
+    entries.forEach(entry => entry.symptoms
+      .filter(symptom => SLEEP_DEBT_SYMPTOMS.test(symptom.name))
+      .forEach(symptom => logged.add(symptom.name)));
+    if (entries.some(entry => entry.mood <= LOW_MOOD_LEVEL)) logged.add(LOW_MOOD);
+
+    const loggedNames = Array.from(logged).map(name => name.toLowerCase());
+    const targets = [
+      ...logged,
+      ...BASELINE_DEBT_SYMPTOMS.filter(name => !loggedNames.includes(name.toLowerCase())),
+    ];
+
+    const pastDebtDays = nights.slice(0, -1).filter(night => night.debt >= SLEEP_DEBT_THRESHOLD_HOURS);
+    const severity = Math.min(latest.debt / SEVERE_DEBT_HOURS, 1);
+    const shortfall = `You slept ${latest.debt.toFixed(1)}h less than the ${SLEEP_NEED_HOURS}h you need over the last ${DEBT_WINDOW_NIGHTS} nights`;
+
+    return targets.flatMap(target => {
+      const measured = logged.has(target) && pastDebtDays.length >= MIN_DEBT_DAYS;
+      const hits = pastDebtDays.filter(night => followedBy(night.date, target)).length;
+      const rate = measured ? hits / pastDebtDays.length : DEFAULT_DEBT_RATE;
+      if (rate === 0) return [];
+
+      return [{
+        type: target === LOW_MOOD ? 'mood' : 'symptom',
+        symptom: target,
+        predictedDate: addDays(today, 1),
+        daysAhead: 1,
+        confidence: Math.min(rate * (0.6 + 0.4 * severity), 0.9),
+        likelihood: Math.round(rate * 100),
+        triggers: [{
+          type: 'sleep',
+          factor: `Sleep debt (${latest.debt.toFixed(1)}h over ${DEBT_WINDOW_NIGHTS} nights)`,
+          impact: severity,
+          description: `${target} tends to follow a week of short sleep`,
+        }],
+        recommendations: [
+          'Go to bed earlier for the next few nights to pay back sleep debt',
+          'Keep the same wake time every day, including weekends',
+          ...getRecommendationsForSymptom(target).slice(0, 2),
+        ],
+        reasoning: measured
+          ? `${shortfall}. ${target} followed ${hits} of ${pastDebtDays.length} past days with this much sleep debt`
+          : `${shortfall}. Sleep debt often brings on ${target.toLowerCase()}`,
+        scope: 'symptom',
+      }];
+    });
+  },
+};
+
+// Pressure drops before headaches and migraines, and big temperature or
+// humidity swings before any symptom, make predictions more likely
+export const weatherDetector: PredictionDetector = {
+  id: 'weather',
+  label: 'Weather changes',
+  description: 'Raises predictions when pressure, temperature or humidity is about to change sharply',
+  detect: ({ entries, weather, today }) => {
+    if (!weather) return [];
+    const changes = getWeatherChanges(weather.current, weather.forecast);
+
+    const symptoms = new Set<string>();
+    entries.forEach(e => e.symptoms.forEach(s => symptoms.add(s.name)));
+
+    return Array.from(symptoms).flatMap(symptom => {
+      const triggers: string[] = [];
+      // Check for pressure sensitivity (common for migraines/headaches)
+      if (changes.pressureDrop > 5 && (
+        symptom.toLowerCase().includes('headache') ||
+        symptom.toLowerCase().includes('migraine')
+      )) {
+        triggers.push('pressure drop');
+      }
+      if (Math.abs(changes.temperatureChange) > 10) triggers.push('temperature change');
+      if (Math.abs(changes.humidityChange) > 20) triggers.push('humidity change');
+      if (triggers.length === 0) return [];
+
+      return [{
+        type: 'symptom',
+        symptom,
+        predictedDate: addDays(today, 1),
+        daysAhead: 1,
+        confidence: 0,
+        likelihood: 0,
+        triggers: [{
+          type: 'weather',
+          factor: triggers.join(', '),
+          impact: 0.4,
+          description: `Weather conditions may trigger symptoms`,
+        }],
+        recommendations: [],
+        reasoning: '',
+        scope: 'symptom',
+        supportBoost: 0.3,
+      }];
+    });
+  },
+};
+
+// Every detector, in the order their evidence is combined
+export const PREDICTION_DETECTORS: PredictionDetector[] = [
+  weeklyPatternDetector,
+  monthlyPatternDetector,
+  medicationDetector,
+  cycleDetector,
+  dietDetector,
+  sleepDebtDetector,
+  weatherDetector,
+];
+
+export const isDetectorEnabled = (settings: PredictionSettings, id: string): boolean =>
+  settings.detectors?.[id] !== false;
+
+// Run the enabled detectors. One failing detector is logged and skipped
+// rather than losing every prediction.
+export const runDetectors = (
+  context: DetectorContext,
+  detectors: PredictionDetector[] = PREDICTION_DETECTORS
+): PredictionCandidate[] =>
+  detectors
+    .filter(detector => isDetectorEnabled(context.settings, detector.id))
+    .flatMap(detector => {
+      try {
+        return detector.detect(context);
+      } catch (error) {
+        console.warn(`Prediction detector ${detector.id} failed:`, error);
+        return [];
+      }
+    });
+
+const toPrediction = (candidate: PredictionCandidate): HealthPrediction => ({
+  id: `pred-${Date.now()}-${Math.random()}`,
+  type: candidate.type,
+  symptom: candidate.symptom,
+  riskLevel: getRiskLevel(candidate.confidence, candidate.likelihood),
+  confidence: candidate.confidence,
+  daysAhead: candidate.daysAhead,
+  predictedDate: candidate.predictedDate,
+  likelihood: candidate.likelihood,
+  triggers: [...candidate.triggers],
+  recommendations: candidate.recommendations,
+  reasoning: candidate.reasoning,
+  createdAt: Date.now(),
+});
+
+const strengthen = (prediction: HealthPrediction, candidate: PredictionCandidate, triggers: PredictionTrigger[]) => {
+  prediction.triggers.push(...triggers);
+  prediction.reasoning = `${prediction.reasoning}. ${candidate.reasoning}`;
+  prediction.confidence = Math.max(prediction.confidence, candidate.confidence);
+  prediction.likelihood = Math.max(prediction.likelihood, candidate.likelihood);
+};
+
+// Merge candidates into predictions. A symptom predicted for the same day
+// by several detectors becomes one prediction carrying every trigger, at the
+// strongest detector's confidence; supporting evidence is added last. Only
+// predictions that reach the confidence threshold are kept.
+export const combineCandidates = (candidates: PredictionCandidate[], minConfidence: number): HealthPrediction[] => {
+  const predictions: HealthPrediction[] = [];
+
+  candidates
+    .filter(candidate => candidate.supportBoost === undefined)
+    .forEach(candidate => {
+      const matches = predictions.filter(prediction =>
+        prediction.symptom === candidate.symptom &&
+        (candidate.scope === 'symptom' || prediction.predictedDate === candidate.predictedDate)
+      );
+      if (matches.length === 0) predictions.push(toPrediction(candidate));
+      else matches.forEach(prediction => strengthen(prediction, candidate, candidate.triggers));
+    });
+
+  candidates
+    .filter(candidate => candidate.supportBoost !== undefined)
+    .forEach(candidate => {
+      const boost = candidate.supportBoost ?? 0;
+      predictions
+        .filter(prediction => prediction.symptom === candidate.symptom)
+        .forEach(prediction => {
+          prediction.triggers.push(...candidate.triggers);
+          prediction.confidence = Math.min(prediction.confidence + boost, 1);
+          prediction.likelihood = Math.min(prediction.likelihood + Math.round(boost * 100), 100);
+        });
+    });
+
+  return predictions
+    .filter(prediction => prediction.confidence >= minConfidence)
+    .map(prediction => ({ ...prediction, riskLevel: getRiskLevel(prediction.confidence, prediction.likelihood) }));
+};
@@ -0,0 +1,169 @@
+// Prediction history and feedback: every prediction is kept after its day
+// passes, the user says whether it came true, and those outcomes adjust
+// future confidence per symptom
+import { JournalEntry } from './healthJournalTypes';
+import { HealthPrediction, PredictionOutcome } from './healthPredictionTypes';
+import { LOW_MOOD_LEVEL, getRiskLevel } from './predictionDetectors';
+import { secureGetItem, secureSetItem } from './secureStorage';
+
+export const PREDICTION_HISTORY_KEY = 'bioguard_prediction_history';
+const MAX_HISTORY = 1000;
+// Outcomes needed before a symptom's confidence is adjusted
+const MIN_RATED_FOR_CALIBRATION = 3;
+// How many outcomes the original confidence is worth; keeps a few answers
+// from swinging predictions too far
+const PRIOR_WEIGHT = 4;
+const MIN_CALIBRATION_FACTOR = 0.5;
+const MAX_CALIBRATION_FACTOR = 1.5;
+
+// Regenerating replaces a prediction rather than adding another for the same day
+const historyKey = (prediction: HealthPrediction): string =>
+  `${prediction.symptom ?? prediction.type}|${prediction.predictedDate}`;
+
+export const getPredictionHistory = async (): Promise<HealthPrediction[]> => {
+  try {
+    return (await secureGetItem<HealthPrediction[]>(PREDICTION_HISTORY_KEY)) || [];
+  } catch (error) {
+    console.error('Failed to load prediction history:', error);
+    return [];
+  }
+};
+
+const savePredictionHistory = async (history: HealthPrediction[]): Promise<void> => {
+  await secureSetItem(
+    PREDICTION_HISTORY_KEY,
+    [...history].sort((a, b) => b.predictedDate.localeCompare(a.predictedDate)).slice(0, MAX_HISTORY)
+  );
+};
+
+// Add a fresh set of predictions. Upcoming ones that were not predicted
+// again are dropped unless already answered; answers carry over.
+export const recordIssuedPredictions = async (predictions: HealthPrediction[], today: string): Promise<void> => {
+  const issued = new Set(predictions.map(historyKey));
+  const byKey = new Map(
+    (await getPredictionHistory())
+      .filter(prediction => prediction.predictedDate < today || prediction.outcome || issued.has(historyKey(prediction)))
+      .map(prediction => [historyKey(prediction), prediction])
+  );
+
+  predictions.forEach(prediction => {
+    const previous = byKey.get(historyKey(prediction));
+    byKey.set(historyKey(prediction), {
+      ...prediction,
+      outcome: previous?.outcome,
+      outcomeAt: previous?.outcomeAt,
+      // Once shown, a prediction stays open for feedback
+      belowThreshold: prediction.belowThreshold && (!previous || previous.belowThreshold),
+    });
+  });
+  await savePredictionHistory(Array.from(byKey.values()));
+};
+
+// Predictions shown for a day, to ask about when that day is journaled
+export const getPredictionsForDate = async (date: string): Promise<HealthPrediction[]> =>
+  (await getPredictionHistory()).filter(prediction => prediction.predictedDate === date && !prediction.belowThreshold);
+
+// Record whether a prediction came true; undefined clears the answer
+export const recordPredictionOutcome = async (id: string, outcome?: PredictionOutcome): Promise<void> => {
+  const history = await getPredictionHistory();
+  if (!history.some(prediction => prediction.id === id)) {
+    throw new Error('Prediction not found in history');
+  }
+  await savePredictionHistory(history.map(prediction =>
+    prediction.id === id
+      ? { ...prediction, outcome, outcomeAt: outcome ? Date.now() : undefined }
+      : prediction
+  ));
+};
+
+export interface SymptomAccuracy {
+  symptom: string;
+  rated: number;
+  confirmed: number;
+  meanConfidence: number; // What the detectors claimed for the rated predictions, 0-1
+  factor: number; // Multiplier applied to new predictions for the symptom
+}
+
+export interface PredictionAccuracy {
+  rated: number;
+  confirmed: number;
+  accuracy: number | null; // Share of rated predictions that came true
+  awaitingFeedback: number; // Past predictions not yet answered
+  bySymptom: SymptomAccuracy[];
+}
+
+const getSymptomAccuracy = (symptom: string, rated: HealthPrediction[]): SymptomAccuracy => {
+  const confirmed = rated.filter(prediction => prediction.outcome === 'happened').length;
+  // Calibrated confidence would fold earlier adjustments back into the factor
+  const meanConfidence =
+    rated.reduce((sum, prediction) => sum + (prediction.rawConfidence ?? prediction.confidence), 0) / rated.length;
+  // Observed rate, pulled toward what was claimed while there are few answers
+  const smoothedRate = (confirmed + PRIOR_WEIGHT * meanConfidence) / (rated.length + PRIOR_WEIGHT);
+  const factor = rated.length >= MIN_RATED_FOR_CALIBRATION && meanConfidence > 0
+    ? Math.min(Math.max(smoothedRate / meanConfidence, MIN_CALIBRATION_FACTOR), MAX_CALIBRATION_FACTOR)
+    : 1;
+  return { symptom, rated: rated.length, confirmed, meanConfidence, factor };
+};
+
+const getSymptomAccuracies = (history: HealthPrediction[]): SymptomAccuracy[] => {
+  const rated = history.filter(prediction => prediction.outcome);
+  return Array.from(new Set(rated.map(prediction => prediction.symptom ?? prediction.type)))
+    .map(symptom => getSymptomAccuracy(symptom, rated.filter(p => (p.symptom ?? p.type) === symptom)))
+    .sort((a, b) => b.rated - a.rated || a.symptom.localeCompare(b.symptom));
+};
+
+// Accuracy of the predictions the user was shown
+export const getPredictionAccuracy = (history: HealthPrediction[], today: string): PredictionAccuracy => {
+  const shown = history.filter(prediction => !prediction.belowThreshold);
+  const rated = shown.filter(prediction => prediction.outcome);
+  const confirmed = rated.filter(prediction => prediction.outcome === 'happened').length;
+
+  return {
+    rated: rated.length,
+    confirmed,
+    accuracy: rated.length > 0 ? confirmed / rated.length : null,
+    awaitingFeedback: shown.filter(prediction => !prediction.outcome && prediction.predictedDate <= today).length,
+    bySymptom: getSymptomAccuracies(shown),
+  };
+};
+
+// Hidden predictions are never asked about; the journal says whether they came true
+const journalOutcome = (prediction: HealthPrediction, day: JournalEntry): PredictionOutcome =>
+  day.symptoms.some(symptom => symptom.name === prediction.symptom) ||
+  (prediction.type === 'mood' && day.mood <= LOW_MOOD_LEVEL)
+    ? 'happened'
+    : 'didNotHappen';
+
+// Scale each prediction by how its symptom's past predictions turned out.
+// `days` are the journal rolled up by day; today's may not be finished.
+export const calibratePredictions = (
+  predictions: HealthPrediction[],
+  history: HealthPrediction[],
+  days: JournalEntry[],
+  today: string
+): HealthPrediction[] => {
+  const byDate = new Map(days.map(day => [day.date, day]));
+  const outcomes = history.map(prediction => {
+    const day = byDate.get(prediction.predictedDate);
+    return prediction.belowThreshold && !prediction.outcome && day && prediction.predictedDate < today
+      ? { ...prediction, outcome: journalOutcome(prediction, day) }
+      : prediction;
+  });
+  const bySymptom = new Map(getSymptomAccuracies(outcomes).map(accuracy => [accuracy.symptom, accuracy]));
+
+  return predictions.map(prediction => {
+    const accuracy = bySymptom.get(prediction.symptom ?? prediction.type);
+    if (!accuracy || accuracy.factor === 1) return { ...prediction, rawConfidence: prediction.confidence };
+
+    const confidence = Math.min(prediction.confidence * accuracy.factor, 1);
+    const likelihood = Math.min(Math.round(prediction.likelihood * accuracy.factor), 100);
+    return {
+      ...prediction,
+      rawConfidence: prediction.confidence,
+      confidence,
+      likelihood,
+      riskLevel: getRiskLevel(confidence, likelihood),
+      reasoning: `${prediction.reasoning}. Adjusted for your feedback: ${accuracy.confirmed} of ${accuracy.rated} past ${accuracy.symptom} predictions came true`,
+    };
+  });
+};
@@ -0,0 +1,239 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, JournalEntry } from './healthJournalTypes';
+import { DEFAULT_PREDICTION_SETTINGS, PredictionSettings } from './healthPredictionTypes';
+import { PREDICTION_SETTINGS_KEY } from './healthPredictionEngine';
+import { DEFAULT_SYMPTOM_SEVERITY } from './healthSymptoms';
+import { ENTRIES_STORE, withStore } from './healthJournalDB';
+import { getAttachmentBlob } from './healthJournalAttachments';
+import { getOutbox } from './syncOutbox';
+import { clearQuarantine, getQuarantinedRecords, runStartupMigrations, upgradeRecord } from './schemaMigrations';
+
+// The entry and attachment shapes the app saved before schema versions
+// existed (v0): whole entries in storage, files inline as data URLs
+interface BaselineAttachment {
+  id: string;
+  type: 'image' | 'document' | 'lab_result' | 'prescription';
+  fileName: string;
+  fileSize: number;
+  dataUrl: string;
+  caption?: string;
+  uploadedAt: number;
+}
+
+interface BaselineEntry {
+  id: string;
+  date: string;
+  mood: 1 | 2 | 3 | 4 | 5;
+  moodNote?: string;
+  symptoms: string[];
+  diet: string[];
+  sleepHours: number;
+  sleepQuality: 1 | 2 | 3 | 4 | 5;
+  activities: string[];
+  stressLevel: 1 | 2 | 3 | 4 | 5;
+  notes?: string;
+  attachments?: BaselineAttachment[];
+  createdAt: number;
+}
+
+const BASELINE_ATTACHMENT: BaselineAttachment = {
+  id: 'file-1',
+  type: 'lab_result',
+  fileName: 'lipids.txt',
+  fileSize: 5,
+  dataUrl: 'data:text/plain;base64,aGVsbG8=',
+  caption: 'Lipid panel',
+  uploadedAt: 1709280000000,
+};
+
+const V0_ENTRY: BaselineEntry = {
+  id: 'entry-v0',
+  date: '2024-03-01',
+  mood: 4,
+  symptoms: ['Headache', 'Nausea'],
+  diet: ['Coffee'],
+  sleepHours: 7.5,
+  sleepQuality: 3,
+  activities: [],
+  stressLevel: 3,
+  notes: 'Saved before schema versions',
+  attachments: [BASELINE_ATTACHMENT],
+  createdAt: 1709280000000,
+};
+
+// v1 stamped the same shape with a version
+const V1_ENTRY = { ...V0_ENTRY, id: 'entry-v1', attachments: [{ ...BASELINE_ATTACHMENT, id: 'file-2' }], schemaVersion: 1 };
+
+// v2 kept files in the blob store and only a reference on the entry
+const V2_ATTACHMENT = {
+  id: 'file-3',
+  type: 'document',
+  fileName: 'referral.pdf',
+  fileSize: 1024,
+  mimeType: 'application/pdf',
+  hasThumbnail: false,
+  uploadedAt: 1709280000000,
+};
+
+const V2_ENTRY = { ...V0_ENTRY, id: 'entry-v2', symptoms: ['Fatigue'], attachments: [V2_ATTACHMENT], schemaVersion: 2 };
+
+const V3_ENTRY = { ...V2_ENTRY, id: 'entry-v3', updatedAt: 1709424000000, schemaVersion: 3 };
+
+const upgradeEntry = async (raw: unknown): Promise<JournalEntry> => {
+  const result = await upgradeRecord<JournalEntry>('journalEntry', raw);
+  if (result.ok === false) throw new Error(result.errors.join('; '));
+  return result.record;
+};
+
+describe('upgradeRecord', () => {
+  it('upgrades an entry saved before schema versions through every migration', async () => {
+    const entry = await upgradeEntry(V0_ENTRY);
+
+    expect(entry).toMatchObject({
+      mood: 4,
+      sleepHours: 7.5,
+      symptoms: [
+        { name: 'Headache', severity: DEFAULT_SYMPTOM_SEVERITY },
+        { name: 'Nausea', severity: DEFAULT_SYMPTOM_SEVERITY },
+      ],
+      diet: ['Coffee'],
+      notes: 'Saved before schema versions',
+      createdAt: V0_ENTRY.createdAt,
+      updatedAt: V0_ENTRY.createdAt,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+    });
+  });
+
+  it('turns inline attachments into blob references that keep their file details', async () => {
+    for (const raw of [V0_ENTRY, V1_ENTRY]) {
+      const [inline] = raw.attachments;
+      const { attachments } = await upgradeEntry(raw);
+
+      expect(attachments).toEqual([{
+        id: inline.id,
+        type: 'lab_result',
+        fileName: 'lipids.txt',
+        fileSize: 5,
+        mimeType: 'text/plain',
+        hasThumbnail: false,
+        caption: 'Lipid panel',
+        uploadedAt: inline.uploadedAt,
+      }]);
+      const blob = await getAttachmentBlob(inline.id);
+      expect(await blob?.text()).toBe('hello');
+    }
+  });
+
+  it('moves the inline files of trashed attachments from a backup into the blob store', async () => {
+    const current = await upgradeEntry(V3_ENTRY);
+    const trashed = { ...BASELINE_ATTACHMENT, id: 'file-trashed', mimeType: 'text/plain', deletedAt: 1709380000000 };
+    const { trashedAttachments } = await upgradeEntry({ ...current, trashedAttachments: [trashed] });
+
+    expect(trashedAttachments).toEqual([expect.objectContaining({ id: 'file-trashed', fileName: 'lipids.txt', deletedAt: trashed.deletedAt })]);
+    expect(trashedAttachments?.[0]).not.toHaveProperty('dataUrl');
+    const blob = await getAttachmentBlob('file-trashed');
+    expect(await blob?.text()).toBe('hello');
+  });
+
+  it('keeps the blob references of a v2 entry', async () => {
+    const entry = await upgradeEntry(V2_ENTRY);
+    expect(entry.attachments).toEqual([V2_ATTACHMENT]);
+  });
+
+  it('stamps updatedAt on a v2 entry from createdAt', async () => {
+    const entry = await upgradeEntry(V2_ENTRY);
+    expect(entry.updatedAt).toBe(V2_ENTRY.createdAt);
+  });
+
+  it('turns the symptom names of a v3 entry into records', async () => {
+    const entry = await upgradeEntry(V3_ENTRY);
+    expect(entry.symptoms).toEqual([{ name: 'Fatigue', severity: DEFAULT_SYMPTOM_SEVERITY }]);
+    expect(entry.updatedAt).toBe(V3_ENTRY.updatedAt);
+  });
+
+  it('leaves a current entry as it is', async () => {
+    const current = await upgradeEntry(V3_ENTRY);
+    expect(await upgradeEntry(current)).toEqual(current);
+  });
+
+  it('fills in prediction settings saved before they were versioned', async () => {
+    const result = await upgradeRecord<PredictionSettings>('predictionSettings', { enabled: false });
+    expect(result).toEqual({
+      ok: true,
+      record: { ...DEFAULT_PREDICTION_SETTINGS, enabled: false, updatedAt: 0, schemaVersion: CURRENT_SCHEMA_VERSION },
+    });
+  });
+
+  it('rejects records that fail validation and returns them unchanged', async () => {
+    const invalid = { ...V0_ENTRY, mood: 9, date: '01/03/2024' };
+    const result = await upgradeRecord('journalEntry', invalid);
+
+    expect(result.ok).toBe(false);
+    if (result.ok === false) {
+      expect(result.errors).toEqual(['Invalid date', 'Mood must be 1-5']);
+      expect(result.record).toBe(invalid);
+    }
+  });
+
+  it('stores no files and queues no uploads for a record it rejects', async () => {
+    const invalid = { ...V0_ENTRY, mood: 9, attachments: [{ ...BASELINE_ATTACHMENT, id: 'file-rejected' }] };
+
+    expect(await upgradeRecord('journalEntry', invalid)).toMatchObject({ ok: false });
+    expect(await getAttachmentBlob('file-rejected')).toBeNull();
+    expect((await getOutbox()).map(change => change.recordId)).not.toContain('file-rejected');
+  });
+
+  it('rejects records written by a newer app version', async () => {
+    const result = await upgradeRecord('journalEntry', { ...V3_ENTRY, schemaVersion: CURRENT_SCHEMA_VERSION + 1 });
+    expect(result).toMatchObject({ ok: false, errors: [`Written by a newer app version (schema v${CURRENT_SCHEMA_VERSION + 1})`] });
+  });
+
+  it('rejects values that are not records', async () => {
+    expect(await upgradeRecord('journalEntry', 'not an entry')).toMatchObject({ ok: false, errors: ['Record is not an object'] });
+  });
+});
+
+describe('runStartupMigrations', () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await clearQuarantine();
+    await withStore(ENTRIES_STORE, 'readwrite', store => store.clear());
+  });
+
+  it('upgrades stored records and quarantines the ones that cannot be upgraded', async () => {
+    const broken = { ...V0_ENTRY, id: 'entry-broken', attachments: [], mood: 0 };
+    await withStore(ENTRIES_STORE, 'readwrite', store => {
+      store.put(V0_ENTRY);
+      store.put(V3_ENTRY);
+      store.put(broken);
+    });
+    localStorage.setItem(PREDICTION_SETTINGS_KEY, '{not json');
+
+    const report = await runStartupMigrations();
+
+    expect(report).toEqual({ upgraded: 2, quarantined: 2 });
+    const stored = await withStore<JournalEntry[]>(ENTRIES_STORE, 'readonly', store => store.getAll());
+    expect(stored.map(entry => [entry.id, entry.schemaVersion]).sort()).toEqual([
+      ['entry-v0', CURRENT_SCHEMA_VERSION],
+      ['entry-v3', CURRENT_SCHEMA_VERSION],
+    ]);
+    expect(localStorage.getItem(PREDICTION_SETTINGS_KEY)).toBeNull();
+
+    const quarantined = await getQuarantinedRecords();
+    expect(quarantined.map(({ kind, source, errors }) => ({ kind, source, errors })).sort((a, b) => a.kind.localeCompare(b.kind)))
+      .toEqual([
+        { kind: 'journalEntry', source: ENTRIES_STORE, errors: ['Mood must be 1-5'] },
+        { kind: 'predictionSettings', source: PREDICTION_SETTINGS_KEY, errors: ['Not valid JSON'] },
+      ]);
+    expect(quarantined.find(record => record.kind === 'journalEntry')?.record).toEqual(broken);
+  });
+
+  it('runs once per schema version', async () => {
+    await runStartupMigrations();
+    await withStore(ENTRIES_STORE, 'readwrite', store => store.put(V0_ENTRY));
+
+    expect(await runStartupMigrations()).toEqual({ upgraded: 0, quarantined: 0 });
+  });
+});
@@ -0,0 +1,576 @@
+// Versioned schema and startup migrations for persisted BioGuard data
+import { Attachment, CURRENT_SCHEMA_VERSION, JournalEntry, MealType, MenstrualFlow, TrackerType } from './healthJournalTypes';
+import { MEAL_TYPES } from './healthNutrition';
+import { MAX_PAIN_INTENSITY, MIN_PAIN_INTENSITY, isBodyRegion } from './bodyMap';
+import { ENTRIES_STORE, QUARANTINE_STORE, openJournalDB, requestToPromise, transactionDone, withStore } from './healthJournalDB';
+import { DEFAULT_PREDICTION_SETTINGS } from './healthPredictionTypes';
+import { PREDICTION_SETTINGS_KEY } from './healthPredictionEngine';
+import { DEFAULT_REMINDER_SETTINGS, REMINDER_STORAGE_KEY } from './healthJournalReminders';
+import { getStoredWeatherKeys } from './weatherApi';
+import { MEDICATIONS_KEY } from './healthMedications';
+import { TRACKERS_KEY, TRACKER_TYPES } from './healthTrackers';
+import { INTAKE_KEY, INTAKE_KINDS } from './healthIntake';
+import { DEFAULT_SYMPTOM_SEVERITY, MAX_SEVERITY, MIN_SEVERITY } from './healthSymptoms';
+import { FLOW_LEVELS } from './healthCycle';
+import { deleteConflict, getConflicts, saveConflict } from './journalConflicts';
+import { detachInlineAttachments } from './healthJournalAttachments';
+import { decodeEntryRecord, encodeEntryRecord } from './healthJournalStorage';
+import { decryptValue, encryptValue, isEncryptedPayload, isVaultEnabled, isVaultLocked } from './healthJournalVault';
+import { secureGetItem, secureSetItem } from './secureStorage';
+import { scopedStorage } from './storageScope';
+
+// Marks the version every persisted record has been upgraded to
+const SCHEMA_VERSION_KEY = 'bioguard_schema_version';
+
+export type PersistedKind =
+  | 'journalEntry'
+  | 'predictionSettings'
+  | 'reminderSettings'
+  | 'weather'
+  | 'medicationList'
+  | 'trackerList'
+  | 'intakeLog';
+
+type PersistedRecord = Record<string, unknown>;
+
+type MigrationStep = (record: PersistedRecord) => PersistedRecord | Promise<PersistedRecord>;
+
+interface SchemaMigration {
+  version: number; // Version the record has after this migration runs
+  description: string;
+  steps: Partial<Record<PersistedKind, MigrationStep>>;
+}
+
+export interface QuarantinedRecord {
+  id: string;
+  kind: PersistedKind;
+  source: string; // Where the record came from (storage key, import file...)
+  record: unknown;
+  errors: string[];
+  quarantinedAt: number;
+}
+
+export type UpgradeResult<T> =
+  | { ok: true; record: T }
+  | { ok: false; errors: string[]; record: unknown };
+
+export interface MigrationReport {
+  upgraded: number;
+  quarantined: number;
+}
+
+const isObject = (value: unknown): value is PersistedRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): unknown => {
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return value;
+};
+
+const toStringList = (value: unknown): unknown => {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+  return value;
+};
+
+const dataUrlMimeType = (dataUrl?: string): string =>
+  dataUrl?.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+
+// Ordered list of migrations. Never edit a shipped migration; append a new one
+// and bump CURRENT_SCHEMA_VERSION instead.
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Stamp unversioned records and normalise the original shapes',
+    steps: {
+      journalEntry: (record) => ({
+        ...record,
+        mood: toNumber(record.mood),
+        sleepHours: toNumber(record.sleepHours),
+        sleepQuality: toNumber(record.sleepQuality ?? 3),
+        stressLevel: toNumber(record.stressLevel ?? 3),
+        symptoms: toStringList(record.symptoms),
+        diet: toStringList(record.diet),
+        activities: toStringList(record.activities),
+        createdAt: toNumber(record.createdAt) ?? (Date.parse(String(record.date)) || Date.now()),
+      }),
+      predictionSettings: (record) => ({ ...DEFAULT_PREDICTION_SETTINGS, ...record }),
+      reminderSettings: (record) => ({ ...DEFAULT_REMINDER_SETTINGS, ...record }),
+      weather: (record) => record,
+    },
+  },
+  {
+    version: 2,
+    description: 'Give inline attachments a MIME type; their files move to the blob store once the record is valid',
+    steps: {
+      journalEntry: (record) => ({
+        ...record,
+        attachments: Array.isArray(record.attachments)
+          ? (record.attachments as Attachment[]).map(attachment => ({
+              ...attachment,
+              mimeType: attachment.mimeType || dataUrlMimeType(attachment.dataUrl),
+            }))
+          : record.attachments,
+      }),
+    },
+  },
+  {
+    version: 3,
+    description: 'Add change timestamps for cloud sync',
+    steps: {
+      journalEntry: (record) => ({ ...record, updatedAt: record.updatedAt ?? record.createdAt }),
+      predictionSettings: (record) => ({ ...record, updatedAt: record.updatedAt ?? 0 }),
+    },
+  },
+  {
+    version: 4,
+    description: 'Turn symptom names into records with severity',
+    steps: {
+      journalEntry: (record) => ({
+        ...record,
+        symptoms: Array.isArray(record.symptoms)
+          ? record.symptoms.map(symptom =>
+              typeof symptom === 'string' ? { name: symptom, severity: DEFAULT_SYMPTOM_SEVERITY } : symptom
+            )
+          : record.symptoms,
+      }),
+    },
+  },
+];
+
+const isIntInRange = (value: unknown, min: number, max: number): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const isStringArray = (value: unknown): boolean =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isSymptomRecord = (value: unknown): boolean =>
+  isObject(value) && typeof value.name === 'string' && value.name.trim() !== '' &&
+  isIntInRange(value.severity, MIN_SEVERITY, MAX_SEVERITY) &&
+  (value.durationMinutes === undefined || (typeof value.durationMinutes === 'number' && value.durationMinutes >= 0));
+
+const VALIDATORS: Record<PersistedKind, (record: PersistedRecord) => string[]> = {
+  journalEntry: (record) => {
+    const errors: string[] = [];
+    if (typeof record.id !== 'string' || !record.id) errors.push('Missing id');
+    if (typeof record.date !== 'string' || !ISO_DATE.test(record.date)) errors.push('Invalid date');
+    if (record.time !== undefined && (typeof record.time !== 'string' || !TIME_OF_DAY.test(record.time))) {
+      errors.push('Check-in time must be HH:MM');
+    }
+    if (!isIntInRange(record.mood, 1, 5)) errors.push('Mood must be 1-5');
+    if (typeof record.sleepHours !== 'number' || record.sleepHours < 0 || record.sleepHours > 24) {
+      errors.push('Sleep hours must be between 0 and 24');
+    }
+    if (!isIntInRange(record.sleepQuality, 1, 5)) errors.push('Sleep quality must be 1-5');
+    if (record.bedtime !== undefined && (typeof record.bedtime !== 'string' || !TIME_OF_DAY.test(record.bedtime))) {
+      errors.push('Bedtime must be HH:MM');
+    }
+    if (record.wakeTime !== undefined && (typeof record.wakeTime !== 'string' || !TIME_OF_DAY.test(record.wakeTime))) {
+      errors.push('Wake time must be HH:MM');
+    }
+    if (!isIntInRange(record.stressLevel, 1, 5)) errors.push('Stress level must be 1-5');
+    if (!Array.isArray(record.symptoms) || !record.symptoms.every(isSymptomRecord)) {
+      errors.push('Symptoms must be a list of named symptoms with a severity of 0-10');
+    }
+    if (record.menstrualFlow !== undefined && !FLOW_LEVELS.includes(record.menstrualFlow as MenstrualFlow)) {
+      errors.push(`Menstrual flow must be one of ${FLOW_LEVELS.join(', ')}`);
+    }
+    if (record.trackerValues !== undefined && (!isObject(record.trackerValues) ||
+      !Object.values(record.trackerValues).every(v => ['boolean', 'number', 'string'].includes(typeof v)))) {
+      errors.push('Tracker values must be yes/no, numbers or text');
+    }
+    if (record.tags !== undefined && !isStringArray(record.tags)) errors.push('Tags must be a list of tag ids');
+    if (!isStringArray(record.diet)) errors.push('Diet must be a list of strings');
+    if (!isStringArray(record.activities)) errors.push('Activities must be a list of strings');
+    (['attachments', 'trashedAttachments'] as const).forEach(field => {
+      const list = record[field];
+      if (list === undefined) return;
+      if (!Array.isArray(list)) {
+        errors.push(`${field} must be a list`);
+      } else if (!list.every(a => isObject(a) && typeof a.id === 'string')) {
+        errors.push(`Every item in ${field} needs an id`);
+      }
+    });
+    if (record.vitals !== undefined) {
+      if (!Array.isArray(record.vitals)) {
+        errors.push('vitals must be a list');
+      } else if (!record.vitals.every(v =>
+        isObject(v) && typeof v.id === 'string' && typeof v.type === 'string' && typeof v.value === 'number' &&
+        typeof v.unit === 'string' && typeof v.takenAt === 'number'
+      )) {
+        errors.push('Every vital reading needs an id, type, value, unit and time');
+      }
+    }
+    if (record.labResults !== undefined) {
+      if (!Array.isArray(record.labResults)) {
+        errors.push('labResults must be a list');
+      } else if (!record.labResults.every(r =>
+        isObject(r) && typeof r.id === 'string' && typeof r.testName === 'string' && typeof r.value === 'number' &&
+        typeof r.unit === 'string' && typeof r.collectedOn === 'string' && ISO_DATE.test(r.collectedOn) &&
+        (r.referenceLow === undefined || typeof r.referenceLow === 'number') &&
+        (r.referenceHigh === undefined || typeof r.referenceHigh === 'number')
+      )) {
+        errors.push('Every lab result needs an id, test name, numeric value, unit and collection date');
+      }
+    }
+    if (record.medicationDoses !== undefined) {
+      if (!Array.isArray(record.medicationDoses)) {
+        errors.push('medicationDoses must be a list');
+      } else if (!record.medicationDoses.every(d =>
+        isObject(d) && typeof d.id === 'string' && typeof d.medicationId === 'string' && typeof d.name === 'string' &&
+        (d.status === 'taken' || d.status === 'skipped') && typeof d.time === 'number'
+      )) {
+        errors.push('Every medication dose needs an id, medication, status and time');
+      }
+    }
+    if (record.painRegions !== undefined) {
+      if (!Array.isArray(record.painRegions)) {
+        errors.push('painRegions must be a list');
+      } else if (!record.painRegions.every(p =>
+        isObject(p) && typeof p.region === 'string' && isBodyRegion(p.region) &&
+        typeof p.intensity === 'number' && p.intensity >= MIN_PAIN_INTENSITY && p.intensity <= MAX_PAIN_INTENSITY
+      )) {
+        errors.push(`Every pain region needs a known body map region and an intensity from ${MIN_PAIN_INTENSITY}-${MAX_PAIN_INTENSITY}`);
+      }
+    }
+    if (record.meals !== undefined) {
+      if (!Array.isArray(record.meals)) {
+        errors.push('meals must be a list');
+      } else if (!record.meals.every(m =>
+        isObject(m) && typeof m.id === 'string' && MEAL_TYPES.includes(m.type as MealType) &&
+        typeof m.time === 'string' && TIME_OF_DAY.test(m.time) && Array.isArray(m.items) &&
+        m.items.every(item => isObject(item) && typeof item.id === 'string' && typeof item.name === 'string' &&
+          typeof item.quantity === 'number' && (item.nutrients === undefined || isObject(item.nutrients)))
+      )) {
+        errors.push('Every meal needs an id, type, time and items with a name and quantity');
+      }
+    }
+    if (record.deletedAt !== undefined && typeof record.deletedAt !== 'number') {
+      errors.push('Invalid deletion time');
+    }
+    if (typeof record.createdAt !== 'number') errors.push('Missing creation time');
+    if (record.updatedAt !== undefined && typeof record.updatedAt !== 'number') {
+      errors.push('Invalid update time');
+    }
+    return errors;
+  },
+  predictionSettings: (record) => {
+    const errors: string[] = [];
+    if (typeof record.enabled !== 'boolean') errors.push('enabled must be a boolean');
+    if (typeof record.minConfidence !== 'number' || record.minConfidence < 0 || record.minConfidence > 1) {
+      errors.push('minConfidence must be between 0 and 1');
+    }
+    if (!isIntInRange(record.daysToPredict, 1, 7)) errors.push('daysToPredict must be 1-7');
+    if (record.detectors !== undefined && (!isObject(record.detectors) ||
+      !Object.values(record.detectors).every(enabled => typeof enabled === 'boolean'))) {
+      errors.push('detectors must map detector ids to on or off');
+    }
+    return errors;
+  },
+  reminderSettings: (record) => {
+    const errors: string[] = [];
+    if (typeof record.enabled !== 'boolean') errors.push('enabled must be a boolean');
+    if (typeof record.time !== 'string' || !/^\d{2}:\d{2}$/.test(record.time)) errors.push('time must be HH:MM');
+    return errors;
+  },
+  medicationList: (record) => {
+    const errors: string[] = [];
+    if (!Array.isArray(record.medications)) {
+      errors.push('medications must be a list');
+    } else if (!record.medications.every(m =>
+      isObject(m) && typeof m.id === 'string' && typeof m.name === 'string' && isStringArray(m.scheduleTimes) &&
+      typeof m.updatedAt === 'number'
+    )) {
+      errors.push('Every medication needs an id, name, schedule and update time');
+    }
+    if (typeof record.updatedAt !== 'number') errors.push('Missing update time');
+    return errors;
+  },
+  trackerList: (record) => {
+    const errors: string[] = [];
+    if (!Array.isArray(record.trackers)) {
+      errors.push('trackers must be a list');
+    } else if (!record.trackers.every(t =>
+      isObject(t) && typeof t.id === 'string' && typeof t.name === 'string' &&
+      TRACKER_TYPES.includes(t.type as TrackerType) && typeof t.order === 'number' && typeof t.updatedAt === 'number'
+    )) {
+      errors.push('Every tracker needs an id, name, type, position and update time');
+    }
+    if (!Array.isArray(record.tags)) {
+      errors.push('tags must be a list');
+    } else if (!record.tags.every(t =>
+      isObject(t) && typeof t.id === 'string' && typeof t.name === 'string' &&
+      typeof t.order === 'number' && typeof t.updatedAt === 'number'
+    )) {
+      errors.push('Every tag needs an id, name, position and update time');
+    }
+    if (typeof record.updatedAt !== 'number') errors.push('Missing update time');
+    return errors;
+  },
+  intakeLog: (record) => {
+    const errors: string[] = [];
+    if (!isObject(record.days)) {
+      errors.push('days must be an object');
+    } else if (!Object.values(record.days).every(day =>
+      isObject(day) && typeof day.updatedAt === 'number' &&
+      INTAKE_KINDS.every(kind => day[kind] === undefined || (typeof day[kind] === 'number' && (day[kind] as number) >= 0))
+    )) {
+      errors.push('Every day needs an update time and non-negative amounts');
+    }
+    if (!isObject(record.settings)) errors.push('settings must be an object');
+    if (typeof record.settingsUpdatedAt !== 'number') errors.push('Missing settings update time');
+    if (typeof record.updatedAt !== 'number') errors.push('Missing update time');
+    return errors;
+  },
+  weather: (record) => {
+    const errors: string[] = [];
+    ['temperature', 'humidity', 'pressure'].forEach(field => {
+      if (typeof record[field] !== 'number') errors.push(`${field} must be a number`);
+    });
+    if (typeof record.date !== 'string' || !ISO_DATE.test(record.date)) errors.push('Invalid date');
+    return errors;
+  },
+};
+
+// Steps that write outside the record (blobs, outbox uploads). They run only
+// for records that passed validation, so a quarantined record leaves nothing behind.
+const PERSIST_STEPS: Partial<Record<PersistedKind, MigrationStep>> = {
+  journalEntry: async (record) => ({
+    ...record,
+    attachments: await detachInlineAttachments(record.attachments as Attachment[] | undefined),
+    trashedAttachments: await detachInlineAttachments(record.trashedAttachments as Attachment[] | undefined),
+  }),
+};
+
+// Run every pending migration for one record, validate the result and only
+// then move its inline files into the blob store
+export const upgradeRecord = async <T>(kind: PersistedKind, raw: unknown): Promise<UpgradeResult<T>> => {
+  if (!isObject(raw)) {
+    return { ok: false, errors: ['Record is not an object'], record: raw };
+  }
+
+  const fromVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    return { ok: false, errors: [`Written by a newer app version (schema v${fromVersion})`], record: raw };
+  }
+
+  let record: PersistedRecord = { ...raw };
+  try {
+    for (const migration of SCHEMA_MIGRATIONS) {
+      if (migration.version <= fromVersion) continue;
+      const step = migration.steps[kind];
+      if (step) {
+        record = await step(record);
+      }
+      record.schemaVersion = migration.version;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { ok: false, errors: [`Migration failed: ${message}`], record: raw };
+  }
+
+  const errors = VALIDATORS[kind](record);
+  if (errors.length > 0) {
+    return { ok: false, errors, record: raw };
+  }
+
+  const persist = PERSIST_STEPS[kind];
+  if (persist) {
+    try {
+      record = await persist(record);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { ok: false, errors: [`Could not store attachments: ${message}`], record: raw };
+    }
+  }
+
+  return { ok: true, record: record as T };
+};
+
+export const createQuarantinedRecord = (
+  kind: PersistedKind,
+  source: string,
+  record: unknown,
+  errors: string[]
+): QuarantinedRecord => ({
+  id: `quarantine-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  kind,
+  source,
+  record,
+  errors,
+  quarantinedAt: Date.now(),
+});
+
+// Quarantined payloads hold health data too, so they follow vault mode
+const encodeQuarantinedRecord = async (record: QuarantinedRecord): Promise<QuarantinedRecord> =>
+  isVaultEnabled() ? { ...record, record: await encryptValue(record.record) } : record;
+
+const decodeQuarantinedRecord = async (record: QuarantinedRecord): Promise<QuarantinedRecord> =>
+  isEncryptedPayload(record.record) ? { ...record, record: await decryptValue(record.record) } : record;
+
+export const quarantineRecords = async (records: QuarantinedRecord[]): Promise<void> => {
+  if (records.length === 0) return;
+  const encoded = await Promise.all(records.map(encodeQuarantinedRecord));
+  await withStore(QUARANTINE_STORE, 'readwrite', store => {
+    encoded.forEach(record => store.put(record));
+  });
+};
+
+export const quarantineRecord = async (
+  kind: PersistedKind,
+  source: string,
+  record: unknown,
+  errors: string[]
+): Promise<void> => {
+  await quarantineRecords([createQuarantinedRecord(kind, source, record, errors)]);
+};
+
+export const getQuarantinedRecords = async (): Promise<QuarantinedRecord[]> => {
+  const records = await withStore<QuarantinedRecord[]>(QUARANTINE_STORE, 'readonly', store => store.getAll());
+  const decoded = await Promise.all((records || []).map(decodeQuarantinedRecord));
+  return decoded.sort((a, b) => b.quarantinedAt - a.quarantinedAt);
+};
+
+// Re-encode quarantined payloads so they match the current vault state
+export const rewriteQuarantinedRecords = async (): Promise<void> => {
+  const records = await getQuarantinedRecords();
+  await quarantineRecords(records);
+};
+
+export const deleteQuarantinedRecord = async (id: string): Promise<void> => {
+  await withStore(QUARANTINE_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const clearQuarantine = async (): Promise<void> => {
+  await withStore(QUARANTINE_STORE, 'readwrite', store => store.clear());
+};
+
+// Upgrade journal entries in IndexedDB, moving invalid ones to quarantine
+const migrateJournalEntries = async (report: MigrationReport): Promise<void> => {
+  const db = await openJournalDB();
+  const readTx = db.transaction(ENTRIES_STORE, 'readonly');
+  const storedEntries = await requestToPromise<unknown[]>(readTx.objectStore(ENTRIES_STORE).getAll());
+
+  const upgraded: unknown[] = [];
+  const quarantined: { id: IDBValidKey; record: QuarantinedRecord }[] = [];
+
+  for (const stored of storedEntries) {
+    // Encrypted records keep schemaVersion readable, so this skips them without decrypting
+    if (isObject(stored) && stored.schemaVersion === CURRENT_SCHEMA_VERSION) continue;
+
+    const raw = await decodeEntryRecord(stored);
+    const result = await upgradeRecord<JournalEntry>('journalEntry', raw);
+    if (result.ok === true) {
+      // Encode before opening the write transaction so it is not left idle
+      upgraded.push(await encodeEntryRecord(result.record));
+    } else {
+      quarantined.push({
+        id: (stored as PersistedRecord).id as IDBValidKey,
+        record: await encodeQuarantinedRecord(
+          createQuarantinedRecord('journalEntry', ENTRIES_STORE, raw, result.errors)
+        ),
+      });
+    }
+  }
+
+  if (upgraded.length === 0 && quarantined.length === 0) return;
+
+  const writeTx = db.transaction([ENTRIES_STORE, QUARANTINE_STORE], 'readwrite');
+  const entriesStore = writeTx.objectStore(ENTRIES_STORE);
+  const quarantineStore = writeTx.objectStore(QUARANTINE_STORE);
+
+  upgraded.forEach(entry => entriesStore.put(entry));
+  quarantined.forEach(({ id, record }) => {
+    entriesStore.delete(id);
+    quarantineStore.put(record);
+  });
+
+  await transactionDone(writeTx);
+
+  report.upgraded += upgraded.length;
+  report.quarantined += quarantined.length;
+};
+
+// Upgrade both versions held by open conflicts. The merged entry is already
+// saved, so a conflict whose versions cannot be upgraded is dropped.
+const migrateConflicts = async (report: MigrationReport): Promise<void> => {
+  for (const conflict of await getConflicts()) {
+    const versions = [conflict.local.schemaVersion, conflict.incoming.schemaVersion];
+    if (versions.every(version => version === CURRENT_SCHEMA_VERSION)) continue;
+
+    const local = await upgradeRecord<JournalEntry>('journalEntry', conflict.local);
+    const incoming = await upgradeRecord<JournalEntry>('journalEntry', conflict.incoming);
+    if (local.ok === true && incoming.ok === true) {
+      await saveConflict({ ...conflict, local: local.record, incoming: incoming.record });
+      report.upgraded++;
+    } else {
+      await deleteConflict(conflict.id);
+    }
+  }
+};
+
+// Upgrade a JSON record kept in localStorage; invalid records are quarantined
+// and removed so the owning module falls back to its defaults
+const migrateLocalRecord = async (kind: PersistedKind, key: string, report: MigrationReport): Promise<void> => {
+  const stored = scopedStorage.getItem(key);
+  if (stored === null) return;
+
+  let raw: unknown;
+  try {
+    raw = await secureGetItem(key);
+  } catch (error) {
+    const reason = error instanceof SyntaxError ? 'Not valid JSON' : 'Could not decrypt record';
+    await quarantineRecord(kind, key, stored, [reason]);
+    scopedStorage.removeItem(key);
+    report.quarantined++;
+    return;
+  }
+
+  if (isObject(raw) && raw.schemaVersion === CURRENT_SCHEMA_VERSION) return;
+
+  const result = await upgradeRecord(kind, raw);
+  if (result.ok === true) {
+    await secureSetItem(key, result.record);
+    report.upgraded++;
+  } else {
+    await quarantineRecord(kind, key, raw, result.errors);
+    scopedStorage.removeItem(key);
+    report.quarantined++;
+  }
+};
+
+// Bring every persisted record up to CURRENT_SCHEMA_VERSION. Runs once per
+// version bump, before the app renders. While the vault is locked this is a
+// no-op; the journal page runs it again after unlocking.
+export const runStartupMigrations = async (): Promise<MigrationReport> => {
+  const report: MigrationReport = { upgraded: 0, quarantined: 0 };
+
+  const storedVersion = Number(scopedStorage.getItem(SCHEMA_VERSION_KEY) || 0);
+  if (storedVersion >= CURRENT_SCHEMA_VERSION || isVaultLocked()) return report;
+
+  await migrateJournalEntries(report);
+  await migrateConflicts(report);
+  await migrateLocalRecord('predictionSettings', PREDICTION_SETTINGS_KEY, report);
+  await migrateLocalRecord('reminderSettings', REMINDER_STORAGE_KEY, report);
+  await migrateLocalRecord('medicationList', MEDICATIONS_KEY, report);
+  await migrateLocalRecord('trackerList', TRACKERS_KEY, report);
+  await migrateLocalRecord('intakeLog', INTAKE_KEY, report);
+  for (const key of getStoredWeatherKeys()) {
+    await migrateLocalRecord('weather', key, report);
+  }
+
+  scopedStorage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+
+  if (report.upgraded > 0 || report.quarantined > 0) {
+    console.info(`Schema migration: ${report.upgraded} upgraded, ${report.quarantined} quarantined`);
+  }
+
+  return report;
+};
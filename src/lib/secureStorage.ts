@@ -0,0 +1,28 @@
+// localStorage wrapper that encrypts values while vault mode is enabled
+import { decryptValue, encryptValue, isEncryptedPayload, isVaultEnabled } from './healthJournalVault';
+import { scopedStorage } from './storageScope';
+
+export const secureSetItem = async (key: string, value: unknown): Promise<void> => {
+  const payload = isVaultEnabled() ? await encryptValue(value) : value;
+  scopedStorage.setItem(key, JSON.stringify(payload));
+};
+
+// Returns null when the key is missing; throws on malformed JSON or when
+// the value is encrypted and the vault is locked
+export const secureGetItem = async <T>(key: string): Promise<T | null> => {
+  const stored = scopedStorage.getItem(key);
+  if (stored === null) return null;
+
+  const parsed = JSON.parse(stored);
+  return isEncryptedPayload(parsed) ? decryptValue<T>(parsed) : parsed;
+};
+
+// Read and write back each key so it matches the current vault state
+export const rewriteSecureItems = async (keys: string[]): Promise<void> => {
+  for (const key of keys) {
+    const value = await secureGetItem(key);
+    if (value !== null) {
+      await secureSetItem(key, value);
+    }
+  }
+};
@@ -0,0 +1,75 @@
+// Per-user and per-profile namespacing for everything kept in the browser.
+// Signed-out use and the default profile keep the original unprefixed keys
+// so existing local data stays visible.
+const USER_PREFIX = 'user:';
+const PROFILE_PREFIX = 'profile:';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+let scope: string | null = null;
+let activeProfileId = DEFAULT_PROFILE_ID;
+
+export const getStorageScope = (): string | null => scope;
+
+// Switch to another user's data; callers must reload anything already read
+export const setStorageScope = (userId: string | null): void => {
+  scope = userId;
+};
+
+export const getActiveProfileId = (): string => activeProfileId;
+
+// Switch to another profile of the current user; same caveat as above
+export const setActiveProfileId = (profileId: string): void => {
+  activeProfileId = profileId;
+};
+
+const userPrefix = (): string => (scope ? `${USER_PREFIX}${scope}:` : '');
+
+// Key for account-wide data shared by all profiles, e.g. the profile list
+export const accountKey = (key: string): string => `${userPrefix()}${key}`;
+
+export const profileScopedKey = (profileId: string, key: string): string =>
+  profileId === DEFAULT_PROFILE_ID ? accountKey(key) : accountKey(`${PROFILE_PREFIX}${profileId}:${key}`);
+
+export const scopedKey = (key: string): string => profileScopedKey(activeProfileId, key);
+
+// Full localStorage keys belonging to a profile of the current user
+const profileStorageKeys = (profileId: string): string[] => {
+  const prefix = profileScopedKey(profileId, '');
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !key.startsWith(prefix)) continue;
+
+    // Nested scopes share the prefix of the guest scope and default profile
+    const rest = key.slice(prefix.length);
+    if (!scope && rest.startsWith(USER_PREFIX)) continue;
+    if (profileId === DEFAULT_PROFILE_ID && rest.startsWith(PROFILE_PREFIX)) continue;
+    keys.push(key);
+  }
+  return keys;
+};
+
+export const clearProfileStorage = (profileId: string): void => {
+  profileStorageKeys(profileId).forEach(key => localStorage.removeItem(key));
+};
+
+// localStorage shared by all profiles of the current user
+export const accountStorage = {
+  getItem: (key: string): string | null => localStorage.getItem(accountKey(key)),
+  setItem: (key: string, value: string): void => localStorage.setItem(accountKey(key), value),
+  removeItem: (key: string): void => localStorage.removeItem(accountKey(key)),
+};
+
+// localStorage restricted to the current user and profile
+export const scopedStorage = {
+  getItem: (key: string): string | null => localStorage.getItem(scopedKey(key)),
+  setItem: (key: string, value: string): void => localStorage.setItem(scopedKey(key), value),
+  removeItem: (key: string): void => localStorage.removeItem(scopedKey(key)),
+
+  // Unprefixed names of the keys that belong to the current scope
+  keys: (): string[] => {
+    const prefixLength = scopedKey('').length;
+    return profileStorageKeys(activeProfileId).map(key => key.slice(prefixLength));
+  },
+};
@@ -1,4 +1,6 @@
 // Symptom analysis using the existing Supabase chat function
+import { CHAT_URL, SIGN_IN_REQUIRED_MESSAGE, getChatHeaders } from './chatApi';
+
 export interface SymptomAnalysis {
   conditions: string[];
   severity: "low" | "medium" | "high";
@@ -9,8 +11,6 @@ export interface SymptomAnalysis {
 
 export async function analyzeSymptoms(symptoms: string): Promise<SymptomAnalysis> {
   try {
-    const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`;
-    
     const analysisPrompt = `Analyze these symptoms and provide a medical assessment: ${symptoms}
 
 Please respond in the following JSON format only, without any additional text:
@@ -31,10 +31,7 @@ Guidelines:
 
     const response = await fetch(CHAT_URL, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-      },
+      headers: await getChatHeaders(),
       body: JSON.stringify({
         messages: [{ role: "user", content: analysisPrompt }],
         module: "predictguard"
@@ -100,6 +97,7 @@ Guidelines:
     };
   } catch (error) {
     console.error("Symptom analysis error:", error);
+    if (error instanceof Error && error.message === SIGN_IN_REQUIRED_MESSAGE) throw error;
     throw new Error("Unable to analyze symptoms. Please try again or consult a healthcare professional.");
   }
 }
@@ -0,0 +1,53 @@
+// Queue of local changes waiting to be pushed to the cloud
+import { OUTBOX_STORE, withStore } from './healthJournalDB';
+
+export type SyncKind = 'entry' | 'attachment' | 'predictionSettings' | 'medications' | 'trackers' | 'intake';
+
+// Writes that mirror remote data or only re-encode records pass
+// markChanged: false so they are not pushed back
+export interface WriteOptions {
+  markChanged?: boolean;
+}
+
+export interface OutboxItem {
+  key: string; // `${kind}:${recordId}`, so repeated edits collapse into one item
+  kind: SyncKind;
+  recordId: string;
+  deleted: boolean; // Tombstone: push a deletion instead of the record
+  queuedAt: number;
+}
+
+export const queueChanges = async (kind: SyncKind, recordIds: string[], deleted = false): Promise<void> => {
+  if (recordIds.length === 0) return;
+  const queuedAt = Date.now();
+  await withStore(OUTBOX_STORE, 'readwrite', store => {
+    recordIds.forEach(recordId => store.put({ key: `${kind}:${recordId}`, kind, recordId, deleted, queuedAt }));
+  });
+};
+
+export const getOutbox = async (): Promise<OutboxItem[]> => {
+  const items = await withStore<OutboxItem[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+  return (items || []).sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+export const getPendingChangeCount = async (): Promise<number> =>
+  withStore<number>(OUTBOX_STORE, 'readonly', store => store.count());
+
+// Remove pushed items, unless the record changed again while the push ran
+export const clearOutboxItems = async (items: OutboxItem[]): Promise<void> => {
+  if (items.length === 0) return;
+  await withStore(OUTBOX_STORE, 'readwrite', store => {
+    items.forEach(item => {
+      const request = store.get(item.key);
+      request.onsuccess = () => {
+        if (request.result?.queuedAt === item.queuedAt) {
+          store.delete(item.key);
+        }
+      };
+    });
+  });
+};
+
+export const clearOutbox = async (): Promise<void> => {
+  await withStore(OUTBOX_STORE, 'readwrite', store => store.clear());
+};
@@ -0,0 +1,114 @@
+// Synthetic journals with known, planted symptom patterns, for checking that
+// the prediction detectors find what is there and nothing that isn't
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import { JournalEntry, MedicationDose, MoodLevel, SymptomRecord } from './healthJournalTypes';
+
+export type PlantedPattern =
+  | { kind: 'weekly'; symptom: string; dayOfWeek: number; probability: number; severity?: number }
+  | { kind: 'monthly'; symptom: string; dayOfMonth: number; probability: number; severity?: number }
+  // The symptom follows the day after a skipped dose
+  | { kind: 'skippedDose'; symptom: string; medication: string; skipRate: number; probability: number; severity?: number }
+  // Background noise with no pattern to find
+  | { kind: 'random'; symptom: string; probability: number; severity?: number };
+
+export interface SyntheticJournalOptions {
+  days: number;
+  endDate?: string; // yyyy-MM-dd of the last entry; defaults to yesterday
+  seed?: number; // The same seed always gives the same journal
+  patterns: PlantedPattern[];
+}
+
+// A weekly headache, a monthly cramp, a skipped-dose migraine and some noise
+export const SAMPLE_PATTERNS: PlantedPattern[] = [
+  { kind: 'weekly', symptom: 'Headache', dayOfWeek: 1, probability: 0.8 },
+  { kind: 'monthly', symptom: 'Cramps', dayOfMonth: 14, probability: 0.9 },
+  { kind: 'skippedDose', symptom: 'Migraine', medication: 'Propranolol', skipRate: 0.15, probability: 0.7 },
+  { kind: 'random', symptom: 'Fatigue', probability: 0.15 },
+];
+
+// mulberry32: small, fast and good enough to make reproducible fixtures
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const DEFAULT_SEVERITY = 6;
+
+export const generateSyntheticJournal = ({
+  days,
+  endDate = format(subDays(new Date(), 1), 'yyyy-MM-dd'),
+  seed = 1,
+  patterns,
+}: SyntheticJournalOptions): JournalEntry[] => {
+  const random = createRandom(seed);
+  const chance = (probability: number) => random() < probability;
+  const between = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const severityAround = (severity = DEFAULT_SEVERITY) => Math.min(10, Math.max(1, severity + between(-1, 1)));
+
+  const start = subDays(parseISO(endDate), days - 1);
+  const skippedYesterday = new Set<string>();
+  const entries: JournalEntry[] = [];
+
+  for (let i = 0; i < days; i++) {
+    const day = addDays(start, i);
+    const date = format(day, 'yyyy-MM-dd');
+    const symptoms = new Map<string, SymptomRecord>();
+    const doses: MedicationDose[] = [];
+    const skippedToday = new Set<string>();
+
+    patterns.forEach(pattern => {
+      const add = () => symptoms.set(pattern.symptom, { name: pattern.symptom, severity: severityAround(pattern.severity) });
+      switch (pattern.kind) {
+        case 'weekly':
+          if (day.getDay() === pattern.dayOfWeek && chance(pattern.probability)) add();
+          break;
+        case 'monthly':
+          // Allow a day either side, as real monthly symptoms drift a little
+          if (Math.abs(day.getDate() - pattern.dayOfMonth) <= 1 && chance(pattern.probability / 3)) add();
+          break;
+        case 'skippedDose': {
+          if (skippedYesterday.has(pattern.medication) && chance(pattern.probability)) add();
+          const skipped = chance(pattern.skipRate);
+          if (skipped) skippedToday.add(pattern.medication);
+          doses.push({
+            id: `synthetic-dose-${date}-${pattern.medication}`,
+            medicationId: `synthetic-${pattern.medication.toLowerCase()}`,
+            name: pattern.medication,
+            status: skipped ? 'skipped' : 'taken',
+            time: day.getTime() + 8 * 60 * 60 * 1000,
+            scheduledTime: '08:00',
+          });
+          break;
+        }
+        case 'random':
+          if (chance(pattern.probability)) add();
+          break;
+      }
+    });
+
+    skippedYesterday.clear();
+    skippedToday.forEach(medication => skippedYesterday.add(medication));
+
+    entries.push({
+      id: `synthetic-${date}`,
+      date,
+      mood: (symptoms.size > 0 ? between(2, 3) : between(3, 5)) as MoodLevel,
+      symptoms: Array.from(symptoms.values()),
+      diet: [],
+      sleepHours: between(6, 9),
+      sleepQuality: between(2, 5) as JournalEntry['sleepQuality'],
+      activities: [],
+      stressLevel: between(1, 4) as JournalEntry['stressLevel'],
+      medicationDoses: doses.length > 0 ? doses : undefined,
+      createdAt: day.getTime(),
+    });
+  }
+
+  return entries;
+};
@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, JournalEntry } from './healthJournalTypes';
+import { ENTRIES_STORE, withStore } from './healthJournalDB';
+import { getJournalEntry, saveJournalEntry } from './healthJournalStorage';
+import { isEncryptedPayload, isVaultEnabled, isVaultLocked, lockVault } from './healthJournalVault';
+import { setStorageScope } from './storageScope';
+import { disableVault, enableVault } from './vaultSetup';
+
+const PASSPHRASE = 'correct horse battery';
+
+const ENTRY: JournalEntry = {
+  id: 'entry-1',
+  date: '2026-10-18',
+  mood: 4,
+  symptoms: [{ name: 'Headache', severity: 5 }],
+  diet: [],
+  sleepHours: 7,
+  sleepQuality: 3,
+  activities: [],
+  stressLevel: 2,
+  notes: 'Private note',
+  createdAt: Date.parse('2026-10-18T08:00:00.000Z'),
+  updatedAt: Date.parse('2026-10-18T08:00:00.000Z'),
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+};
+
+const storedRecord = () => withStore<Record<string, unknown>>(ENTRIES_STORE, 'readonly', store => store.get(ENTRY.id));
+
+let testRun = 0;
+
+beforeEach(async () => {
+  // A fresh scope per test gets its own database and vault config
+  setStorageScope(`vault-user-${++testRun}`);
+  await saveJournalEntry(ENTRY);
+  await enableVault(PASSPHRASE);
+});
+
+describe('disableVault', () => {
+  it('decrypts the journal back to plaintext', async () => {
+    expect(isEncryptedPayload((await storedRecord()).encrypted)).toBe(true);
+
+    await disableVault(PASSPHRASE);
+
+    expect(isVaultEnabled()).toBe(false);
+    expect(await storedRecord()).toMatchObject({ notes: 'Private note' });
+  });
+
+  it('unlocks a locked vault with the passphrase before decrypting', async () => {
+    lockVault();
+    expect(isVaultLocked()).toBe(true);
+
+    await disableVault(PASSPHRASE);
+
+    expect(isVaultEnabled()).toBe(false);
+    expect(await getJournalEntry(ENTRY.id)).toMatchObject({ notes: 'Private note' });
+  });
+
+  it('keeps a locked vault locked when the passphrase is wrong', async () => {
+    lockVault();
+
+    await expect(disableVault('wrong passphrase')).rejects.toThrow('Incorrect passphrase');
+
+    expect(isVaultEnabled()).toBe(true);
+    expect(isVaultLocked()).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+// Turn vault mode on or off by rewriting all stored journal data
+import { getAllJournalEntries, saveJournalEntries } from './healthJournalStorage';
+import { getStoredAttachmentIds, rewriteAttachmentBlobs } from './healthJournalAttachments';
+import { rewriteQuarantinedRecords } from './schemaMigrations';
+import { rewriteConflicts } from './journalConflicts';
+import { PREDICTION_SETTINGS_KEY, PREDICTION_SETTINGS_RECORD_ID, PREDICTION_STORAGE_KEY } from './healthPredictionEngine';
+import { PREDICTION_HISTORY_KEY } from './predictionFeedback';
+import { getStoredWeatherKeys } from './weatherApi';
+import { VITAL_TARGETS_KEY } from './healthVitals';
+import { MEDICATIONS_KEY, MEDICATIONS_RECORD_ID } from './healthMedications';
+import { TRACKERS_KEY, TRACKERS_RECORD_ID } from './healthTrackers';
+import { INTAKE_KEY, INTAKE_RECORD_ID } from './healthIntake';
+import { rewriteSecureItems } from './secureStorage';
+import { queueChanges } from './syncOutbox';
+import { activateVault, deactivateVault, isVaultEnabled, removeVault, unlockVault } from './healthJournalVault';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// Re-encode everything so it matches the current vault state. Reads accept
+// both plaintext and encrypted records, so an interrupted rewrite can be resumed.
+const rewriteAllData = async (): Promise<void> => {
+  const entries = await getAllJournalEntries();
+  await saveJournalEntries(entries, { markChanged: false });
+  await rewriteAttachmentBlobs();
+  await rewriteQuarantinedRecords();
+  await rewriteConflicts();
+  await rewriteSecureItems([
+    PREDICTION_SETTINGS_KEY,
+    PREDICTION_STORAGE_KEY,
+    PREDICTION_HISTORY_KEY,
+    VITAL_TARGETS_KEY,
+    MEDICATIONS_KEY,
+    TRACKERS_KEY,
+    INTAKE_KEY,
+    ...getStoredWeatherKeys(),
+  ]);
+
+  // Re-upload so cloud copies are encrypted (or decrypted) as well
+  await queueChanges('entry', entries.map(entry => entry.id));
+  await queueChanges('attachment', await getStoredAttachmentIds());
+  await queueChanges('predictionSettings', [PREDICTION_SETTINGS_RECORD_ID]);
+  await queueChanges('medications', [MEDICATIONS_RECORD_ID]);
+  await queueChanges('trackers', [TRACKERS_RECORD_ID]);
+  await queueChanges('intake', [INTAKE_RECORD_ID]);
+};
+
+export const enableVault = async (passphrase: string): Promise<void> => {
+  if (isVaultEnabled()) {
+    throw new Error('Vault is already enabled');
+  }
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  await activateVault(passphrase);
+  await rewriteAllData();
+};
+
+// Decrypt everything back to plaintext. A locked vault is unlocked with the
+// passphrase first, as the existing data can only be read with its key.
+export const disableVault = async (passphrase: string): Promise<void> => {
+  if (!(await unlockVault(passphrase))) {
+    throw new Error('Incorrect passphrase');
+  }
+
+  deactivateVault();
+  await rewriteAllData();
+  removeVault();
+};
@@ -1,5 +1,8 @@
 // Weather API Integration for Health Predictions
 // Using Open-Meteo (free, no API key required)
+import { CURRENT_SCHEMA_VERSION } from './healthJournalTypes';
+import { secureGetItem, secureSetItem } from './secureStorage';
+import { scopedStorage } from './storageScope';
 
 export interface WeatherData {
   temperature: number; // Celsius
@@ -10,12 +13,15 @@ export interface WeatherData {
   weatherCode: number; // WMO code
   uvIndex: number;
   date: string;
+  schemaVersion?: number;
 }
 
 export interface WeatherForecast extends WeatherData {
   daysAhead: number;
 }
 
+export const WEATHER_KEY_PREFIX = 'weather_';
+
 const WEATHER_API_BASE = "https://api.open-meteo.com/v1/forecast";
 const GEO_API_BASE = "https://geocoding-api.open-meteo.com/v1/search";
 
@@ -181,24 +187,23 @@ export const getWeatherDescription = (code: number): string => {
   return weatherCodes[code] || "Unknown";
 };
 
-// Store weather data with journal entry
-export const saveWeatherWithEntry = (entryDate: string, weather: WeatherData): void => {
-  const key = `weather_${entryDate}`;
-  localStorage.setItem(key, JSON.stringify(weather));
+// Store weather data with journal entry. Weather is kept per day, so every
+// check-in on that date shares it.
+export const saveWeatherWithEntry = async (entryDate: string, weather: WeatherData): Promise<void> => {
+  const key = `${WEATHER_KEY_PREFIX}${entryDate}`;
+  await secureSetItem(key, { ...weather, schemaVersion: CURRENT_SCHEMA_VERSION });
 };
 
+// Keys of every stored per-entry weather record
+export const getStoredWeatherKeys = (): string[] =>
+  scopedStorage.keys().filter(key => key.startsWith(WEATHER_KEY_PREFIX));
+
 // Get historical weather for an entry
-export const getWeatherForEntry = (entryDate: string): WeatherData | null => {
-  const key = `weather_${entryDate}`;
-  const data = localStorage.getItem(key);
-  
-  if (data) {
-    try {
-      return JSON.parse(data);
-    } catch {
-      return null;
-    }
+export const getWeatherForEntry = async (entryDate: string): Promise<WeatherData | null> => {
+  const key = `${WEATHER_KEY_PREFIX}${entryDate}`;
+  try {
+    return await secureGetItem<WeatherData>(key);
+  } catch {
+    return null;
   }
-  
-  return null;
 };
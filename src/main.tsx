@@ -1,5 +1,15 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { supabase } from "./integrations/supabase/client";
+import { runStartupMigrations } from "./lib/schemaMigrations";
+import { initializeScope } from "./lib/activeScope";
 
-createRoot(document.getElementById("root")!).render(<App />);
+// Scope local data to the signed-in user before anything reads it
+supabase.auth.getSession()
+  .then(({ data }) => initializeScope(data.session?.user.id ?? null))
+  .then(runStartupMigrations)
+  .catch((error) => console.error("Startup migrations failed:", error))
+  .finally(() => {
+    createRoot(document.getElementById("root")!).render(<App />);
+  });
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, LogOut, Mail, UserCircle } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/use-auth";
+
+const Auth = () => {
+  const { user, signInWithEmail, signOut } = useAuth();
+  const [email, setEmail] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const address = email.trim();
+    if (!address) {
+      toast.error("Please enter your email address");
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      await signInWithEmail(address);
+      setSentTo(address);
+    } catch (error) {
+      console.error("Sign-in error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send sign-in link");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      toast.success("Signed out");
+    } catch (error) {
+      console.error("Sign-out error:", error);
+      toast.error("Failed to sign out");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/20 p-4 md:p-8">
+      <div className="max-w-md mx-auto space-y-6">
+        <div className="text-center space-y-4 animate-fade-in">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-primary/10 rounded-2xl mb-4">
+            <UserCircle className="h-8 w-8 text-primary" />
+          </div>
+          <h1 className="text-3xl md:text-4xl font-bold">{user ? "Your Account" : "Sign In"}</h1>
+          <p className="text-muted-foreground">
+            {user
+              ? "Your journal data on this device is kept separate for each account"
+              : "Sign in to use AI features and sync your journal across devices"}
+          </p>
+        </div>
+
+        <Card className="p-6 shadow-card animate-slide-up space-y-4">
+          {user ? (
+            <>
+              <div>
+                <p className="text-sm text-muted-foreground">Signed in as</p>
+                <p className="font-medium break-all">{user.email}</p>
+              </div>
+              <Button variant="outline" className="w-full" onClick={handleSignOut}>
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign Out
+              </Button>
+            </>
+          ) : sentTo ? (
+            <div className="text-center space-y-3">
+              <Mail className="h-10 w-10 mx-auto text-primary" />
+              <p className="font-medium">Check your email</p>
+              <p className="text-sm text-muted-foreground">
+                We sent a sign-in link to <span className="font-medium">{sentTo}</span>.
+                Open it on this device to continue.
+              </p>
+              <Button variant="ghost" size="sm" onClick={() => setSentTo(null)}>
+                Use a different email
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSignIn} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  autoComplete="email"
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isSending}>
+                {isSending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Mail className="h-4 w-4 mr-2" />
+                )}
+                Email me a sign-in link
+              </Button>
+            </form>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Auth;
@@ -6,6 +6,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Pill, Activity, Brain, Dumbbell, Ambulance, DollarSign, Send, Loader2 } from "lucide-react";
 import { toast } from "sonner";
+import { CHAT_URL, SIGN_IN_REQUIRED_MESSAGE, getChatHeaders } from "@/lib/chatApi";
 
 type Message = { role: "user" | "assistant"; content: string };
 
@@ -52,7 +53,6 @@ const Chatbot = () => {
   }, [messages]);
 
   const streamChat = async (userMessage: string) => {
-    const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`;
     const newMessages = [...messages, { role: "user" as const, content: userMessage }];
     
     setMessages(newMessages);
@@ -61,13 +61,17 @@ const Chatbot = () => {
     try {
       const resp = await fetch(CHAT_URL, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
+        headers: await getChatHeaders(),
         body: JSON.stringify({ messages: newMessages, module }),
       });
 
+      if (resp.status === 401) {
+        toast.error("Your session has expired. Please sign in again.");
+        setMessages(newMessages);
+        setIsLoading(false);
+        return;
+      }
+
       if (resp.status === 429) {
         toast.error("Rate limit exceeded. Please try again later.");
         setIsLoading(false);
@@ -130,7 +134,9 @@ const Chatbot = () => {
       setIsLoading(false);
     } catch (error) {
       console.error("Chat error:", error);
-      toast.error("Failed to send message. Please try again.");
+      toast.error(error instanceof Error && error.message === SIGN_IN_REQUIRED_MESSAGE
+        ? error.message
+        : "Failed to send message. Please try again.");
       setMessages(newMessages);
       setIsLoading(false);
     }
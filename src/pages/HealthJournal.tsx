@@ -2,32 +2,88 @@ import { useState, useEffect } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { BookOpen, Plus, TrendingUp, Calendar, BarChart3, Settings } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { BookOpen, Plus, TrendingUp, Calendar, BarChart3, Settings, Lock, GitMerge, Trash2, Search } from "lucide-react";
 import JournalEntryForm from "@/components/HealthJournal/JournalEntryForm";
 import JournalHistory from "@/components/HealthJournal/JournalHistory";
+import JournalSearch from "@/components/HealthJournal/JournalSearch";
 import InsightsDashboard from "@/components/HealthJournal/InsightsDashboard";
 import ChartsView from "@/components/HealthJournal/ChartsView";
 import SettingsPanel from "@/components/HealthJournal/SettingsPanel";
+import VaultUnlockScreen from "@/components/HealthJournal/VaultUnlockScreen";
+import ConflictReview from "@/components/HealthJournal/ConflictReview";
+import TrashBin from "@/components/HealthJournal/TrashBin";
+import IntakeCounters from "@/components/HealthJournal/IntakeCounters";
 import { JournalEntry } from "@/lib/healthJournalTypes";
-import { getJournalEntries } from "@/lib/healthJournalStorage";
+import { getJournalEntries, purgeExpiredTrash } from "@/lib/healthJournalStorage";
+import { runStartupMigrations } from "@/lib/schemaMigrations";
+import { lockVault, touchVault } from "@/lib/healthJournalVault";
+import { useVault } from "@/hooks/use-vault";
+import { useJournalSync } from "@/hooks/use-journal-sync";
+import { useConflicts } from "@/hooks/use-conflicts";
+import { useProfiles } from "@/hooks/use-profiles";
+import { toast } from "sonner";
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "scroll"] as const;
 
 const HealthJournal = () => {
   const [activeTab, setActiveTab] = useState("overview");
   const [showEntryForm, setShowEntryForm] = useState(false);
   const [editingEntry, setEditingEntry] = useState<JournalEntry | null>(null);
   const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const { profiles, activeProfile } = useProfiles();
+  const vault = useVault();
+  const conflicts = useConflicts(!vault.locked);
 
   useEffect(() => {
-    loadEntries();
-  }, []);
+    if (vault.locked) {
+      // Drop decrypted data from memory while locked
+      setEntries([]);
+      setShowEntryForm(false);
+      setEditingEntry(null);
+      return;
+    }
+
+    // Migrations are skipped at startup while the vault is locked
+    runStartupMigrations()
+      .catch((error) => console.error("Schema migration failed:", error))
+      .then(() => purgeExpiredTrash())
+      .catch((error) => console.warn("Failed to purge expired trash:", error))
+      .finally(loadEntries);
+  }, [vault.locked]);
+
+  // Any interaction restarts the auto-lock countdown
+  useEffect(() => {
+    if (!vault.enabled || vault.locked) return;
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, touchVault, { passive: true }));
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, touchVault));
+    };
+  }, [vault.enabled, vault.locked]);
 
-  const loadEntries = () => {
-    const loadedEntries = getJournalEntries();
-    setEntries(loadedEntries.sort((a, b) => b.date.localeCompare(a.date)));
+  const loadEntries = async () => {
+    try {
+      const loadedEntries = await getJournalEntries();
+      setEntries(loadedEntries.sort((a, b) => b.date.localeCompare(a.date)));
+    } catch (error) {
+      console.error("Failed to load journal entries:", error);
+      toast.error("Could not load your journal entries");
+    }
   };
 
-  const handleEntrySaved = () => {
+  const syncNow = useJournalSync(loadEntries, !vault.locked);
+
+  // Reload after a local change and push it to the cloud
+  const handleEntriesChanged = () => {
     loadEntries();
+    syncNow();
+  };
+
+  const handleEntrySaved = () => {
+    handleEntriesChanged();
     setShowEntryForm(false);
     setEditingEntry(null);
   };
@@ -47,95 +103,148 @@ const HealthJournal = () => {
             <BookOpen className="h-8 w-8 text-white" />
           </div>
           <h1 className="text-3xl md:text-4xl font-bold">Health Journal</h1>
+          {profiles.length > 1 && activeProfile && (
+            <p className="font-medium text-primary">Journal for {activeProfile.name}</p>
+          )}
           <p className="text-muted-foreground max-w-2xl mx-auto">
             Track your daily health, mood, and activities. Discover patterns with AI-powered insights.
           </p>
+          {vault.enabled && !vault.locked && (
+            <Button variant="outline" size="sm" onClick={lockVault}>
+              <Lock className="h-4 w-4 mr-2" />
+              Lock Journal
+            </Button>
+          )}
         </div>
 
-        {/* Tabs Navigation */}
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="animate-slide-up">
-          <TabsList className="grid w-full grid-cols-5 mb-6">
-            <TabsTrigger value="overview" className="flex items-center gap-2">
-              <Plus className="h-4 w-4" />
-              <span className="hidden sm:inline">New Entry</span>
-            </TabsTrigger>
-            <TabsTrigger value="history" className="flex items-center gap-2">
-              <Calendar className="h-4 w-4" />
-              <span className="hidden sm:inline">History</span>
-            </TabsTrigger>
-            <TabsTrigger value="charts" className="flex items-center gap-2">
-              <BarChart3 className="h-4 w-4" />
-              <span className="hidden sm:inline">Charts</span>
-            </TabsTrigger>
-            <TabsTrigger value="insights" className="flex items-center gap-2">
-              <TrendingUp className="h-4 w-4" />
-              <span className="hidden sm:inline">Insights</span>
-            </TabsTrigger>
-            <TabsTrigger value="settings" className="flex items-center gap-2">
-              <Settings className="h-4 w-4" />
-              <span className="hidden sm:inline">Settings</span>
-            </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="overview" className="space-y-6">
-            {!showEntryForm && !editingEntry ? (
-              <Card className="p-8 text-center space-y-4">
-                <BookOpen className="h-16 w-16 mx-auto text-muted-foreground" />
-                <div>
-                  <h3 className="text-xl font-semibold mb-2">Create a Journal Entry</h3>
-                  <p className="text-muted-foreground mb-6">
-                    Log your mood, symptoms, diet, and sleep to track your health over time.
-                  </p>
-                </div>
-                <Button 
-                  onClick={() => setShowEntryForm(true)}
-                  size="lg"
-                  className="bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600"
-                >
-                  <Plus className="h-5 w-5 mr-2" />
-                  Add Entry
-                </Button>
+        {!vault.locked && conflicts.length > 0 && (
+          <Alert className="border-orange-200 bg-orange-50 dark:bg-orange-950/20">
+            <GitMerge className="h-4 w-4 text-orange-600" />
+            <AlertDescription className="flex items-center justify-between gap-4 text-sm text-orange-800 dark:text-orange-200">
+              <span>
+                {conflicts.length} {conflicts.length === 1 ? "entry was" : "entries were"} changed in two places and
+                need review.
+              </span>
+              <Button size="sm" variant="outline" onClick={() => setShowConflicts(true)}>
+                Review
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
 
-                {entries.length > 0 && (
-                  <div className="pt-6 border-t">
-                    <p className="text-sm text-muted-foreground">
-                      You have {entries.length} journal {entries.length === 1 ? 'entry' : 'entries'}
+        {vault.locked ? (
+          <VaultUnlockScreen />
+        ) : (
+          /* Tabs Navigation */
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="animate-slide-up">
+            <TabsList className="grid w-full grid-cols-6 mb-6">
+              <TabsTrigger value="overview" className="flex items-center gap-2">
+                <Plus className="h-4 w-4" />
+                <span className="hidden sm:inline">New Entry</span>
+              </TabsTrigger>
+              <TabsTrigger value="history" className="flex items-center gap-2">
+                <Calendar className="h-4 w-4" />
+                <span className="hidden sm:inline">History</span>
+              </TabsTrigger>
+              <TabsTrigger value="search" className="flex items-center gap-2">
+                <Search className="h-4 w-4" />
+                <span className="hidden sm:inline">Search</span>
+              </TabsTrigger>
+              <TabsTrigger value="charts" className="flex items-center gap-2">
+                <BarChart3 className="h-4 w-4" />
+                <span className="hidden sm:inline">Charts</span>
+              </TabsTrigger>
+              <TabsTrigger value="insights" className="flex items-center gap-2">
+                <TrendingUp className="h-4 w-4" />
+                <span className="hidden sm:inline">Insights</span>
+              </TabsTrigger>
+              <TabsTrigger value="settings" className="flex items-center gap-2">
+                <Settings className="h-4 w-4" />
+                <span className="hidden sm:inline">Settings</span>
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="overview" className="space-y-6">
+              {!showEntryForm && !editingEntry ? (
+                <Card className="p-8 text-center space-y-4">
+                  <BookOpen className="h-16 w-16 mx-auto text-muted-foreground" />
+                  <div>
+                    <h3 className="text-xl font-semibold mb-2">Create a Journal Entry</h3>
+                    <p className="text-muted-foreground mb-6">
+                      Log your mood, symptoms, diet, and sleep to track your health over time.
                     </p>
                   </div>
-                )}
-              </Card>
-            ) : (
-              <JournalEntryForm 
-                entry={editingEntry}
-                onSave={handleEntrySaved}
-                onCancel={() => {
-                  setShowEntryForm(false);
-                  setEditingEntry(null);
-                }}
+                  <Button 
+                    onClick={() => setShowEntryForm(true)}
+                    size="lg"
+                    className="bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600"
+                  >
+                    <Plus className="h-5 w-5 mr-2" />
+                    Add Entry
+                  </Button>
+
+                  {entries.length > 0 && (
+                    <div className="pt-6 border-t">
+                      <p className="text-sm text-muted-foreground">
+                        You have {entries.length} journal {entries.length === 1 ? 'entry' : 'entries'}
+                      </p>
+                    </div>
+                  )}
+                </Card>
+              ) : (
+                <JournalEntryForm 
+                  entry={editingEntry}
+                  onSave={handleEntrySaved}
+                  onCancel={() => {
+                    setShowEntryForm(false);
+                    setEditingEntry(null);
+                  }}
+                />
+              )}
+
+              <IntakeCounters />
+            </TabsContent>
+
+            <TabsContent value="history" className="space-y-4">
+              <div className="flex justify-end">
+                <Button variant="outline" size="sm" onClick={() => setShowTrash(true)}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Trash
+                </Button>
+              </div>
+              <JournalHistory 
+                entries={entries}
+                onEdit={handleEdit}
+                onDelete={handleEntriesChanged}
               />
-            )}
-          </TabsContent>
-
-          <TabsContent value="history">
-            <JournalHistory 
-              entries={entries}
-              onEdit={handleEdit}
-              onDelete={loadEntries}
-            />
-          </TabsContent>
-
-          <TabsContent value="charts">
-            <ChartsView entries={entries} />
-          </TabsContent>
-
-          <TabsContent value="insights">
-            <InsightsDashboard entries={entries} />
-          </TabsContent>
-
-          <TabsContent value="settings">
-            <SettingsPanel entries={entries} onImport={loadEntries} />
-          </TabsContent>
-        </Tabs>
+            </TabsContent>
+
+            <TabsContent value="search">
+              <JournalSearch entries={entries} onOpen={handleEdit} />
+            </TabsContent>
+
+            <TabsContent value="charts">
+              <ChartsView entries={entries} />
+            </TabsContent>
+
+            <TabsContent value="insights">
+              <InsightsDashboard entries={entries} />
+            </TabsContent>
+
+            <TabsContent value="settings">
+              <SettingsPanel entries={entries} onImport={handleEntriesChanged} />
+            </TabsContent>
+          </Tabs>
+        )}
+
+        <ConflictReview
+          open={showConflicts}
+          onOpenChange={setShowConflicts}
+          conflicts={conflicts}
+          onResolved={handleEntriesChanged}
+        />
+
+        <TrashBin open={showTrash} onOpenChange={setShowTrash} onChanged={handleEntriesChanged} />
       </div>
     </div>
   );
@@ -0,0 +1,76 @@
+-- Cloud copies of the BioGuard health journal, one set of rows per user.
+-- `data` holds the client record as JSON (or an encrypted payload when the
+-- user has vault mode on). `updated_at` is the client change time in ms and
+-- decides which copy wins; `server_updated_at` is the pull cursor.
+
+create table public.journal_entries (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  id text not null,
+  data jsonb,
+  deleted boolean not null default false,
+  updated_at bigint not null,
+  server_updated_at timestamptz not null default now(),
+  primary key (user_id, id)
+);
+
+create index journal_entries_user_server_updated_at_idx
+  on public.journal_entries (user_id, server_updated_at);
+
+create table public.prediction_settings (
+  user_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+  data jsonb not null,
+  updated_at bigint not null,
+  server_updated_at timestamptz not null default now()
+);
+
+create or replace function public.touch_server_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.server_updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger journal_entries_touch
+  before update on public.journal_entries
+  for each row execute function public.touch_server_updated_at();
+
+create trigger prediction_settings_touch
+  before update on public.prediction_settings
+  for each row execute function public.touch_server_updated_at();
+
+alter table public.journal_entries enable row level security;
+alter table public.prediction_settings enable row level security;
+
+create policy "Users manage their own journal entries"
+  on public.journal_entries for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users manage their own prediction settings"
+  on public.prediction_settings for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Attachment files live in a private bucket under `<user id>/<attachment id>`
+insert into storage.buckets (id, name, public)
+values ('journal-attachments', 'journal-attachments', false)
+on conflict (id) do nothing;
+
+create policy "Users read their own attachments"
+  on storage.objects for select
+  using (bucket_id = 'journal-attachments' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users upload their own attachments"
+  on storage.objects for insert
+  with check (bucket_id = 'journal-attachments' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users update their own attachments"
+  on storage.objects for update
+  using (bucket_id = 'journal-attachments' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users delete their own attachments"
+  on storage.objects for delete
+  using (bucket_id = 'journal-attachments' and (storage.foldername(name))[1] = auth.uid()::text);
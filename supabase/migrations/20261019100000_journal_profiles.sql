@@ -0,0 +1,40 @@
+-- Profiles: one account can keep journals for several people. Rows written
+-- before profiles existed belong to the 'default' profile.
+
+alter table public.journal_entries
+  add column profile_id text not null default 'default';
+
+alter table public.journal_entries
+  drop constraint journal_entries_pkey,
+  add primary key (user_id, profile_id, id);
+
+drop index public.journal_entries_user_server_updated_at_idx;
+
+create index journal_entries_user_profile_server_updated_at_idx
+  on public.journal_entries (user_id, profile_id, server_updated_at);
+
+alter table public.prediction_settings
+  add column profile_id text not null default 'default';
+
+alter table public.prediction_settings
+  drop constraint prediction_settings_pkey,
+  add primary key (user_id, profile_id);
+
+-- The profile list, one row per user. `data` holds the client's profile
+-- records including deletion tombstones.
+create table public.journal_profiles (
+  user_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+  data jsonb not null,
+  server_updated_at timestamptz not null default now()
+);
+
+create trigger journal_profiles_touch
+  before update on public.journal_profiles
+  for each row execute function public.touch_server_updated_at();
+
+alter table public.journal_profiles enable row level security;
+
+create policy "Users manage their own profiles"
+  on public.journal_profiles for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,22 @@
+-- Custom trackers and tags of each profile, one row per profile. `data` holds
+-- the client's tracker and tag records including deletion tombstones (or an
+-- encrypted payload when the user has vault mode on).
+create table public.tracker_lists (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  profile_id text not null default 'default',
+  data jsonb not null,
+  updated_at bigint not null,
+  server_updated_at timestamptz not null default now(),
+  primary key (user_id, profile_id)
+);
+
+create trigger tracker_lists_touch
+  before update on public.tracker_lists
+  for each row execute function public.touch_server_updated_at();
+
+alter table public.tracker_lists enable row level security;
+
+create policy "Users manage their own tracker lists"
+  on public.tracker_lists for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
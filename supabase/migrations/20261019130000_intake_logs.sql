@@ -0,0 +1,22 @@
+-- Daily water, caffeine and alcohol counters and their goals, one row per
+-- profile. `data` holds the client's per-day counts (or an encrypted payload
+-- when the user has vault mode on).
+create table public.intake_logs (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  profile_id text not null default 'default',
+  data jsonb not null,
+  updated_at bigint not null,
+  server_updated_at timestamptz not null default now(),
+  primary key (user_id, profile_id)
+);
+
+create trigger intake_logs_touch
+  before update on public.intake_logs
+  for each row execute function public.touch_server_updated_at();
+
+alter table public.intake_logs enable row level security;
+
+create policy "Users manage their own intake logs"
+  on public.intake_logs for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,31 @@
+-- Lists kept as one merged record per profile, one row per profile and kind:
+-- 'medications', 'trackers' (custom trackers and tags) and 'intake' (daily
+-- water, caffeine and alcohol counters). `data` holds the client's records
+-- including deletion tombstones; clients merge them record by record.
+create table public.journal_lists (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  profile_id text not null default 'default',
+  kind text not null,
+  data jsonb not null,
+  updated_at bigint not null,
+  server_updated_at timestamptz not null default clock_timestamp(),
+  primary key (user_id, profile_id, kind)
+);
+
+create trigger journal_lists_touch
+  before update on public.journal_lists
+  for each row execute function public.touch_server_updated_at();
+
+alter table public.journal_lists enable row level security;
+
+create policy "Users manage their own journal lists"
+  on public.journal_lists for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Medication lists were kept in their own table before
+insert into public.journal_lists (user_id, profile_id, kind, data, updated_at)
+select user_id, profile_id, 'medications', data, updated_at
+from public.medication_lists;
+
+drop table public.medication_lists;
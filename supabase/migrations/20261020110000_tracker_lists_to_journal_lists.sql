@@ -0,0 +1,6 @@
+-- Custom trackers and tags sync as the 'trackers' list in journal_lists
+insert into public.journal_lists (user_id, profile_id, kind, data, updated_at)
+select user_id, profile_id, 'trackers', data, updated_at
+from public.tracker_lists;
+
+drop table public.tracker_lists;
@@ -0,0 +1,6 @@
+-- Daily intake counters sync as the 'intake' list in journal_lists
+insert into public.journal_lists (user_id, profile_id, kind, data, updated_at)
+select user_id, profile_id, 'intake', data, updated_at
+from public.intake_logs;
+
+drop table public.intake_logs;
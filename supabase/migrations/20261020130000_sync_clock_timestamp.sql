@@ -0,0 +1,20 @@
+-- Stamp `server_updated_at` with clock_timestamp() rather than now(), the
+-- transaction start, so a long transaction can't stamp rows behind a cursor
+-- that has already moved on. A row can still commit after a later stamp has
+-- been read, so clients re-pull a short overlap window behind their cursor.
+-- Clients with vault mode on no longer sync, so `data` is written as plain
+-- JSON from here on.
+
+create or replace function public.touch_server_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.server_updated_at = clock_timestamp();
+  return new;
+end;
+$$;
+
+alter table public.journal_entries alter column server_updated_at set default clock_timestamp();
+alter table public.prediction_settings alter column server_updated_at set default clock_timestamp();
+alter table public.journal_profiles alter column server_updated_at set default clock_timestamp();